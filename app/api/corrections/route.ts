@@ -0,0 +1,35 @@
+import { getAuthAdapter } from '@/app/lib/auth';
+import { listOwnedSessions, loadOwnedSession, type SessionRecord } from '@/app/lib/sessions';
+import { collectCorrections, getCorrectedTerms, toVocabularyPrompt } from '@/app/lib/transcription';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The terms the signed-in user's transcript corrections introduced, with a vocabulary prompt built from them:
+ * GET /api/corrections, or GET /api/corrections?sessionId=... for one of their sessions.
+ * Only the aggregate is returned, never the transcripts themselves.
+ */
+export async function GET(request: Request) {
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    return Response.json({ error: 'Sign in to see corrections' }, { status: 401 });
+  }
+  const sessionId = new URL(request.url).searchParams.get('sessionId');
+
+  let sessions: SessionRecord[];
+  if (sessionId !== null) {
+    const session = await loadOwnedSession(sessionId, user.id);
+    if (!session) {
+      return Response.json({ error: `Session "${sessionId}" not found` }, { status: 404 });
+    }
+    sessions = [session];
+  } else {
+    const listed = await listOwnedSessions(user.id);
+    sessions = (await Promise.all(listed.map((item) => loadOwnedSession(item.id, user.id))))
+      .filter((session): session is SessionRecord => session !== null);
+  }
+
+  const corrections = sessions.flatMap((session) => collectCorrections(session.id, session.messages));
+  const terms = getCorrectedTerms(corrections);
+  return Response.json({ correctionCount: corrections.length, terms, vocabularyPrompt: toVocabularyPrompt(terms) });
+}
@@ -0,0 +1,88 @@
+import { getAuthAdapter } from '@/app/lib/auth';
+import { functionRegistry } from '@/app/lib/functions';
+import { checkDecisionHistorySize, getLLMProvider, isConversationTurn, type DecisionStreamLine } from '@/app/lib/llm';
+import { getClientIp, getRequestRateLimiter, getRequestRateLimitSubjects } from '@/app/lib/rate-limit';
+import { getRedactionPolicy, redactTurns } from '@/app/lib/redaction';
+import { getSessionStore, isValidSessionId } from '@/app/lib/sessions';
+import { recordUsageEvent } from '@/app/lib/usage';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('LLMDecideRoute');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Streams the LLM's decision as newline-delimited JSON: POST /api/llm/decide with { history, sessionId? }.
+ * Reply text arrives as it is generated, then the complete decision with any function calls.
+ * Callers must be signed in, requests count against per-user and per-IP limits, and the history is
+ * bounded in size. PII is masked first where the session's redaction policy keeps it out of prompts.
+ */
+export async function POST(request: Request) {
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    return Response.json({ error: 'Sign in to talk to the AI' }, { status: 401 });
+  }
+
+  let body: { history?: unknown; sessionId?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+  const { history, sessionId } = body;
+  if (!Array.isArray(history) || !history.every(isConversationTurn)) {
+    return Response.json({ error: 'history must be a list of conversation turns' }, { status: 400 });
+  }
+  if (sessionId !== undefined && typeof sessionId !== 'string') {
+    return Response.json({ error: 'sessionId must be a string' }, { status: 400 });
+  }
+  const sizeIssue = checkDecisionHistorySize(history);
+  if (sizeIssue) {
+    return Response.json({ error: sizeIssue }, { status: 413 });
+  }
+
+  const limit = getRequestRateLimiter().take(getRequestRateLimitSubjects('llm', user.id, await getClientIp()));
+  if (!limit.allowed) {
+    log.info('Rate limited decision for', limit.subject);
+    return Response.json(
+      { error: 'Too many AI requests in the last minute. Try again shortly.' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) } }
+    );
+  }
+
+  // The session may not be saved yet, but someone else's is never used for its policy or billed to
+  const session = sessionId && isValidSessionId(sessionId) ? await getSessionStore().load(sessionId) : null;
+  if (session && session.ownerId !== user.id) {
+    return Response.json({ error: `Session "${sessionId}" not found` }, { status: 404 });
+  }
+  const prompt = redactTurns(history, getRedactionPolicy(session?.metadata));
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (line: DecisionStreamLine) => controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+      try {
+        const provider = getLLMProvider();
+        log.debug('Streaming decision from', provider.name, 'turns:', history.length);
+        for await (const event of provider.streamDecision(prompt, { tools: functionRegistry.toToolDefinitions() })) {
+          if (event.type === 'decision' && event.decision.usage) {
+            await recordUsageEvent(user.id, sessionId, { type: 'llm_tokens', ...event.decision.usage });
+          }
+          send(event);
+        }
+      } catch (error) {
+        log.error('LLM decision failed:', error);
+        send({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
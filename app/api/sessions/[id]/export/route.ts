@@ -0,0 +1,34 @@
+import { getAuthAdapter } from '@/app/lib/auth';
+import { exportMessages, isExportFormat, EXPORT_FORMATS } from '@/app/lib/export';
+import { loadOwnedSession } from '@/app/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Downloads the transcript of one of the signed-in user's sessions: GET /api/sessions/:id/export?format=markdown|json|srt|vtt
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    return Response.json({ error: 'Sign in to export sessions' }, { status: 401 });
+  }
+  const format = new URL(request.url).searchParams.get('format') ?? 'markdown';
+
+  if (!isExportFormat(format)) {
+    return Response.json({ error: `Unknown export format "${format}". Expected one of: ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+  }
+
+  const session = await loadOwnedSession(id, user.id);
+  if (!session) {
+    return Response.json({ error: `Session "${id}" not found` }, { status: 404 });
+  }
+
+  const file = exportMessages(session.messages, format, { sessionId: session.id, title: session.title });
+  return new Response(file.content, {
+    headers: {
+      'Content-Type': file.mimeType,
+      'Content-Disposition': `attachment; filename="${file.filename}"`,
+    },
+  });
+}
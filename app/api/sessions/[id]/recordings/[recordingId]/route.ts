@@ -0,0 +1,46 @@
+import { getAuthAdapter } from '@/app/lib/auth';
+import { getRecordingStore, parseRange } from '@/app/lib/recordings';
+import { loadOwnedSession } from '@/app/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The audio of a recording of one of the signed-in user's sessions, with range support so players can seek:
+ * GET /api/sessions/:id/recordings/:recordingId. Audio is streamed from the store, a range at a time.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string; recordingId: string }> }) {
+  const { id, recordingId } = await params;
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    return Response.json({ error: 'Sign in to play recordings' }, { status: 401 });
+  }
+
+  const recording = (await loadOwnedSession(id, user.id)) ? await getRecordingStore().load(id, recordingId) : null;
+  if (!recording) {
+    return Response.json({ error: `Recording "${recordingId}" not found` }, { status: 404 });
+  }
+
+  const { info, size } = recording;
+  const headers = {
+    'Content-Type': info.mimeType,
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'private, max-age=3600',
+  };
+  const rangeHeader = request.headers.get('range');
+  if (!rangeHeader) {
+    return new Response(recording.read(), { headers: { ...headers, 'Content-Length': String(size) } });
+  }
+
+  const range = parseRange(rangeHeader, size);
+  if (!range) {
+    return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${size}` } });
+  }
+  return new Response(recording.read(range), {
+    status: 206,
+    headers: {
+      ...headers,
+      'Content-Length': String(range.end - range.start + 1),
+      'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+    },
+  });
+}
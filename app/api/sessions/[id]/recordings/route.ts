@@ -0,0 +1,83 @@
+import { getAuthAdapter } from '@/app/lib/auth';
+import { getMaxRecordingBytes, getRecordingStore, isValidRecordingId, readUpload } from '@/app/lib/recordings';
+import { loadOrCreateOwnedSession, loadOwnedSession } from '@/app/lib/sessions';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('API:recordings');
+
+export const dynamic = 'force-dynamic';
+
+// A MediaRecorder stops at the latest when the realtime session ends, after 30 minutes, so allow some slack
+const MAX_DURATION_MS = 60 * 60 * 1000;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * The recordings of one of the signed-in user's sessions: GET /api/sessions/:id/recordings
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    return Response.json({ error: 'Sign in to see recordings' }, { status: 401 });
+  }
+  if (!(await loadOwnedSession(id, user.id))) {
+    return Response.json({ error: `Session "${id}" not found` }, { status: 404 });
+  }
+  return Response.json({ recordings: await getRecordingStore().list(id) });
+}
+
+/**
+ * Saves a recording made in the browser to one of the signed-in user's sessions, creating the session if it is new:
+ * POST /api/sessions/:id/recordings?recordingId=...&startedAt=...&durationMs=...
+ * with the audio as the body and its type as Content-Type
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    return Response.json({ error: 'Sign in to save recordings' }, { status: 401 });
+  }
+
+  const query = new URL(request.url).searchParams;
+  const recordingId = query.get('recordingId') ?? '';
+  const startedAt = new Date(query.get('startedAt') ?? '');
+  const durationMs = Number(query.get('durationMs'));
+  const mimeType = request.headers.get('content-type') ?? '';
+
+  const issues: string[] = [];
+  if (!isValidRecordingId(recordingId)) issues.push('recordingId is missing or invalid');
+  if (Number.isNaN(startedAt.getTime())) issues.push('startedAt must be an ISO date');
+  if (!Number.isInteger(durationMs) || durationMs < 0 || durationMs > MAX_DURATION_MS) issues.push('durationMs is out of range');
+  if (!/^audio\/[\w.+-]+/.test(mimeType)) issues.push('Content-Type must be an audio type');
+  if (issues.length > 0) {
+    return Response.json({ error: 'Invalid recording', issues }, { status: 400 });
+  }
+
+  // Before reading the body, so nobody streams audio to a session they cannot save it to
+  try {
+    await loadOrCreateOwnedSession(id, user.id);
+  } catch {
+    return Response.json({ error: `Session "${id}" not found` }, { status: 404 });
+  }
+
+  const maxBytes = getMaxRecordingBytes();
+  if (Number(request.headers.get('content-length')) > maxBytes) {
+    return Response.json({ error: `Recordings are limited to ${maxBytes} bytes` }, { status: 413 });
+  }
+  const data = await readUpload(request.body, maxBytes);
+  if (!data || data.byteLength === 0) {
+    return Response.json({ error: `Recordings must have between 1 and ${maxBytes} bytes` }, { status: 413 });
+  }
+
+  try {
+    const info = await getRecordingStore().save(
+      { id: recordingId, sessionId: id, mimeType, startedAt: startedAt.toISOString(), durationMs, size: data.byteLength },
+      data
+    );
+    return Response.json({ recording: info }, { status: 201 });
+  } catch (error) {
+    log.error('Could not save recording:', error);
+    return Response.json({ error: 'Could not save the recording' }, { status: 500 });
+  }
+}
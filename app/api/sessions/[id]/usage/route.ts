@@ -0,0 +1,29 @@
+import { getAuthAdapter } from '@/app/lib/auth';
+import { isValidSessionId } from '@/app/lib/sessions';
+import { getUsagePricing, getUsageStore, summarizeUsage } from '@/app/lib/usage';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The signed-in user's usage of one session, with an estimated cost: GET /api/sessions/:id/usage
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    return Response.json({ error: 'Sign in to see usage' }, { status: 401 });
+  }
+  if (!isValidSessionId(id)) {
+    return Response.json({ error: `Session "${id}" not found` }, { status: 404 });
+  }
+
+  const pricing = getUsagePricing();
+  const records = await getUsageStore().list({ userId: user.id, sessionId: id });
+  return Response.json({
+    userId: user.id,
+    sessionId: id,
+    pricing,
+    summary: summarizeUsage(records, pricing),
+  });
+}
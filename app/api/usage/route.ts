@@ -0,0 +1,23 @@
+import { getAuthAdapter } from '@/app/lib/auth';
+import { getUsagePricing, getUsageStore, summarizeUsage, summarizeUsageBySession } from '@/app/lib/usage';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The signed-in user's usage across all sessions, with a breakdown per session: GET /api/usage
+ */
+export async function GET() {
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    return Response.json({ error: 'Sign in to see usage' }, { status: 401 });
+  }
+
+  const pricing = getUsagePricing();
+  const records = await getUsageStore().list({ userId: user.id });
+  return Response.json({
+    userId: user.id,
+    pricing,
+    summary: summarizeUsage(records, pricing),
+    sessions: summarizeUsageBySession(records, pricing),
+  });
+}
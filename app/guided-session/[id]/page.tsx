@@ -0,0 +1,82 @@
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { getAuthAdapter } from '../../lib/auth';
+import { getSessionStore, isValidSessionId } from '../../lib/sessions';
+import { getGuidedScript, isScriptRunState } from '../../lib/scripts';
+import { getRecordingStore } from '../../lib/recordings';
+import { getRedactionPolicy } from '../../lib/redaction';
+import { isStoredSummary } from '../../lib/summaries';
+import { isTransportKind } from '../../lib/transcription';
+import { isTranscriptionPresetName } from '../../lib/transcription/config';
+import GuidedSession from '../../lib/ui/guided-session/GuidedSession';
+import { createLogger } from '../../lib/logging';
+
+const log = createLogger('StoredGuidedSessionPage');
+
+interface StoredGuidedSessionPageProps {
+  params: Promise<{ id: string }>;
+  searchParams?: Promise<{ transport?: string; preset?: string; mode?: string; script?: string; message?: string; record?: string }>;
+}
+
+/**
+ * Restores one of the signed-in user's sessions so they can keep talking in it, or starts an empty one under
+ * a new ID, which is stored on its first save. Visitors who are not signed in are sent to sign in first.
+ * A session with a script run carries on with that script; ?script=intake starts one.
+ * ?message= scrolls to one of its messages, as search results on /sessions link to, and ?record=1 records audio.
+ * ?transport=replay plays back a recorded session, without a microphone or network, ?preset=noisy-room picks
+ * named transcription settings, and ?mode=push-to-talk starts in push-to-talk.
+ */
+export default async function StoredGuidedSessionPage({ params, searchParams }: StoredGuidedSessionPageProps) {
+  const { id } = await params;
+  log.debug('Rendering session:', id);
+
+  if (!isValidSessionId(id)) {
+    notFound();
+  }
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    redirect(`/sign-in?next=${encodeURIComponent(`/guided-session/${id}`)}`);
+  }
+  const session = await getSessionStore().load(id);
+  // Other users' sessions are never shown, nor ones stored before sessions had owners
+  if (session && session.ownerId !== user.id) {
+    notFound();
+  }
+
+  const { transport, preset, mode, script: requestedScriptId, message: focusMessageId, record } = (await searchParams) ?? {};
+  const scriptRun = session?.metadata.scriptRun;
+  const scriptId = requestedScriptId ?? (isScriptRunState(scriptRun) ? scriptRun.scriptId : undefined);
+  const script = scriptId ? getGuidedScript(scriptId) ?? undefined : undefined;
+  const recordings = session ? await getRecordingStore().list(id) : [];
+
+  return (
+    <div className="guided-session-page p-4 h-[calc(100vh-4rem)]">
+      <div className="flex items-center justify-center gap-4 mb-6">
+        <h1 className="text-2xl font-bold text-center">{session?.title ?? 'Guided Session'}</h1>
+        <Link href="/guided-session" prefetch={false} className="px-3 py-1 text-sm rounded border border-gray-300 dark:border-gray-600">
+          New session
+        </Link>
+        <Link href="/sessions" className="text-sm underline">
+          All sessions
+        </Link>
+      </div>
+      <GuidedSession
+        key={id}
+        sessionId={id}
+        title={session?.title}
+        initialMessages={session?.messages}
+        transport={isTransportKind(transport) ? transport : undefined}
+        transcriptionPreset={isTranscriptionPresetName(preset) ? preset : undefined}
+        transcriptionMode={mode === 'push-to-talk' ? 'push-to-talk' : undefined}
+        script={script}
+        initialScriptRun={script && isScriptRunState(scriptRun, script.id) ? scriptRun : undefined}
+        focusMessageId={focusMessageId}
+        initialSummary={isStoredSummary(session?.metadata.summary) ? session.metadata.summary : undefined}
+        recordAudio={record === '1'}
+        initialRecordings={recordings}
+        initialRedactionPolicy={getRedactionPolicy(session?.metadata)}
+        className="h-[calc(100%-4rem)]"
+      />
+    </div>
+  );
+}
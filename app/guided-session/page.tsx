@@ -1,21 +1,28 @@
-import GuidedSession from '../lib/ui/guided-session/GuidedSession';
+import { redirect } from 'next/navigation';
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '../lib/logging';
 
-export default function GuidedSessionPage() {
-  console.log('[GuidedSessionPage] Rendering page component');
-  
-  // This will run on the server during SSR and on the client after hydration
-  if (typeof window !== 'undefined') {
-    console.log('[GuidedSessionPage] Running in browser environment');
-  } else {
-    console.log('[GuidedSessionPage] Running in server environment (SSR)');
+const log = createLogger('GuidedSessionPage');
+
+// Every visit starts a session of its own, so never prerender this page
+export const dynamic = 'force-dynamic';
+
+interface GuidedSessionPageProps {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+}
+
+/**
+ * Starts a new session under an ID of its own, so visitors never share a transcript. The session is stored
+ * once something is said in it. Query parameters, e.g. ?script=intake, carry over to the session's page.
+ */
+export default async function GuidedSessionPage({ searchParams }: GuidedSessionPageProps) {
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries((await searchParams) ?? {})) {
+    if (typeof value === 'string') {
+      query.set(name, value);
+    }
   }
-  
-  return (
-    <div className="guided-session-page p-4 h-[calc(100vh-4rem)]">
-      <h1 className="text-2xl font-bold mb-6 text-center">Guided Session</h1>
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 h-[calc(100%-4rem)]">
-        <GuidedSession />
-      </div>
-    </div>
-  );
+  const id = uuidv4();
+  log.debug('Starting new session:', id);
+  redirect(`/guided-session/${id}${query.size > 0 ? `?${query}` : ''}`);
 }
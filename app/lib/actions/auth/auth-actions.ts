@@ -0,0 +1,42 @@
+'use server'
+
+import { redirect } from 'next/navigation';
+import { getAuthAdapter, getSafeRedirectPath, SignedCookieAuthAdapter, type AuthUser } from '@/app/lib/auth';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('ServerAction:auth');
+
+const NAME_PATTERN = /^[\p{L}\p{N} ._-]{1,40}$/u;
+
+export async function getCurrentUser(): Promise<AuthUser | null> {
+  return getAuthAdapter().getCurrentUser();
+}
+
+/**
+ * Local sign-in by name, for the signed-cookie adapter
+ */
+export async function signIn(formData: FormData): Promise<never> {
+  const adapter = getAuthAdapter();
+  if (!(adapter instanceof SignedCookieAuthAdapter)) {
+    throw new Error(`Sign-in by name is not available with the ${adapter.name} auth adapter`);
+  }
+
+  const name = String(formData.get('name') ?? '').trim();
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error('Names are 1 to 40 letters, digits, spaces, dots, dashes or underscores');
+  }
+
+  await adapter.signIn(name);
+  log.info('Signed in');
+
+  // Only same-site paths, so the form can't be used as an open redirect
+  redirect(getSafeRedirectPath(String(formData.get('next') ?? ''), '/guided-session'));
+}
+
+export async function signOut(): Promise<never> {
+  const adapter = getAuthAdapter();
+  if (adapter instanceof SignedCookieAuthAdapter) {
+    await adapter.signOut();
+  }
+  redirect('/sign-in');
+}
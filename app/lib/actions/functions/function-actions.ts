@@ -0,0 +1,46 @@
+'use server'
+
+import { getAuthAdapter } from '@/app/lib/auth';
+import { functionRegistry } from '@/app/lib/functions';
+import type { FunctionResult } from '@/app/lib/functions';
+import type { FunctionCall } from '@/app/lib/llm';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('ServerAction:functions');
+
+/**
+ * Validates and runs a standard function call on the server; callers must be signed in
+ */
+export async function executeStandardFunction(call: FunctionCall): Promise<FunctionResult> {
+  if (!(await getAuthAdapter().getCurrentUser())) {
+    throw new Error('Sign in to run functions');
+  }
+  log.debug('Executing:', call.name);
+
+  const fn = functionRegistry.get(call.name);
+  if (!fn || fn.kind !== 'standard') {
+    log.error('Not a standard function:', call.name);
+    return { callId: call.id, name: call.name, kind: fn?.kind ?? 'unknown', ok: false, error: `"${call.name}" is not a standard function` };
+  }
+
+  const validation = functionRegistry.validate(call);
+  if (!validation.ok) {
+    log.error('Invalid arguments:', validation.errors);
+    return { callId: call.id, name: call.name, kind: 'standard', ok: false, error: validation.errors.join('; ') };
+  }
+
+  try {
+    const result = await fn.execute(validation.args);
+    log.debug('Completed:', call.name);
+    return { callId: call.id, name: call.name, kind: 'standard', ok: true, result };
+  } catch (error) {
+    log.error('Function execution failed:', error);
+    return {
+      callId: call.id,
+      name: call.name,
+      kind: 'standard',
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
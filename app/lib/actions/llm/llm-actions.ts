@@ -0,0 +1,60 @@
+'use server'
+
+import { getAuthAdapter } from '@/app/lib/auth';
+import { functionRegistry } from '@/app/lib/functions';
+import { checkDecisionHistorySize, getLLMProvider, isConversationTurn } from '@/app/lib/llm';
+import type { ConversationTurn, LLMDecision } from '@/app/lib/llm';
+import { getClientIp, getRequestRateLimiter, getRequestRateLimitSubjects } from '@/app/lib/rate-limit';
+import { getRedactionPolicy, redactTurns } from '@/app/lib/redaction';
+import { getSessionStore, isValidSessionId } from '@/app/lib/sessions';
+import { recordUsageEvent } from '@/app/lib/usage';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('ServerAction:llm');
+
+/**
+ * Asks the configured LLM provider whether the conversation needs an AI chat reply, function calls, or both,
+ * all at once; POST /api/llm/decide streams the same decision as it is generated.
+ * Callers must be signed in, requests count against per-user and per-IP limits, and the history is bounded
+ * in size. Tokens spent are metered against sessionId when one is given.
+ */
+export async function decideResponse(history: ConversationTurn[], sessionId?: string): Promise<LLMDecision> {
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    throw new Error('Sign in to talk to the AI');
+  }
+  if (!Array.isArray(history) || !history.every(isConversationTurn)) {
+    throw new Error('history must be a list of conversation turns');
+  }
+  const sizeIssue = checkDecisionHistorySize(history);
+  if (sizeIssue) {
+    throw new Error(sizeIssue);
+  }
+  const limit = getRequestRateLimiter().take(getRequestRateLimitSubjects('llm', user.id, await getClientIp()));
+  if (!limit.allowed) {
+    log.info('Rate limited decision for', limit.subject);
+    throw new Error('Too many AI requests in the last minute. Try again shortly.');
+  }
+  const session = sessionId && isValidSessionId(sessionId) ? await getSessionStore().load(sessionId) : null;
+  if (session && session.ownerId !== user.id) {
+    throw new Error(`Session "${sessionId}" not found`);
+  }
+
+  log.debug('Starting decision, turns:', history.length);
+  try {
+    const prompt = redactTurns(history, getRedactionPolicy(session?.metadata));
+    const provider = getLLMProvider();
+    const decision = await provider.decide(prompt, { tools: functionRegistry.toToolDefinitions() });
+    log.debug('Decision from', provider.name, JSON.stringify({
+      hasReply: !!decision.reply,
+      functionCalls: decision.functionCalls.map((call) => call.name),
+    }));
+    if (decision.usage) {
+      await recordUsageEvent(user.id, sessionId, { type: 'llm_tokens', ...decision.usage });
+    }
+    return decision;
+  } catch (error) {
+    log.error('LLM decision failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,156 @@
+'use server'
+
+import { revalidatePath } from 'next/cache';
+import { getAuthAdapter, type AuthUser } from '@/app/lib/auth';
+import { getRecordingStore } from '@/app/lib/recordings';
+import { getRedactionPolicy, redactStoredMessage, validateRedactionPolicy } from '@/app/lib/redaction';
+import type { RedactionPolicy } from '@/app/lib/redaction';
+import { getGuidedScript, isScriptRunState } from '@/app/lib/scripts';
+import {
+  DEFAULT_SESSION_TITLE,
+  getSessionStore,
+  loadOrCreateOwnedSession,
+  loadOwnedSession,
+  validateStoredMessages,
+} from '@/app/lib/sessions';
+import type { SessionMetadata, SessionRecord, StoredMessage } from '@/app/lib/sessions';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('ServerAction:sessions');
+
+const TITLE_MAX_LENGTH = 60;
+const TAG_MAX_LENGTH = 32;
+const MAX_TAGS = 10;
+const MAX_METADATA_FIELD_CHARACTERS = 50_000;
+
+/**
+ * The metadata fields the client may set directly, with how to check each. Tags, summaries and redaction
+ * policies are validated by actions of their own.
+ */
+const CLIENT_METADATA_FIELDS: Record<string, (value: unknown) => boolean> = {
+  scriptRun: (value) => isScriptRunState(value) && getGuidedScript(value.scriptId) !== null,
+};
+
+async function requireUser(): Promise<AuthUser> {
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    throw new Error('Sign in to save sessions');
+  }
+  return user;
+}
+
+/**
+ * Deletes one of the user's sessions and its recordings; used as a form action on /sessions
+ */
+export async function deleteSession(id: string): Promise<void> {
+  const user = await requireUser();
+  log.debug('Deleting session:', id);
+  if (!(await loadOwnedSession(id, user.id))) {
+    log.warn('Cannot delete a session the user does not own:', id);
+    return;
+  }
+  if (await getSessionStore().delete(id)) {
+    await getRecordingStore().deleteAll(id);
+  }
+  revalidatePath('/sessions');
+}
+
+/**
+ * Replaces the messages of one of the user's sessions, creating the session on first save, with PII masked
+ * where the session's redaction policy keeps it out of persisted data.
+ * Messages are validated and capped in number and size. Untitled sessions are named after their first user message.
+ */
+export async function saveSessionMessages(id: string, messages: StoredMessage[]): Promise<SessionRecord> {
+  const user = await requireUser();
+  const validated = validateStoredMessages(messages);
+  log.debug('Saving', validated.length, 'messages to session:', id);
+  try {
+    const session = await loadOrCreateOwnedSession(id, user.id);
+    const policy = getRedactionPolicy(session.metadata);
+    const redacted = validated.map((message) => redactStoredMessage(message, policy, 'persisted'));
+    const firstUserMessage = redacted.find((message) => message.sender === 'user');
+    const title = session.title === DEFAULT_SESSION_TITLE && firstUserMessage
+      ? truncateTitle(firstUserMessage.content)
+      : session.title;
+
+    return await getSessionStore().save({ ...session, title, messages: redacted });
+  } catch (error) {
+    log.error('Could not save session messages:', error);
+    throw error;
+  }
+}
+
+function truncateTitle(text: string): string {
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…` : text;
+}
+
+async function mergeMetadata(id: string, user: AuthUser, metadata: SessionMetadata): Promise<SessionRecord> {
+  log.debug('Saving metadata to session:', id, 'fields:', Object.keys(metadata).join(', '));
+  try {
+    const session = await loadOrCreateOwnedSession(id, user.id);
+    return await getSessionStore().save({ ...session, metadata: { ...session.metadata, ...metadata } });
+  } catch (error) {
+    log.error('Could not save session metadata:', error);
+    throw error;
+  }
+}
+
+/**
+ * Merges fields into the metadata of one of the user's sessions, creating the session on first save.
+ * Only fields in CLIENT_METADATA_FIELDS are accepted, each checked and capped in size.
+ */
+export async function saveSessionMetadata(id: string, metadata: SessionMetadata): Promise<SessionRecord> {
+  const user = await requireUser();
+  const issues = Object.entries(metadata).flatMap(([field, value]) => {
+    const isValid = CLIENT_METADATA_FIELDS[field];
+    if (!isValid) {
+      return [`${field} cannot be set here`];
+    }
+    if (!isValid(value) || JSON.stringify(value).length > MAX_METADATA_FIELD_CHARACTERS) {
+      return [`${field} is not valid`];
+    }
+    return [];
+  });
+  if (issues.length > 0) {
+    throw new Error(`Invalid session metadata: ${issues.join('; ')}`);
+  }
+  return mergeMetadata(id, user, metadata);
+}
+
+/**
+ * Replaces the redaction policy of one of the user's sessions; it applies to messages saved from then on
+ */
+export async function saveRedactionPolicy(id: string, policy: RedactionPolicy): Promise<RedactionPolicy> {
+  const user = await requireUser();
+  const validated = validateRedactionPolicy(policy);
+  log.debug('Saving redaction policy to session:', id, 'custom detectors:', validated.customDetectors.length);
+  await mergeMetadata(id, user, { redaction: validated });
+  return validated;
+}
+
+/**
+ * Replaces the tags of one of the user's sessions from a comma-separated `tags` field; used as a form action on /sessions
+ */
+export async function saveSessionTags(id: string, formData: FormData): Promise<void> {
+  const user = await requireUser();
+  const tags = parseTags(formData.get('tags'));
+  log.debug('Saving', tags.length, 'tags to session:', id);
+  const session = await loadOwnedSession(id, user.id);
+  if (!session) {
+    log.warn('Cannot tag a missing session:', id);
+    return;
+  }
+  await getSessionStore().save({ ...session, metadata: { ...session.metadata, tags } });
+  revalidatePath('/sessions');
+}
+
+function parseTags(value: FormDataEntryValue | null): string[] {
+  if (typeof value !== 'string') {
+    return [];
+  }
+  const tags = value
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase().slice(0, TAG_MAX_LENGTH))
+    .filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
@@ -0,0 +1,109 @@
+'use server'
+
+import { getAuthAdapter } from '@/app/lib/auth';
+import { getClientIp, getRequestRateLimiter, getRequestRateLimitSubjects } from '@/app/lib/rate-limit';
+import { getRedactionPolicy, redactStoredMessage } from '@/app/lib/redaction';
+import { getSessionStore, loadOrCreateOwnedSession, validateStoredMessages } from '@/app/lib/sessions';
+import type { StoredMessage } from '@/app/lib/sessions';
+import {
+  getSummarizationProvider,
+  getSummaryChunkCharacters,
+  isStoredSummary,
+  summarizeMessages,
+  validateSummary,
+} from '@/app/lib/summaries';
+import type { ConversationSummary, StoredSummary } from '@/app/lib/summaries';
+import { recordUsageEvent } from '@/app/lib/usage';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('ServerAction:summaries');
+
+/**
+ * Counts a summary request against the user's and the client's LLM request limits, which decisions share
+ */
+async function takeRateLimit(userId: string): Promise<void> {
+  const limit = getRequestRateLimiter().take(getRequestRateLimitSubjects('llm', userId, await getClientIp()));
+  if (!limit.allowed) {
+    log.info('Rate limited summary for', limit.subject);
+    throw new Error('Too many summary requests in the last minute. Try again shortly.');
+  }
+}
+
+/**
+ * Brings the summary saved with a session up to date with its messages, or builds it again with regenerate.
+ * Messages come from the client, since its latest ones may not have been saved yet. The summary is both
+ * a prompt and persisted, so PII either target masks is masked before summarizing.
+ * Callers must be signed in and own the session; requests count against their LLM rate limits and tokens are billed to them.
+ */
+export async function updateSessionSummary(
+  sessionId: string,
+  messages: StoredMessage[],
+  { regenerate = false }: { regenerate?: boolean } = {}
+): Promise<StoredSummary> {
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    throw new Error('Sign in to summarize sessions');
+  }
+  await takeRateLimit(user.id);
+  const validated = validateStoredMessages(messages);
+  log.debug('Summarizing session:', sessionId, 'messages:', validated.length, 'regenerate:', regenerate);
+  try {
+    const store = getSessionStore();
+    const session = await loadOrCreateOwnedSession(sessionId, user.id);
+    const existing = isStoredSummary(session.metadata.summary) ? session.metadata.summary : null;
+    const policy = getRedactionPolicy(session.metadata);
+    const redacted = validated.map((message) => redactStoredMessage(message, policy, ['prompts', 'persisted']));
+
+    const provider = getSummarizationProvider();
+    const { summary, chunks, usage } = await summarizeMessages(provider, redacted, existing, {
+      regenerate,
+      chunkCharacters: getSummaryChunkCharacters(),
+    });
+    if (chunks === 0) {
+      return summary;
+    }
+
+    log.debug('Summarized', chunks, 'chunks with', provider.name);
+    if (usage.promptTokens + usage.completionTokens > 0) {
+      await recordUsageEvent(user.id, sessionId, { type: 'llm_tokens', ...usage });
+    }
+    // Reloaded so messages saved while the provider was working are kept
+    const latest = (await store.load(sessionId)) ?? session;
+    await store.save({ ...latest, metadata: { ...latest.metadata, summary } });
+    return summary;
+  } catch (error) {
+    log.error('Could not summarize session:', error);
+    throw error;
+  }
+}
+
+/**
+ * Saves a summary the user edited; later updates extend it rather than replace it.
+ * Callers must be signed in and own the session.
+ */
+export async function saveEditedSummary(sessionId: string, edited: ConversationSummary): Promise<StoredSummary> {
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    throw new Error('Sign in to edit summaries');
+  }
+  await takeRateLimit(user.id);
+  const content = validateSummary(edited);
+  log.debug('Saving edited summary to session:', sessionId);
+  try {
+    const session = await loadOrCreateOwnedSession(sessionId, user.id);
+    const existing = isStoredSummary(session.metadata.summary) ? session.metadata.summary : null;
+    const now = new Date().toISOString();
+    const summary: StoredSummary = {
+      ...content,
+      provider: existing?.provider ?? 'manual',
+      generatedAt: existing?.generatedAt ?? now,
+      lastMessageId: existing?.lastMessageId ?? null,
+      editedAt: now,
+    };
+    await getSessionStore().save({ ...session, metadata: { ...session.metadata, summary } });
+    return summary;
+  } catch (error) {
+    log.error('Could not save edited summary:', error);
+    throw error;
+  }
+}
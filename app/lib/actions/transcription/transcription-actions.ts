@@ -1,32 +1,67 @@
 'use server'
 
+import {
+  resolveTranscriptionConfig,
+  toTranscriptionSessionBody,
+  type TranscriptionConfigOptions,
+} from '@/app/lib/transcription/config';
+import { buildIceConfiguration } from '@/app/lib/transcription/ice-servers';
+import type { EphemeralKeyResult, IceConfigurationResult, KeyDenial } from '@/app/lib/transcription/types';
+import { getAuthAdapter } from '@/app/lib/auth';
+import { getClientIp, getIpQuotaLimits, getTranscriptionQuota, getUserQuotaLimits } from '@/app/lib/rate-limit';
+import { recordUsageEvent } from '@/app/lib/usage';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('ServerAction:transcription');
+
 /**
  * Generates an ephemeral API key for OpenAI's Realtime Transcription API
  * This key is used to authenticate the WebRTC connection from the client
+ * The session is configured from an optional preset and overrides, validated here
+ * Callers must be signed in, and keys count against per-user and, behind trusted proxies, per-IP quotas; pass the leaseId
+ * of the previous key when reconnecting so the session is not counted twice
+ * Issued keys are metered against the guided session they are for, when one is given
  */
-export async function getEphemeralKey() {
-  console.log('[ServerAction:getEphemeralKey] Starting ephemeral key request');
+export async function getEphemeralKey(
+  options: TranscriptionConfigOptions = {},
+  leaseId?: string,
+  sessionId?: string
+): Promise<EphemeralKeyResult> {
+  log.debug('Starting ephemeral key request, preset:', options.preset ?? 'none', 'renewing lease:', !!leaseId);
+
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    log.info('Denied ephemeral key: not signed in');
+    return { ok: false, denial: { reason: 'unauthenticated', message: 'Sign in to start transcribing' } };
+  }
+
+  const ip = await getClientIp();
+  const quota = getTranscriptionQuota();
+  const subjects = [{ key: `user:${user.id}`, limits: getUserQuotaLimits() }];
+  if (ip) {
+    subjects.push({ key: `ip:${ip}`, limits: getIpQuotaLimits() });
+  }
+  const decision = quota.acquire(subjects, leaseId);
+  if (!decision.allowed) {
+    log.info('Denied ephemeral key:', decision.reason, 'for', decision.subject);
+    const denial: KeyDenial = decision.reason === 'rate_limited'
+      ? {
+          reason: 'rate_limited',
+          message: 'Too many transcription sessions started in the last minute. Try again shortly.',
+          retryAfterMs: decision.retryAfterMs,
+        }
+      : {
+          reason: 'concurrency_limited',
+          message: 'Too many transcription sessions are open at once. End one before starting another.',
+        };
+    return { ok: false, denial };
+  }
+
   try {
-    const requestBody = {
-      input_audio_format: 'pcm16',
-      input_audio_transcription: {
-        model: 'gpt-4o-transcribe',
-        prompt: '',
-        language: 'en',
-      },
-      turn_detection: {
-        type: 'server_vad',
-        threshold: 0.5,
-        prefix_padding_ms: 300,
-        silence_duration_ms: 500,
-      },
-      input_audio_noise_reduction: {
-        type: 'near_field'
-      },
-    };
+    const config = resolveTranscriptionConfig(options);
+    const requestBody = toTranscriptionSessionBody(config);
     
-    console.log('[ServerAction:getEphemeralKey] Request body:', JSON.stringify(requestBody));
-    console.log('[ServerAction:getEphemeralKey] API Key present:', !!process.env.OPENAI_API_KEY);
+    log.debug('Request body:', JSON.stringify(requestBody));
     
     const response = await fetch(
       'https://api.openai.com/v1/realtime/transcription_sessions',
@@ -41,16 +76,16 @@ export async function getEphemeralKey() {
       }
     );
 
-    console.log('[ServerAction:getEphemeralKey] Response status:', response.status);
+    log.debug('Response status:', response.status);
     
     if (!response.ok) {
       const errorData = await response.json();
-      console.error('[ServerAction:getEphemeralKey] Error response:', JSON.stringify(errorData));
+      log.error('Error response:', JSON.stringify(errorData));
       throw new Error(`Failed to get ephemeral key: ${JSON.stringify(errorData)}`);
     }
 
     const data = await response.json();
-    console.log('[ServerAction:getEphemeralKey] Successfully received ephemeral key, data structure:', 
+    log.debug('Successfully received ephemeral key, data structure:', 
       JSON.stringify({
         hasClientSecret: !!data.client_secret,
         hasValue: !!data.client_secret?.value,
@@ -58,9 +93,54 @@ export async function getEphemeralKey() {
         keys: Object.keys(data)
       })
     );
-    return data.client_secret?.value;
+    const ephemeralKey = data.client_secret?.value;
+    if (!ephemeralKey) {
+      throw new Error('Failed to get ephemeral key - key is empty');
+    }
+    await recordUsageEvent(user.id, sessionId, { type: 'ephemeral_key_issued' });
+    return { ok: true, ephemeralKey, leaseId: decision.leaseId };
+  } catch (error) {
+    log.error('Could not get ephemeral key:', error);
+    // No session will start, so give its slot back. A lease that could not be renewed was replaced by a new one,
+    // which is just as unused
+    if (decision.leaseId !== leaseId) {
+      quota.release(decision.leaseId, `user:${user.id}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Ends a transcription session's lease, so it no longer counts towards the concurrent session limit
+ */
+export async function releaseTranscriptionSession(leaseId: string): Promise<void> {
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    return;
+  }
+  const released = getTranscriptionQuota().release(leaseId, `user:${user.id}`);
+  log.debug('Released transcription session lease:', released);
+}
+
+/**
+ * Issues the STUN/TURN servers for one WebRTC connect, read from environment configuration
+ * TURN credentials are short-lived, so the client asks again on every connect and reconnect
+ * Callers must be signed in, and the credentials are issued to their user ID
+ */
+export async function getIceConfiguration(): Promise<IceConfigurationResult> {
+  log.debug('Issuing ICE configuration');
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    log.info('Denied ICE configuration: not signed in');
+    return { ok: false, denial: { reason: 'unauthenticated', message: 'Sign in to start transcribing' } };
+  }
+  try {
+    const configuration = buildIceConfiguration(user.id);
+    log.debug('ICE servers:', configuration.iceServers.length,
+      'TURN credentials expire at:', configuration.expiresAt ?? 'n/a');
+    return { ok: true, configuration };
   } catch (error) {
-    console.error('[ServerAction:getEphemeralKey] Error:', error);
+    log.error('Could not issue ICE configuration:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
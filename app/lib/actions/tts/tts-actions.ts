@@ -0,0 +1,44 @@
+'use server'
+
+import { getAuthAdapter } from '@/app/lib/auth';
+import { getClientIp, getRequestRateLimiter, getRequestRateLimitSubjects } from '@/app/lib/rate-limit';
+import { getTTSProvider, MAX_SPEECH_CHARACTERS } from '@/app/lib/tts';
+import type { SpeechAudio } from '@/app/lib/tts';
+import { recordUsageEvent } from '@/app/lib/usage';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('ServerAction:tts');
+
+/**
+ * Converts an AI chat reply to speech with the configured TTS provider
+ * Callers must be signed in, requests count against per-user and per-IP limits, and text is capped at
+ * MAX_SPEECH_CHARACTERS; characters spoken are metered against sessionId when one is given
+ */
+export async function synthesizeSpeech(text: string, sessionId?: string): Promise<SpeechAudio> {
+  log.debug('Starting synthesis, text length:', text.length);
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    throw new Error('Sign in to hear replies');
+  }
+  if (!text.trim() || text.length > MAX_SPEECH_CHARACTERS) {
+    throw new Error(`Speech text must be 1 to ${MAX_SPEECH_CHARACTERS} characters`);
+  }
+  const limit = getRequestRateLimiter().take(getRequestRateLimitSubjects('tts', user.id, await getClientIp()));
+  if (!limit.allowed) {
+    log.info('Rate limited synthesis for', limit.subject);
+    throw new Error('Too many replies read aloud in the last minute. Try again shortly.');
+  }
+
+  try {
+    const provider = getTTSProvider();
+    const speech = await provider.synthesize(text);
+    log.debug('Synthesized with', provider.name, 'mime type:', speech.mimeType);
+    if (provider.name === 'openai') {
+      await recordUsageEvent(user.id, sessionId, { type: 'tts_characters', characters: text.length });
+    }
+    return speech;
+  } catch (error) {
+    log.error('Speech synthesis failed:', error);
+    throw error;
+  }
+}
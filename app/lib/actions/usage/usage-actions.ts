@@ -0,0 +1,43 @@
+'use server'
+
+import { getAuthAdapter } from '@/app/lib/auth';
+import { isValidSessionId } from '@/app/lib/sessions';
+import { recordUsageEvent, type ClientUsageEvent } from '@/app/lib/usage';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('ServerAction:usage');
+
+// Realtime sessions end after 30 minutes, so no single connected stretch can be longer
+const MAX_AUDIO_DURATION_MS = 30 * 60 * 1000;
+const MAX_TRANSCRIPT_CHARACTERS = 100_000;
+
+function isValidClientEvent(event: ClientUsageEvent): boolean {
+  switch (event?.type) {
+    case 'audio_connected':
+      return Number.isInteger(event.durationMs) && event.durationMs > 0 && event.durationMs <= MAX_AUDIO_DURATION_MS;
+    case 'transcript_completed':
+      return Number.isInteger(event.characters) && event.characters >= 0 && event.characters <= MAX_TRANSCRIPT_CHARACTERS;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Records usage the client observed: connected audio time and completed transcripts.
+ * Only signed-in users can transcribe, so reports from anyone else are dropped.
+ */
+export async function recordUsage(sessionId: string, event: ClientUsageEvent): Promise<void> {
+  if (!isValidSessionId(sessionId) || !isValidClientEvent(event)) {
+    log.warn('Ignoring invalid usage report:', event?.type);
+    return;
+  }
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    log.debug('Ignoring usage report from a signed-out user');
+    return;
+  }
+  // Rebuilt field by field so nothing else the client sent is stored
+  await recordUsageEvent(user.id, sessionId, event.type === 'audio_connected'
+    ? { type: 'audio_connected', durationMs: event.durationMs }
+    : { type: 'transcript_completed', characters: event.characters });
+}
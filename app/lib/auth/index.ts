@@ -0,0 +1,37 @@
+import { getAuthSecret, SignedCookieAuthAdapter } from './signed-cookie-adapter';
+import type { AuthAdapter } from './types';
+import { createLogger } from '@/app/lib/logging';
+
+export { getSafeRedirectPath } from './redirect';
+export { AUTH_COOKIE_NAME, SignedCookieAuthAdapter } from './signed-cookie-adapter';
+export type { AuthAdapter, AuthUser } from './types';
+
+const log = createLogger('Auth');
+
+let adapter: AuthAdapter | null = null;
+
+/**
+ * The auth adapter for this server process. AUTH_ADAPTER picks it; 'signed-cookie' is the only built-in one,
+ * and since it lets anyone sign in under any name it is only the default in development. Production deployments
+ * register their identity provider with setAuthAdapter, or opt in with AUTH_ADAPTER=signed-cookie.
+ */
+export function getAuthAdapter(): AuthAdapter {
+  if (!adapter) {
+    const configured = process.env.AUTH_ADAPTER ?? (process.env.NODE_ENV === 'production' ? undefined : 'signed-cookie');
+    if (!configured) {
+      throw new Error('No auth adapter in production; register one with setAuthAdapter or set AUTH_ADAPTER');
+    }
+    if (configured !== 'signed-cookie') {
+      throw new Error(`Unknown AUTH_ADAPTER "${configured}"; register it with setAuthAdapter`);
+    }
+    if (process.env.NODE_ENV === 'production') {
+      log.warn('Using the signed-cookie auth adapter in production: anyone can sign in under any name');
+    }
+    adapter = new SignedCookieAuthAdapter({ secret: getAuthSecret() });
+  }
+  return adapter;
+}
+
+export function setAuthAdapter(next: AuthAdapter): void {
+  adapter = next;
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { getSafeRedirectPath } from './redirect';
+
+describe('getSafeRedirectPath', () => {
+  it('keeps same-site paths with their query and hash', () => {
+    expect(getSafeRedirectPath('/sessions?q=ada#top', '/home')).toBe('/sessions?q=ada#top');
+    expect(getSafeRedirectPath('/guided-session/abc', '/home')).toBe('/guided-session/abc');
+  });
+
+  it.each([
+    '',
+    'sessions',
+    'https://evil.com',
+    '//evil.com',
+    '/\\evil.com',
+    '/\\/evil.com',
+    '/\t/evil.com',
+    '/\n/evil.com',
+  ])('falls back for %j', (next) => {
+    expect(getSafeRedirectPath(next, '/home')).toBe('/home');
+  });
+});
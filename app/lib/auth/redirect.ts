@@ -0,0 +1,20 @@
+// Stands in for this site's origin when resolving paths; only whether a path stays on it matters
+const SITE_ORIGIN = 'http://site.invalid';
+
+/**
+ * The same-site path to send a user to after sign-in, or the fallback when `next` would leave the site.
+ * Paths are resolved the way browsers resolve them, so `//evil.com`, `/\evil.com` and paths with control
+ * characters in them (which browsers strip) are all turned away.
+ */
+export function getSafeRedirectPath(next: string, fallback: string): string {
+  if (!next.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(next)) {
+    return fallback;
+  }
+  let url: URL;
+  try {
+    url = new URL(next, SITE_ORIGIN);
+  } catch {
+    return fallback;
+  }
+  return url.origin === SITE_ORIGIN ? `${url.pathname}${url.search}${url.hash}` : fallback;
+}
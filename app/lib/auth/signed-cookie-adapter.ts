@@ -0,0 +1,97 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import { createLogger } from '@/app/lib/logging';
+import type { AuthAdapter, AuthUser } from './types';
+
+const log = createLogger('SignedCookieAuthAdapter');
+
+export const AUTH_COOKIE_NAME = 'guided_session_user';
+export const AUTH_COOKIE_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+export interface SignedCookieAuthAdapterOptions {
+  secret: string;
+}
+
+/**
+ * Local sign-in for development: the user's name, signed with AUTH_SECRET, in an httpOnly cookie.
+ * No credential is checked, so anyone can sign in under any name, including someone else's. Per-user quotas,
+ * usage and recordings are then only as separate as the names people pick; never rely on it in production.
+ */
+export class SignedCookieAuthAdapter implements AuthAdapter {
+  readonly name = 'signed-cookie';
+  private readonly secret: string;
+
+  constructor({ secret }: SignedCookieAuthAdapterOptions) {
+    this.secret = secret;
+  }
+
+  async getCurrentUser(): Promise<AuthUser | null> {
+    const value = (await cookies()).get(AUTH_COOKIE_NAME)?.value;
+    if (!value) {
+      return null;
+    }
+    const name = this.verify(value);
+    if (!name) {
+      log.warn('Ignoring auth cookie with a bad signature');
+      return null;
+    }
+    return { id: `local:${name.toLowerCase()}`, name };
+  }
+
+  async signIn(name: string): Promise<AuthUser> {
+    (await cookies()).set(AUTH_COOKIE_NAME, this.sign(name), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: AUTH_COOKIE_MAX_AGE_SECONDS,
+      path: '/',
+    });
+    return { id: `local:${name.toLowerCase()}`, name };
+  }
+
+  async signOut(): Promise<void> {
+    (await cookies()).delete(AUTH_COOKIE_NAME);
+  }
+
+  private sign(name: string): string {
+    const payload = Buffer.from(name, 'utf8').toString('base64url');
+    return `${payload}.${this.signature(payload)}`;
+  }
+
+  private verify(value: string): string | null {
+    const [payload, signature] = value.split('.');
+    if (!payload || !signature) {
+      return null;
+    }
+    const expected = Buffer.from(this.signature(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+    return Buffer.from(payload, 'base64url').toString('utf8');
+  }
+
+  private signature(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
+
+let developmentSecret: string | null = null;
+
+/**
+ * AUTH_SECRET, or in development a per-process random secret, so cookies stop working on restart
+ */
+export function getAuthSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET must be set to sign auth cookies');
+  }
+  if (!developmentSecret) {
+    log.warn('AUTH_SECRET is not set; using a random secret until the server restarts');
+    developmentSecret = randomBytes(32).toString('hex');
+  }
+  return developmentSecret;
+}
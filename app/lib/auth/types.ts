@@ -0,0 +1,12 @@
+export interface AuthUser {
+  id: string;
+  name: string;
+}
+
+/**
+ * Resolves who is making a request. Implementations read whatever their scheme uses: cookies, headers, tokens.
+ */
+export interface AuthAdapter {
+  readonly name: string;
+  getCurrentUser(): Promise<AuthUser | null>;
+}
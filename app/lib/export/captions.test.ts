@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { StoredMessage } from '@/app/lib/sessions/types';
+import { toSrt, toWebVtt } from './captions';
+
+const messages: StoredMessage[] = [
+  { id: 'u1', sender: 'user', content: 'First line\n\n\nsecond --> third', timestamp: '2026-01-01T10:00:00.000Z', source: 'text' },
+  { id: 'a1', sender: 'ai', content: 'Use <b> & more', timestamp: '2026-01-01T10:00:02.000Z' },
+];
+
+describe('toSrt', () => {
+  it('numbers cues and keeps multiline messages inside their cue', () => {
+    expect(toSrt(messages)).toBe([
+      '1',
+      '00:00:00,000 --> 00:00:02,000',
+      'User: First line',
+      'second --&gt; third',
+      '',
+      '2',
+      '00:00:02,000 --> 00:00:03,600',
+      'AI: Use <b> & more',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('toWebVtt', () => {
+  it('writes voice-tagged cues with markup escaped', () => {
+    expect(toWebVtt(messages)).toBe([
+      'WEBVTT',
+      '',
+      'u1',
+      '00:00:00.000 --> 00:00:02.000',
+      '<v User>First line',
+      'second --&gt; third',
+      '',
+      'a1',
+      '00:00:02.000 --> 00:00:03.600',
+      '<v AI>Use &lt;b> &amp; more',
+      '',
+    ].join('\n'));
+  });
+
+  it('is just the header without spoken messages', () => {
+    expect(toWebVtt([])).toBe('WEBVTT\n');
+  });
+});
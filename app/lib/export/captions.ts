@@ -0,0 +1,47 @@
+import type { StoredMessage } from '@/app/lib/sessions/types';
+import { formatSender, formatTimestamp, getMessageTimeline } from './timing';
+
+/**
+ * SubRip captions: numbered cues with comma-separated milliseconds
+ */
+export function toSrt(messages: StoredMessage[]): string {
+  return getMessageTimeline(messages)
+    .map(({ message, startMs, endMs }, index) => [
+      String(index + 1),
+      `${formatTimestamp(startMs, ',')} --> ${formatTimestamp(endMs, ',')}`,
+      `${formatSender(message.sender)}: ${escapeSrt(message.content)}`,
+      '',
+    ].join('\n'))
+    .join('\n');
+}
+
+/**
+ * WebVTT captions, with the speaker in a voice tag
+ */
+export function toWebVtt(messages: StoredMessage[]): string {
+  const cues = getMessageTimeline(messages).map(({ message, startMs, endMs }) => [
+    message.id,
+    `${formatTimestamp(startMs, '.')} --> ${formatTimestamp(endMs, '.')}`,
+    `<v ${formatSender(message.sender)}>${escapeVtt(message.content)}`,
+    '',
+  ].join('\n'));
+
+  return ['WEBVTT', '', ...cues].join('\n');
+}
+
+/**
+ * A blank line ends a cue in both formats, so multiline messages keep their line breaks but not empty lines
+ */
+function collapseBlankLines(text: string): string {
+  return text.trim().replace(/\r\n?/g, '\n').replace(/\n\s*\n/g, '\n');
+}
+
+function escapeSrt(text: string): string {
+  // "-->" would read as a cue timing line
+  return collapseBlankLines(text).replace(/-->/g, '--&gt;');
+}
+
+function escapeVtt(text: string): string {
+  // "-->" would end the cue timing line, and < and & start markup
+  return collapseBlankLines(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/-->/g, '--&gt;');
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { StoredMessage } from '@/app/lib/sessions/types';
+import { exportMessages, isExportFormat, TRANSCRIPT_SCHEMA, type TranscriptDocumentV1 } from './index';
+
+const exportedAt = new Date('2026-01-02T00:00:00.000Z');
+const messages: StoredMessage[] = [
+  {
+    id: 'u1',
+    sender: 'user',
+    content: 'Book a table',
+    originalContent: 'Look a table',
+    timestamp: '2026-01-01T10:00:00.000Z',
+    source: 'voice',
+  },
+  {
+    id: 'c1',
+    sender: 'function',
+    kind: 'function-call',
+    content: '{"party":2}',
+    functionName: 'book_table',
+    timestamp: '2026-01-01T10:00:01.000Z',
+  },
+  { id: 'a1', sender: 'ai', content: 'Done.', timestamp: '2026-01-01T10:00:02.000Z' },
+  { id: 'a2', sender: 'ai', content: '', status: 'error', error: 'timeout', timestamp: '2026-01-01T10:00:03.000Z' },
+  { id: 's1', sender: 'system', kind: 'notice', content: 'Reconnected', timestamp: '2026-01-01T10:00:04.000Z' },
+];
+
+describe('exportMessages', () => {
+  it('names the file after the title, or the session when it has none', () => {
+    expect(exportMessages(messages, 'srt', { sessionId: 's-1', title: 'Dinner: Friday!' }).filename).toBe('dinner-friday.srt');
+    expect(exportMessages(messages, 'vtt', { sessionId: 's-1' }).filename).toBe('s-1.vtt');
+    expect(exportMessages(messages, 'json', { sessionId: '!!!', title: '' }).filename).toBe('session.json');
+  });
+
+  it('writes Markdown with every kind of message', () => {
+    const { content, mimeType } = exportMessages(messages, 'markdown', { sessionId: 's-1', title: 'Dinner', exportedAt });
+    expect(mimeType).toBe('text/markdown; charset=utf-8');
+    expect(content).toBe([
+      '# Dinner',
+      '',
+      '- Session: `s-1`',
+      '- Exported: 2026-01-02T00:00:00.000Z',
+      '- Messages: 5',
+      '',
+      '**User** (2026-01-01T10:00:00.000Z)',
+      '',
+      'Book a table',
+      '',
+      '> **book_table** called (2026-01-01T10:00:01.000Z): `{"party":2}`',
+      '',
+      '**AI** (2026-01-01T10:00:02.000Z)',
+      '',
+      'Done.',
+      '',
+      '**AI** (2026-01-01T10:00:03.000Z): _reply failed: timeout_',
+      '',
+      '_Notice (2026-01-01T10:00:04.000Z): Reconnected_',
+      '',
+    ].join('\n'));
+  });
+
+  it('writes a versioned JSON transcript with timing for spoken messages', () => {
+    const document = JSON.parse(exportMessages(messages, 'json', { sessionId: 's-1', exportedAt }).content) as TranscriptDocumentV1;
+    expect(document).toMatchObject({ schema: TRANSCRIPT_SCHEMA, version: 1, session: { id: 's-1', title: null } });
+    expect(document.messages[0]).toEqual({
+      id: 'u1',
+      sender: 'user',
+      kind: null,
+      source: 'voice',
+      content: 'Book a table',
+      originalContent: 'Look a table',
+      timestamp: '2026-01-01T10:00:00.000Z',
+      functionName: null,
+      startMs: 0,
+      endMs: 1200,
+      utterance: null,
+    });
+    expect(document.messages.map((message) => message.startMs)).toEqual([0, null, 2000, null, null]);
+  });
+});
+
+describe('isExportFormat', () => {
+  it('accepts the four formats only', () => {
+    expect(['markdown', 'json', 'srt', 'vtt', 'pdf'].map(isExportFormat)).toEqual([true, true, true, true, false]);
+  });
+});
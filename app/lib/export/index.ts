@@ -0,0 +1,48 @@
+import type { StoredMessage } from '@/app/lib/sessions/types';
+import { toSrt, toWebVtt } from './captions';
+import { toJson } from './json';
+import { toMarkdown } from './markdown';
+import { EXPORT_FORMATS, type ExportedFile, type ExportFormat, type ExportOptions } from './types';
+
+export { EXPORT_FORMATS } from './types';
+export { TRANSCRIPT_SCHEMA, TRANSCRIPT_SCHEMA_VERSION, toTranscriptDocument, type TranscriptDocumentV1 } from './json';
+export type { ExportedFile, ExportFormat, ExportOptions } from './types';
+
+const FORMAT_DETAILS: Record<ExportFormat, { extension: string; mimeType: string; label: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown; charset=utf-8', label: 'Markdown' },
+  json: { extension: 'json', mimeType: 'application/json; charset=utf-8', label: 'JSON' },
+  srt: { extension: 'srt', mimeType: 'application/x-subrip; charset=utf-8', label: 'SRT captions' },
+  vtt: { extension: 'vtt', mimeType: 'text/vtt; charset=utf-8', label: 'WebVTT captions' },
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+export function getExportFormatLabel(format: ExportFormat): string {
+  return FORMAT_DETAILS[format].label;
+}
+
+/**
+ * Renders a session's messages in one of the export formats
+ */
+export function exportMessages(messages: StoredMessage[], format: ExportFormat, options: ExportOptions): ExportedFile {
+  const { extension, mimeType } = FORMAT_DETAILS[format];
+  const content = {
+    markdown: () => toMarkdown(messages, options),
+    json: () => toJson(messages, options),
+    srt: () => toSrt(messages),
+    vtt: () => toWebVtt(messages),
+  }[format]();
+
+  return {
+    filename: `${toFilename(options.title ?? options.sessionId)}.${extension}`,
+    mimeType,
+    content,
+  };
+}
+
+function toFilename(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return slug || 'session';
+}
@@ -0,0 +1,66 @@
+import type { StoredMessage } from '@/app/lib/sessions/types';
+import type { ExportOptions } from './types';
+import { getMessageTimeline } from './timing';
+
+export const TRANSCRIPT_SCHEMA = 'session-next/transcript';
+export const TRANSCRIPT_SCHEMA_VERSION = 1;
+
+/**
+ * Version 1 of the JSON transcript. Bump TRANSCRIPT_SCHEMA_VERSION on any breaking change.
+ */
+export interface TranscriptDocumentV1 {
+  schema: typeof TRANSCRIPT_SCHEMA;
+  version: 1;
+  exportedAt: string;
+  session: {
+    id: string;
+    title: string | null;
+  };
+  messages: {
+    id: string;
+    sender: StoredMessage['sender'];
+    /** Set on function calls, notices and errors */
+    kind: StoredMessage['kind'] | null;
+    source: StoredMessage['source'] | null;
+    content: string;
+    /** The transcript before the user corrected it */
+    originalContent: string | null;
+    timestamp: string;
+    functionName: string | null;
+    /** Offsets from the start of the session; null for messages that are not spoken */
+    startMs: number | null;
+    endMs: number | null;
+    utterance: StoredMessage['utterance'] | null;
+  }[];
+}
+
+export function toTranscriptDocument(
+  messages: StoredMessage[],
+  { sessionId, title, exportedAt = new Date() }: ExportOptions
+): TranscriptDocumentV1 {
+  const timing = new Map(getMessageTimeline(messages).map((cue) => [cue.message.id, cue]));
+
+  return {
+    schema: TRANSCRIPT_SCHEMA,
+    version: TRANSCRIPT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    session: { id: sessionId, title: title ?? null },
+    messages: messages.map((message) => ({
+      id: message.id,
+      sender: message.sender,
+      kind: message.kind ?? null,
+      source: message.source ?? null,
+      content: message.content,
+      originalContent: message.originalContent ?? null,
+      timestamp: message.timestamp,
+      functionName: message.functionName ?? null,
+      startMs: timing.get(message.id)?.startMs ?? null,
+      endMs: timing.get(message.id)?.endMs ?? null,
+      utterance: message.utterance ?? null,
+    })),
+  };
+}
+
+export function toJson(messages: StoredMessage[], options: ExportOptions): string {
+  return JSON.stringify(toTranscriptDocument(messages, options), null, 2);
+}
@@ -0,0 +1,38 @@
+import type { StoredMessage } from '@/app/lib/sessions/types';
+import type { ExportOptions } from './types';
+import { formatSender } from './timing';
+
+export function toMarkdown(messages: StoredMessage[], { sessionId, title, exportedAt = new Date() }: ExportOptions): string {
+  const lines = [
+    `# ${title ?? `Session ${sessionId}`}`,
+    '',
+    `- Session: \`${sessionId}\``,
+    `- Exported: ${exportedAt.toISOString()}`,
+    `- Messages: ${messages.length}`,
+    '',
+  ];
+
+  for (const message of messages) {
+    const time = new Date(message.timestamp).toISOString();
+    if (message.kind === 'function-call') {
+      lines.push(`> **${message.functionName ?? 'function'}** called (${time}): \`${message.content}\``, '');
+      continue;
+    }
+    if (message.sender === 'function') {
+      lines.push(`> **${message.functionName ?? 'function'}** (${time}): \`${message.content}\``, '');
+      continue;
+    }
+    if (message.sender === 'system') {
+      lines.push(`_${message.kind === 'error' ? 'Error' : 'Notice'} (${time}): ${message.content}_`, '');
+      continue;
+    }
+    if (message.status === 'error') {
+      lines.push(`**${formatSender(message.sender)}** (${time}): _reply failed: ${message.error ?? 'unknown error'}_`, '');
+      continue;
+    }
+    const source = message.source === 'text' ? ', typed' : '';
+    lines.push(`**${formatSender(message.sender)}** (${time}${source})`, '', message.content, '');
+  }
+
+  return lines.join('\n');
+}
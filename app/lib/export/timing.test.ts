@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { StoredMessage } from '@/app/lib/sessions/types';
+import { formatTimestamp, getMessageTimeline } from './timing';
+
+function message(id: string, sender: StoredMessage['sender'], content: string, timestamp: string, extra: Partial<StoredMessage> = {}): StoredMessage {
+  return { id, sender, content, timestamp, ...extra };
+}
+
+describe('formatTimestamp', () => {
+  it('pads hours, minutes, seconds and milliseconds', () => {
+    expect(formatTimestamp(3_723_004, ',')).toBe('01:02:03,004');
+    expect(formatTimestamp(-5, '.')).toBe('00:00:00.000');
+  });
+});
+
+describe('getMessageTimeline', () => {
+  it('places spoken messages from the start of the session, using utterance timing where there is any', () => {
+    const timeline = getMessageTimeline([
+      message('u1', 'user', 'Hello there', '2026-01-01T10:00:05.000Z', {
+        utterance: { id: 'i1', startedAt: '2026-01-01T10:00:00.000Z', endedAt: '2026-01-01T10:00:02.500Z' },
+      }),
+      message('f1', 'function', '{}', '2026-01-01T10:00:06.000Z'),
+      message('a1', 'ai', 'Hi, how can I help today?', '2026-01-01T10:00:06.000Z'),
+      message('a2', 'ai', 'failed', '2026-01-01T10:00:09.000Z', { status: 'error' }),
+    ]);
+    expect(timeline.map(({ message: { id }, startMs, endMs }) => [id, startMs, endMs])).toEqual([
+      ['u1', 0, 2500],
+      ['a1', 6000, 8400],
+    ]);
+  });
+
+  it('ends each cue when the next one starts', () => {
+    const timeline = getMessageTimeline([
+      message('u1', 'user', 'one two three four five six', '2026-01-01T10:00:00.000Z'),
+      message('a1', 'ai', 'reply', '2026-01-01T10:00:01.000Z'),
+    ]);
+    expect(timeline.map(({ startMs, endMs }) => [startMs, endMs])).toEqual([[0, 1000], [1000, 2000]]);
+  });
+
+  it('shows messages that start together one after another', () => {
+    const timeline = getMessageTimeline([
+      message('u1', 'user', 'first', '2026-01-01T10:00:00.000Z'),
+      message('u2', 'user', 'second', '2026-01-01T10:00:00.000Z'),
+    ]);
+    expect(timeline.map(({ message: { id }, startMs, endMs }) => [id, startMs, endMs])).toEqual([
+      ['u1', 0, 500],
+      ['u2', 500, 1000],
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import type { StoredMessage } from '@/app/lib/sessions/types';
+
+const MS_PER_WORD = 400;
+const MIN_CUE_MS = 1000;
+// Messages that start together are shown one after another, each for at least this long
+const MIN_SHARED_CUE_MS = 500;
+
+export interface TimedMessage {
+  message: StoredMessage;
+  /** Offsets from the start of the session */
+  startMs: number;
+  endMs: number;
+}
+
+export function formatSender(sender: StoredMessage['sender']): string {
+  switch (sender) {
+    case 'user':
+      return 'User';
+    case 'ai':
+      return 'AI';
+    case 'function':
+      return 'Function';
+    case 'system':
+      return 'System';
+  }
+}
+
+/**
+ * Places spoken messages on the session timeline. Utterance timing is used where we have it;
+ * otherwise a message starts at its timestamp and lasts roughly as long as it takes to read.
+ * Cues never overlap the next one, and messages that start together are shown one after another in conversation order.
+ */
+export function getMessageTimeline(messages: StoredMessage[]): TimedMessage[] {
+  const spoken = messages.filter((message) =>
+    (message.sender === 'user' || message.sender === 'ai') && message.status !== 'error' && message.content.trim()
+  );
+  if (spoken.length === 0) {
+    return [];
+  }
+
+  const starts = spoken.map((message) => Date.parse(message.utterance?.startedAt ?? message.timestamp));
+  const origin = Math.min(...starts);
+
+  const timeline = spoken.map((message, index) => {
+    const startMs = starts[index] - origin;
+    const spokenEnd = message.utterance?.endedAt ? Date.parse(message.utterance.endedAt) - origin : null;
+    const estimatedEnd = startMs + Math.max(MIN_CUE_MS, message.content.split(/\s+/).length * MS_PER_WORD);
+    return { message, startMs, endMs: spokenEnd !== null && spokenEnd > startMs ? spokenEnd : estimatedEnd };
+  }).sort((a, b) => a.startMs - b.startMs);
+
+  const placed: TimedMessage[] = [];
+  for (const cue of timeline) {
+    const previous = placed[placed.length - 1];
+    const startMs = previous ? Math.max(cue.startMs, previous.startMs + MIN_SHARED_CUE_MS) : cue.startMs;
+    if (previous) {
+      previous.endMs = Math.min(previous.endMs, startMs);
+    }
+    placed.push({ message: cue.message, startMs, endMs: Math.max(cue.endMs, startMs + MIN_SHARED_CUE_MS) });
+  }
+  return placed;
+}
+
+/**
+ * Formats an offset as HH:MM:SS plus milliseconds, with the separator captions formats differ on
+ */
+export function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
@@ -0,0 +1,16 @@
+export const EXPORT_FORMATS = ['markdown', 'json', 'srt', 'vtt'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportOptions {
+  sessionId: string;
+  title?: string;
+  /** Defaults to now; injectable so exports are reproducible */
+  exportedAt?: Date;
+}
+
+export interface ExportedFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
@@ -0,0 +1,14 @@
+import { defineModifierFunction } from '../registry';
+
+export const clearConversation = defineModifierFunction<Record<string, never>>({
+  name: 'clear_conversation',
+  description: 'Clears all messages from the chat when the user asks to start over.',
+  parameters: {
+    type: 'object',
+    properties: {},
+  },
+  apply: (_args, { clearMessages }) => {
+    clearMessages();
+    return 'Conversation cleared';
+  },
+});
@@ -0,0 +1,24 @@
+import { defineStandardFunction } from '../registry';
+
+interface GetCurrentTimeArgs {
+  timeZone?: string;
+}
+
+export const getCurrentTime = defineStandardFunction<GetCurrentTimeArgs>({
+  name: 'get_current_time',
+  description: 'Returns the current date and time, optionally in a given IANA time zone.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone, e.g. "Europe/London"' },
+    },
+  },
+  execute: ({ timeZone }) => {
+    const now = new Date();
+    return {
+      iso: now.toISOString(),
+      formatted: now.toLocaleString('en-US', { timeZone }),
+      timeZone: timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  },
+});
@@ -0,0 +1,133 @@
+import {
+  FONT_SIZES,
+  LAYOUT_MODES,
+  SIDE_PANELS,
+  THEMES,
+  type FontSize,
+  type LayoutMode,
+  type SidePanel,
+  type Theme,
+} from '@/app/lib/ui-state';
+import { defineModifierFunction } from '../registry';
+
+export const showPanel = defineModifierFunction<{ panel: SidePanel }>({
+  name: 'show_panel',
+  description: 'Opens a side panel next to the chat.',
+  parameters: {
+    type: 'object',
+    properties: {
+      panel: { type: 'string', enum: [...SIDE_PANELS], description: 'The panel to open' },
+    },
+    required: ['panel'],
+  },
+  apply: ({ panel }, { ui }) => {
+    ui.showPanel(panel);
+    return `Opened the ${panel} panel`;
+  },
+});
+
+export const hidePanel = defineModifierFunction<{ panel: SidePanel }>({
+  name: 'hide_panel',
+  description: 'Closes a side panel.',
+  parameters: {
+    type: 'object',
+    properties: {
+      panel: { type: 'string', enum: [...SIDE_PANELS], description: 'The panel to close' },
+    },
+    required: ['panel'],
+  },
+  apply: ({ panel }, { ui }) => {
+    ui.hidePanel(panel);
+    return `Closed the ${panel} panel`;
+  },
+});
+
+export const setLayoutMode = defineModifierFunction<{ mode: LayoutMode }>({
+  name: 'set_layout_mode',
+  description: 'Changes the session layout: standard, focus (chat only) or split (chat and panels side by side).',
+  parameters: {
+    type: 'object',
+    properties: {
+      mode: { type: 'string', enum: [...LAYOUT_MODES] },
+    },
+    required: ['mode'],
+  },
+  apply: ({ mode }, { ui }) => {
+    ui.setLayoutMode(mode);
+    return `Layout set to ${mode}`;
+  },
+});
+
+export const setFontSize = defineModifierFunction<{ size: FontSize }>({
+  name: 'set_font_size',
+  description: 'Changes the text size of the session.',
+  parameters: {
+    type: 'object',
+    properties: {
+      size: { type: 'string', enum: [...FONT_SIZES] },
+    },
+    required: ['size'],
+  },
+  apply: ({ size }, { ui }) => {
+    ui.setFontSize(size);
+    return `Font size set to ${size}`;
+  },
+});
+
+export const setTheme = defineModifierFunction<{ theme: Theme }>({
+  name: 'set_theme',
+  description: 'Switches between light, dark and system color themes.',
+  parameters: {
+    type: 'object',
+    properties: {
+      theme: { type: 'string', enum: [...THEMES] },
+    },
+    required: ['theme'],
+  },
+  apply: ({ theme }, { ui }) => {
+    ui.setTheme(theme);
+    return `Theme set to ${theme}`;
+  },
+});
+
+export const highlightText = defineModifierFunction<{ text: string }>({
+  name: 'highlight_text',
+  description: 'Highlights every chat message that contains the given text.',
+  parameters: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'The text to highlight' },
+    },
+    required: ['text'],
+  },
+  apply: ({ text }, { ui }) => {
+    ui.setHighlight(text);
+    return `Highlighted "${text}"`;
+  },
+});
+
+export const clearHighlight = defineModifierFunction<Record<string, never>>({
+  name: 'clear_highlight',
+  description: 'Removes any highlight from the chat.',
+  parameters: {
+    type: 'object',
+    properties: {},
+  },
+  apply: (_args, { ui }) => {
+    ui.clearHighlight();
+    return 'Highlight cleared';
+  },
+});
+
+export const undoUIChange = defineModifierFunction<Record<string, never>>({
+  name: 'undo_ui_change',
+  description: 'Undoes the most recent change to the layout, panels, font size, theme or highlight.',
+  parameters: {
+    type: 'object',
+    properties: {},
+  },
+  apply: (_args, { ui }) => {
+    ui.undo();
+    return 'Last UI change undone';
+  },
+});
@@ -0,0 +1,32 @@
+import { clearConversation } from './catalog/clear-conversation';
+import { getCurrentTime } from './catalog/get-current-time';
+import {
+  clearHighlight,
+  hidePanel,
+  highlightText,
+  setFontSize,
+  setLayoutMode,
+  setTheme,
+  showPanel,
+  undoUIChange,
+} from './catalog/ui-modifiers';
+import { FunctionRegistry } from './registry';
+
+export { FunctionRegistry, defineModifierFunction, defineStandardFunction, validateArguments } from './registry';
+export type * from './types';
+
+/**
+ * Every function the LLM can call. Add domain functions under ./catalog and register them here.
+ */
+export const functionRegistry = new FunctionRegistry().register(
+  getCurrentTime,
+  clearConversation,
+  showPanel,
+  hidePanel,
+  setLayoutMode,
+  setFontSize,
+  setTheme,
+  highlightText,
+  clearHighlight,
+  undoUIChange,
+);
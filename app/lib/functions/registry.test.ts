@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { defineStandardFunction, FunctionRegistry, validateArguments } from './registry';
+import type { ArgumentSchema } from './types';
+
+const schema: ArgumentSchema = {
+  type: 'object',
+  properties: {
+    unit: { type: 'string', enum: ['minutes', 'seconds'] },
+    amount: { type: 'integer', minimum: 1, maximum: 60 },
+    ratio: { type: 'number' },
+    loud: { type: 'boolean' },
+  },
+  required: ['amount'],
+};
+
+describe('validateArguments', () => {
+  it('accepts arguments that match the schema', () => {
+    const args = { unit: 'minutes', amount: 5, ratio: 0.5, loud: false };
+    expect(validateArguments(schema, args)).toEqual({ ok: true, args });
+  });
+
+  it('reports missing required arguments, including null ones', () => {
+    expect(validateArguments(schema, {})).toEqual({ ok: false, errors: ['Missing required argument "amount"'] });
+    expect(validateArguments(schema, { amount: null }).ok).toBe(false);
+  });
+
+  it('reports arguments the schema does not list', () => {
+    expect(validateArguments(schema, { amount: 5, volume: 11 })).toEqual({ ok: false, errors: ['Unexpected argument "volume"'] });
+  });
+
+  it.each([
+    [{ amount: 5, unit: 3 }, 'Argument "unit" must be a string'],
+    [{ amount: 5, unit: 'hours' }, 'Argument "unit" must be one of: minutes, seconds'],
+    [{ amount: '5' }, 'Argument "amount" must be a number'],
+    [{ amount: Number.NaN }, 'Argument "amount" must be a number'],
+    [{ amount: 2.5 }, 'Argument "amount" must be an integer'],
+    [{ amount: 0 }, 'Argument "amount" must be at least 1'],
+    [{ amount: 61 }, 'Argument "amount" must be at most 60'],
+    [{ amount: 5, loud: 'yes' }, 'Argument "loud" must be a boolean'],
+  ])('rejects %j', (args, error) => {
+    expect(validateArguments(schema, args)).toEqual({ ok: false, errors: [error] });
+  });
+
+  it('reports every problem at once', () => {
+    const result = validateArguments(schema, { unit: 'hours', volume: 11 });
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toHaveLength(3);
+  });
+});
+
+describe('FunctionRegistry', () => {
+  const timer = defineStandardFunction<{ amount: number }>({
+    name: 'set_timer',
+    description: 'Sets a timer',
+    parameters: schema,
+    execute: async ({ amount }) => ({ amount }),
+  });
+
+  it('refuses to register a name twice', () => {
+    const registry = new FunctionRegistry().register(timer);
+    expect(() => registry.register(timer)).toThrow('Function "set_timer" is already registered');
+  });
+
+  it('validates calls against the function they name', () => {
+    const registry = new FunctionRegistry().register(timer);
+    expect(registry.validate({ id: '1', name: 'set_timer', arguments: { amount: 3 } })).toEqual({ ok: true, args: { amount: 3 } });
+    expect(registry.validate({ id: '2', name: 'nope', arguments: {} })).toEqual({ ok: false, errors: ['Unknown function "nope"'] });
+  });
+
+  it('describes its functions as tools', () => {
+    const registry = new FunctionRegistry().register(timer);
+    expect(registry.toToolDefinitions()).toEqual([
+      { type: 'function', function: { name: 'set_timer', description: 'Sets a timer', parameters: schema } },
+    ]);
+  });
+});
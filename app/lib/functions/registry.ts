@@ -0,0 +1,122 @@
+import type { FunctionCall, ToolDefinition } from '@/app/lib/llm/types';
+import type {
+  ArgumentProperty,
+  ArgumentSchema,
+  ModifierFunction,
+  RegisteredFunction,
+  StandardFunction,
+  ValidationResult,
+} from './types';
+
+/**
+ * Helpers that keep the argument type of a function tied to its implementation. The registry only calls
+ * functions with arguments that passed their schema, which is what makes reading them as Args safe.
+ */
+export function defineStandardFunction<Args>({ execute, ...fn }: Omit<StandardFunction<Args>, 'kind'>): StandardFunction {
+  return { ...fn, kind: 'standard', execute: (args) => execute(args as Args) };
+}
+
+export function defineModifierFunction<Args>({ apply, ...fn }: Omit<ModifierFunction<Args>, 'kind'>): ModifierFunction {
+  return { ...fn, kind: 'modifier', apply: (args, context) => apply(args as Args, context) };
+}
+
+export class FunctionRegistry {
+  private readonly functions = new Map<string, RegisteredFunction>();
+
+  register(...fns: RegisteredFunction[]): this {
+    for (const fn of fns) {
+      if (this.functions.has(fn.name)) {
+        throw new Error(`Function "${fn.name}" is already registered`);
+      }
+      this.functions.set(fn.name, fn);
+    }
+    return this;
+  }
+
+  get(name: string): RegisteredFunction | undefined {
+    return this.functions.get(name);
+  }
+
+  list(): RegisteredFunction[] {
+    return [...this.functions.values()];
+  }
+
+  /**
+   * Tool definitions sent to the LLM so it knows which functions it may call
+   */
+  toToolDefinitions(): ToolDefinition[] {
+    return this.list().map((fn) => ({
+      type: 'function',
+      function: {
+        name: fn.name,
+        description: fn.description,
+        parameters: { ...fn.parameters },
+      },
+    }));
+  }
+
+  /**
+   * Checks the arguments the LLM returned against the function's schema
+   */
+  validate(call: FunctionCall): ValidationResult {
+    const fn = this.functions.get(call.name);
+    if (!fn) {
+      return { ok: false, errors: [`Unknown function "${call.name}"`] };
+    }
+    return validateArguments(fn.parameters, call.arguments);
+  }
+}
+
+export function validateArguments(schema: ArgumentSchema, args: Record<string, unknown>): ValidationResult {
+  const errors: string[] = [];
+
+  for (const key of schema.required ?? []) {
+    if (args[key] === undefined || args[key] === null) {
+      errors.push(`Missing required argument "${key}"`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(args)) {
+    const property = schema.properties[key];
+    if (!property) {
+      errors.push(`Unexpected argument "${key}"`);
+      continue;
+    }
+    const error = validateProperty(key, property, value);
+    if (error) {
+      errors.push(error);
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, args };
+}
+
+function validateProperty(key: string, property: ArgumentProperty, value: unknown): string | null {
+  switch (property.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return `Argument "${key}" must be a string`;
+      }
+      if (property.enum && !property.enum.includes(value)) {
+        return `Argument "${key}" must be one of: ${property.enum.join(', ')}`;
+      }
+      return null;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return `Argument "${key}" must be a number`;
+      }
+      if (property.type === 'integer' && !Number.isInteger(value)) {
+        return `Argument "${key}" must be an integer`;
+      }
+      if (property.minimum !== undefined && value < property.minimum) {
+        return `Argument "${key}" must be at least ${property.minimum}`;
+      }
+      if (property.maximum !== undefined && value > property.maximum) {
+        return `Argument "${key}" must be at most ${property.maximum}`;
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `Argument "${key}" must be a boolean`;
+  }
+}
@@ -0,0 +1,68 @@
+import type { UIActions } from '@/app/lib/ui-state';
+
+/**
+ * Types for the function registry (steps 8-11 of the process flow).
+ * Standard functions run on the server and return data; modifier functions run on the client and change the UI.
+ */
+
+export type FunctionKind = 'standard' | 'modifier';
+
+export type ArgumentProperty =
+  | { type: 'string'; description?: string; enum?: string[] }
+  | { type: 'number' | 'integer'; description?: string; minimum?: number; maximum?: number }
+  | { type: 'boolean'; description?: string };
+
+/**
+ * The subset of JSON schema that functions may use to describe their arguments
+ */
+export interface ArgumentSchema {
+  type: 'object';
+  properties: Record<string, ArgumentProperty>;
+  required?: string[];
+}
+
+/**
+ * What a modifier function is allowed to change on the client
+ */
+export interface ModifierContext {
+  clearMessages: () => void;
+  ui: UIActions;
+}
+
+interface BaseFunction {
+  name: string;
+  description: string;
+  parameters: ArgumentSchema;
+}
+
+export interface StandardFunction<Args = Record<string, unknown>> extends BaseFunction {
+  kind: 'standard';
+  execute: (args: Args) => Promise<unknown> | unknown;
+}
+
+export interface ModifierFunction<Args = Record<string, unknown>> extends BaseFunction {
+  kind: 'modifier';
+  /** Returns an optional human-readable summary of what changed */
+  apply: (args: Args, context: ModifierContext) => string | void;
+}
+
+/**
+ * A function as the registry holds it: called with arguments that passed its schema
+ */
+export type RegisteredFunction = StandardFunction | ModifierFunction;
+
+export type ValidationResult =
+  | { ok: true; args: Record<string, unknown> }
+  | { ok: false; errors: string[] };
+
+/**
+ * The outcome of dispatching one function call, reported back into the conversation
+ */
+export interface FunctionResult {
+  callId: string;
+  name: string;
+  kind: FunctionKind | 'unknown';
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
@@ -0,0 +1,55 @@
+import type { ConversationTurn } from './types';
+
+/** The most turns one decision request may carry */
+export const MAX_DECISION_TURNS = 100;
+/** The longest a single turn may be */
+export const MAX_TURN_CHARACTERS = 8_000;
+/** The most text, across all turns, one decision request may carry */
+export const MAX_DECISION_CHARACTERS = 60_000;
+
+const CONVERSATION_ROLES = ['user', 'assistant', 'function'];
+
+/**
+ * Whether a value from a request is a well-formed conversation turn
+ */
+export function isConversationTurn(value: unknown): value is ConversationTurn {
+  const turn = value as Partial<ConversationTurn> | null;
+  return !!turn
+    && typeof turn.content === 'string'
+    && CONVERSATION_ROLES.includes(turn.role as string)
+    && (turn.name === undefined || typeof turn.name === 'string');
+}
+
+/**
+ * The most recent turns of a conversation that fit in one decision request, with over-long turns cut short
+ */
+export function fitDecisionHistory(history: ConversationTurn[]): ConversationTurn[] {
+  const fitted: ConversationTurn[] = [];
+  let characters = 0;
+  for (let i = history.length - 1; i >= 0 && fitted.length < MAX_DECISION_TURNS; i--) {
+    const turn = history[i];
+    const content = turn.content.length > MAX_TURN_CHARACTERS ? turn.content.slice(0, MAX_TURN_CHARACTERS) : turn.content;
+    if (characters + content.length > MAX_DECISION_CHARACTERS) {
+      break;
+    }
+    characters += content.length;
+    fitted.unshift(content === turn.content ? turn : { ...turn, content });
+  }
+  return fitted;
+}
+
+/**
+ * Why a conversation is too large for one decision request, or null when it fits
+ */
+export function checkDecisionHistorySize(history: ConversationTurn[]): string | null {
+  if (history.length > MAX_DECISION_TURNS) {
+    return `history may have at most ${MAX_DECISION_TURNS} turns`;
+  }
+  if (history.some((turn) => turn.content.length > MAX_TURN_CHARACTERS)) {
+    return `each turn may be at most ${MAX_TURN_CHARACTERS} characters`;
+  }
+  if (history.reduce((total, turn) => total + turn.content.length, 0) > MAX_DECISION_CHARACTERS) {
+    return `history may be at most ${MAX_DECISION_CHARACTERS} characters in all`;
+  }
+  return null;
+}
@@ -0,0 +1,42 @@
+import { MockProvider } from './mock-provider';
+import { OpenAIProvider } from './openai-provider';
+import type { LLMProvider } from './types';
+
+export {
+  checkDecisionHistorySize,
+  fitDecisionHistory,
+  isConversationTurn,
+  MAX_DECISION_CHARACTERS,
+  MAX_DECISION_TURNS,
+  MAX_TURN_CHARACTERS,
+} from './history';
+
+export type {
+  ConversationTurn,
+  DecisionStreamLine,
+  DecideOptions,
+  FunctionCall,
+  LLMDecision,
+  LLMStreamEvent,
+  LLMProvider,
+  ToolDefinition,
+} from './types';
+
+/**
+ * Picks the LLM provider from the environment.
+ * LLM_PROVIDER may be 'openai' or 'mock'; without it, OpenAI is used when an API key is configured.
+ */
+export function getLLMProvider(): LLMProvider {
+  const configured = process.env.LLM_PROVIDER;
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  if (configured === 'mock' || (!configured && !apiKey)) {
+    return new MockProvider();
+  }
+
+  if (!apiKey) {
+    throw new Error('LLM_PROVIDER is set to openai but OPENAI_API_KEY is missing');
+  }
+
+  return new OpenAIProvider({ apiKey, model: process.env.OPENAI_LLM_MODEL });
+}
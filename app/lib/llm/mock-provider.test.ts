@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { MockProvider } from './mock-provider';
+import type { ToolDefinition } from './types';
+
+function tool(name: string, required: string[] = []): ToolDefinition {
+  return { type: 'function', function: { name, description: name, parameters: { type: 'object', required } } };
+}
+
+describe('MockProvider', () => {
+  const provider = new MockProvider();
+
+  it('echoes the last user turn', async () => {
+    const decision = await provider.decide([
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Hi there' },
+      { role: 'user', content: 'How are you?' },
+    ]);
+    expect(decision).toEqual({ reply: 'You said: "How are you?"', functionCalls: [] });
+  });
+
+  it('decides nothing until the user has spoken', async () => {
+    expect(await provider.decide([{ role: 'assistant', content: 'Welcome' }])).toEqual({ functionCalls: [] });
+  });
+
+  it('calls the tools named in the last user turn that need no arguments', async () => {
+    const tools = [tool('get_current_time'), tool('set_timer', ['minutes']), tool('get_weather')];
+    const decision = await provider.decide([{ role: 'user', content: 'What is the Current Time? Set timer too' }], { tools });
+    expect(decision.functionCalls).toEqual([{ id: 'mock-call-0-0', name: 'get_current_time', arguments: {} }]);
+  });
+
+  it('decides the same way for the same history', async () => {
+    const history = [{ role: 'user' as const, content: 'current time please' }];
+    const tools = [tool('get_current_time')];
+    expect(await provider.decide(history, { tools })).toEqual(await provider.decide(history, { tools }));
+  });
+});
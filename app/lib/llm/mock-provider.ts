@@ -0,0 +1,54 @@
+import type { ConversationTurn, DecideOptions, FunctionCall, LLMDecision, LLMProvider, LLMStreamEvent } from './types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('MockProvider');
+
+/**
+ * Deterministic, offline stand-in for a real LLM.
+ * The same history always produces the same decision, which keeps the loop testable without a network.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+
+  async decide(history: ConversationTurn[], { tools = [] }: DecideOptions = {}): Promise<LLMDecision> {
+    const lastUserIndex = history.map((turn) => turn.role).lastIndexOf('user');
+    log.debug('Deciding for', history.length, 'turns');
+
+    if (lastUserIndex === -1) {
+      return { functionCalls: [] };
+    }
+
+    const lastUserTurn = history[lastUserIndex];
+    const text = lastUserTurn.content.toLowerCase();
+
+    // Call any tool whose name is spoken, e.g. "current time" matches get_current_time,
+    // as long as it needs no arguments
+    const functionCalls: FunctionCall[] = tools
+      .filter((tool) => {
+        const required = (tool.function.parameters.required as string[] | undefined) ?? [];
+        const phrase = tool.function.name.replace(/^(get|set)_/, '').replace(/_/g, ' ');
+        return required.length === 0 && text.includes(phrase);
+      })
+      .map((tool, index) => ({
+        id: `mock-call-${lastUserIndex}-${index}`,
+        name: tool.function.name,
+        arguments: {},
+      }));
+
+    return {
+      reply: `You said: "${lastUserTurn.content}"`,
+      functionCalls,
+    };
+  }
+
+  /**
+   * Streams the same decision one word at a time
+   */
+  async *streamDecision(history: ConversationTurn[], options: DecideOptions = {}): AsyncIterable<LLMStreamEvent> {
+    const decision = await this.decide(history, options);
+    for (const word of decision.reply?.match(/\S+\s*/g) ?? []) {
+      yield { type: 'text-delta', delta: word };
+    }
+    yield { type: 'decision', decision };
+  }
+}
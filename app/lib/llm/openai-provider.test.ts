@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenAIProvider } from './openai-provider';
+
+function stubCompletion(body: unknown, status = 200) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('OpenAIProvider', () => {
+  const provider = new OpenAIProvider({ apiKey: 'test-key', model: 'test-model' });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('turns a completion into a reply, function calls and usage', async () => {
+    stubCompletion({
+      choices: [{
+        message: {
+          content: '  It is noon.  ',
+          tool_calls: [{ id: 'call-1', type: 'function', function: { name: 'get_current_time', arguments: '{"zone":"UTC"}' } }],
+        },
+      }],
+      usage: { prompt_tokens: 12, completion_tokens: 5 },
+    });
+    expect(await provider.decide([{ role: 'user', content: 'What time is it?' }])).toEqual({
+      reply: 'It is noon.',
+      functionCalls: [{ id: 'call-1', name: 'get_current_time', arguments: { zone: 'UTC' } }],
+      usage: { promptTokens: 12, completionTokens: 5 },
+    });
+  });
+
+  it('sends the system prompt, the history and the tools', async () => {
+    const fetchMock = stubCompletion({ choices: [{ message: { content: 'Done' } }] });
+    const tools = [{ type: 'function' as const, function: { name: 'get_current_time', description: 'Time', parameters: {} } }];
+    await provider.decide([
+      { role: 'user', content: 'Time?' },
+      { role: 'function', name: 'get_current_time', content: '12:00' },
+    ], { tools });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.openai.com/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer test-key');
+    const body = JSON.parse(init.body as string);
+    expect(body.model).toBe('test-model');
+    expect(body.tools).toEqual(tools);
+    expect(body.messages.slice(1)).toEqual([
+      { role: 'user', content: 'Time?' },
+      { role: 'system', content: 'Result of function get_current_time: 12:00' },
+    ]);
+  });
+
+  it('treats unparseable tool arguments as none', async () => {
+    stubCompletion({
+      choices: [{ message: { content: null, tool_calls: [{ id: 'c', type: 'function', function: { name: 'f', arguments: '{oops' } }] } }],
+    });
+    const decision = await provider.decide([{ role: 'user', content: 'Go' }]);
+    expect(decision.reply).toBeUndefined();
+    expect(decision.functionCalls).toEqual([{ id: 'c', name: 'f', arguments: {} }]);
+  });
+
+  it('throws with the status when the request fails', async () => {
+    stubCompletion({ error: 'bad key' }, 401);
+    await expect(provider.decide([{ role: 'user', content: 'Hi' }])).rejects.toThrow(/failed: 401/);
+  });
+});
@@ -0,0 +1,210 @@
+import type { ConversationTurn, DecideOptions, FunctionCall, LLMDecision, LLMProvider, LLMStreamEvent } from './types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('OpenAIProvider');
+
+const SYSTEM_PROMPT =
+  'You are the assistant in a guided voice session. Reply briefly and conversationally, ' +
+  'since your reply will be read aloud to the user.';
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+interface OpenAIChatCompletion {
+  choices: {
+    message: {
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+/**
+ * One server-sent chunk of a streamed chat completion
+ */
+interface OpenAIChatCompletionChunk {
+  choices: {
+    delta: {
+      content?: string | null;
+      tool_calls?: {
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }[];
+    };
+  }[];
+  usage?: OpenAIChatCompletion['usage'] | null;
+}
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  model?: string;
+}
+
+/**
+ * LLM provider backed by the OpenAI Chat Completions API
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private readonly apiKey: string;
+  private readonly model: string;
+
+  constructor({ apiKey, model = 'gpt-4o-mini' }: OpenAIProviderOptions) {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async decide(history: ConversationTurn[], { tools = [] }: DecideOptions = {}): Promise<LLMDecision> {
+    log.debug('Requesting decision, turns:', history.length, 'tools:', tools.length, 'model:', this.model);
+
+    const response = await this.requestCompletion(history, tools, false);
+    const data: OpenAIChatCompletion = await response.json();
+    const message = data.choices[0]?.message;
+
+    const functionCalls: FunctionCall[] = (message?.tool_calls ?? []).map((toolCall) => ({
+      id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: parseToolArguments(toolCall.function.arguments),
+    }));
+
+    return {
+      reply: message?.content?.trim() || undefined,
+      functionCalls,
+      usage: data.usage && {
+        promptTokens: data.usage.prompt_tokens,
+        completionTokens: data.usage.completion_tokens,
+      },
+    };
+  }
+
+  async *streamDecision(history: ConversationTurn[], { tools = [] }: DecideOptions = {}): AsyncIterable<LLMStreamEvent> {
+    log.debug('Streaming decision, turns:', history.length, 'tools:', tools.length, 'model:', this.model);
+
+    const response = await this.requestCompletion(history, tools, true);
+    if (!response.body) {
+      throw new Error('OpenAI chat completion stream has no body');
+    }
+
+    let reply = '';
+    // Tool calls arrive in pieces, keyed by their index in the message
+    const toolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+    let usage: LLMDecision['usage'];
+
+    for await (const chunk of readServerSentEvents(response.body)) {
+      const data: OpenAIChatCompletionChunk = JSON.parse(chunk);
+      const delta = data.choices[0]?.delta;
+      if (delta?.content) {
+        reply += delta.content;
+        yield { type: 'text-delta', delta: delta.content };
+      }
+      for (const part of delta?.tool_calls ?? []) {
+        const call = toolCalls.get(part.index) ?? { id: '', name: '', arguments: '' };
+        toolCalls.set(part.index, {
+          id: part.id ?? call.id,
+          name: call.name + (part.function?.name ?? ''),
+          arguments: call.arguments + (part.function?.arguments ?? ''),
+        });
+      }
+      if (data.usage) {
+        usage = { promptTokens: data.usage.prompt_tokens, completionTokens: data.usage.completion_tokens };
+      }
+    }
+
+    log.debug('Stream complete, reply length:', reply.length, 'tool calls:', toolCalls.size);
+    yield {
+      type: 'decision',
+      decision: {
+        reply: reply.trim() || undefined,
+        functionCalls: Array.from(toolCalls.values(), (call) => ({
+          id: call.id,
+          name: call.name,
+          arguments: parseToolArguments(call.arguments),
+        })),
+        usage,
+      },
+    };
+  }
+
+  private async requestCompletion(history: ConversationTurn[], tools: DecideOptions['tools'] = [], stream: boolean): Promise<Response> {
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'system', content: SYSTEM_PROMPT }, ...history.map(toChatMessage)],
+        ...(tools.length > 0 && { tools }),
+        // Token usage comes in a final chunk of its own when streaming
+        ...(stream && { stream: true, stream_options: { include_usage: true } }),
+      }),
+    });
+
+    log.debug('Response status:', response.status);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      log.error('Error response:', errorText);
+      throw new Error(`OpenAI chat completion failed: ${response.status} - ${errorText}`);
+    }
+    return response;
+  }
+}
+
+/**
+ * Yields the data of each server-sent event until the stream's [DONE] marker
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffered += decoder.decode(value, { stream: true });
+
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+        if (data) yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Function results are reported as system messages, since they are not tied to a tool_call_id here
+ */
+function toChatMessage(turn: ConversationTurn) {
+  if (turn.role === 'function') {
+    return { role: 'system', content: `Result of function ${turn.name}: ${turn.content}` };
+  }
+  return { role: turn.role, content: turn.content };
+}
+
+function parseToolArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    log.error('Could not parse tool arguments:', e);
+    return {};
+  }
+}
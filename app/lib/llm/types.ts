@@ -0,0 +1,69 @@
+/**
+ * Shared types for the LLM decision step (step 4 of the process flow).
+ * These are plain data so they can cross the server action boundary.
+ */
+
+export type ConversationRole = 'user' | 'assistant' | 'function';
+
+export interface ConversationTurn {
+  role: ConversationRole;
+  content: string;
+  /** Name of the function whose result this turn reports, when role is 'function' */
+  name?: string;
+}
+
+/**
+ * A function the LLM may call, in the JSON schema shape the OpenAI tools API expects
+ */
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface DecideOptions {
+  tools?: ToolDefinition[];
+}
+
+export interface FunctionCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * The outcome of an LLM call: an AI chat reply, one or more function calls, or both.
+ */
+export interface LLMDecision {
+  reply?: string;
+  functionCalls: FunctionCall[];
+  /** Tokens the call spent, when the provider reports them */
+  usage?: TokenUsage;
+}
+
+/**
+ * What a streamed decision yields: reply text as it is generated, then the complete decision
+ */
+export type LLMStreamEvent =
+  | { type: 'text-delta'; delta: string }
+  | { type: 'decision'; decision: LLMDecision };
+
+/**
+ * One line of a streamed decision sent to the client; the stream ends after a 'decision' or an 'error'
+ */
+export type DecisionStreamLine = LLMStreamEvent | { type: 'error'; message: string };
+
+export interface LLMProvider {
+  readonly name: string;
+  decide(history: ConversationTurn[], options?: DecideOptions): Promise<LLMDecision>;
+  /** Like decide, but yields the reply while it is generated; ends with exactly one 'decision' event */
+  streamDecision(history: ConversationTurn[], options?: DecideOptions): AsyncIterable<LLMStreamEvent>;
+}
@@ -0,0 +1,5 @@
+export { createLogger, getConsoleLogLevel, logBuffer } from './logger';
+export { LogBuffer } from './log-buffer';
+export { redact, redactString } from './redact';
+export { LOG_LEVEL_RANK, LOG_LEVELS } from './types';
+export type { LogEntry, Logger, LogLevel } from './types';
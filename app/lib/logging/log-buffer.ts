@@ -0,0 +1,54 @@
+import type { LogEntry } from './types';
+
+const DEFAULT_CAPACITY = 500;
+
+type LogBufferListener = () => void;
+
+/**
+ * Keeps the most recent log entries in memory for the debug panel
+ */
+export class LogBuffer {
+  private entries: LogEntry[] = [];
+  private readonly listeners = new Set<LogBufferListener>();
+  private notifyScheduled = false;
+
+  constructor(private readonly capacity = DEFAULT_CAPACITY) {}
+
+  push(entry: LogEntry): void {
+    // A new array each time, so subscribers can compare snapshots by reference
+    this.entries = this.entries.length >= this.capacity
+      ? [...this.entries.slice(this.entries.length - this.capacity + 1), entry]
+      : [...this.entries, entry];
+    this.scheduleNotify();
+  }
+
+  getEntries(): LogEntry[] {
+    return this.entries;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.scheduleNotify();
+  }
+
+  subscribe(listener: LogBufferListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Entries can be logged while React is rendering, so listeners hear about them afterwards, in one batch
+   */
+  private scheduleNotify(): void {
+    if (this.notifyScheduled) {
+      return;
+    }
+    this.notifyScheduled = true;
+    queueMicrotask(() => {
+      this.notifyScheduled = false;
+      this.listeners.forEach((listener) => listener());
+    });
+  }
+}
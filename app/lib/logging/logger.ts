@@ -0,0 +1,69 @@
+import { LogBuffer } from './log-buffer';
+import { redact } from './redact';
+import { LOG_LEVEL_RANK, LOG_LEVELS, type LogEntry, type Logger, type LogLevel } from './types';
+
+/**
+ * Recent entries of this process, at every level, whatever is printed to the console
+ */
+export const logBuffer = new LogBuffer();
+
+let nextEntryId = 1;
+
+function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
+
+/**
+ * The lowest level printed to the console. LOG_LEVEL (server only) wins over NEXT_PUBLIC_LOG_LEVEL;
+ * without either, development prints everything and production only warnings and errors.
+ */
+export function getConsoleLogLevel(): LogLevel {
+  const configured = process.env.LOG_LEVEL ?? process.env.NEXT_PUBLIC_LOG_LEVEL;
+  if (isLogLevel(configured)) {
+    return configured;
+  }
+  return process.env.NODE_ENV === 'production' ? 'warn' : 'debug';
+}
+
+function formatDetail(detail: unknown): string {
+  if (typeof detail === 'string') {
+    return detail;
+  }
+  try {
+    return JSON.stringify(detail) ?? String(detail);
+  } catch {
+    // Circular structures
+    return String(detail);
+  }
+}
+
+function write(level: LogEntry['level'], namespace: string, message: string, details: unknown[]): void {
+  const redactedMessage = redact(message) as string;
+  const redactedDetails = details.map((detail) => redact(detail));
+
+  logBuffer.push({
+    id: nextEntryId++,
+    timestamp: new Date().toISOString(),
+    level,
+    namespace,
+    message: [redactedMessage, ...redactedDetails.map(formatDetail)].join(' '),
+  });
+
+  if (LOG_LEVEL_RANK[level] >= LOG_LEVEL_RANK[getConsoleLogLevel()]) {
+    const print = level === 'debug' ? console.log : console[level];
+    print(`[${namespace}] ${redactedMessage}`, ...redactedDetails);
+  }
+}
+
+/**
+ * A logger for one module or component; the namespace prefixes every line, e.g. "useTranscription"
+ */
+export function createLogger(namespace: string): Logger {
+  return {
+    namespace,
+    debug: (message, ...details) => write('debug', namespace, message, details),
+    info: (message, ...details) => write('info', namespace, message, details),
+    warn: (message, ...details) => write('warn', namespace, message, details),
+    error: (message, ...details) => write('error', namespace, message, details),
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { redact, redactString } from './redact';
+
+describe('redactString', () => {
+  it.each([
+    ['Authorization: Bearer abc.def-123', 'Authorization: [redacted]'],
+    ['key sk-proj_abcdefgh1234 failed', 'key [redacted] failed'],
+    ['ephemeral ek_abcdefgh1234', 'ephemeral [redacted]'],
+    ['protocol openai-insecure-api-key.ek_123, x', 'protocol [redacted], x'],
+  ])('removes secrets from %j', (text, expected) => {
+    expect(redactString(text)).toBe(expected);
+  });
+
+  it('masks IP addresses and mDNS host names', () => {
+    expect(redactString('from 192.168.1.20 and 2001:db8::1 via 0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0.local'))
+      .toBe('from [ip] and [ip] via [host]');
+  });
+
+  it('leaves clock times alone', () => {
+    expect(redactString('connected at 12:30:05')).toBe('connected at 12:30:05');
+  });
+
+  it('replaces whole session descriptions', () => {
+    const sdp = 'v=0\r\no=- 1 2 IN IP4 127.0.0.1\r\na=ice-pwd:hunter2\r\n';
+    expect(redactString(sdp)).toBe(`[redacted SDP, ${sdp.length} chars]`);
+  });
+});
+
+describe('redact', () => {
+  it('hides values under sensitive keys but keeps flags readable', () => {
+    expect(redact({ apiKey: 'abc', client_secret: { value: 'ek_x' }, hasClientSecret: true, note: 'from 10.0.0.1' })).toEqual({
+      apiKey: '[redacted]',
+      client_secret: '[redacted]',
+      hasClientSecret: true,
+      note: 'from [ip]',
+    });
+  });
+
+  it('redacts errors, arrays and values with toJSON', () => {
+    expect(redact([new TypeError('Bearer abc'), new URL('http://10.0.0.1/x')])).toEqual(['TypeError: [redacted]', 'http://[ip]/x']);
+  });
+
+  it('stops at a fixed depth', () => {
+    expect(redact({ a: { b: { c: { d: { e: 1 } } } } })).toEqual({ a: { b: { c: { d: '[Object]' } } } });
+  });
+
+  it('never modifies the original', () => {
+    const original = { token: 'abc', nested: ['Bearer xyz'] };
+    redact(original);
+    expect(original).toEqual({ token: 'abc', nested: ['Bearer xyz'] });
+  });
+});
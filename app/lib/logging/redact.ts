@@ -0,0 +1,72 @@
+/**
+ * Scrubs secrets, IP addresses and SDP from anything that is about to be logged
+ */
+
+const REDACTED = '[redacted]';
+// Object keys whose string values are never logged
+const SENSITIVE_KEY_PATTERN = /secret|token|password|credential|authorization|api[-_]?key|^key$|^sdp$|ice-pwd/i;
+// Session descriptions carry ICE credentials, fingerprints and candidate addresses
+const SDP_PATTERN = /(^|\n)v=0\r?\n|a=(candidate|ice-ufrag|ice-pwd|fingerprint):/;
+const SECRET_PATTERNS: RegExp[] = [
+  /\bBearer\s+[^\s"',]+/gi,
+  /\bsk-[A-Za-z0-9_-]{8,}/g,
+  /\bek_[A-Za-z0-9_-]{8,}/g,
+  /openai-insecure-api-key\.[^\s"',]+/g,
+];
+const IPV4_PATTERN = /\b(?:\d{1,3}\.){3}\d{1,3}\b/g;
+// Four or more hex groups, or any group run with "::", so clock times like 12:30:05 are left alone
+const IPV6_PATTERN = /\b(?:[0-9a-f]{1,4}:){3,7}[0-9a-f]{1,4}\b|\b(?:[0-9a-f]{1,4}:)+:(?:[0-9a-f]{1,4}:)*[0-9a-f]{1,4}\b/gi;
+// Browsers hide host candidates behind mDNS names, which still identify the device
+const MDNS_HOST_PATTERN = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.local\b/gi;
+const MAX_DEPTH = 4;
+
+export function redactString(text: string): string {
+  if (SDP_PATTERN.test(text)) {
+    return `[redacted SDP, ${text.length} chars]`;
+  }
+  let redacted = text;
+  for (const pattern of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, REDACTED);
+  }
+  return redacted
+    .replace(MDNS_HOST_PATTERN, '[host]')
+    .replace(IPV4_PATTERN, '[ip]')
+    .replace(IPV6_PATTERN, '[ip]');
+}
+
+/**
+ * Returns a redacted copy of a value; the original is never modified
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value instanceof Error) {
+    return `${value.name}: ${redactString(value.message)}`;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? '[Array]' : '[Object]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  const source = typeof (value as { toJSON?: unknown }).toJSON === 'function'
+    ? (value as { toJSON: () => unknown }).toJSON()
+    : value;
+  if (source === null || typeof source !== 'object') {
+    return redact(source, depth + 1);
+  }
+  return Object.fromEntries(
+    Object.entries(source).map(([key, item]) => [
+      key,
+      // Flags like hasClientSecret stay readable; strings and objects under a sensitive key do not
+      SENSITIVE_KEY_PATTERN.test(key) && (typeof item === 'string' || (typeof item === 'object' && item !== null))
+        ? REDACTED
+        : redact(item, depth + 1),
+    ])
+  );
+}
@@ -0,0 +1,22 @@
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_LEVEL_RANK: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+export interface LogEntry {
+  id: number;
+  timestamp: string;
+  level: Exclude<LogLevel, 'silent'>;
+  namespace: string;
+  /** The message and its details, redacted and formatted as one line */
+  message: string;
+}
+
+export interface Logger {
+  readonly namespace: string;
+  debug(message: string, ...details: unknown[]): void;
+  info(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
+}
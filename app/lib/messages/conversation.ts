@@ -0,0 +1,21 @@
+import type { ConversationTurn } from '@/app/lib/llm/types';
+import type { ChatMessage } from './types';
+
+/**
+ * The turns the LLM sees: what the user said, finished AI replies and function results.
+ * Calls are implied by their results; notices, errors and unfinished replies are left out.
+ */
+export function toConversationTurns(messages: ChatMessage[]): ConversationTurn[] {
+  return messages.flatMap((message): ConversationTurn[] => {
+    switch (message.kind) {
+      case 'user':
+        return [{ role: 'user', content: message.content }];
+      case 'assistant':
+        return message.status === 'done' && message.content ? [{ role: 'assistant', content: message.content }] : [];
+      case 'function-result':
+        return [{ role: 'function', name: message.name, content: message.content }];
+      default:
+        return [];
+    }
+  });
+}
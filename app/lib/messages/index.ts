@@ -0,0 +1,3 @@
+export { toConversationTurns } from './conversation';
+export { fromStoredMessage, isSettledMessage, toStoredMessage } from './stored';
+export type * from './types';
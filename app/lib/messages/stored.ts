@@ -0,0 +1,126 @@
+import type { StoredMessage } from '@/app/lib/sessions/types';
+import type { ChatMessage, MessageUtterance } from './types';
+
+function toStoredUtterance(utterance: MessageUtterance): StoredMessage['utterance'] {
+  return {
+    ...utterance,
+    startedAt: utterance.startedAt.toISOString(),
+    endedAt: utterance.endedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * AI replies still waiting for or receiving tokens are not stored; a reload would leave them stuck
+ */
+export function isSettledMessage(message: ChatMessage): boolean {
+  return message.kind !== 'assistant' || message.status === 'done' || message.status === 'error';
+}
+
+export function toStoredMessage(message: ChatMessage): StoredMessage {
+  const timestamp = message.timestamp.toISOString();
+  switch (message.kind) {
+    case 'user':
+      return {
+        id: message.id,
+        content: message.content,
+        sender: 'user',
+        timestamp,
+        ...(message.source && { source: message.source }),
+        ...(message.originalContent !== undefined && { originalContent: message.originalContent }),
+        ...(message.editedAt && { editedAt: message.editedAt.toISOString() }),
+        ...(message.utterance && { utterance: toStoredUtterance(message.utterance) }),
+      };
+    case 'assistant':
+      return {
+        id: message.id,
+        content: message.content,
+        sender: 'ai',
+        timestamp,
+        ...(message.status === 'error' && { status: 'error' as const, error: message.error }),
+      };
+    case 'function-call':
+      return {
+        id: message.id,
+        content: JSON.stringify(message.arguments),
+        sender: 'function',
+        kind: 'function-call',
+        timestamp,
+        functionName: message.name,
+        callId: message.callId,
+        arguments: message.arguments,
+        ...(message.status === 'error' && { status: 'error' as const }),
+      };
+    case 'function-result':
+      return {
+        id: message.id,
+        content: message.content,
+        sender: 'function',
+        timestamp,
+        functionName: message.name,
+        ok: message.ok,
+        ...(message.callId && { callId: message.callId }),
+      };
+    case 'notice':
+    case 'error':
+      return { id: message.id, content: message.content, sender: 'system', kind: message.kind, timestamp };
+  }
+}
+
+/**
+ * Reads stored messages back, including ones saved before messages had kinds
+ */
+export function fromStoredMessage(stored: StoredMessage): ChatMessage {
+  const timestamp = new Date(stored.timestamp);
+  switch (stored.sender) {
+    case 'user':
+      return {
+        kind: 'user',
+        id: stored.id,
+        content: stored.content,
+        timestamp,
+        source: stored.source,
+        ...(stored.originalContent !== undefined && { originalContent: stored.originalContent }),
+        ...(stored.editedAt && { editedAt: new Date(stored.editedAt) }),
+        ...(stored.utterance && {
+          utterance: {
+            ...stored.utterance,
+            startedAt: new Date(stored.utterance.startedAt),
+            endedAt: stored.utterance.endedAt ? new Date(stored.utterance.endedAt) : null,
+          },
+        }),
+      };
+    case 'ai':
+      return {
+        kind: 'assistant',
+        id: stored.id,
+        content: stored.content,
+        timestamp,
+        status: stored.status === 'error' ? 'error' : 'done',
+        ...(stored.error && { error: stored.error }),
+      };
+    case 'function':
+      if (stored.kind === 'function-call') {
+        return {
+          kind: 'function-call',
+          id: stored.id,
+          callId: stored.callId ?? stored.id,
+          name: stored.functionName ?? 'function',
+          arguments: stored.arguments ?? {},
+          timestamp,
+          // A call still pending when it was saved never got its result
+          status: stored.status === 'error' ? 'error' : 'done',
+        };
+      }
+      return {
+        kind: 'function-result',
+        id: stored.id,
+        name: stored.functionName ?? 'function',
+        content: stored.content,
+        timestamp,
+        ok: stored.ok ?? !stored.content.startsWith('Error: '),
+        ...(stored.callId && { callId: stored.callId }),
+      };
+    case 'system':
+      return { kind: stored.kind === 'error' ? 'error' : 'notice', id: stored.id, content: stored.content, timestamp };
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * The chat message model shared by the guided session and its chat view.
+ * Messages are discriminated by `kind`; timestamps are Dates here and ISO strings once stored.
+ */
+
+import type { RecordingSegment } from '@/app/lib/recordings/types';
+
+/** An AI reply's lifecycle: waiting for the first token, receiving tokens, complete, or failed */
+export type AssistantMessageStatus = 'pending' | 'streaming' | 'done' | 'error';
+
+export type FunctionCallStatus = 'pending' | 'done' | 'error';
+
+export interface MessageUtterance {
+  id: string;
+  startedAt: Date;
+  endedAt: Date | null;
+  audioStartMs?: number;
+  audioEndMs?: number;
+  recording?: RecordingSegment;
+}
+
+interface MessageBase {
+  id: string;
+  timestamp: Date;
+}
+
+export interface UserMessage extends MessageBase {
+  kind: 'user';
+  content: string;
+  /** How the message was entered */
+  source?: 'voice' | 'text';
+  /** Timing of the spoken utterance the message was transcribed from */
+  utterance?: MessageUtterance;
+  /** The text as first entered or transcribed, once the user has edited it */
+  originalContent?: string;
+  editedAt?: Date;
+}
+
+export interface AssistantMessage extends MessageBase {
+  kind: 'assistant';
+  /** Markdown; grows while streaming */
+  content: string;
+  status: AssistantMessageStatus;
+  /** Why the reply failed, when status is 'error' */
+  error?: string;
+}
+
+export interface FunctionCallMessage extends MessageBase {
+  kind: 'function-call';
+  callId: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: FunctionCallStatus;
+}
+
+/**
+ * A function's result, reported back into the conversation for the LLM
+ */
+export interface FunctionResultMessage extends MessageBase {
+  kind: 'function-result';
+  /** The call this answers; absent on results stored before calls were recorded */
+  callId?: string;
+  name: string;
+  content: string;
+  ok: boolean;
+}
+
+/** Something the session itself says, e.g. that the conversation was cleared */
+export interface NoticeMessage extends MessageBase {
+  kind: 'notice';
+  content: string;
+}
+
+/** A failure that is not tied to one AI reply, e.g. a lost connection */
+export interface ErrorMessage extends MessageBase {
+  kind: 'error';
+  content: string;
+}
+
+export type ChatMessage =
+  | UserMessage
+  | AssistantMessage
+  | FunctionCallMessage
+  | FunctionResultMessage
+  | NoticeMessage
+  | ErrorMessage;
+
+export type ChatMessageKind = ChatMessage['kind'];
@@ -0,0 +1,23 @@
+import { headers } from 'next/headers';
+
+/**
+ * How many proxies in front of the app append the address they saw to X-Forwarded-For, from TRUSTED_PROXY_COUNT
+ */
+function getTrustedProxyCount(): number {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT);
+  return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+/**
+ * The caller's address as recorded by the trusted proxies in front of the app, or null when none are configured.
+ * Entries further left in X-Forwarded-For come from the client and can be anything, so the address is the one
+ * the outermost trusted proxy appended: TRUSTED_PROXY_COUNT entries from the right.
+ */
+export async function getClientIp(): Promise<string | null> {
+  const count = getTrustedProxyCount();
+  if (count === 0) {
+    return null;
+  }
+  const hops = (await headers()).get('x-forwarded-for')?.split(',').map((hop) => hop.trim()) ?? [];
+  return hops[hops.length - count] || null;
+}
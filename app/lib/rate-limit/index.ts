@@ -0,0 +1,77 @@
+import { RequestRateLimiter } from './request-rate-limiter';
+import { TranscriptionQuota } from './transcription-quota';
+import type { QuotaLimits, RateLimitSubject } from './types';
+
+export { getClientIp } from './client-ip';
+export { RequestRateLimiter } from './request-rate-limiter';
+export { TranscriptionQuota } from './transcription-quota';
+export type { QuotaDecision, QuotaDenialReason, QuotaLimits, QuotaSubject, RateLimitDecision, RateLimitSubject } from './types';
+
+let quota: TranscriptionQuota | null = null;
+let requestLimiter: RequestRateLimiter | null = null;
+
+export function getTranscriptionQuota(): TranscriptionQuota {
+  if (!quota) {
+    quota = new TranscriptionQuota();
+  }
+  return quota;
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Per-user limits, overridable with RATE_LIMIT_USER_KEYS_PER_MINUTE and RATE_LIMIT_USER_CONCURRENT_SESSIONS
+ */
+export function getUserQuotaLimits(): QuotaLimits {
+  return {
+    keysPerMinute: readLimit('RATE_LIMIT_USER_KEYS_PER_MINUTE', 10),
+    concurrentSessions: readLimit('RATE_LIMIT_USER_CONCURRENT_SESSIONS', 2),
+  };
+}
+
+/**
+ * Per-IP limits, higher than per-user ones since several users can share an address;
+ * overridable with RATE_LIMIT_IP_KEYS_PER_MINUTE and RATE_LIMIT_IP_CONCURRENT_SESSIONS
+ */
+export function getIpQuotaLimits(): QuotaLimits {
+  return {
+    keysPerMinute: readLimit('RATE_LIMIT_IP_KEYS_PER_MINUTE', 30),
+    concurrentSessions: readLimit('RATE_LIMIT_IP_CONCURRENT_SESSIONS', 6),
+  };
+}
+
+export function getRequestRateLimiter(): RequestRateLimiter {
+  if (!requestLimiter) {
+    requestLimiter = new RequestRateLimiter();
+  }
+  return requestLimiter;
+}
+
+/**
+ * Paid requests that are limited per minute, each with its own budget
+ */
+export type RateLimitedFeature = 'llm' | 'tts';
+
+const DEFAULT_REQUESTS_PER_MINUTE: Record<RateLimitedFeature, { user: number; ip: number }> = {
+  llm: { user: 20, ip: 60 },
+  tts: { user: 30, ip: 90 },
+};
+
+/**
+ * The subjects a signed-in user's request for a feature is counted against: the user, and their IP when it is known.
+ * Overridable with e.g. RATE_LIMIT_USER_LLM_REQUESTS_PER_MINUTE and RATE_LIMIT_IP_LLM_REQUESTS_PER_MINUTE.
+ */
+export function getRequestRateLimitSubjects(feature: RateLimitedFeature, userId: string, ip: string | null): RateLimitSubject[] {
+  const defaults = DEFAULT_REQUESTS_PER_MINUTE[feature];
+  const name = feature.toUpperCase();
+  const subjects = [
+    { key: `${feature}:user:${userId}`, requestsPerMinute: readLimit(`RATE_LIMIT_USER_${name}_REQUESTS_PER_MINUTE`, defaults.user) },
+  ];
+  if (ip) {
+    subjects.push({ key: `${feature}:ip:${ip}`, requestsPerMinute: readLimit(`RATE_LIMIT_IP_${name}_REQUESTS_PER_MINUTE`, defaults.ip) });
+  }
+  return subjects;
+}
@@ -0,0 +1,37 @@
+import type { RateLimitDecision, RateLimitSubject } from './types';
+
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * In-memory count of paid requests, e.g. LLM decisions, in a sliding one-minute window.
+ * A request is only counted when every subject has room for it. State is per server process.
+ */
+export class RequestRateLimiter {
+  private readonly requestedAt = new Map<string, number[]>();
+
+  take(subjects: RateLimitSubject[], now = Date.now()): RateLimitDecision {
+    this.prune(now);
+
+    for (const { key, requestsPerMinute } of subjects) {
+      const recent = this.requestedAt.get(key) ?? [];
+      if (recent.length >= requestsPerMinute) {
+        return { allowed: false, subject: key, retryAfterMs: recent[0] + WINDOW_MS - now };
+      }
+    }
+    for (const { key } of subjects) {
+      this.requestedAt.set(key, [...(this.requestedAt.get(key) ?? []), now]);
+    }
+    return { allowed: true };
+  }
+
+  private prune(now: number): void {
+    this.requestedAt.forEach((timestamps, key) => {
+      const recent = timestamps.filter((timestamp) => timestamp > now - WINDOW_MS);
+      if (recent.length > 0) {
+        this.requestedAt.set(key, recent);
+      } else {
+        this.requestedAt.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionQuota } from './transcription-quota';
+import type { QuotaDecision, QuotaSubject } from './types';
+
+const user = (keysPerMinute = 10, concurrentSessions = 1): QuotaSubject => ({ key: 'user:ada', limits: { keysPerMinute, concurrentSessions } });
+const ip: QuotaSubject = { key: 'ip:10.0.0.1', limits: { keysPerMinute: 10, concurrentSessions: 5 } };
+
+function leaseOf(decision: QuotaDecision): string {
+  if (!decision.allowed) {
+    throw new Error(`Expected a lease, got ${decision.reason}`);
+  }
+  return decision.leaseId;
+}
+
+describe('TranscriptionQuota', () => {
+  it('limits how many sessions a subject holds at once', () => {
+    const quota = new TranscriptionQuota();
+    const leaseId = leaseOf(quota.acquire([user(), ip], undefined, 0));
+    expect(quota.acquire([user(), ip], undefined, 1)).toEqual({ allowed: false, reason: 'concurrency_limited', subject: 'user:ada' });
+
+    expect(quota.release(leaseId, 'user:ada')).toBe(true);
+    expect(quota.acquire([user(), ip], undefined, 2).allowed).toBe(true);
+  });
+
+  it('renews a lease on reconnect instead of taking another', () => {
+    const quota = new TranscriptionQuota();
+    const leaseId = leaseOf(quota.acquire([user()], undefined, 0));
+    expect(quota.acquire([user()], leaseId, 1)).toEqual({ allowed: true, leaseId });
+  });
+
+  it('does not renew leases issued to someone else', () => {
+    const quota = new TranscriptionQuota();
+    const theirs = leaseOf(quota.acquire([{ key: 'user:bob', limits: user().limits }], undefined, 0));
+    const mine = quota.acquire([user()], theirs, 1);
+    expect(mine.allowed && mine.leaseId).not.toBe(theirs);
+    expect(quota.release(theirs, 'user:ada')).toBe(false);
+  });
+
+  it('limits keys per minute, renewals included', () => {
+    const quota = new TranscriptionQuota();
+    const leaseId = leaseOf(quota.acquire([user(2)], undefined, 0));
+    quota.acquire([user(2)], leaseId, 1000);
+    expect(quota.acquire([user(2)], leaseId, 2000)).toEqual({
+      allowed: false,
+      reason: 'rate_limited',
+      subject: 'user:ada',
+      retryAfterMs: 58_000,
+    });
+    expect(quota.acquire([user(2)], leaseId, 60_001).allowed).toBe(true);
+  });
+
+  it('expires leases that are never released', () => {
+    const quota = new TranscriptionQuota(1000);
+    quota.acquire([user()], undefined, 0);
+    expect(quota.acquire([user()], undefined, 999).allowed).toBe(false);
+    expect(quota.acquire([user()], undefined, 1000).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,86 @@
+import { randomUUID } from 'crypto';
+import type { QuotaDecision, QuotaSubject } from './types';
+
+const WINDOW_MS = 60 * 1000;
+// Realtime sessions end after 30 minutes; leases that are never released expire with them
+const DEFAULT_LEASE_TTL_MS = 30 * 60 * 1000;
+
+interface Lease {
+  subjects: string[];
+  expiresAt: number;
+}
+
+/**
+ * In-memory accounting of ephemeral keys and the transcription sessions they start.
+ * Every key counts towards keys per minute. A session holds a lease from its first key until it is
+ * released; reconnects renew their lease instead of taking another one. State is per server process.
+ */
+export class TranscriptionQuota {
+  private readonly issuedAt = new Map<string, number[]>();
+  private readonly leases = new Map<string, Lease>();
+
+  constructor(private readonly leaseTtlMs = DEFAULT_LEASE_TTL_MS) {}
+
+  acquire(subjects: QuotaSubject[], leaseId?: string, now = Date.now()): QuotaDecision {
+    this.prune(now);
+
+    for (const { key, limits } of subjects) {
+      const recent = this.issuedAt.get(key) ?? [];
+      if (recent.length >= limits.keysPerMinute) {
+        return { allowed: false, reason: 'rate_limited', subject: key, retryAfterMs: recent[0] + WINDOW_MS - now };
+      }
+    }
+
+    const subjectKeys = subjects.map((subject) => subject.key);
+    const existing = leaseId ? this.leases.get(leaseId) : undefined;
+    const isRenewal = !!existing && existing.subjects.some((key) => subjectKeys.includes(key));
+
+    if (!isRenewal) {
+      for (const { key, limits } of subjects) {
+        if (this.countLeases(key) >= limits.concurrentSessions) {
+          return { allowed: false, reason: 'concurrency_limited', subject: key };
+        }
+      }
+    }
+
+    for (const key of subjectKeys) {
+      this.issuedAt.set(key, [...(this.issuedAt.get(key) ?? []), now]);
+    }
+    const id = isRenewal ? leaseId! : randomUUID();
+    this.leases.set(id, { subjects: subjectKeys, expiresAt: now + this.leaseTtlMs });
+    return { allowed: true, leaseId: id };
+  }
+
+  /**
+   * Ends a session's lease; only a subject the lease was issued to can release it
+   */
+  release(leaseId: string, subjectKey: string): boolean {
+    const lease = this.leases.get(leaseId);
+    if (!lease || !lease.subjects.includes(subjectKey)) {
+      return false;
+    }
+    return this.leases.delete(leaseId);
+  }
+
+  private countLeases(key: string): number {
+    let count = 0;
+    this.leases.forEach((lease) => {
+      if (lease.subjects.includes(key)) count++;
+    });
+    return count;
+  }
+
+  private prune(now: number): void {
+    this.issuedAt.forEach((timestamps, key) => {
+      const recent = timestamps.filter((timestamp) => timestamp > now - WINDOW_MS);
+      if (recent.length > 0) {
+        this.issuedAt.set(key, recent);
+      } else {
+        this.issuedAt.delete(key);
+      }
+    });
+    this.leases.forEach((lease, id) => {
+      if (lease.expiresAt <= now) this.leases.delete(id);
+    });
+  }
+}
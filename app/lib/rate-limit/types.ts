@@ -0,0 +1,32 @@
+export interface QuotaLimits {
+  /** Ephemeral keys issued within any one-minute window */
+  keysPerMinute: number;
+  /** Transcription sessions holding a lease at once */
+  concurrentSessions: number;
+}
+
+/**
+ * Who a quota is counted against, e.g. a user or an IP address
+ */
+export interface QuotaSubject {
+  key: string;
+  limits: QuotaLimits;
+}
+
+export type QuotaDenialReason = 'rate_limited' | 'concurrency_limited';
+
+export type QuotaDecision =
+  | { allowed: true; leaseId: string }
+  | { allowed: false; reason: QuotaDenialReason; subject: string; retryAfterMs?: number };
+
+/**
+ * Who a request rate limit is counted against, with how many requests it may make per minute
+ */
+export interface RateLimitSubject {
+  key: string;
+  requestsPerMinute: number;
+}
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; subject: string; retryAfterMs: number };
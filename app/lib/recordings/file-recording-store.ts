@@ -0,0 +1,125 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { isValidSessionId } from '@/app/lib/sessions';
+import type { ByteRange, RecordingInfo, RecordingStore, StoredRecording } from './types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('FileRecordingStore');
+
+const RECORDING_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function isValidRecordingId(id: string): boolean {
+  return RECORDING_ID_PATTERN.test(id);
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Stores each recording as an audio file and a JSON sidecar, in a directory per session, for local development
+ */
+export class FileRecordingStore implements RecordingStore {
+  constructor(private readonly directory: string) {}
+
+  async save(info: RecordingInfo, data: Uint8Array): Promise<RecordingInfo> {
+    this.checkIds(info.sessionId, info.id);
+    const saved: RecordingInfo = { ...info, size: data.byteLength };
+    await fs.mkdir(this.sessionDirectory(info.sessionId), { recursive: true });
+    // The audio goes first, so a listed recording always has its data
+    await fs.writeFile(this.audioPath(info.sessionId, info.id), data);
+    await fs.writeFile(this.infoPath(info.sessionId, info.id), JSON.stringify(saved, null, 2), 'utf8');
+    log.debug('Saved recording:', info.id, 'bytes:', data.byteLength, 'for session:', info.sessionId);
+    return saved;
+  }
+
+  async list(sessionId: string): Promise<RecordingInfo[]> {
+    if (!isValidSessionId(sessionId)) {
+      return [];
+    }
+    let files: string[];
+    try {
+      files = await fs.readdir(this.sessionDirectory(sessionId));
+    } catch (error) {
+      if (isMissing(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const infos = await Promise.all(
+      files.filter((file) => file.endsWith('.json')).map((file) => this.readInfo(sessionId, path.basename(file, '.json')))
+    );
+    return infos
+      .filter((info): info is RecordingInfo => info !== null)
+      .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  }
+
+  async load(sessionId: string, id: string): Promise<StoredRecording | null> {
+    if (!isValidSessionId(sessionId) || !isValidRecordingId(id)) {
+      return null;
+    }
+    const info = await this.readInfo(sessionId, id);
+    if (!info) {
+      return null;
+    }
+    const audioPath = this.audioPath(sessionId, id);
+    try {
+      const { size } = await fs.stat(audioPath);
+      return {
+        info,
+        size,
+        read: (range?: ByteRange) => Readable.toWeb(createReadStream(audioPath, range)) as ReadableStream<Uint8Array>,
+      };
+    } catch (error) {
+      if (isMissing(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteAll(sessionId: string): Promise<number> {
+    const recordings = await this.list(sessionId);
+    await fs.rm(this.sessionDirectory(sessionId), { recursive: true, force: true });
+    log.debug('Deleted', recordings.length, 'recordings of session:', sessionId);
+    return recordings.length;
+  }
+
+  private async readInfo(sessionId: string, id: string): Promise<RecordingInfo | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.infoPath(sessionId, id), 'utf8')) as RecordingInfo;
+    } catch (error) {
+      if (isMissing(error)) {
+        return null;
+      }
+      if (error instanceof SyntaxError) {
+        log.warn('Skipping unreadable recording:', id, 'in session:', sessionId);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private checkIds(sessionId: string, id: string): void {
+    if (!isValidSessionId(sessionId)) {
+      throw new Error(`Invalid session id "${sessionId}"`);
+    }
+    if (!isValidRecordingId(id)) {
+      throw new Error(`Invalid recording id "${id}"`);
+    }
+  }
+
+  private sessionDirectory(sessionId: string): string {
+    return path.join(this.directory, sessionId);
+  }
+
+  private audioPath(sessionId: string, id: string): string {
+    return path.join(this.sessionDirectory(sessionId), `${id}.audio`);
+  }
+
+  private infoPath(sessionId: string, id: string): string {
+    return path.join(this.sessionDirectory(sessionId), `${id}.json`);
+  }
+}
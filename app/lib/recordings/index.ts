@@ -0,0 +1,33 @@
+import path from 'path';
+import { FileRecordingStore } from './file-recording-store';
+import type { RecordingStore } from './types';
+
+export { isValidRecordingId } from './file-recording-store';
+export { parseRange } from './range';
+export { findSegmentAt, SEGMENT_LEAD_MS, SEGMENT_TAIL_MS, toRecordingSegment } from './segments';
+export { readUpload } from './upload';
+export type * from './types';
+
+const DEFAULT_MAX_RECORDING_BYTES = 200 * 1024 * 1024;
+
+let store: RecordingStore | null = null;
+
+/**
+ * The recording store for this server process.
+ * RECORDING_STORE_DIR overrides where the file store keeps its data (default: .data/recordings).
+ */
+export function getRecordingStore(): RecordingStore {
+  if (!store) {
+    const directory = process.env.RECORDING_STORE_DIR ?? path.join(process.cwd(), '.data', 'recordings');
+    store = new FileRecordingStore(directory);
+  }
+  return store;
+}
+
+/**
+ * The largest recording the server accepts; RECORDING_MAX_BYTES overrides it
+ */
+export function getMaxRecordingBytes(): number {
+  const configured = Number(process.env.RECORDING_MAX_BYTES);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_RECORDING_BYTES;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseRange } from './range';
+
+describe('parseRange', () => {
+  it.each([
+    ['bytes=0-99', { start: 0, end: 99 }],
+    ['bytes=100-', { start: 100, end: 999 }],
+    ['bytes=-200', { start: 800, end: 999 }],
+    ['bytes=-5000', { start: 0, end: 999 }],
+    ['bytes=900-5000', { start: 900, end: 999 }],
+    ['bytes=999-999', { start: 999, end: 999 }],
+  ])('reads %j of a 1000-byte file', (header, expected) => {
+    expect(parseRange(header, 1000)).toEqual(expected);
+  });
+
+  it.each([null, '', 'bytes=-', 'bytes=1000-', 'bytes=50-10', 'bytes=0-10,20-30', 'items=0-10', 'bytes=a-b'])(
+    'refuses %j',
+    (header) => {
+      expect(parseRange(header, 1000)).toBeNull();
+    },
+  );
+
+  it('refuses any range of an empty file', () => {
+    expect(parseRange('bytes=-10', 0)).toBeNull();
+    expect(parseRange('bytes=0-', 0)).toBeNull();
+  });
+});
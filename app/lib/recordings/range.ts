@@ -0,0 +1,14 @@
+import type { ByteRange } from './types';
+
+/**
+ * Parses a single "bytes=start-end" range; suffix ranges ("bytes=-500") count from the end
+ */
+export function parseRange(header: string | null, size: number): ByteRange | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+  const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return start <= end && start < size ? { start, end } : null;
+}
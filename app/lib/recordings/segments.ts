@@ -0,0 +1,50 @@
+import type { RecordingSegment } from './types';
+
+/**
+ * Speech-start events arrive after the speech did, so segments begin a little earlier
+ * and end a little later than the utterance's timestamps
+ */
+export const SEGMENT_LEAD_MS = 500;
+export const SEGMENT_TAIL_MS = 300;
+
+/**
+ * Where an utterance falls in a recording that started at recordingStartedAt
+ */
+export function toRecordingSegment(
+  recordingId: string,
+  recordingStartedAt: Date,
+  utteranceStartedAt: Date,
+  utteranceEndedAt: Date | null
+): RecordingSegment {
+  const origin = recordingStartedAt.getTime();
+  return {
+    recordingId,
+    startMs: Math.max(0, utteranceStartedAt.getTime() - origin - SEGMENT_LEAD_MS),
+    endMs: utteranceEndedAt ? Math.max(0, utteranceEndedAt.getTime() - origin + SEGMENT_TAIL_MS) : null,
+  };
+}
+
+interface WithSegment {
+  id: string;
+  segment: RecordingSegment;
+}
+
+/**
+ * The id of the item whose segment contains a position in a recording. Where segments overlap
+ * because of their lead and tail, the one that started last wins.
+ */
+export function findSegmentAt<T extends WithSegment>(items: T[], recordingId: string, positionMs: number): string | null {
+  let found: T | null = null;
+  for (const item of items) {
+    const { segment } = item;
+    if (
+      segment.recordingId === recordingId
+      && segment.startMs <= positionMs
+      && (segment.endMs === null || positionMs < segment.endMs)
+      && (!found || segment.startMs >= found.segment.startMs)
+    ) {
+      found = item;
+    }
+  }
+  return found?.id ?? null;
+}
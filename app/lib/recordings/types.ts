@@ -0,0 +1,47 @@
+/**
+ * Audio recorded in the browser during a guided session, kept next to the session.
+ * A session has one recording per connected stretch; dates are ISO strings.
+ */
+
+export interface RecordingInfo {
+  id: string;
+  sessionId: string;
+  mimeType: string;
+  /** When the browser started recording, which utterance offsets are measured from */
+  startedAt: string;
+  durationMs: number;
+  size: number;
+}
+
+/**
+ * Where in a recording an utterance was spoken
+ */
+export interface RecordingSegment {
+  recordingId: string;
+  startMs: number;
+  /** Null while the utterance had not ended, e.g. a session stopped mid-sentence */
+  endMs: number | null;
+}
+
+/** Inclusive byte offsets */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StoredRecording {
+  info: RecordingInfo;
+  /** Bytes of audio stored */
+  size: number;
+  /** Streams the audio, or only the bytes in range, without reading the rest into memory */
+  read(range?: ByteRange): ReadableStream<Uint8Array>;
+}
+
+export interface RecordingStore {
+  save(info: RecordingInfo, data: Uint8Array): Promise<RecordingInfo>;
+  /** A session's recordings, oldest first */
+  list(sessionId: string): Promise<RecordingInfo[]>;
+  load(sessionId: string, id: string): Promise<StoredRecording | null>;
+  /** Deletes every recording of a session */
+  deleteAll(sessionId: string): Promise<number>;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { readUpload } from './upload';
+
+function streamOf(chunks: number[][]): { stream: ReadableStream<Uint8Array>; pulled: () => number } {
+  let pulled = 0;
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = chunks[pulled++];
+      if (chunk) {
+        controller.enqueue(new Uint8Array(chunk));
+      } else {
+        controller.close();
+      }
+    },
+  });
+  return { stream, pulled: () => pulled };
+}
+
+describe('readUpload', () => {
+  it('joins the chunks of a body within the limit', async () => {
+    const { stream } = streamOf([[1, 2], [3], [4, 5]]);
+    expect(await readUpload(stream, 5)).toEqual(new Uint8Array([1, 2, 3, 4, 5]));
+  });
+
+  it('stops reading as soon as the body is over the limit', async () => {
+    const { stream, pulled } = streamOf([[1, 2], [3, 4], [5, 6], [7, 8]]);
+    expect(await readUpload(stream, 3)).toBeNull();
+    expect(pulled()).toBeLessThan(4);
+  });
+
+  it('reads a missing body as empty', async () => {
+    expect(await readUpload(null, 10)).toEqual(new Uint8Array(0));
+  });
+});
@@ -0,0 +1,76 @@
+import type { BuiltInDetectorId } from './types';
+
+export interface DetectorDefinition {
+  id: string;
+  label: string;
+  patterns: RegExp[];
+  /** Rejects matches that only look like PII, e.g. a date matched as a phone number */
+  isValid?: (match: string) => boolean;
+}
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, '');
+}
+
+/**
+ * The Luhn checksum used by card numbers and Canadian social insurance numbers
+ */
+export function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Built-in detectors, in priority order: where matches overlap, the earlier detector wins
+ */
+export const BUILT_IN_DETECTOR_DEFINITIONS: Record<BuiltInDetectorId, DetectorDefinition> = {
+  'card-number': {
+    id: 'card-number',
+    label: 'Card number',
+    patterns: [/\b(?:\d[ -]?){12,18}\d\b/g],
+    isValid: (match) => {
+      const digits = digitsOf(match);
+      return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits);
+    },
+  },
+  'national-id': {
+    id: 'national-id',
+    label: 'National ID',
+    patterns: [
+      // US social security numbers
+      /\b(?!000|666|9\d\d)\d{3}[- ](?!00)\d{2}[- ](?!0000)\d{4}\b/g,
+      // UK national insurance numbers
+      /\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/gi,
+      // Canadian social insurance numbers, checked below
+      /\b\d{3}[- ]\d{3}[- ]\d{3}\b/g,
+    ],
+    isValid: (match) => digitsOf(match).length !== 9 || /^\d{3}[- ]\d{2}[- ]\d{4}$/.test(match) || passesLuhn(digitsOf(match)),
+  },
+  phone: {
+    id: 'phone',
+    label: 'Phone',
+    patterns: [/(?:\+|\()?\b\d[\d\s().-]{5,}\d\b/g],
+    // International numbers, ten digits or more, or a local 555-0123 form; not dates or other short runs
+    isValid: (match) => {
+      const digits = digitsOf(match).length;
+      return digits <= 15 && (digits >= 10 || (match.startsWith('+') && digits >= 8) || /^\d{3}[-. ]\d{4}$/.test(match));
+    },
+  },
+  email: {
+    id: 'email',
+    label: 'Email',
+    patterns: [
+      /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+      // As transcribed from speech: "jane dot doe at example dot com"
+      /\b[A-Za-z0-9]+(?: dot [A-Za-z0-9]+)* at [A-Za-z0-9-]+(?: dot [A-Za-z]{2,})+\b/gi,
+    ],
+  },
+};
@@ -0,0 +1,5 @@
+export { BUILT_IN_DETECTOR_DEFINITIONS, passesLuhn } from './detectors';
+export { DEFAULT_REDACTION_POLICY, getRedactionPolicy, RedactionPolicyError, validateRedactionPolicy } from './policy';
+export { findRedactions, redactForRetention, redactStoredMessage, redactText, redactTurns } from './redact';
+export type * from './types';
+export { BUILT_IN_DETECTORS, REDACTION_TARGETS } from './types';
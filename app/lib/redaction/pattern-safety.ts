@@ -0,0 +1,170 @@
+/**
+ * Screens custom redaction patterns for syntax that makes a backtracking regex engine slow. Custom patterns run
+ * on the server for every save and prompt, so anything that can retry the same text in many ways is refused:
+ * nested quantifiers like `(a+)+`, alternation under a quantifier like `(a|ab)*`, variable-length atoms next to
+ * each other that can match the same characters like `\d*\d*`, and backreferences.
+ */
+
+// Characters tried against each atom to tell whether two atoms can match the same text
+const SAMPLE_CHARACTERS = [
+  ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+  'é', 'ß', 'ж', 'ά', '中', '\u00a0', '\u2028',
+];
+
+const ESCAPE = /^\\(?:x[\da-fA-F]{2}|u\{[\da-fA-F]+\}|u[\da-fA-F]{4}|[pP]\{[^}]*\}|c[A-Za-z]|[\s\S])/;
+const QUANTIFIER = /^(?:[*+?]|\{(\d+)(,(\d*))?\})\??/;
+const GROUP_OPENING = /^\((?:\?<?[=!]|\?:|\?<[^>]*>)?/;
+
+interface Quantifier {
+  min: number;
+  max: number;
+}
+
+interface Alternatives {
+  /** Every sample character some atom inside can match */
+  chars: Set<string>;
+  /** The sample characters a match can start with */
+  first: Set<string>;
+  /** Can match empty text */
+  nullable: boolean;
+  /** Holds a quantifier, even one that does not repeat */
+  quantified: boolean;
+  /** Holds an atom that can match text of more than one length */
+  variable: boolean;
+  alternated: boolean;
+}
+
+class UnsafePatternError extends Error {}
+
+function overlaps(a: Set<string>, b: Set<string>): boolean {
+  return Array.from(a).some((char) => b.has(char));
+}
+
+/**
+ * Why a pattern, which must already compile with the flags, could backtrack catastrophically, or null when
+ * matching it stays roughly linear in the text
+ */
+export function findUnsafeSyntax(pattern: string, flags: string): string | null {
+  let i = 0;
+
+  const charsOf = (source: string): Set<string> => {
+    const matcher = new RegExp(`^(?:${source})$`, flags);
+    return new Set(SAMPLE_CHARACTERS.filter((char) => matcher.test(char)));
+  };
+
+  const readQuantifier = (): Quantifier | null => {
+    const match = QUANTIFIER.exec(pattern.slice(i));
+    if (!match) return null;
+    i += match[0].length;
+    if (match[0][0] === '*') return { min: 0, max: Infinity };
+    if (match[0][0] === '+') return { min: 1, max: Infinity };
+    if (match[0][0] === '?') return { min: 0, max: 1 };
+    const min = Number(match[1]);
+    return { min, max: match[2] === undefined ? min : match[3] ? Number(match[3]) : Infinity };
+  };
+
+  const readClass = (): string => {
+    let end = pattern[i + 1] === '^' ? i + 2 : i + 1;
+    while (end < pattern.length && pattern[end] !== ']') {
+      end += pattern[end] === '\\' ? 2 : 1;
+    }
+    const source = pattern.slice(i, end + 1);
+    i = end + 1;
+    return source;
+  };
+
+  // Reads up to the parenthesis that closes the current group, or the end of the pattern
+  const readAlternatives = (): Alternatives => {
+    const result: Alternatives = {
+      chars: new Set(),
+      first: new Set(),
+      nullable: false,
+      quantified: false,
+      variable: false,
+      alternated: false,
+    };
+    // What the variable-length atoms just before can match, when only optional atoms separate them from the next
+    let pending: Set<string>[] = [];
+    // Whether the current alternative has matched nothing it must so far
+    let open = true;
+
+    while (i < pattern.length && pattern[i] !== ')') {
+      const char = pattern[i];
+      if (char === '|') {
+        result.alternated = true;
+        result.nullable ||= open;
+        pending = [];
+        open = true;
+        i++;
+        continue;
+      }
+
+      let chars: Set<string>;
+      let zeroWidth = false;
+      let group: Alternatives | null = null;
+      if (char === '\\') {
+        const escape = ESCAPE.exec(pattern.slice(i))![0];
+        if (/^\\(?:[1-9]|k)/.test(escape)) {
+          throw new UnsafePatternError('backreferences are not allowed');
+        }
+        i += escape.length;
+        zeroWidth = escape === '\\b' || escape === '\\B';
+        chars = zeroWidth ? new Set() : charsOf(escape);
+      } else if (char === '[') {
+        chars = charsOf(readClass());
+      } else if (char === '(') {
+        const opening = GROUP_OPENING.exec(pattern.slice(i))![0];
+        i += opening.length;
+        group = readAlternatives();
+        i++;
+        zeroWidth = /[=!]$/.test(opening);
+        chars = group.chars;
+      } else {
+        i++;
+        zeroWidth = char === '^' || char === '$';
+        chars = zeroWidth ? new Set() : charsOf(char);
+      }
+
+      const quantifier = readQuantifier();
+      if (group && quantifier && quantifier.max > 1) {
+        if (group.quantified) throw new UnsafePatternError('quantified groups may not contain quantifiers, as in (a+)+');
+        if (group.alternated) throw new UnsafePatternError('quantified groups may not contain alternatives, as in (a|ab)*');
+      }
+      result.quantified ||= quantifier !== null || Boolean(group?.quantified);
+      result.alternated ||= Boolean(group?.alternated);
+      if (zeroWidth) {
+        continue;
+      }
+
+      const first = group ? group.first : chars;
+      const variable = (quantifier !== null && quantifier.max > quantifier.min) || Boolean(group && (group.variable || group.alternated));
+      if (variable && pending.some((earlier) => overlaps(earlier, first))) {
+        throw new UnsafePatternError('adjacent quantifiers may not match the same characters, as in \\d*\\d*');
+      }
+      const optional = quantifier?.min === 0 || Boolean(group?.nullable);
+      if (open) {
+        first.forEach((matched) => result.first.add(matched));
+        open = optional;
+      }
+      if (variable) {
+        pending = optional ? [...pending, chars] : [chars];
+      } else if (!optional) {
+        pending = [];
+      }
+      result.variable ||= variable;
+      chars.forEach((matched) => result.chars.add(matched));
+    }
+    result.nullable ||= open;
+    return result;
+  };
+
+  try {
+    readAlternatives();
+    return null;
+  } catch (error) {
+    if (error instanceof UnsafePatternError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REDACTION_POLICY, getRedactionPolicy, RedactionPolicyError, validateRedactionPolicy } from './policy';
+
+function issuesOf(value: unknown): string[] {
+  try {
+    validateRedactionPolicy(value);
+  } catch (error) {
+    if (error instanceof RedactionPolicyError) return error.issues;
+    throw error;
+  }
+  return [];
+}
+
+function withPattern(pattern: string) {
+  return { detectors: {}, customDetectors: [{ id: 'custom', label: 'Custom', pattern }] };
+}
+
+describe('validateRedactionPolicy', () => {
+  it('returns a clean copy of a valid policy', () => {
+    expect(validateRedactionPolicy({
+      detectors: { email: ['prompts', 'ui'], order: ['persisted'] },
+      customDetectors: [{ id: 'order', label: '  Order number ', pattern: 'ORD-\\d+', flags: 'i' }],
+    })).toEqual({
+      detectors: { email: ['ui', 'prompts'], order: ['persisted'] },
+      customDetectors: [{ id: 'order', label: 'Order number', pattern: 'ORD-\\d+', flags: 'i' }],
+    });
+  });
+
+  it('lists every issue', () => {
+    expect(issuesOf({
+      detectors: { unknown: ['ui'], email: ['screen'] },
+      customDetectors: [{ id: 'email', label: '', pattern: '(', flags: 'g' }],
+    })).toEqual([
+      'customDetectors[0].id "email" is already used',
+      'customDetectors[0].label must be 1 to 40 characters',
+      'customDetectors[0].flags may only contain i, m, s and u',
+      'detectors.unknown is not a known detector',
+      'detectors.email must list targets from ui, persisted, prompts',
+    ]);
+  });
+
+  it('refuses patterns that do not compile or match empty text', () => {
+    expect(issuesOf(withPattern('[a-'))[0]).toMatch(/^customDetectors\[0\]\.pattern does not compile/);
+    expect(issuesOf(withPattern('a*'))).toEqual(['customDetectors[0].pattern matches empty text']);
+  });
+
+  it.each([
+    '(a+)+$',
+    '(a|ab)*c',
+    '(\\w)\\1',
+    '(?<x>a)\\k<x>',
+    '((a)*b)+',
+    '(a{2,})*',
+    '(a+){0,}',
+    '\\d*\\d*\\d*\\d*\\d*\\d*\\d*x',
+    '[a-z]+\\w+@',
+    '\\d+\\.?\\d*',
+    '.*foo.*.*',
+    '(?:a|aa)(?:a|aa)b',
+    '(\\d+)(\\d+)',
+    '\\d*(?:x?)\\d*',
+  ])(
+    'refuses %j, which can backtrack catastrophically',
+    (pattern) => {
+      expect(issuesOf(withPattern(pattern))[0]).toMatch(/^customDetectors\[0\]\.pattern is too slow to match/);
+    },
+  );
+
+  it.each([
+    'ORD-\\d{6}',
+    '(?:ref|order) #?\\d+',
+    '[A-Z]{2}\\d+(-\\d+)?',
+    '\\bproject (alpha|beta)\\b',
+    '[(+*]+',
+    '\\d{3}\\d{4}',
+    '\\w+@\\w+\\.com',
+    '.*foo.*',
+    '(?=\\d)\\d+[a-z]*',
+  ])(
+    'accepts %j',
+    (pattern) => {
+      expect(issuesOf(withPattern(pattern))).toEqual([]);
+    },
+  );
+});
+
+describe('getRedactionPolicy', () => {
+  it('falls back to the default when a saved policy is missing or invalid', () => {
+    expect(getRedactionPolicy(undefined)).toBe(DEFAULT_REDACTION_POLICY);
+    expect(getRedactionPolicy({ redaction: { detectors: 'none' } } as never)).toBe(DEFAULT_REDACTION_POLICY);
+  });
+});
@@ -0,0 +1,120 @@
+import type { SessionMetadata } from '@/app/lib/sessions/types';
+import { findUnsafeSyntax } from './pattern-safety';
+import { BUILT_IN_DETECTORS, REDACTION_TARGETS, type RedactionPolicy, type RedactionTarget } from './types';
+
+const CUSTOM_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const CUSTOM_FLAGS = /^[imsu]*$/;
+const MAX_CUSTOM_DETECTORS = 20;
+const MAX_PATTERN_LENGTH = 300;
+const MAX_LABEL_LENGTH = 40;
+
+/**
+ * What a session redacts until the user changes it: contact details stay visible to the user but are kept
+ * out of storage and prompts, and card numbers and national IDs are masked everywhere
+ */
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  detectors: {
+    email: ['persisted', 'prompts'],
+    phone: ['persisted', 'prompts'],
+    'card-number': [...REDACTION_TARGETS],
+    'national-id': [...REDACTION_TARGETS],
+  },
+  customDetectors: [],
+};
+
+export class RedactionPolicyError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid redaction policy: ${issues.join('; ')}`);
+    this.name = 'RedactionPolicyError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a policy from outside the app, e.g. one the user edited, and returns a clean copy.
+ * Custom patterns must compile, must not match empty text and must not be able to backtrack catastrophically.
+ */
+export function validateRedactionPolicy(value: unknown): RedactionPolicy {
+  if (!isRecord(value) || !isRecord(value.detectors) || !Array.isArray(value.customDetectors)) {
+    throw new RedactionPolicyError(['a policy needs a detectors object and a customDetectors list']);
+  }
+  const issues: string[] = [];
+  const customDetectors: RedactionPolicy['customDetectors'] = [];
+  const ids = new Set<string>(BUILT_IN_DETECTORS);
+
+  if (value.customDetectors.length > MAX_CUSTOM_DETECTORS) {
+    issues.push(`at most ${MAX_CUSTOM_DETECTORS} custom detectors are allowed`);
+  }
+  value.customDetectors.forEach((detector: unknown, i) => {
+    const path = `customDetectors[${i}]`;
+    if (!isRecord(detector)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    const { id, label, pattern, flags = '' } = detector;
+    if (typeof id !== 'string' || !CUSTOM_ID_PATTERN.test(id)) {
+      issues.push(`${path}.id must be lowercase letters, digits and dashes`);
+    } else if (ids.has(id)) {
+      issues.push(`${path}.id "${id}" is already used`);
+    }
+    if (typeof label !== 'string' || !label.trim() || label.length > MAX_LABEL_LENGTH) {
+      issues.push(`${path}.label must be 1 to ${MAX_LABEL_LENGTH} characters`);
+    }
+    if (typeof flags !== 'string' || !CUSTOM_FLAGS.test(flags)) {
+      issues.push(`${path}.flags may only contain i, m, s and u`);
+    }
+    if (typeof pattern !== 'string' || !pattern || pattern.length > MAX_PATTERN_LENGTH) {
+      issues.push(`${path}.pattern must be 1 to ${MAX_PATTERN_LENGTH} characters`);
+    } else if (typeof flags === 'string' && CUSTOM_FLAGS.test(flags)) {
+      let compiled: RegExp | null = null;
+      try {
+        compiled = new RegExp(pattern, flags);
+      } catch (error) {
+        issues.push(`${path}.pattern does not compile: ${(error as Error).message}`);
+      }
+      const unsafe = compiled && findUnsafeSyntax(pattern, flags);
+      if (unsafe) {
+        issues.push(`${path}.pattern is too slow to match: ${unsafe}`);
+      } else if (compiled?.test('')) {
+        issues.push(`${path}.pattern matches empty text`);
+      }
+    }
+    if (typeof id === 'string' && typeof label === 'string' && typeof pattern === 'string' && typeof flags === 'string') {
+      ids.add(id);
+      customDetectors.push({ id, label: label.trim(), pattern, ...(flags && { flags }) });
+    }
+  });
+
+  const detectors: Record<string, RedactionTarget[]> = {};
+  for (const [id, targets] of Object.entries(value.detectors)) {
+    if (!ids.has(id)) {
+      issues.push(`detectors.${id} is not a known detector`);
+    } else if (!Array.isArray(targets) || !targets.every((target) => REDACTION_TARGETS.includes(target))) {
+      issues.push(`detectors.${id} must list targets from ${REDACTION_TARGETS.join(', ')}`);
+    } else {
+      detectors[id] = REDACTION_TARGETS.filter((target) => targets.includes(target));
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new RedactionPolicyError(issues);
+  }
+  return { detectors, customDetectors };
+}
+
+/**
+ * The redaction policy saved with a session, or the default when it has none or it no longer validates
+ */
+export function getRedactionPolicy(metadata: SessionMetadata | undefined): RedactionPolicy {
+  if (metadata?.redaction === undefined) {
+    return DEFAULT_REDACTION_POLICY;
+  }
+  try {
+    return validateRedactionPolicy(metadata.redaction);
+  } catch {
+    return DEFAULT_REDACTION_POLICY;
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REDACTION_POLICY } from './policy';
+import { findRedactions, redactForRetention, redactStoredMessage, redactText, redactTurns } from './redact';
+import type { RedactionPolicy } from './types';
+
+const everywhere: RedactionPolicy = {
+  detectors: {
+    email: ['ui', 'persisted', 'prompts'],
+    phone: ['ui', 'persisted', 'prompts'],
+    'card-number': ['ui', 'persisted', 'prompts'],
+    'national-id': ['ui', 'persisted', 'prompts'],
+  },
+  customDetectors: [],
+};
+
+describe('built-in detectors', () => {
+  it.each([
+    ['Write to jane.doe@example.com today', 'Write to [EMAIL] today'],
+    ['it is jane dot doe at example dot co dot uk', 'it is [EMAIL]'],
+    ['Call +44 20 7946 0958 after six', 'Call [PHONE] after six'],
+    ['My number is (415) 555-2671', 'My number is [PHONE]'],
+    ['Try 555-0123', 'Try [PHONE]'],
+    ['Card 4111 1111 1111 1111 expires soon', 'Card [CARD NUMBER] expires soon'],
+    ['SSN 123-45-6789', 'SSN [NATIONAL ID]'],
+    ['NI number AB 12 34 56 C', 'NI number [NATIONAL ID]'],
+    ['SIN 046-454-286', 'SIN [NATIONAL ID]'],
+  ])('masks %j', (text, expected) => {
+    expect(redactText(text, everywhere, 'ui')).toBe(expected);
+  });
+
+  it.each([
+    'We met on 2024-01-15',
+    'Order 12345 shipped',
+    'Card 4111 1111 1111 1112 is not valid',
+    'Meet me at the station',
+  ])('leaves %j alone', (text) => {
+    expect(redactText(text, everywhere, 'ui')).toBe(text);
+  });
+
+  it('gives overlapping matches to the earlier detector', () => {
+    const [redaction] = findRedactions('4111-1111-1111-1111', everywhere);
+    expect(redaction.detector).toBe('card-number');
+  });
+});
+
+describe('redactText', () => {
+  it('masks only the detectors turned on for the requested places', () => {
+    const text = 'Email jane@example.com, card 4111 1111 1111 1111';
+    expect(redactText(text, DEFAULT_REDACTION_POLICY, 'ui')).toBe('Email jane@example.com, card [CARD NUMBER]');
+    expect(redactText(text, DEFAULT_REDACTION_POLICY, 'prompts')).toBe('Email [EMAIL], card [CARD NUMBER]');
+    expect(redactText(text, DEFAULT_REDACTION_POLICY, ['ui', 'persisted'])).toBe('Email [EMAIL], card [CARD NUMBER]');
+  });
+
+  it('masks custom detectors with their label', () => {
+    const policy: RedactionPolicy = {
+      detectors: { order: ['prompts'] },
+      customDetectors: [{ id: 'order', label: 'Order number', pattern: 'ORD-\\d{6}', flags: 'i' }],
+    };
+    expect(redactText('Refund ord-123456 please', policy, 'prompts')).toBe('Refund [ORDER NUMBER] please');
+    expect(redactText('Refund ord-123456 please', policy, 'ui')).toBe('Refund ord-123456 please');
+  });
+});
+
+describe('redactForRetention', () => {
+  it('drops only what no place may see', () => {
+    expect(redactForRetention('jane@example.com, 123-45-6789', DEFAULT_REDACTION_POLICY))
+      .toBe('jane@example.com, [NATIONAL ID]');
+  });
+});
+
+describe('redactStoredMessage', () => {
+  it('masks the original of an edited message too', () => {
+    const message = {
+      id: 'm1',
+      sender: 'user' as const,
+      content: 'my email is [EMAIL]',
+      originalContent: 'my email is jane@example.com',
+      timestamp: '2026-01-01T00:00:00.000Z',
+    };
+    expect(redactStoredMessage(message, DEFAULT_REDACTION_POLICY, 'persisted').originalContent).toBe('my email is [EMAIL]');
+  });
+});
+
+describe('redactTurns', () => {
+  it('masks what is kept out of prompts', () => {
+    expect(redactTurns([{ role: 'user', content: 'ring +1 415 555 2671' }], DEFAULT_REDACTION_POLICY))
+      .toEqual([{ role: 'user', content: 'ring [PHONE]' }]);
+  });
+});
@@ -0,0 +1,113 @@
+import type { ConversationTurn } from '@/app/lib/llm/types';
+import type { StoredMessage } from '@/app/lib/sessions/types';
+import { BUILT_IN_DETECTOR_DEFINITIONS, type DetectorDefinition } from './detectors';
+import { BUILT_IN_DETECTORS, REDACTION_TARGETS, type Redaction, type RedactionPolicy, type RedactionTarget } from './types';
+
+interface ActiveDetector extends DetectorDefinition {
+  targets: RedactionTarget[];
+}
+
+const compiled = new WeakMap<RedactionPolicy, ActiveDetector[]>();
+
+/**
+ * The detectors a policy turns on, built-in ones first, with custom patterns compiled once per policy
+ */
+function getActiveDetectors(policy: RedactionPolicy): ActiveDetector[] {
+  let detectors = compiled.get(policy);
+  if (!detectors) {
+    const definitions: DetectorDefinition[] = [
+      ...BUILT_IN_DETECTORS.map((id) => BUILT_IN_DETECTOR_DEFINITIONS[id]),
+      ...policy.customDetectors.map((custom) => ({
+        id: custom.id,
+        label: custom.label,
+        patterns: [new RegExp(custom.pattern, `${custom.flags ?? ''}g`)],
+      })),
+    ];
+    detectors = definitions
+      .map((definition) => ({ ...definition, targets: policy.detectors[definition.id] ?? [] }))
+      .filter((detector) => detector.targets.length > 0);
+    compiled.set(policy, detectors);
+  }
+  return detectors;
+}
+
+/**
+ * Every match of the policy's detectors in a text. Overlapping matches go to the earliest, then longest,
+ * then the detector listed first.
+ */
+export function findRedactions(text: string, policy: RedactionPolicy): Redaction[] {
+  const matches: { redaction: Redaction; priority: number }[] = [];
+  getActiveDetectors(policy).forEach((detector, priority) => {
+    for (const pattern of detector.patterns) {
+      for (const match of text.matchAll(pattern)) {
+        if (match[0] && (!detector.isValid || detector.isValid(match[0]))) {
+          const redaction = {
+            detector: detector.id,
+            label: detector.label,
+            start: match.index!,
+            end: match.index! + match[0].length,
+            targets: detector.targets,
+          };
+          matches.push({ redaction, priority });
+        }
+      }
+    }
+  });
+
+  matches.sort((a, b) => a.redaction.start - b.redaction.start || b.redaction.end - a.redaction.end || a.priority - b.priority);
+  const redactions: Redaction[] = [];
+  for (const { redaction } of matches) {
+    const last = redactions[redactions.length - 1];
+    if (!last || redaction.start >= last.end) {
+      redactions.push(redaction);
+    }
+  }
+  return redactions;
+}
+
+function applyRedactions(text: string, redactions: Redaction[]): string {
+  let result = '';
+  let offset = 0;
+  for (const redaction of redactions) {
+    result += `${text.slice(offset, redaction.start)}[${redaction.label.toUpperCase()}]`;
+    offset = redaction.end;
+  }
+  return result + text.slice(offset);
+}
+
+/**
+ * The text as it may appear in the given places: matches masked in any of them are masked
+ */
+export function redactText(text: string, policy: RedactionPolicy, targets: RedactionTarget | RedactionTarget[]): string {
+  const wanted = Array.isArray(targets) ? targets : [targets];
+  const redactions = findRedactions(text, policy).filter((redaction) => redaction.targets.some((target) => wanted.includes(target)));
+  return redactions.length > 0 ? applyRedactions(text, redactions) : text;
+}
+
+/**
+ * The text as it may be kept at all: matches masked everywhere are dropped as soon as they are detected,
+ * so the original only survives where some target is allowed to see it
+ */
+export function redactForRetention(text: string, policy: RedactionPolicy): string {
+  const redactions = findRedactions(text, policy)
+    .filter((redaction) => REDACTION_TARGETS.every((target) => redaction.targets.includes(target)));
+  return redactions.length > 0 ? applyRedactions(text, redactions) : text;
+}
+
+/**
+ * A stored message with its text, and the original an edit replaced, redacted for the given places
+ */
+export function redactStoredMessage(message: StoredMessage, policy: RedactionPolicy, targets: RedactionTarget | RedactionTarget[]): StoredMessage {
+  return {
+    ...message,
+    content: redactText(message.content, policy, targets),
+    ...(message.originalContent !== undefined && { originalContent: redactText(message.originalContent, policy, targets) }),
+  };
+}
+
+/**
+ * Conversation turns as they may be sent to an LLM
+ */
+export function redactTurns(turns: ConversationTurn[], policy: RedactionPolicy): ConversationTurn[] {
+  return turns.map((turn) => ({ ...turn, content: redactText(turn.content, policy, 'prompts') }));
+}
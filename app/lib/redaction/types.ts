@@ -0,0 +1,39 @@
+/**
+ * PII redaction for transcripts. A session's policy says, per detector, where its matches are masked:
+ * in the UI, in persisted data, in prompts sent to an LLM, or any combination.
+ */
+
+export const REDACTION_TARGETS = ['ui', 'persisted', 'prompts'] as const;
+export type RedactionTarget = (typeof REDACTION_TARGETS)[number];
+
+export const BUILT_IN_DETECTORS = ['email', 'phone', 'card-number', 'national-id'] as const;
+export type BuiltInDetectorId = (typeof BUILT_IN_DETECTORS)[number];
+
+/**
+ * A detector the user defines with a regular expression
+ */
+export interface CustomDetector {
+  id: string;
+  /** Shown in the mask, e.g. "Order number" masks as [ORDER NUMBER] */
+  label: string;
+  pattern: string;
+  /** Any of "i", "m", "s" and "u"; matching is always global */
+  flags?: string;
+}
+
+export interface RedactionPolicy {
+  /** Where each detector's matches are masked, by detector id; a detector that is left out or has no targets is off */
+  detectors: Record<string, RedactionTarget[]>;
+  customDetectors: CustomDetector[];
+}
+
+/**
+ * One match in a text, with where policy masks it
+ */
+export interface Redaction {
+  detector: string;
+  label: string;
+  start: number;
+  end: number;
+  targets: RedactionTarget[];
+}
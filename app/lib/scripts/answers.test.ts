@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { matchesCondition, parseAnswer } from './answers';
+import type { AnswerSpec } from './types';
+
+const contact: AnswerSpec = {
+  type: 'choice',
+  options: [
+    { value: 'email', label: 'email', synonyms: ['e-mail', 'mail'] },
+    { value: 'phone', label: 'phone', synonyms: ['call'] },
+  ],
+};
+
+describe('parseAnswer', () => {
+  it('rejects an empty transcript', () => {
+    expect(parseAnswer({ type: 'text' }, '   ')).toEqual({ ok: false, error: "I didn't catch an answer." });
+  });
+
+  it('checks text length and pattern', () => {
+    expect(parseAnswer({ type: 'text', minLength: 3 }, 'ok').ok).toBe(false);
+    expect(parseAnswer({ type: 'text', maxLength: 5 }, 'far too long').ok).toBe(false);
+    expect(parseAnswer({ type: 'text', pattern: '^[A-Z]{2}\\d+$', patternHint: 'Say a code like AB12.' }, 'hello'))
+      .toEqual({ ok: false, error: 'Say a code like AB12.' });
+    expect(parseAnswer({ type: 'text' }, '  Ada  ')).toEqual({ ok: true, value: 'Ada' });
+  });
+
+  it.each([
+    ['42', 42],
+    ['I am 1,500 metres away', 1500],
+    ['twenty five', 25],
+    ['forty-two', 42],
+    ['one hundred and five', 105],
+    ['three hundred', 300],
+  ])('reads %j as the number %d', (transcript, expected) => {
+    expect(parseAnswer({ type: 'number' }, transcript)).toEqual({ ok: true, value: expected });
+  });
+
+  it('enforces number bounds and whole numbers', () => {
+    expect(parseAnswer({ type: 'number', min: 0, max: 120 }, '130'))
+      .toEqual({ ok: false, error: 'The number should be between 0 and 120.' });
+    expect(parseAnswer({ type: 'number', integer: true }, '2.5')).toEqual({ ok: false, error: 'I need a whole number.' });
+    expect(parseAnswer({ type: 'number' }, 'lots')).toEqual({ ok: false, error: 'I need a number.' });
+  });
+
+  it.each([
+    ['Yes.', true],
+    ['yeah sure', true],
+    ['Of course', true],
+    ['No', false],
+    ["that's not right", false],
+    ["I don't think so", false],
+  ])('reads %j as %s', (transcript, expected) => {
+    expect(parseAnswer({ type: 'yes-no' }, transcript)).toEqual({ ok: true, value: expected });
+  });
+
+  it('asks again when a yes-no answer is neither', () => {
+    expect(parseAnswer({ type: 'yes-no' }, 'maybe later')).toEqual({ ok: false, error: 'Please answer yes or no.' });
+  });
+
+  it('matches choices by value, label or synonym', () => {
+    expect(parseAnswer(contact, 'E-mail is best')).toEqual({ ok: true, value: 'email' });
+    expect(parseAnswer(contact, 'just call me')).toEqual({ ok: true, value: 'phone' });
+  });
+
+  it('rejects a choice that names no option or several', () => {
+    expect(parseAnswer(contact, 'carrier pigeon')).toEqual({ ok: false, error: 'Please pick one of: email or phone.' });
+    expect(parseAnswer(contact, 'email or phone').ok).toBe(false);
+  });
+});
+
+describe('matchesCondition', () => {
+  it('compares answers with the branch condition', () => {
+    expect(matchesCondition({ equals: true }, true)).toBe(true);
+    expect(matchesCondition({ equals: true }, false)).toBe(false);
+    expect(matchesCondition({ oneOf: ['email', 'sms'] }, 'sms')).toBe(true);
+    expect(matchesCondition({ min: 18, max: 65 }, 70)).toBe(false);
+    expect(matchesCondition({ min: 18 }, 'eighteen')).toBe(false);
+    expect(matchesCondition({ matches: '^urgent' }, 'Urgent: my boiler broke')).toBe(true);
+  });
+
+  it('matches anything without conditions', () => {
+    expect(matchesCondition({}, 'whatever')).toBe(true);
+  });
+});
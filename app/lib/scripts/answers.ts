@@ -0,0 +1,138 @@
+import type { AnswerCondition, AnswerSpec, AnswerValue, ChoiceOption, ParsedAnswer } from './types';
+
+const YES_WORDS = ['yes', 'yeah', 'yep', 'yup', 'sure', 'correct', 'right', 'affirmative', 'absolutely', 'of course', 'i do', 'i have', 'it is'];
+const NO_WORDS = ['no', 'not', 'nope', 'nah', 'not really', 'negative', 'never', "i don't", 'i do not', "i haven't", 'i have not', "it isn't", "it's not"];
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70,
+  eighty: 80, ninety: 90, hundred: 100,
+};
+
+/**
+ * Lowercased words without punctuation, so "Yes." and "yes" read the same
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}'\s.-]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return new RegExp(`(^|\\s)${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\s|$|\\.)`).test(text);
+}
+
+function parseYesNo(text: string): boolean | null {
+  // Negative phrases first, since "not right" would otherwise read as yes through "right"
+  if (NO_WORDS.some((word) => containsPhrase(text, word))) return false;
+  if (YES_WORDS.some((word) => containsPhrase(text, word))) return true;
+  return null;
+}
+
+/**
+ * Digits, or spoken numbers up to the hundreds like "twenty five" or "forty-two"
+ */
+function parseNumber(raw: string): number | null {
+  // Digits are read before normalizing, which would drop thousands separators
+  const digits = raw.match(/-?\d[\d,]*(?:\.\d+)?/);
+  if (digits) {
+    // Commas are thousands separators, as in "1,500"
+    return Number(digits[0].replace(/,/g, ''));
+  }
+
+  let total: number | null = null;
+  for (const word of normalize(raw).split(/[^\p{L}]+/u)) {
+    const value = NUMBER_WORDS[word];
+    if (value === undefined) {
+      // "one hundred and five"
+      if (word === 'and' && total !== null) continue;
+      if (total !== null) break;
+      continue;
+    }
+    total = value === 100 ? (total ?? 1) * 100 : (total ?? 0) + value;
+  }
+  return total;
+}
+
+function matchChoice(text: string, options: ChoiceOption[]): ChoiceOption | null {
+  const matches = options.filter((option) =>
+    [option.value, option.label, ...(option.synonyms ?? [])].some((phrase) => containsPhrase(text, normalize(phrase)))
+  );
+  // Naming two options at once is ambiguous
+  return matches.length === 1 ? matches[0] : null;
+}
+
+function describeChoices(options: ChoiceOption[]): string {
+  const labels = options.map((option) => option.label);
+  return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}` : labels.join('');
+}
+
+/**
+ * Reads a transcribed answer as the type a step expects, and validates it
+ */
+export function parseAnswer(spec: AnswerSpec, transcript: string): ParsedAnswer {
+  const raw = transcript.trim();
+  const text = normalize(raw);
+  if (!text) {
+    return { ok: false, error: "I didn't catch an answer." };
+  }
+
+  switch (spec.type) {
+    case 'text': {
+      if (spec.minLength !== undefined && raw.length < spec.minLength) {
+        return { ok: false, error: 'That answer is too short.' };
+      }
+      if (spec.maxLength !== undefined && raw.length > spec.maxLength) {
+        return { ok: false, error: `Please keep it under ${spec.maxLength} characters.` };
+      }
+      if (spec.pattern !== undefined && !new RegExp(spec.pattern, 'i').test(raw)) {
+        return { ok: false, error: spec.patternHint ?? "That doesn't look like the answer I need." };
+      }
+      return { ok: true, value: raw };
+    }
+    case 'number': {
+      const value = parseNumber(raw);
+      if (value === null || Number.isNaN(value)) {
+        return { ok: false, error: 'I need a number.' };
+      }
+      if (spec.integer && !Number.isInteger(value)) {
+        return { ok: false, error: 'I need a whole number.' };
+      }
+      if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+        const range = spec.min !== undefined && spec.max !== undefined
+          ? `between ${spec.min} and ${spec.max}`
+          : spec.min !== undefined ? `at least ${spec.min}` : `at most ${spec.max}`;
+        return { ok: false, error: `The number should be ${range}.` };
+      }
+      return { ok: true, value };
+    }
+    case 'yes-no': {
+      const value = parseYesNo(text);
+      return value === null ? { ok: false, error: 'Please answer yes or no.' } : { ok: true, value };
+    }
+    case 'choice': {
+      const option = matchChoice(text, spec.options);
+      return option
+        ? { ok: true, value: option.value }
+        : { ok: false, error: `Please pick one of: ${describeChoices(spec.options)}.` };
+    }
+  }
+}
+
+export function matchesCondition(condition: AnswerCondition, value: AnswerValue): boolean {
+  if (condition.equals !== undefined && value !== condition.equals) {
+    return false;
+  }
+  if (condition.oneOf !== undefined && !condition.oneOf.includes(value)) {
+    return false;
+  }
+  if (condition.min !== undefined && !(typeof value === 'number' && value >= condition.min)) {
+    return false;
+  }
+  if (condition.max !== undefined && !(typeof value === 'number' && value <= condition.max)) {
+    return false;
+  }
+  if (condition.matches !== undefined && !(typeof value === 'string' && new RegExp(condition.matches, 'i').test(value))) {
+    return false;
+  }
+  return true;
+}
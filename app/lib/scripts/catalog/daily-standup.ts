@@ -0,0 +1,36 @@
+import type { GuidedScript } from '../types';
+
+/**
+ * The three standup questions, with a follow-up only when something is blocked
+ */
+export const dailyStandupScript: GuidedScript = {
+  id: 'daily-standup',
+  title: 'Daily standup',
+  description: 'Yesterday, today and blockers.',
+  steps: [
+    {
+      id: 'yesterday',
+      prompt: 'What did you work on yesterday?',
+      answer: { type: 'text', minLength: 3 },
+      next: 'today',
+    },
+    {
+      id: 'today',
+      prompt: 'What are you working on today?',
+      answer: { type: 'text', minLength: 3 },
+      next: 'blocked',
+    },
+    {
+      id: 'blocked',
+      prompt: 'Is anything blocking you?',
+      answer: { type: 'yes-no' },
+      branches: [{ when: { equals: true }, next: 'blocker' }],
+    },
+    {
+      id: 'blocker',
+      prompt: "What's blocking you, and who could help?",
+      answer: { type: 'text', minLength: 3 },
+    },
+  ],
+  completionMessage: 'Thanks, that wraps up your standup.',
+};
@@ -0,0 +1,58 @@
+import type { GuidedScript } from '../types';
+
+/**
+ * A short check-in that branches on whether the user has something to report
+ */
+export const intakeScript: GuidedScript = {
+  id: 'intake',
+  title: 'Intake',
+  description: 'Collects a name, a contact preference and any current concerns.',
+  steps: [
+    {
+      id: 'name',
+      prompt: "Let's get started. What's your name?",
+      answer: { type: 'text', minLength: 2, maxLength: 80 },
+      next: 'age',
+    },
+    {
+      id: 'age',
+      prompt: 'How old are you?',
+      answer: { type: 'number', min: 0, max: 120, integer: true },
+      next: 'contact',
+    },
+    {
+      id: 'contact',
+      prompt: 'How should we contact you: email, phone or text message?',
+      answer: {
+        type: 'choice',
+        options: [
+          { value: 'email', label: 'email', synonyms: ['e-mail', 'mail'] },
+          { value: 'phone', label: 'phone', synonyms: ['call', 'phone call'] },
+          { value: 'sms', label: 'text message', synonyms: ['text', 'sms', 'message'] },
+        ],
+      },
+      next: 'has-concerns',
+    },
+    {
+      id: 'has-concerns',
+      prompt: 'Is there anything you would like to raise today?',
+      answer: { type: 'yes-no' },
+      branches: [{ when: { equals: true }, next: 'concerns' }],
+      next: 'wrap-up',
+    },
+    {
+      id: 'concerns',
+      prompt: 'Go ahead, tell me about it.',
+      answer: { type: 'text', minLength: 3 },
+      next: 'wrap-up',
+    },
+    {
+      id: 'wrap-up',
+      prompt: 'Is everything you told me correct?',
+      reprompt: 'Is everything correct, yes or no?',
+      answer: { type: 'yes-no' },
+      branches: [{ when: { equals: false }, next: 'name' }],
+    },
+  ],
+  completionMessage: "Thanks, you're all set. Feel free to keep talking if there's anything else.",
+};
@@ -0,0 +1,38 @@
+import { dailyStandupScript } from './catalog/daily-standup';
+import { intakeScript } from './catalog/intake';
+import type { GuidedScript } from './types';
+import { validateScript } from './validate';
+
+export { matchesCondition, parseAnswer } from './answers';
+export {
+  getCurrentStep,
+  getScriptProgress,
+  getScriptReply,
+  getStep,
+  isScriptRunState,
+  runScript,
+  startScript,
+  submitAnswer,
+} from './runner';
+export { ScriptValidationError, validateScript } from './validate';
+export { ANSWER_TYPES } from './types';
+export type * from './types';
+
+/**
+ * Every script a session can run, by id. Add scripts under ./catalog and list them here.
+ */
+const GUIDED_SCRIPTS: Record<string, GuidedScript> = Object.fromEntries(
+  [intakeScript, dailyStandupScript].map((script) => [script.id, validateScript(script)])
+);
+
+export function isGuidedScriptId(value: unknown): value is string {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(GUIDED_SCRIPTS, value);
+}
+
+export function getGuidedScript(id: string): GuidedScript | null {
+  return isGuidedScriptId(id) ? GUIDED_SCRIPTS[id] : null;
+}
+
+export function listGuidedScripts(): GuidedScript[] {
+  return Object.values(GUIDED_SCRIPTS);
+}
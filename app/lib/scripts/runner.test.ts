@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { intakeScript } from './catalog/intake';
+import { getScriptProgress, getScriptReply, runScript, startScript, submitAnswer } from './runner';
+
+describe('runScript', () => {
+  it('walks the intake script with canned transcripts, following the yes branch', () => {
+    const { state, updates } = runScript(intakeScript, [
+      'My name is Ada Lovelace',
+      'thirty six',
+      'Email me please.',
+      'Yes, I do.',
+      'My knee has been hurting since Tuesday',
+      'Yep.',
+    ]);
+
+    expect(updates.map((update) => update.kind)).toEqual(['accepted', 'accepted', 'accepted', 'accepted', 'accepted', 'accepted']);
+    expect(state.answers.map((answer) => [answer.stepId, answer.value])).toEqual([
+      ['name', 'My name is Ada Lovelace'],
+      ['age', 36],
+      ['contact', 'email'],
+      ['has-concerns', true],
+      ['concerns', 'My knee has been hurting since Tuesday'],
+      ['wrap-up', true],
+    ]);
+    expect(state.currentStepId).toBeNull();
+    expect(state.completedAt).toBeDefined();
+  });
+
+  it('skips the concerns step when the user has nothing to raise', () => {
+    const { state } = runScript(intakeScript, ['Grace', '85', 'a phone call', 'nope']);
+
+    expect(state.currentStepId).toBe('wrap-up');
+    expect(state.answers.map((answer) => answer.stepId)).not.toContain('concerns');
+  });
+
+  it('goes back to the start when the user says the answers are wrong', () => {
+    const { state } = runScript(intakeScript, ['Grace', '85', 'text', 'no', "No, it's not"]);
+
+    expect(state.currentStepId).toBe('name');
+    expect(state.completedAt).toBeUndefined();
+  });
+
+  it('keeps asking the same step until the answer is valid', () => {
+    const { state, updates } = runScript(intakeScript, ['Grace', 'very old', '130', '42']);
+
+    expect(updates.map((update) => update.kind)).toEqual(['accepted', 'rejected', 'rejected', 'accepted']);
+    expect(state.currentStepId).toBe('contact');
+    expect(state.failedAttempts).toBe(0);
+  });
+});
+
+describe('submitAnswer', () => {
+  it('counts failed attempts and explains the rejection', () => {
+    const state = { ...startScript(intakeScript), currentStepId: 'age' };
+    const update = submitAnswer(intakeScript, state, 'I would rather not say');
+
+    expect(update.kind).toBe('rejected');
+    expect(update.state.failedAttempts).toBe(1);
+    expect(getScriptReply(intakeScript, update)).toBe('I need a number. How old are you?');
+  });
+
+  it('ignores answers once the script is complete', () => {
+    const state = { ...startScript(intakeScript), currentStepId: null };
+
+    expect(submitAnswer(intakeScript, state, 'hello').kind).toBe('ignored');
+  });
+
+  it('uses the reprompt when a step has one', () => {
+    const state = { ...startScript(intakeScript), currentStepId: 'wrap-up' };
+    const update = submitAnswer(intakeScript, state, 'maybe');
+
+    expect(getScriptReply(intakeScript, update)).toBe('Please answer yes or no. Is everything correct, yes or no?');
+  });
+});
+
+describe('getScriptProgress', () => {
+  it('estimates the steps left along the default path', () => {
+    const start = getScriptProgress(intakeScript, startScript(intakeScript));
+    expect(start).toMatchObject({ answeredSteps: 0, estimatedTotalSteps: 5, isComplete: false });
+
+    const { state } = runScript(intakeScript, ['Grace', '85', 'email', 'no', 'yes']);
+    expect(getScriptProgress(intakeScript, state)).toMatchObject({ answeredSteps: 5, estimatedTotalSteps: 5, isComplete: true });
+  });
+});
@@ -0,0 +1,133 @@
+import { matchesCondition, parseAnswer } from './answers';
+import type { GuidedScript, ScriptProgress, ScriptRunState, ScriptStep, ScriptUpdate } from './types';
+
+const DEFAULT_COMPLETION_MESSAGE = "Thanks, that's everything I needed.";
+
+export function getStep(script: GuidedScript, stepId: string | null): ScriptStep | null {
+  return stepId === null ? null : script.steps.find((step) => step.id === stepId) ?? null;
+}
+
+export function getCurrentStep(script: GuidedScript, state: ScriptRunState): ScriptStep | null {
+  return getStep(script, state.currentStepId);
+}
+
+export function startScript(script: GuidedScript, now: Date = new Date()): ScriptRunState {
+  return {
+    scriptId: script.id,
+    currentStepId: script.start ?? script.steps[0]?.id ?? null,
+    answers: [],
+    failedAttempts: 0,
+    startedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Applies one transcribed answer to the current step: a valid answer moves to the step its
+ * branches pick, an invalid one stays on the step so it can be asked again
+ */
+export function submitAnswer(
+  script: GuidedScript,
+  state: ScriptRunState,
+  transcript: string,
+  now: Date = new Date()
+): ScriptUpdate {
+  const step = getCurrentStep(script, state);
+  if (!step) {
+    return { kind: 'ignored', state };
+  }
+
+  const parsed = parseAnswer(step.answer, transcript);
+  if (!parsed.ok) {
+    return {
+      kind: 'rejected',
+      state: { ...state, failedAttempts: state.failedAttempts + 1 },
+      step,
+      error: parsed.error,
+    };
+  }
+
+  const answer = { stepId: step.id, transcript: transcript.trim(), value: parsed.value, answeredAt: now.toISOString() };
+  const nextStepId = step.branches?.find((branch) => matchesCondition(branch.when, parsed.value))?.next ?? step.next ?? null;
+  const nextStep = getStep(script, nextStepId);
+
+  return {
+    kind: 'accepted',
+    state: {
+      ...state,
+      currentStepId: nextStep?.id ?? null,
+      answers: [...state.answers, answer],
+      failedAttempts: 0,
+      ...(!nextStep && { completedAt: now.toISOString() }),
+    },
+    answer,
+    nextStep,
+  };
+}
+
+/**
+ * Feeds canned transcripts through a script in order, e.g. to check its branching
+ */
+export function runScript(
+  script: GuidedScript,
+  transcripts: string[],
+  state: ScriptRunState = startScript(script)
+): { state: ScriptRunState; updates: ScriptUpdate[] } {
+  const updates: ScriptUpdate[] = [];
+  for (const transcript of transcripts) {
+    const update = submitAnswer(script, state, transcript);
+    updates.push(update);
+    state = update.state;
+  }
+  return { state, updates };
+}
+
+/**
+ * What to say after an answer: the next prompt, the reason an answer was rejected, or the completion message
+ */
+export function getScriptReply(script: GuidedScript, update: ScriptUpdate): string | null {
+  switch (update.kind) {
+    case 'accepted':
+      return update.nextStep ? update.nextStep.prompt : script.completionMessage ?? DEFAULT_COMPLETION_MESSAGE;
+    case 'rejected':
+      return `${update.error} ${update.step.reprompt ?? update.step.prompt}`;
+    case 'ignored':
+      return null;
+  }
+}
+
+/**
+ * Counts the steps left by following each step's default `next`, since branches depend on answers not given yet
+ */
+export function getScriptProgress(script: GuidedScript, state: ScriptRunState): ScriptProgress {
+  const currentStep = getCurrentStep(script, state);
+  // Guards against default paths that loop back on themselves
+  const visited = new Set<string>();
+  let remaining = 0;
+  for (let step = currentStep; step && !visited.has(step.id); step = getStep(script, step.next ?? null)) {
+    visited.add(step.id);
+    remaining += 1;
+  }
+
+  return {
+    currentStep,
+    answeredSteps: state.answers.length,
+    estimatedTotalSteps: state.answers.length + remaining,
+    isComplete: currentStep === null,
+  };
+}
+
+/**
+ * Guards run state read back from session metadata
+ */
+export function isScriptRunState(value: unknown, scriptId?: string): value is ScriptRunState {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const state = value as Partial<ScriptRunState>;
+  return typeof state.scriptId === 'string'
+    && (scriptId === undefined || state.scriptId === scriptId)
+    && (state.currentStepId === null || typeof state.currentStepId === 'string')
+    && Array.isArray(state.answers)
+    && typeof state.failedAttempts === 'number'
+    && typeof state.startedAt === 'string';
+}
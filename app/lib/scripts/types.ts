@@ -0,0 +1,112 @@
+/**
+ * Declarative guided-session scripts: steps with prompts, expected answers and branching.
+ * Scripts and run state are plain data, so they can be written as JSON and cross the server boundary.
+ */
+
+export const ANSWER_TYPES = ['text', 'number', 'yes-no', 'choice'] as const;
+
+export type AnswerType = (typeof ANSWER_TYPES)[number];
+
+export interface ChoiceOption {
+  value: string;
+  label: string;
+  /** Other ways of saying this option, e.g. "the first one" */
+  synonyms?: string[];
+}
+
+export type AnswerSpec =
+  | {
+      type: 'text';
+      minLength?: number;
+      maxLength?: number;
+      /** A regular expression the answer must match */
+      pattern?: string;
+      /** Explains the pattern to the user when an answer does not match it */
+      patternHint?: string;
+    }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'yes-no' }
+  | { type: 'choice'; options: ChoiceOption[] };
+
+/** Text answers are strings, numbers are numbers, yes-no answers are booleans and choices are option values */
+export type AnswerValue = string | number | boolean;
+
+/**
+ * Every field that is set must hold for the condition to match
+ */
+export interface AnswerCondition {
+  equals?: AnswerValue;
+  oneOf?: AnswerValue[];
+  /** Inclusive bounds, for number answers */
+  min?: number;
+  max?: number;
+  /** A case-insensitive regular expression, for text answers */
+  matches?: string;
+}
+
+export interface ScriptBranch {
+  when: AnswerCondition;
+  next: string;
+}
+
+export interface ScriptStep {
+  id: string;
+  /** Asked when the step starts */
+  prompt: string;
+  /** Asked again after an answer fails validation; defaults to the prompt */
+  reprompt?: string;
+  answer: AnswerSpec;
+  /** Checked in order; the first match picks the next step */
+  branches?: ScriptBranch[];
+  /** The next step when no branch matches; the script ends when there is none */
+  next?: string;
+}
+
+export interface GuidedScript {
+  id: string;
+  title: string;
+  description?: string;
+  /** The first step; defaults to the first in `steps` */
+  start?: string;
+  steps: ScriptStep[];
+  /** Said once the last step is answered */
+  completionMessage?: string;
+}
+
+export interface ScriptAnswer {
+  stepId: string;
+  /** What the user said or typed */
+  transcript: string;
+  value: AnswerValue;
+  /** ISO 8601 */
+  answeredAt: string;
+}
+
+export interface ScriptRunState {
+  scriptId: string;
+  /** null once the script is complete */
+  currentStepId: string | null;
+  /** Accepted answers, in the order the steps were taken */
+  answers: ScriptAnswer[];
+  /** Rejected answers to the current step */
+  failedAttempts: number;
+  /** ISO 8601 */
+  startedAt: string;
+  completedAt?: string;
+}
+
+export type ParsedAnswer = { ok: true; value: AnswerValue } | { ok: false; error: string };
+
+export type ScriptUpdate =
+  | { kind: 'accepted'; state: ScriptRunState; answer: ScriptAnswer; nextStep: ScriptStep | null }
+  | { kind: 'rejected'; state: ScriptRunState; step: ScriptStep; error: string }
+  /** The script was already complete */
+  | { kind: 'ignored'; state: ScriptRunState };
+
+export interface ScriptProgress {
+  currentStep: ScriptStep | null;
+  answeredSteps: number;
+  /** Answered steps plus the steps left on the default path, which branching can change */
+  estimatedTotalSteps: number;
+  isComplete: boolean;
+}
@@ -0,0 +1,89 @@
+import { ANSWER_TYPES, type AnswerCondition, type GuidedScript } from './types';
+
+export class ScriptValidationError extends Error {
+  constructor(readonly scriptId: string, readonly issues: string[]) {
+    super(`Invalid guided script "${scriptId}": ${issues.join('; ')}`);
+    this.name = 'ScriptValidationError';
+  }
+}
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function checkCondition(condition: AnswerCondition, where: string, issues: string[]): void {
+  if (Object.keys(condition ?? {}).length === 0) {
+    issues.push(`${where} has an empty condition, which always matches; use next instead`);
+  }
+  if (condition?.matches !== undefined && !isValidRegExp(condition.matches)) {
+    issues.push(`${where} has an invalid matches pattern`);
+  }
+}
+
+/**
+ * Checks a script's structure, e.g. one loaded from JSON: unique step ids, known answer types,
+ * valid patterns and branches that lead to existing steps
+ */
+export function validateScript(script: GuidedScript): GuidedScript {
+  const issues: string[] = [];
+  const steps = Array.isArray(script.steps) ? script.steps : [];
+
+  if (!script.id) {
+    issues.push('id is required');
+  }
+  if (!script.title) {
+    issues.push('title is required');
+  }
+  if (steps.length === 0) {
+    issues.push('a script needs at least one step');
+  }
+
+  const stepIds = new Set<string>();
+  for (const step of steps) {
+    if (!step.id) {
+      issues.push('every step needs an id');
+    } else if (stepIds.has(step.id)) {
+      issues.push(`step id "${step.id}" is used more than once`);
+    }
+    stepIds.add(step.id);
+  }
+
+  if (script.start !== undefined && !stepIds.has(script.start)) {
+    issues.push(`start step "${script.start}" does not exist`);
+  }
+
+  for (const step of steps) {
+    const where = `step "${step.id}"`;
+    if (!step.prompt?.trim()) {
+      issues.push(`${where} has no prompt`);
+    }
+    if (!ANSWER_TYPES.includes(step.answer?.type)) {
+      issues.push(`${where} answer type must be one of: ${ANSWER_TYPES.join(', ')}`);
+    }
+    if (step.answer?.type === 'choice' && !(step.answer.options?.length > 0)) {
+      issues.push(`${where} offers no choices`);
+    }
+    if (step.answer?.type === 'text' && step.answer.pattern !== undefined && !isValidRegExp(step.answer.pattern)) {
+      issues.push(`${where} has an invalid answer pattern`);
+    }
+    if (step.next !== undefined && !stepIds.has(step.next)) {
+      issues.push(`${where} continues to unknown step "${step.next}"`);
+    }
+    step.branches?.forEach((branch, index) => {
+      checkCondition(branch.when, `${where} branch ${index + 1}`, issues);
+      if (!stepIds.has(branch.next)) {
+        issues.push(`${where} branch ${index + 1} leads to unknown step "${branch.next}"`);
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new ScriptValidationError(script.id, issues);
+  }
+  return script;
+}
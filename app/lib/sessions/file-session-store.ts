@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_SESSION_TITLE, type CreateSessionInput, type SessionListItem, type SessionRecord, type SessionStore } from './types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('FileSessionStore');
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function isValidSessionId(id: string): boolean {
+  return SESSION_ID_PATTERN.test(id);
+}
+
+/**
+ * Stores each session as a JSON file in a directory, for local development
+ */
+export class FileSessionStore implements SessionStore {
+  constructor(private readonly directory: string) {}
+
+  async create({ id = uuidv4(), ownerId, title = DEFAULT_SESSION_TITLE, metadata = {} }: CreateSessionInput): Promise<SessionRecord> {
+    const now = new Date().toISOString();
+    const record: SessionRecord = {
+      id,
+      ownerId,
+      title,
+      createdAt: now,
+      updatedAt: now,
+      metadata,
+      messages: [],
+    };
+    if (await this.load(id)) {
+      throw new Error(`Session "${id}" already exists`);
+    }
+    await this.write(record);
+    log.debug('Created session:', id);
+    return record;
+  }
+
+  async load(id: string): Promise<SessionRecord | null> {
+    try {
+      const raw = await fs.readFile(this.filePath(id), 'utf8');
+      return JSON.parse(raw) as SessionRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async list(): Promise<SessionListItem[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.load(path.basename(file, '.json')))
+    );
+
+    return records
+      .filter((record): record is SessionRecord => record !== null)
+      .map(({ messages, ...rest }) => ({ ...rest, messageCount: messages.length }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async save(record: SessionRecord): Promise<SessionRecord> {
+    const saved = { ...record, updatedAt: new Date().toISOString() };
+    await this.write(saved);
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(id));
+      log.debug('Deleted session:', id);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private filePath(id: string): string {
+    // Session ids come from URLs, so never let one escape the store directory
+    if (!isValidSessionId(id)) {
+      throw new Error(`Invalid session id "${id}"`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  /**
+   * Writes through a temporary file so a crash never leaves a half-written session behind
+   */
+  private async write(record: SessionRecord): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.filePath(record.id);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(record, null, 2), 'utf8');
+    await fs.rename(temporary, target);
+  }
+}
@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getSessionStore, listOwnedSessions, loadOrCreateOwnedSession, loadOwnedSession } from './index';
+
+let directory: string;
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+  process.env.SESSION_STORE_DIR = directory;
+});
+
+afterAll(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe('session ownership', () => {
+  it('creates a session for its first user and shows it to no one else', async () => {
+    const created = await loadOrCreateOwnedSession('s1', 'ada');
+    expect(created.ownerId).toBe('ada');
+    expect((await loadOrCreateOwnedSession('s1', 'ada')).createdAt).toBe(created.createdAt);
+
+    await expect(loadOrCreateOwnedSession('s1', 'bob')).rejects.toThrow('Session "s1" not found');
+    expect(await loadOwnedSession('s1', 'bob')).toBeNull();
+    expect((await loadOwnedSession('s1', 'ada'))?.id).toBe('s1');
+  });
+
+  it('lists only the user\'s sessions, and none stored without an owner', async () => {
+    await loadOrCreateOwnedSession('s2', 'bob');
+    const legacy = await getSessionStore().create({ id: 's3', ownerId: 'ada' });
+    await getSessionStore().save({ ...legacy, ownerId: undefined });
+
+    expect((await listOwnedSessions('ada')).map((session) => session.id)).toEqual(['s1']);
+    expect(await loadOwnedSession('s3', 'ada')).toBeNull();
+  });
+
+  it('refuses invalid ids', async () => {
+    expect(await loadOwnedSession('../etc', 'ada')).toBeNull();
+    await expect(loadOrCreateOwnedSession('../etc', 'ada')).rejects.toThrow('Invalid session id');
+  });
+});
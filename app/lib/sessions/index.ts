@@ -0,0 +1,53 @@
+import path from 'path';
+import { FileSessionStore, isValidSessionId } from './file-session-store';
+import type { SessionListItem, SessionRecord, SessionStore } from './types';
+
+export { isValidSessionId } from './file-session-store';
+export { DEFAULT_SESSION_TITLE } from './types';
+export type * from './types';
+export { SessionValidationError, validateStoredMessages } from './validate';
+
+let store: SessionStore | null = null;
+
+/**
+ * The session store for this server process.
+ * SESSION_STORE_DIR overrides where the file store keeps its data (default: .data/sessions).
+ */
+export function getSessionStore(): SessionStore {
+  if (!store) {
+    const directory = process.env.SESSION_STORE_DIR ?? path.join(process.cwd(), '.data', 'sessions');
+    store = new FileSessionStore(directory);
+  }
+  return store;
+}
+
+/**
+ * A stored session the user owns, or null when there is none or it belongs to someone else.
+ * Callers answer both the same way, so other users' session ids are never confirmed.
+ */
+export async function loadOwnedSession(id: string, userId: string): Promise<SessionRecord | null> {
+  const session = isValidSessionId(id) ? await getSessionStore().load(id) : null;
+  return session?.ownerId === userId ? session : null;
+}
+
+/**
+ * The user's session, created for them on first use. Throws when someone else owns it.
+ */
+export async function loadOrCreateOwnedSession(id: string, userId: string): Promise<SessionRecord> {
+  if (!isValidSessionId(id)) {
+    throw new Error(`Invalid session id "${id}"`);
+  }
+  const store = getSessionStore();
+  const session = (await store.load(id)) ?? (await store.create({ id, ownerId: userId }));
+  if (session.ownerId !== userId) {
+    throw new Error(`Session "${id}" not found`);
+  }
+  return session;
+}
+
+/**
+ * The user's stored sessions, most recently updated first
+ */
+export async function listOwnedSessions(userId: string): Promise<SessionListItem[]> {
+  return (await getSessionStore().list()).filter((session) => session.ownerId === userId);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { SessionRecord, SessionStore } from '../types';
+import { SessionSearchIndex, syncSearchIndex } from './index';
+
+function session(id: string, ownerId: string, content: string): SessionRecord {
+  const timestamp = '2026-02-01T10:00:00.000Z';
+  return {
+    id,
+    ownerId,
+    title: id,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    metadata: {},
+    messages: [{ id: `${id}-m`, sender: 'user', content, timestamp }],
+  };
+}
+
+function memoryStore(records: SessionRecord[]): SessionStore {
+  return {
+    create: async () => { throw new Error('not used'); },
+    load: async (id) => records.find((record) => record.id === id) ?? null,
+    list: async () => records.map(({ messages, ...rest }) => ({ ...rest, messageCount: messages.length })),
+    save: async (record) => record,
+    delete: async () => false,
+  };
+}
+
+describe('syncSearchIndex', () => {
+  it('indexes only the sessions the user owns', async () => {
+    const records = [session('mine', 'ada', 'my pottery class'), session('theirs', 'bob', 'their pottery class')];
+    const index = await syncSearchIndex(new SessionSearchIndex(), memoryStore(records), 'ada');
+    expect(index.sessionIds()).toEqual(['mine']);
+    expect(index.search('pottery').map((result) => result.session.id)).toEqual(['mine']);
+  });
+
+  it('drops sessions that were deleted', async () => {
+    const records = [session('a', 'ada', 'hello'), session('b', 'ada', 'hello again')];
+    const index = await syncSearchIndex(new SessionSearchIndex(), memoryStore(records), 'ada');
+    await syncSearchIndex(index, memoryStore(records.slice(0, 1)), 'ada');
+    expect(index.sessionIds()).toEqual(['a']);
+  });
+});
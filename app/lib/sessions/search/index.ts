@@ -0,0 +1,57 @@
+import { getSessionStore } from '@/app/lib/sessions';
+import type { SessionStore } from '../types';
+import { SessionSearchIndex } from './search-index';
+import { createLogger } from '@/app/lib/logging';
+
+export { SessionSearchIndex, matchesFilters } from './search-index';
+export { buildSnippet } from './snippets';
+export { parseQuery, tokenize } from './tokenize';
+export type * from './types';
+
+const log = createLogger('SessionSearch');
+
+// One index per user, so a search only ever sees the sessions of the user running it
+const indexes = new Map<string, SessionSearchIndex>();
+
+/**
+ * Brings the index up to date with the user's sessions in the store: sessions saved since they were indexed
+ * are re-read, and deleted ones dropped. Only changed sessions are loaded, so this is cheap to call before every search.
+ */
+export async function syncSearchIndex(target: SessionSearchIndex, store: SessionStore, ownerId: string): Promise<SessionSearchIndex> {
+  const listed = (await store.list()).filter((item) => item.ownerId === ownerId);
+  const listedIds = new Set(listed.map((item) => item.id));
+
+  for (const id of target.sessionIds()) {
+    if (!listedIds.has(id)) {
+      target.remove(id);
+    }
+  }
+
+  let reindexed = 0;
+  for (const item of listed) {
+    if (target.getIndexedAt(item.id) === item.updatedAt) {
+      continue;
+    }
+    const session = await store.load(item.id);
+    if (session?.ownerId === ownerId) {
+      target.upsert(session);
+      reindexed++;
+    }
+  }
+  if (reindexed > 0) {
+    log.debug('Reindexed', reindexed, 'of', listed.length, 'sessions');
+  }
+  return target;
+}
+
+/**
+ * The search index over the user's sessions for this server process, synced with the session store
+ */
+export async function getSessionSearchIndex(userId: string): Promise<SessionSearchIndex> {
+  let index = indexes.get(userId);
+  if (!index) {
+    index = new SessionSearchIndex();
+    indexes.set(userId, index);
+  }
+  return syncSearchIndex(index, getSessionStore(), userId);
+}
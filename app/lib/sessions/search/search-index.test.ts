@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { SessionRecord, StoredMessage } from '../types';
+import { SessionSearchIndex } from './search-index';
+import { parseQuery } from './tokenize';
+
+function message(id: string, sender: StoredMessage['sender'], content: string, extra: Partial<StoredMessage> = {}): StoredMessage {
+  return { id, sender, content, timestamp: '2026-02-01T10:00:00.000Z', ...extra };
+}
+
+function session(id: string, createdAt: string, messages: StoredMessage[], tags: string[] = []): SessionRecord {
+  return { id, title: id, createdAt, updatedAt: createdAt, metadata: { tags }, messages };
+}
+
+function buildIndex(): SessionSearchIndex {
+  const index = new SessionSearchIndex();
+  index.upsert(session('pottery', '2026-02-01T10:00:00.000Z', [
+    message('p1', 'user', 'I want to start pottery classes'),
+    message('p2', 'ai', 'Art classes near you start in March'),
+    message('p3', 'function', 'art class lookup'),
+  ], ['hobby']));
+  index.upsert(session('museum', '2026-02-03T10:00:00.000Z', [
+    message('m1', 'user', 'The art museum on Zoë Street'),
+    message('m2', 'ai', 'Something went wrong with art', { status: 'error' }),
+  ]));
+  return index;
+}
+
+describe('parseQuery', () => {
+  it('splits words from quoted phrases', () => {
+    expect(parseQuery('Zoë "Art  Classes" art')).toEqual({ terms: ['zoe', 'art'], phrases: ['art classes'] });
+  });
+});
+
+describe('SessionSearchIndex', () => {
+  it('prefix-matches every query word, ignoring case and diacritics', () => {
+    const results = buildIndex().search('zoe stre');
+    expect(results.map((result) => result.session.id)).toEqual(['museum']);
+    expect(results[0].hits.map((hit) => hit.messageId)).toEqual(['m1']);
+  });
+
+  it('only searches user and AI messages that did not fail', () => {
+    const results = buildIndex().search('lookup');
+    expect(results).toEqual([]);
+    expect(buildIndex().search('wrong')).toEqual([]);
+  });
+
+  it('matches phrases on whole consecutive words', () => {
+    const index = buildIndex();
+    expect(index.search('"art classes"').flatMap((result) => result.hits.map((hit) => hit.messageId))).toEqual(['p2']);
+    expect(index.search('"start pottery"').flatMap((result) => result.hits.map((hit) => hit.messageId))).toEqual(['p1']);
+    expect(index.search('"art class"')).toEqual([]);
+    expect(index.search('"pottery start"')).toEqual([]);
+  });
+
+  it('does not match a phrase inside a longer word', () => {
+    const index = new SessionSearchIndex();
+    index.upsert(session('s', '2026-02-01T10:00:00.000Z', [message('a', 'user', 'restart the app')]));
+    expect(index.search('"start the"')).toEqual([]);
+    expect(index.search('"restart the"')).toHaveLength(1);
+  });
+
+  it('highlights matches in the snippet and lists hits in conversation order', () => {
+    const [result] = buildIndex().search('start');
+    expect(result.hits.map((hit) => hit.messageId)).toEqual(['p1', 'p2']);
+    const { text, highlights } = result.hits[0].snippet;
+    expect(highlights.map(({ start, end }) => text.slice(start, end))).toEqual(['start']);
+  });
+
+  it('ranks exact matches above prefix matches', () => {
+    const index = new SessionSearchIndex();
+    index.upsert(session('prefix', '2026-02-01T10:00:00.000Z', [message('a', 'user', 'artists')]));
+    index.upsert(session('exact', '2026-01-01T10:00:00.000Z', [message('b', 'user', 'art')]));
+    expect(index.search('art').map((result) => result.session.id)).toEqual(['exact', 'prefix']);
+  });
+
+  it('applies date and tag filters', () => {
+    const index = buildIndex();
+    expect(index.search('art', { tag: 'hobby' }).map((result) => result.session.id)).toEqual(['pottery']);
+    expect(index.search('art', { from: '2026-02-02' }).map((result) => result.session.id)).toEqual(['museum']);
+    expect(index.list({ to: '2026-02-01' }).map((summary) => summary.id)).toEqual(['pottery']);
+  });
+
+  it('forgets removed and replaced messages', () => {
+    const index = buildIndex();
+    index.remove('museum');
+    expect(index.search('museum')).toEqual([]);
+    index.upsert(session('pottery', '2026-02-01T10:00:00.000Z', [message('p9', 'user', 'Knitting instead')]));
+    expect(index.search('pottery')).toEqual([]);
+    expect(index.search('knit')).toHaveLength(1);
+    expect(index.size).toBe(1);
+  });
+
+  it('matches nothing for an empty query', () => {
+    expect(buildIndex().search('  "" ')).toEqual([]);
+  });
+});
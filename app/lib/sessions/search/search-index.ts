@@ -0,0 +1,213 @@
+import type { SessionRecord, StoredMessage } from '../types';
+import { summarizeSession } from '../summary';
+import { buildSnippet } from './snippets';
+import { parseQuery, tokenize } from './tokenize';
+import type { Token } from './tokenize';
+import type {
+  HighlightRange,
+  MessageSearchHit,
+  SessionFilters,
+  SessionSearchResult,
+  SessionSummary,
+} from './types';
+
+const SEARCHABLE_SENDERS: ReadonlySet<StoredMessage['sender']> = new Set(['user', 'ai']);
+const EXACT_MATCH_WEIGHT = 2;
+const PREFIX_MATCH_WEIGHT = 1;
+
+interface IndexedMessage {
+  sessionId: string;
+  message: StoredMessage;
+  /** Position in the session, to list hits in conversation order */
+  order: number;
+  tokens: Token[];
+  /** The tokens joined by single spaces, with a space at each end, so phrases match whole words only */
+  normalized: string;
+}
+
+interface IndexedSession {
+  summary: SessionSummary;
+  messageKeys: string[];
+}
+
+function messageKey(sessionId: string, messageId: string): string {
+  return `${sessionId}/${messageId}`;
+}
+
+function dayOf(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+export function matchesFilters(session: SessionSummary, filters: SessionFilters): boolean {
+  const day = dayOf(session.createdAt);
+  if (filters.from && day < filters.from) return false;
+  if (filters.to && day > filters.to) return false;
+  if (filters.tag && !session.tags.includes(filters.tag)) return false;
+  return true;
+}
+
+/**
+ * An in-memory inverted index over the user and AI messages of stored sessions.
+ * Query words prefix-match message words, and every word of a query must appear in a message for it to match.
+ */
+export class SessionSearchIndex {
+  private sessions = new Map<string, IndexedSession>();
+  private messages = new Map<string, IndexedMessage>();
+  private postings = new Map<string, Set<string>>();
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * When the indexed copy of a session was last saved, to tell whether it is stale
+   */
+  getIndexedAt(sessionId: string): string | undefined {
+    return this.sessions.get(sessionId)?.summary.updatedAt;
+  }
+
+  sessionIds(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  upsert(session: SessionRecord): void {
+    this.remove(session.id);
+
+    const messageKeys: string[] = [];
+    session.messages.forEach((message, order) => {
+      if (!SEARCHABLE_SENDERS.has(message.sender) || message.status === 'error' || !message.content) {
+        return;
+      }
+      const key = messageKey(session.id, message.id);
+      const tokens = tokenize(message.content);
+      this.messages.set(key, {
+        sessionId: session.id,
+        message,
+        order,
+        tokens,
+        normalized: ` ${tokens.map((token) => token.term).join(' ')} `,
+      });
+      for (const { term } of tokens) {
+        let keys = this.postings.get(term);
+        if (!keys) {
+          keys = new Set();
+          this.postings.set(term, keys);
+        }
+        keys.add(key);
+      }
+      messageKeys.push(key);
+    });
+
+    this.sessions.set(session.id, { summary: summarizeSession(session), messageKeys });
+  }
+
+  remove(sessionId: string): void {
+    const indexed = this.sessions.get(sessionId);
+    if (!indexed) {
+      return;
+    }
+    for (const key of indexed.messageKeys) {
+      const entry = this.messages.get(key);
+      for (const { term } of entry?.tokens ?? []) {
+        const keys = this.postings.get(term);
+        keys?.delete(key);
+        if (keys?.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+      this.messages.delete(key);
+    }
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Indexed sessions that pass the filters, most recently updated first
+   */
+  list(filters: SessionFilters = {}): SessionSummary[] {
+    return Array.from(this.sessions.values(), (indexed) => indexed.summary)
+      .filter((summary) => matchesFilters(summary, filters))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Sessions with messages matching the query, best match first. An empty query matches nothing.
+   */
+  search(query: string, filters: SessionFilters = {}): SessionSearchResult[] {
+    const { terms, phrases } = parseQuery(query);
+    const phraseTerms = phrases.flatMap((phrase) => phrase.split(' '));
+    const required = Array.from(new Set([...terms, ...phraseTerms]));
+    if (required.length === 0) {
+      return [];
+    }
+
+    let candidates = this.keysMatching(required[0]);
+    for (const term of required.slice(1)) {
+      const matches = this.keysMatching(term);
+      candidates = new Set(Array.from(candidates).filter((key) => matches.has(key)));
+    }
+
+    const bySession = new Map<string, MessageSearchHit[]>();
+    const orders = new Map<string, number>();
+    for (const key of candidates) {
+      const entry = this.messages.get(key)!;
+      const summary = this.sessions.get(entry.sessionId)!.summary;
+      if (!matchesFilters(summary, filters) || !phrases.every((phrase) => entry.normalized.includes(` ${phrase} `))) {
+        continue;
+      }
+      const hit = this.scoreMessage(entry, terms, phrases);
+      orders.set(entry.message.id, entry.order);
+      bySession.set(entry.sessionId, [...(bySession.get(entry.sessionId) ?? []), hit]);
+    }
+
+    return Array.from(bySession, ([sessionId, hits]) => ({
+      session: this.sessions.get(sessionId)!.summary,
+      hits: hits.sort((a, b) => orders.get(a.messageId)! - orders.get(b.messageId)!),
+      score: hits.reduce((total, hit) => total + hit.score, 0),
+    })).sort((a, b) => b.score - a.score || b.session.updatedAt.localeCompare(a.session.updatedAt));
+  }
+
+  /**
+   * Message keys containing a word that starts with the term
+   */
+  private keysMatching(term: string): Set<string> {
+    const keys = new Set<string>();
+    for (const [indexed, postings] of this.postings) {
+      if (indexed.startsWith(term)) {
+        postings.forEach((key) => keys.add(key));
+      }
+    }
+    return keys;
+  }
+
+  private scoreMessage(entry: IndexedMessage, terms: string[], phrases: string[]): MessageSearchHit {
+    const highlights: HighlightRange[] = [];
+    let score = 0;
+
+    for (const token of entry.tokens) {
+      const match = terms.find((term) => token.term.startsWith(term));
+      if (match) {
+        highlights.push({ start: token.start, end: token.end });
+        score += token.term === match ? EXACT_MATCH_WEIGHT : PREFIX_MATCH_WEIGHT;
+      }
+    }
+
+    for (const phrase of phrases) {
+      const length = phrase.split(' ').length;
+      for (let i = 0; i + length <= entry.tokens.length; i++) {
+        const window = entry.tokens.slice(i, i + length);
+        if (window.map((token) => token.term).join(' ') === phrase) {
+          highlights.push({ start: window[0].start, end: window[length - 1].end });
+          score += EXACT_MATCH_WEIGHT * length;
+        }
+      }
+    }
+
+    return {
+      messageId: entry.message.id,
+      sender: entry.message.sender,
+      timestamp: entry.message.timestamp,
+      snippet: buildSnippet(entry.message.content, highlights),
+      score,
+    };
+  }
+}
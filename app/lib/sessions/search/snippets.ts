@@ -0,0 +1,47 @@
+import type { HighlightRange, Snippet } from './types';
+
+const SNIPPET_RADIUS = 60;
+
+function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: HighlightRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * A window of the text around its first match, cut at word boundaries, with the matches marked
+ */
+export function buildSnippet(text: string, ranges: HighlightRange[], radius = SNIPPET_RADIUS): Snippet {
+  const highlights = mergeRanges(ranges);
+  if (highlights.length === 0 || text.length <= radius * 2) {
+    return { text, highlights };
+  }
+
+  let start = Math.max(0, highlights[0].start - radius);
+  let end = Math.min(text.length, highlights[0].end + radius);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < highlights[0].start ? space + 1 : start;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > highlights[0].end ? space : end;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: highlights
+      .filter((range) => range.start >= start && range.end <= end)
+      .map((range) => ({ start: range.start - start + prefix.length, end: range.end - start + prefix.length })),
+  };
+}
@@ -0,0 +1,44 @@
+import type { HighlightRange } from './types';
+
+export interface Token extends HighlightRange {
+  /** Lowercased, without diacritics, so "Zoë" matches "zoe" */
+  term: string;
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+export function normalizeTerm(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Words with their offsets in the original text, for highlighting
+ */
+export function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(WORD), (match) => ({
+    term: normalizeTerm(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+export interface ParsedQuery {
+  /** Each must prefix-match a word of the message */
+  terms: string[];
+  /** Each must appear as whole consecutive words, ignoring case and diacritics */
+  phrases: string[];
+}
+
+/**
+ * Splits a query into words and "quoted phrases"
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const phrases: string[] = [];
+  const rest = query.replace(/"([^"]+)"/g, (_, phrase: string) => {
+    const normalized = tokenize(phrase).map((token) => token.term).join(' ');
+    if (normalized) phrases.push(normalized);
+    return ' ';
+  });
+  const terms = tokenize(rest).map((token) => token.term);
+  return { terms: Array.from(new Set(terms)), phrases };
+}
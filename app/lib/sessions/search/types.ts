@@ -0,0 +1,48 @@
+import type { StoredMessage } from '../types';
+
+/**
+ * A stored session as the history dashboard lists it
+ */
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  /** From the first message to the last, or 0 for sessions with fewer than two */
+  durationMs: number;
+  tags: string[];
+}
+
+export interface SessionFilters {
+  /** Inclusive; YYYY-MM-DD, compared with the day the session was created (UTC) */
+  from?: string;
+  to?: string;
+  tag?: string;
+}
+
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface Snippet {
+  text: string;
+  /** Offsets into `text` of the parts that matched the query */
+  highlights: HighlightRange[];
+}
+
+export interface MessageSearchHit {
+  messageId: string;
+  sender: StoredMessage['sender'];
+  timestamp: string;
+  snippet: Snippet;
+  score: number;
+}
+
+export interface SessionSearchResult {
+  session: SessionSummary;
+  /** Matching messages in conversation order */
+  hits: MessageSearchHit[];
+  score: number;
+}
@@ -0,0 +1,34 @@
+import type { SessionRecord, StoredMessage } from './types';
+import type { SessionSummary } from './search/types';
+
+function messageSpan(message: StoredMessage): [number, number] {
+  const start = Date.parse(message.utterance?.startedAt ?? message.timestamp);
+  const end = message.utterance?.endedAt ? Date.parse(message.utterance.endedAt) : Date.parse(message.timestamp);
+  return [start, Math.max(start, end)];
+}
+
+/**
+ * How long a session ran: from when its first message started to when its last one ended
+ */
+export function getSessionDuration(messages: StoredMessage[]): number {
+  if (messages.length === 0) {
+    return 0;
+  }
+  const spans = messages.map(messageSpan).filter(([start, end]) => !Number.isNaN(start) && !Number.isNaN(end));
+  if (spans.length === 0) {
+    return 0;
+  }
+  return Math.max(...spans.map(([, end]) => end)) - Math.min(...spans.map(([start]) => start));
+}
+
+export function summarizeSession(session: SessionRecord): SessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    messageCount: session.messages.length,
+    durationMs: getSessionDuration(session.messages),
+    tags: Array.isArray(session.metadata.tags) ? session.metadata.tags : [],
+  };
+}
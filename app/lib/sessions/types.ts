@@ -0,0 +1,80 @@
+/**
+ * Persisted guided sessions. Dates are ISO strings so records survive JSON and the server action boundary.
+ */
+
+import type { RecordingSegment } from '@/app/lib/recordings/types';
+
+export const DEFAULT_SESSION_TITLE = 'Untitled session';
+
+export interface StoredUtterance {
+  id: string;
+  startedAt: string;
+  endedAt: string | null;
+  audioStartMs?: number;
+  audioEndMs?: number;
+  /** Where the utterance is in the session's audio, when it was recorded */
+  recording?: RecordingSegment;
+}
+
+/**
+ * 'function' messages are function results unless kind says they are calls;
+ * 'system' messages are notices or errors from the session itself
+ */
+export interface StoredMessage {
+  id: string;
+  content: string;
+  sender: 'user' | 'ai' | 'function' | 'system';
+  timestamp: string;
+  kind?: 'function-call' | 'notice' | 'error';
+  source?: 'voice' | 'text';
+  /** What was first transcribed, kept when the user edits the message */
+  originalContent?: string;
+  editedAt?: string;
+  functionName?: string;
+  utterance?: StoredUtterance;
+  /** Set on AI replies and function calls that failed */
+  status?: 'error';
+  /** Why an AI reply failed */
+  error?: string;
+  /** Pairs a function call with its result */
+  callId?: string;
+  /** The arguments of a function call */
+  arguments?: Record<string, unknown>;
+  /** Whether a function result is a success */
+  ok?: boolean;
+}
+
+export interface SessionMetadata {
+  tags?: string[];
+  [key: string]: unknown;
+}
+
+export interface SessionRecord {
+  id: string;
+  /** The user who started the session and the only one who may read or change it; sessions stored before owners were recorded have none */
+  ownerId?: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  metadata: SessionMetadata;
+  messages: StoredMessage[];
+}
+
+export type SessionListItem = Omit<SessionRecord, 'messages'> & {
+  messageCount: number;
+};
+
+export interface CreateSessionInput {
+  id?: string;
+  ownerId: string;
+  title?: string;
+  metadata?: SessionMetadata;
+}
+
+export interface SessionStore {
+  create(input: CreateSessionInput): Promise<SessionRecord>;
+  load(id: string): Promise<SessionRecord | null>;
+  list(): Promise<SessionListItem[]>;
+  save(record: SessionRecord): Promise<SessionRecord>;
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_MESSAGE_CHARACTERS, MAX_SESSION_MESSAGES, SessionValidationError, validateStoredMessages } from './validate';
+
+function issuesOf(value: unknown): string[] {
+  try {
+    validateStoredMessages(value);
+  } catch (error) {
+    if (error instanceof SessionValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+}
+
+const message = { id: 'm1', content: 'Hello', sender: 'user', timestamp: '2026-02-01T10:00:00.000Z' };
+
+describe('validateStoredMessages', () => {
+  it('returns clean copies with only the fields a stored message has', () => {
+    expect(validateStoredMessages([
+      {
+        ...message,
+        source: 'voice',
+        utterance: { id: 'u1', startedAt: 'a', endedAt: null, recording: { recordingId: 'r1', startMs: 0, endMs: 900 }, extra: 1 },
+        injected: '<script>',
+      },
+    ])).toEqual([{
+      ...message,
+      source: 'voice',
+      utterance: { id: 'u1', startedAt: 'a', endedAt: null, recording: { recordingId: 'r1', startMs: 0, endMs: 900 } },
+    }]);
+  });
+
+  it('lists every issue', () => {
+    expect(issuesOf([
+      { ...message, sender: 'admin', status: 'ok' },
+      { ...message, id: 7, kind: 'secret', arguments: ['a'] },
+      'not a message',
+    ])).toEqual([
+      'messages[0].sender must be user, ai, function or system',
+      'messages[0].status may only be error',
+      'messages[1].kind must be function-call, notice or error',
+      `messages[1].arguments must be an object of at most ${MAX_MESSAGE_CHARACTERS} characters as JSON`,
+      'messages[1].id must be a string of at most 128 characters',
+      'messages[2] must be an object',
+    ]);
+  });
+
+  it('caps the number and size of messages', () => {
+    expect(issuesOf({})).toEqual(['messages must be an array']);
+    expect(issuesOf(Array.from({ length: MAX_SESSION_MESSAGES + 1 }, () => message)))
+      .toEqual([`a session holds at most ${MAX_SESSION_MESSAGES} messages`]);
+    expect(issuesOf([{ ...message, content: 'x'.repeat(MAX_MESSAGE_CHARACTERS + 1) }]))
+      .toEqual([`messages[0].content must be a string of at most ${MAX_MESSAGE_CHARACTERS} characters`]);
+  });
+});
@@ -0,0 +1,135 @@
+import type { StoredMessage, StoredUtterance } from './types';
+
+export const MAX_SESSION_MESSAGES = 1000;
+export const MAX_MESSAGE_CHARACTERS = 20_000;
+export const MAX_SESSION_CHARACTERS = 2_000_000;
+
+const MAX_ID_LENGTH = 128;
+const SENDERS: ReadonlySet<unknown> = new Set(['user', 'ai', 'function', 'system']);
+const KINDS: ReadonlySet<unknown> = new Set(['function-call', 'notice', 'error']);
+const SOURCES: ReadonlySet<unknown> = new Set(['voice', 'text']);
+
+export class SessionValidationError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid session messages: ${issues.join('; ')}`);
+    this.name = 'SessionValidationError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkString(value: unknown, path: string, issues: string[], maxLength = MAX_ID_LENGTH): string {
+  if (typeof value !== 'string' || value.length > maxLength) {
+    issues.push(`${path} must be a string of at most ${maxLength} characters`);
+    return '';
+  }
+  return value;
+}
+
+function checkOptionalNumber(value: unknown, path: string, issues: string[]): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    issues.push(`${path} must be a number of at least 0`);
+  }
+  return value as number;
+}
+
+function checkUtterance(value: unknown, path: string, issues: string[]): StoredUtterance {
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object`);
+    return { id: '', startedAt: '', endedAt: null };
+  }
+  const audioStartMs = checkOptionalNumber(value.audioStartMs, `${path}.audioStartMs`, issues);
+  const audioEndMs = checkOptionalNumber(value.audioEndMs, `${path}.audioEndMs`, issues);
+  let recording: StoredUtterance['recording'];
+  if (value.recording !== undefined) {
+    const segment = isRecord(value.recording) ? value.recording : {};
+    recording = {
+      recordingId: checkString(segment.recordingId, `${path}.recording.recordingId`, issues),
+      startMs: checkOptionalNumber(segment.startMs, `${path}.recording.startMs`, issues) ?? 0,
+      endMs: segment.endMs === null ? null : checkOptionalNumber(segment.endMs, `${path}.recording.endMs`, issues) ?? null,
+    };
+  }
+  return {
+    id: checkString(value.id, `${path}.id`, issues),
+    startedAt: checkString(value.startedAt, `${path}.startedAt`, issues),
+    endedAt: value.endedAt === null ? null : checkString(value.endedAt, `${path}.endedAt`, issues),
+    ...(audioStartMs !== undefined && { audioStartMs }),
+    ...(audioEndMs !== undefined && { audioEndMs }),
+    ...(recording && { recording }),
+  };
+}
+
+function checkMessage(value: unknown, path: string, issues: string[]): StoredMessage {
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object`);
+    return { id: '', content: '', sender: 'system', timestamp: '' };
+  }
+  if (!SENDERS.has(value.sender)) {
+    issues.push(`${path}.sender must be user, ai, function or system`);
+  }
+  if (value.kind !== undefined && !KINDS.has(value.kind)) {
+    issues.push(`${path}.kind must be function-call, notice or error`);
+  }
+  if (value.source !== undefined && !SOURCES.has(value.source)) {
+    issues.push(`${path}.source must be voice or text`);
+  }
+  if (value.status !== undefined && value.status !== 'error') {
+    issues.push(`${path}.status may only be error`);
+  }
+  if (value.ok !== undefined && typeof value.ok !== 'boolean') {
+    issues.push(`${path}.ok must be a boolean`);
+  }
+  if (value.arguments !== undefined
+    && (!isRecord(value.arguments) || JSON.stringify(value.arguments).length > MAX_MESSAGE_CHARACTERS)) {
+    issues.push(`${path}.arguments must be an object of at most ${MAX_MESSAGE_CHARACTERS} characters as JSON`);
+  }
+
+  const optionalString = (field: keyof StoredMessage, maxLength?: number) =>
+    value[field] === undefined ? {} : { [field]: checkString(value[field], `${path}.${field}`, issues, maxLength) };
+
+  return {
+    id: checkString(value.id, `${path}.id`, issues),
+    content: checkString(value.content, `${path}.content`, issues, MAX_MESSAGE_CHARACTERS),
+    sender: value.sender as StoredMessage['sender'],
+    timestamp: checkString(value.timestamp, `${path}.timestamp`, issues),
+    ...(value.kind !== undefined && { kind: value.kind as StoredMessage['kind'] }),
+    ...(value.source !== undefined && { source: value.source as StoredMessage['source'] }),
+    ...optionalString('originalContent', MAX_MESSAGE_CHARACTERS),
+    ...optionalString('editedAt'),
+    ...optionalString('functionName'),
+    ...(value.utterance !== undefined && { utterance: checkUtterance(value.utterance, `${path}.utterance`, issues) }),
+    ...(value.status !== undefined && { status: 'error' as const }),
+    ...optionalString('error', MAX_MESSAGE_CHARACTERS),
+    ...optionalString('callId'),
+    ...(value.arguments !== undefined && { arguments: value.arguments as Record<string, unknown> }),
+    ...(value.ok !== undefined && { ok: value.ok as boolean }),
+  };
+}
+
+/**
+ * Checks messages from outside the app, e.g. a client saving its session, and returns clean copies
+ * with only the fields a stored message has. The number and size of messages are capped.
+ */
+export function validateStoredMessages(value: unknown): StoredMessage[] {
+  if (!Array.isArray(value)) {
+    throw new SessionValidationError(['messages must be an array']);
+  }
+  if (value.length > MAX_SESSION_MESSAGES) {
+    throw new SessionValidationError([`a session holds at most ${MAX_SESSION_MESSAGES} messages`]);
+  }
+  const issues: string[] = [];
+  const messages = value.map((message, i) => checkMessage(message, `messages[${i}]`, issues));
+  const characters = messages.reduce((total, message) => total + message.content.length + (message.originalContent?.length ?? 0), 0);
+  if (characters > MAX_SESSION_CHARACTERS) {
+    issues.push(`a session holds at most ${MAX_SESSION_CHARACTERS} characters of messages`);
+  }
+  if (issues.length > 0) {
+    throw new SessionValidationError(issues);
+  }
+  return messages;
+}
@@ -0,0 +1,37 @@
+import { LocalSummarizationProvider } from './local-provider';
+import { OpenAISummarizationProvider } from './openai-provider';
+import { DEFAULT_CHUNK_CHARACTERS } from './summarize';
+import type { SummarizationProvider } from './types';
+
+export { emptySummary, isEmptySummary, mergeSummaries } from './merge';
+export { chunkTurns, summarizeMessages } from './summarize';
+export type { SummarizeOptions, SummarizeResult } from './summarize';
+export { isStoredSummary, SummaryValidationError, validateSummary } from './validate';
+export type * from './types';
+
+/**
+ * Picks the summarization provider from the environment.
+ * SUMMARY_PROVIDER may be 'openai' or 'local'; without it, OpenAI is used when an API key is configured.
+ */
+export function getSummarizationProvider(): SummarizationProvider {
+  const configured = process.env.SUMMARY_PROVIDER;
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  if (configured === 'local' || (!configured && !apiKey)) {
+    return new LocalSummarizationProvider();
+  }
+
+  if (!apiKey) {
+    throw new Error('SUMMARY_PROVIDER is set to openai but OPENAI_API_KEY is missing');
+  }
+
+  return new OpenAISummarizationProvider({ apiKey, model: process.env.OPENAI_SUMMARY_MODEL ?? process.env.OPENAI_LLM_MODEL });
+}
+
+/**
+ * SUMMARY_CHUNK_CHARACTERS overrides how much transcript is summarized at once
+ */
+export function getSummaryChunkCharacters(): number {
+  const configured = Number(process.env.SUMMARY_CHUNK_CHARACTERS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_CHUNK_CHARACTERS;
+}
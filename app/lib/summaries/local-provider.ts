@@ -0,0 +1,102 @@
+import type { ConversationTurn } from '@/app/lib/llm/types';
+import { emptySummary, mergeSummaries } from './merge';
+import type { ActionItem, ConversationSummary, SummarizationProvider, SummaryChunkResult } from './types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('LocalSummarizationProvider');
+
+const KEY_POINTS_PER_CHUNK = 5;
+const KEY_POINT_MIN_WORDS = 5;
+
+const DECISION = /\b(decided|decide to|agreed|agree to|go with|going with|settled on|chose|choose to|the decision is)\b/i;
+const FIRST_PERSON_ACTION = /\b(i'll|i will|i need to|i'm going to|i am going to|i have to|i must|remind me to)\b/i;
+const SECOND_PERSON_ACTION = /\b(you'll|you will|you need to|you should|you have to|please)\b/i;
+const SHARED_ACTION = /\b(we'll|we will|we need to|we should|we have to|let's|let us)\b/i;
+const UNOWNED_ACTION = /\b(todo|to-do|action item|follow up on|needs to be|has to be)\b/i;
+const NAMED_ACTION = /^(\p{Lu}\p{Ll}+)\s+(will|should|needs to|has to|is going to)\b/u;
+const UNCERTAIN = /\b(not sure|don't know|do not know|unclear|tbd|to be decided|open question|figure out)\b/i;
+const NOT_NAMES = new Set(['I', 'It', 'This', 'That', 'There', 'They', 'We', 'You', 'He', 'She', 'What', 'Who']);
+
+interface Sentence {
+  text: string;
+  speaker: 'user' | 'assistant';
+  /** Whether a later turn of the other speaker follows it in this chunk */
+  isAnswered: boolean;
+}
+
+const SPEAKER_NAMES: Record<Sentence['speaker'], string> = { user: 'User', assistant: 'Assistant' };
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?\n]+[.!?]*/g) ?? []).map((sentence) => sentence.trim()).filter(Boolean);
+}
+
+function toSentences(turns: ConversationTurn[]): Sentence[] {
+  return turns.flatMap((turn, index) => {
+    if (turn.role === 'function') {
+      return [];
+    }
+    const speaker = turn.role;
+    const isAnswered = turns.slice(index + 1).some((later) => later.role !== 'function' && later.role !== speaker);
+    return splitSentences(turn.content).map((text) => ({ text, speaker, isAnswered }));
+  });
+}
+
+function findActionItem({ text, speaker }: Sentence): ActionItem | null {
+  const named = text.match(NAMED_ACTION);
+  if (named && !NOT_NAMES.has(named[1])) {
+    return { text, owner: named[1] };
+  }
+  if (FIRST_PERSON_ACTION.test(text)) {
+    return { text, owner: SPEAKER_NAMES[speaker] };
+  }
+  if (SECOND_PERSON_ACTION.test(text)) {
+    return { text, owner: SPEAKER_NAMES[speaker === 'user' ? 'assistant' : 'user'] };
+  }
+  if (SHARED_ACTION.test(text)) {
+    return { text, owner: 'Everyone' };
+  }
+  return UNOWNED_ACTION.test(text) ? { text, owner: null } : null;
+}
+
+/**
+ * Deterministic, offline stand-in for an LLM summarizer. It sorts sentences into the summary's
+ * sections with keyword rules, so the same conversation always gets the same summary.
+ */
+export class LocalSummarizationProvider implements SummarizationProvider {
+  readonly name = 'local';
+
+  async summarizeChunk(turns: ConversationTurn[], previous: ConversationSummary | null): Promise<SummaryChunkResult> {
+    log.debug('Summarizing', turns.length, 'turns');
+    const chunk = emptySummary();
+
+    for (const sentence of toSentences(turns)) {
+      const isQuestion = sentence.text.endsWith('?');
+      if (isQuestion ? !sentence.isAnswered || UNCERTAIN.test(sentence.text) : UNCERTAIN.test(sentence.text)) {
+        chunk.openQuestions.push(sentence.text);
+        continue;
+      }
+      if (isQuestion) {
+        continue;
+      }
+      if (DECISION.test(sentence.text)) {
+        chunk.decisions.push(sentence.text);
+        continue;
+      }
+      const actionItem = findActionItem(sentence);
+      if (actionItem) {
+        chunk.actionItems.push(actionItem);
+        continue;
+      }
+      if (
+        sentence.speaker === 'user'
+        && chunk.keyPoints.length < KEY_POINTS_PER_CHUNK
+        && sentence.text.split(/\s+/).length >= KEY_POINT_MIN_WORDS
+      ) {
+        chunk.keyPoints.push(sentence.text);
+      }
+    }
+
+    // Merging the first chunk too applies the same limits as later ones
+    return { summary: mergeSummaries(previous ?? emptySummary(), chunk) };
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { emptySummary, isEmptySummary, mergeSummaries } from './merge';
+import type { ConversationSummary } from './types';
+import { MAX_SUMMARY_ITEM_LENGTH, MAX_SUMMARY_ITEMS, validateSummary } from './validate';
+
+function summary(overrides: Partial<ConversationSummary>): ConversationSummary {
+  return { ...emptySummary(), ...overrides };
+}
+
+describe('mergeSummaries', () => {
+  it('appends what the later chunk added and drops repeats', () => {
+    const merged = mergeSummaries(
+      summary({ keyPoints: ['Budget is tight'], actionItems: [{ text: 'Email the landlord', owner: 'Sam' }] }),
+      summary({
+        keyPoints: ['budget is TIGHT!', 'Moving in May'],
+        actionItems: [{ text: 'email the landlord', owner: null }, { text: 'Book a van', owner: null }],
+        openQuestions: ['Which area?'],
+      }),
+    );
+    expect(merged).toEqual({
+      keyPoints: ['Budget is tight', 'Moving in May'],
+      decisions: [],
+      actionItems: [{ text: 'Email the landlord', owner: 'Sam' }, { text: 'Book a van', owner: null }],
+      openQuestions: ['Which area?'],
+    });
+  });
+
+  it('caps the first chunk like later ones, so the result always validates', () => {
+    const long = 'x'.repeat(MAX_SUMMARY_ITEM_LENGTH + 50);
+    const many = Array.from({ length: MAX_SUMMARY_ITEMS + 5 }, (_, i) => `Point ${i}`);
+    const merged = mergeSummaries(emptySummary(), summary({
+      keyPoints: many,
+      decisions: [`  ${long}  `, '   '],
+      actionItems: [{ text: long, owner: '  ' }],
+    }));
+
+    expect(merged.keyPoints).toHaveLength(MAX_SUMMARY_ITEMS);
+    expect(merged.keyPoints[0]).toBe('Point 5');
+    expect(merged.decisions).toHaveLength(1);
+    expect(merged.decisions[0]).toHaveLength(MAX_SUMMARY_ITEM_LENGTH);
+    expect(merged.decisions[0].endsWith('…')).toBe(true);
+    expect(merged.actionItems[0].owner).toBeNull();
+    expect(() => validateSummary(merged)).not.toThrow();
+  });
+
+  it('keeps an empty summary empty', () => {
+    expect(isEmptySummary(mergeSummaries(emptySummary(), emptySummary()))).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { MAX_SUMMARY_ITEM_LENGTH, MAX_SUMMARY_ITEMS } from './validate';
+import type { ActionItem, ConversationSummary } from './types';
+
+export function emptySummary(): ConversationSummary {
+  return { keyPoints: [], decisions: [], actionItems: [], openQuestions: [] };
+}
+
+export function isEmptySummary(summary: ConversationSummary): boolean {
+  return summary.keyPoints.length + summary.decisions.length + summary.actionItems.length + summary.openQuestions.length === 0;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function clip(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_SUMMARY_ITEM_LENGTH ? `${trimmed.slice(0, MAX_SUMMARY_ITEM_LENGTH - 1).trimEnd()}…` : trimmed;
+}
+
+function clipActionItem(item: ActionItem): ActionItem {
+  const owner = item.owner && clip(item.owner);
+  return { text: clip(item.text), owner: owner || null };
+}
+
+function mergeLists<T>(first: T[], second: T[], textOf: (item: T) => string, clipItem: (item: T) => T): T[] {
+  const merged: T[] = [];
+  const seen = new Set<string>();
+  for (const item of [...first, ...second].map(clipItem)) {
+    const key = normalize(textOf(item));
+    if (textOf(item) && !seen.has(key)) {
+      seen.add(key);
+      merged.push(item);
+    }
+  }
+  return merged.slice(-MAX_SUMMARY_ITEMS);
+}
+
+/**
+ * Appends what a later chunk added to an earlier summary, dropping repeats and empty items.
+ * Items are cut to the longest a stored summary allows, and each list keeps its most recent items
+ * when it grows past the limit, so the result always validates.
+ */
+export function mergeSummaries(earlier: ConversationSummary, later: ConversationSummary): ConversationSummary {
+  const same = (text: string) => text;
+  return {
+    keyPoints: mergeLists(earlier.keyPoints, later.keyPoints, same, clip),
+    decisions: mergeLists(earlier.decisions, later.decisions, same, clip),
+    actionItems: mergeLists<ActionItem>(earlier.actionItems, later.actionItems, (item) => item.text, clipActionItem),
+    openQuestions: mergeLists(earlier.openQuestions, later.openQuestions, same, clip),
+  };
+}
@@ -0,0 +1,90 @@
+import type { ConversationTurn } from '@/app/lib/llm/types';
+import { validateSummary } from './validate';
+import type { ConversationSummary, SummarizationProvider, SummaryChunkResult } from './types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('OpenAISummarizationProvider');
+
+const SYSTEM_PROMPT =
+  'You summarize a voice conversation between a user and an assistant. ' +
+  'You are given the summary of the conversation so far (or null) and the next part of the transcript. ' +
+  'Reply with the updated summary of the whole conversation as a JSON object with the keys ' +
+  '"keyPoints", "decisions" and "openQuestions" (arrays of short sentences) and "actionItems" ' +
+  '(an array of {"text": string, "owner": string | null}, where owner is who took the action on, if anyone did). ' +
+  'Keep earlier items unless the new transcript settles or replaces them, and drop open questions that were answered. ' +
+  'Use at most 20 items per list.';
+
+interface OpenAIChatCompletion {
+  choices: { message: { content: string | null } }[];
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+export interface OpenAISummarizationProviderOptions {
+  apiKey: string;
+  model?: string;
+}
+
+function formatTranscript(turns: ConversationTurn[]): string {
+  return turns
+    .map((turn) => turn.role === 'function' ? `[${turn.name ?? 'function'} result] ${turn.content}` : `${turn.role}: ${turn.content}`)
+    .join('\n');
+}
+
+/**
+ * Summarization backed by the OpenAI Chat Completions API in JSON mode
+ */
+export class OpenAISummarizationProvider implements SummarizationProvider {
+  readonly name = 'openai';
+  private readonly apiKey: string;
+  private readonly model: string;
+
+  constructor({ apiKey, model = 'gpt-4o-mini' }: OpenAISummarizationProviderOptions) {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async summarizeChunk(turns: ConversationTurn[], previous: ConversationSummary | null): Promise<SummaryChunkResult> {
+    log.debug('Summarizing', turns.length, 'turns, model:', this.model, 'incremental:', !!previous);
+
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          {
+            role: 'user',
+            content: `Summary so far:\n${JSON.stringify(previous)}\n\nNext part of the transcript:\n${formatTranscript(turns)}`,
+          },
+        ],
+      }),
+    });
+
+    log.debug('Response status:', response.status);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      log.error('Error response:', errorText);
+      throw new Error(`OpenAI summarization failed: ${response.status} - ${errorText}`);
+    }
+
+    const data: OpenAIChatCompletion = await response.json();
+    const content = data.choices[0]?.message.content;
+    if (!content) {
+      throw new Error('OpenAI summarization returned no content');
+    }
+
+    return {
+      summary: validateSummary(JSON.parse(content)),
+      usage: data.usage && {
+        promptTokens: data.usage.prompt_tokens,
+        completionTokens: data.usage.completion_tokens,
+      },
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import type { ConversationTurn, TokenUsage } from '@/app/lib/llm/types';
+import { fromStoredMessage, toConversationTurns } from '@/app/lib/messages';
+import type { StoredMessage } from '@/app/lib/sessions/types';
+import { emptySummary } from './merge';
+import type { ConversationSummary, StoredSummary, SummarizationProvider } from './types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('Summaries');
+
+export const DEFAULT_CHUNK_CHARACTERS = 6000;
+
+export interface SummarizeOptions {
+  /** How much transcript goes to the provider at once */
+  chunkCharacters?: number;
+  /** Starts over from the first message instead of extending the existing summary */
+  regenerate?: boolean;
+}
+
+export interface SummarizeResult {
+  summary: StoredSummary;
+  /** How many chunks the provider was asked to fold in; 0 when nothing new was said */
+  chunks: number;
+  usage: TokenUsage;
+}
+
+/**
+ * Splits turns into runs of at most maxCharacters; a longer turn gets a chunk of its own
+ */
+export function chunkTurns(turns: ConversationTurn[], maxCharacters: number): ConversationTurn[][] {
+  const chunks: ConversationTurn[][] = [];
+  let current: ConversationTurn[] = [];
+  let length = 0;
+  for (const turn of turns) {
+    if (current.length > 0 && length + turn.content.length > maxCharacters) {
+      chunks.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(turn);
+    length += turn.content.length;
+  }
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Brings a session's summary up to date: only messages after the last one the existing summary covers
+ * are sent, chunk by chunk. When that message is gone, e.g. after an edit re-ran the conversation,
+ * or when asked to regenerate, the summary is built again from the start.
+ */
+export async function summarizeMessages(
+  provider: SummarizationProvider,
+  messages: StoredMessage[],
+  existing: StoredSummary | null,
+  { chunkCharacters = DEFAULT_CHUNK_CHARACTERS, regenerate = false }: SummarizeOptions = {}
+): Promise<SummarizeResult> {
+  const coveredIndex = existing?.lastMessageId ? messages.findIndex((message) => message.id === existing.lastMessageId) : -1;
+  const extend = !regenerate && !!existing && (existing.lastMessageId === null || coveredIndex !== -1);
+  const pending = extend ? messages.slice(coveredIndex + 1) : messages;
+  const turns = toConversationTurns(pending.map(fromStoredMessage));
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+
+  if (extend && turns.length === 0) {
+    log.debug('Summary is up to date');
+    return { summary: existing!, chunks: 0, usage };
+  }
+
+  const chunks = chunkTurns(turns, chunkCharacters);
+  log.debug(extend ? 'Extending' : 'Building', 'summary from', turns.length, 'turns in', chunks.length, 'chunks');
+
+  // Only the content goes to the provider, not when or by whom it was generated
+  let summary: ConversationSummary | null = extend && existing ? {
+    keyPoints: existing.keyPoints,
+    decisions: existing.decisions,
+    actionItems: existing.actionItems,
+    openQuestions: existing.openQuestions,
+  } : null;
+  for (const chunk of chunks) {
+    const result = await provider.summarizeChunk(chunk, summary);
+    summary = result.summary;
+    usage.promptTokens += result.usage?.promptTokens ?? 0;
+    usage.completionTokens += result.usage?.completionTokens ?? 0;
+  }
+
+  return {
+    summary: {
+      ...(summary ?? emptySummary()),
+      provider: provider.name,
+      generatedAt: new Date().toISOString(),
+      lastMessageId: messages[messages.length - 1]?.id ?? null,
+      ...(extend && existing?.editedAt && { editedAt: existing.editedAt }),
+    },
+    chunks: chunks.length,
+    usage,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * End-of-session summaries. Plain data, so they cross the server action boundary and are stored
+ * in the session's metadata.
+ */
+
+import type { ConversationTurn, TokenUsage } from '@/app/lib/llm/types';
+
+export interface ActionItem {
+  text: string;
+  /** Who said they would do it, when the conversation says so */
+  owner: string | null;
+}
+
+export interface ConversationSummary {
+  keyPoints: string[];
+  decisions: string[];
+  actionItems: ActionItem[];
+  openQuestions: string[];
+}
+
+/**
+ * A summary as saved with its session, with how far into the conversation it reaches
+ */
+export interface StoredSummary extends ConversationSummary {
+  provider: string;
+  generatedAt: string;
+  /** The last message the summary covers; later messages are summarized incrementally */
+  lastMessageId: string | null;
+  /** Set when the user changed the summary by hand */
+  editedAt?: string;
+}
+
+export interface SummaryChunkResult {
+  summary: ConversationSummary;
+  usage?: TokenUsage;
+}
+
+export interface SummarizationProvider {
+  readonly name: string;
+  /**
+   * Folds one chunk of the conversation into the summary of everything before it.
+   * `previous` is null for the first chunk.
+   */
+  summarizeChunk(turns: ConversationTurn[], previous: ConversationSummary | null): Promise<SummaryChunkResult>;
+}
@@ -0,0 +1,87 @@
+import type { ActionItem, ConversationSummary, StoredSummary } from './types';
+
+export const MAX_SUMMARY_ITEMS = 20;
+export const MAX_SUMMARY_ITEM_LENGTH = 500;
+
+const LIST_FIELDS = ['keyPoints', 'decisions', 'openQuestions'] as const;
+
+export class SummaryValidationError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid summary: ${issues.join('; ')}`);
+    this.name = 'SummaryValidationError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkText(value: unknown, path: string, issues: string[]): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    issues.push(`${path} must be a non-empty string`);
+    return '';
+  }
+  if (value.length > MAX_SUMMARY_ITEM_LENGTH) {
+    issues.push(`${path} is longer than ${MAX_SUMMARY_ITEM_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+function checkList(value: unknown, path: string, issues: string[]): unknown[] {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array`);
+    return [];
+  }
+  if (value.length > MAX_SUMMARY_ITEMS) {
+    issues.push(`${path} has more than ${MAX_SUMMARY_ITEMS} items`);
+  }
+  return value;
+}
+
+/**
+ * Checks a summary from outside the app, e.g. an LLM response or a user's edit, and returns a clean copy
+ */
+export function validateSummary(value: unknown): ConversationSummary {
+  const issues: string[] = [];
+  if (!isRecord(value)) {
+    throw new SummaryValidationError(['the summary must be an object']);
+  }
+
+  const [keyPoints, decisions, openQuestions] = LIST_FIELDS.map((field) =>
+    checkList(value[field], field, issues).map((item, i) => checkText(item, `${field}[${i}]`, issues))
+  );
+
+  const actionItems = checkList(value.actionItems, 'actionItems', issues).map((item, i): ActionItem => {
+    if (!isRecord(item)) {
+      issues.push(`actionItems[${i}] must be an object`);
+      return { text: '', owner: null };
+    }
+    const owner = item.owner === null || item.owner === undefined || item.owner === ''
+      ? null
+      : checkText(item.owner, `actionItems[${i}].owner`, issues);
+    return { text: checkText(item.text, `actionItems[${i}].text`, issues), owner };
+  });
+
+  if (issues.length > 0) {
+    throw new SummaryValidationError(issues);
+  }
+  return { keyPoints, decisions, actionItems, openQuestions };
+}
+
+/**
+ * Whether session metadata holds a summary this version of the app can show
+ */
+export function isStoredSummary(value: unknown): value is StoredSummary {
+  if (!isRecord(value) || typeof value.provider !== 'string' || typeof value.generatedAt !== 'string') {
+    return false;
+  }
+  if (value.lastMessageId !== null && typeof value.lastMessageId !== 'string') {
+    return false;
+  }
+  try {
+    validateSummary(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
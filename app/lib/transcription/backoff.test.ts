@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { computeBackoffDelay } from './backoff';
+
+describe('computeBackoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('doubles the delay with each attempt', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect([1, 2, 3, 4].map((attempt) => computeBackoffDelay(attempt))).toEqual([1000, 2000, 4000, 8000]);
+  });
+
+  it('keeps half of the delay fixed and jitters the rest', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(computeBackoffDelay(3)).toBe(2000);
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(computeBackoffDelay(3)).toBe(3000);
+  });
+
+  it('caps the delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(computeBackoffDelay(20)).toBe(30000);
+    expect(computeBackoffDelay(5, { baseDelayMs: 100, maxDelayMs: 1000 })).toBe(1000);
+  });
+
+  it('treats attempts below one as the first', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(computeBackoffDelay(0)).toBe(1000);
+    expect(computeBackoffDelay(-3, { baseDelayMs: 250 })).toBe(250);
+  });
+});
@@ -0,0 +1,16 @@
+export interface BackoffOptions {
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+/**
+ * Exponential backoff with "equal jitter": half of the delay is fixed, the other half random,
+ * so clients that dropped together do not all reconnect at the same moment
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  { baseDelayMs = 1000, maxDelayMs = 30000 }: BackoffOptions = {}
+): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_TRANSCRIPTION_CONFIG,
+  resolveTranscriptionConfig,
+  toTranscriptionSessionBody,
+  TranscriptionConfigError,
+  type TranscriptionConfigInput,
+  type TranscriptionPresetName,
+} from './config';
+
+describe('resolveTranscriptionConfig', () => {
+  it('uses the defaults when nothing is chosen', () => {
+    expect(resolveTranscriptionConfig()).toEqual(DEFAULT_TRANSCRIPTION_CONFIG);
+  });
+
+  it('layers explicit settings over a preset over the defaults', () => {
+    const config = resolveTranscriptionConfig({
+      preset: 'noisy-room',
+      config: { language: 'de', vad: { threshold: 0.9 } },
+    });
+    expect(config.language).toBe('de');
+    expect(config.vad).toEqual({ ...DEFAULT_TRANSCRIPTION_CONFIG.vad, threshold: 0.9, silenceDurationMs: 700 });
+    expect(config.noiseReduction).toBe('near_field');
+  });
+
+  it('rejects unknown presets', () => {
+    expect(() => resolveTranscriptionConfig({ preset: 'toString' as TranscriptionPresetName })).toThrow('Unknown preset "toString"');
+  });
+
+  it('lists every invalid setting', () => {
+    try {
+      resolveTranscriptionConfig({ config: { language: 'english', prompt: 'x'.repeat(2001), vad: { threshold: 2, silenceDurationMs: 50 } } });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(TranscriptionConfigError);
+      expect((error as TranscriptionConfigError).issues).toEqual([
+        'language must be a two-letter ISO-639-1 code or empty',
+        'prompt must be a string of at most 2000 characters',
+        'vad.threshold must be between 0 and 1',
+        'vad.silenceDurationMs must be between 100 and 5000',
+      ]);
+    }
+  });
+
+  it('rejects values a client could send outside the types', () => {
+    const config = { model: 'gpt-5', vad: { type: 'loud', threshold: Number.NaN } } as unknown as TranscriptionConfigInput;
+    expect(() => resolveTranscriptionConfig({ config })).toThrow(TranscriptionConfigError);
+  });
+});
+
+describe('toTranscriptionSessionBody', () => {
+  it('describes server-side turn detection and noise reduction', () => {
+    const body = toTranscriptionSessionBody(DEFAULT_TRANSCRIPTION_CONFIG);
+    expect(body.input_audio_transcription).toEqual({ model: 'gpt-4o-transcribe', prompt: '', language: 'en' });
+    expect(body.turn_detection).toEqual({ type: 'server_vad', threshold: 0.5, prefix_padding_ms: 300, silence_duration_ms: 500 });
+    expect(body.input_audio_noise_reduction).toEqual({ type: 'near_field' });
+  });
+
+  it('leaves out what is turned off', () => {
+    const body = toTranscriptionSessionBody(resolveTranscriptionConfig({
+      config: { language: '', noiseReduction: 'off', vad: { type: 'none' } },
+    }));
+    expect(body.input_audio_transcription).not.toHaveProperty('language');
+    expect(body.turn_detection).toBeNull();
+    expect(body.input_audio_noise_reduction).toBeNull();
+  });
+
+  it('sends only the eagerness for semantic turn detection', () => {
+    const body = toTranscriptionSessionBody(resolveTranscriptionConfig({ config: { vad: { type: 'semantic_vad', eagerness: 'high' } } }));
+    expect(body.turn_detection).toEqual({ type: 'semantic_vad', eagerness: 'high' });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Per-session transcription settings, sent to OpenAI when the ephemeral key is created.
+ * This module is shared by the client, which chooses a config, and the server action, which validates it.
+ */
+
+export const TRANSCRIPTION_MODELS = ['gpt-4o-transcribe', 'gpt-4o-mini-transcribe', 'whisper-1'] as const;
+export const VAD_TYPES = ['server_vad', 'semantic_vad', 'none'] as const;
+export const VAD_EAGERNESS_LEVELS = ['low', 'medium', 'high', 'auto'] as const;
+export const NOISE_REDUCTION_MODES = ['near_field', 'far_field', 'off'] as const;
+
+export type TranscriptionModel = (typeof TRANSCRIPTION_MODELS)[number];
+export type VadType = (typeof VAD_TYPES)[number];
+export type VadEagerness = (typeof VAD_EAGERNESS_LEVELS)[number];
+export type NoiseReductionMode = (typeof NOISE_REDUCTION_MODES)[number];
+
+export interface VadConfig {
+  /** 'none' turns turn detection off */
+  type: VadType;
+  /** server_vad: activation threshold between 0 and 1 */
+  threshold: number;
+  /** server_vad: audio kept from before speech was detected */
+  prefixPaddingMs: number;
+  /** server_vad: silence that ends a turn */
+  silenceDurationMs: number;
+  /** semantic_vad: how eagerly a turn is ended */
+  eagerness: VadEagerness;
+}
+
+export interface TranscriptionConfig {
+  model: TranscriptionModel;
+  /** ISO-639-1 code, or an empty string to let the model detect the language */
+  language: string;
+  /** Vocabulary or glossary hints for the transcription model */
+  prompt: string;
+  vad: VadConfig;
+  noiseReduction: NoiseReductionMode;
+}
+
+export type TranscriptionConfigInput = Partial<Omit<TranscriptionConfig, 'vad'>> & {
+  vad?: Partial<VadConfig>;
+};
+
+export const DEFAULT_TRANSCRIPTION_CONFIG: TranscriptionConfig = {
+  model: 'gpt-4o-transcribe',
+  language: 'en',
+  prompt: '',
+  vad: {
+    type: 'server_vad',
+    threshold: 0.5,
+    prefixPaddingMs: 300,
+    silenceDurationMs: 500,
+    eagerness: 'auto',
+  },
+  noiseReduction: 'near_field',
+};
+
+export const TRANSCRIPTION_PRESETS = {
+  'noisy-room': {
+    label: 'Noisy room',
+    config: {
+      noiseReduction: 'near_field',
+      vad: { type: 'server_vad', threshold: 0.7, silenceDurationMs: 700 },
+    },
+  },
+  'far-field-conference': {
+    label: 'Far-field conference mic',
+    config: {
+      noiseReduction: 'far_field',
+      vad: { type: 'server_vad', threshold: 0.4, prefixPaddingMs: 500, silenceDurationMs: 800 },
+    },
+  },
+  'medical-vocabulary': {
+    label: 'Medical vocabulary',
+    config: {
+      model: 'gpt-4o-transcribe',
+      prompt:
+        'Clinical conversation. Expect medical terminology, drug names and dosages, e.g. ' +
+        'hypertension, tachycardia, metformin 500 mg, amoxicillin, ibuprofen, b.i.d., q.d., MRI, ECG.',
+      vad: { silenceDurationMs: 800 },
+    },
+  },
+} satisfies Record<string, { label: string; config: TranscriptionConfigInput }>;
+
+export type TranscriptionPresetName = keyof typeof TRANSCRIPTION_PRESETS;
+
+export interface TranscriptionConfigOptions {
+  preset?: TranscriptionPresetName;
+  config?: TranscriptionConfigInput;
+}
+
+const PROMPT_MAX_LENGTH = 2000;
+const LANGUAGE_PATTERN = /^([a-z]{2})?$/;
+
+export class TranscriptionConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid transcription config: ${issues.join('; ')}`);
+    this.name = 'TranscriptionConfigError';
+  }
+}
+
+export function isTranscriptionPresetName(value: unknown): value is TranscriptionPresetName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TRANSCRIPTION_PRESETS, value);
+}
+
+/**
+ * Layers a preset and explicit overrides on top of the defaults, then validates the result
+ */
+export function resolveTranscriptionConfig({ preset, config = {} }: TranscriptionConfigOptions = {}): TranscriptionConfig {
+  if (preset !== undefined && !isTranscriptionPresetName(preset)) {
+    throw new TranscriptionConfigError([`Unknown preset "${preset}"`]);
+  }
+  const presetConfig: TranscriptionConfigInput = preset ? TRANSCRIPTION_PRESETS[preset].config : {};
+
+  return validateTranscriptionConfig({
+    ...DEFAULT_TRANSCRIPTION_CONFIG,
+    ...presetConfig,
+    ...config,
+    vad: {
+      ...DEFAULT_TRANSCRIPTION_CONFIG.vad,
+      ...presetConfig.vad,
+      ...config.vad,
+    },
+  });
+}
+
+/**
+ * Checks a complete config, which may come from an untrusted client
+ */
+export function validateTranscriptionConfig(config: TranscriptionConfig): TranscriptionConfig {
+  const issues: string[] = [];
+  const { model, language, prompt, vad, noiseReduction } = config;
+
+  if (!TRANSCRIPTION_MODELS.includes(model)) {
+    issues.push(`model must be one of: ${TRANSCRIPTION_MODELS.join(', ')}`);
+  }
+  if (typeof language !== 'string' || !LANGUAGE_PATTERN.test(language)) {
+    issues.push('language must be a two-letter ISO-639-1 code or empty');
+  }
+  if (typeof prompt !== 'string' || prompt.length > PROMPT_MAX_LENGTH) {
+    issues.push(`prompt must be a string of at most ${PROMPT_MAX_LENGTH} characters`);
+  }
+  if (!VAD_TYPES.includes(vad?.type)) {
+    issues.push(`vad.type must be one of: ${VAD_TYPES.join(', ')}`);
+  }
+  if (!isNumberInRange(vad?.threshold, 0, 1)) {
+    issues.push('vad.threshold must be between 0 and 1');
+  }
+  if (!isNumberInRange(vad?.prefixPaddingMs, 0, 2000)) {
+    issues.push('vad.prefixPaddingMs must be between 0 and 2000');
+  }
+  if (!isNumberInRange(vad?.silenceDurationMs, 100, 5000)) {
+    issues.push('vad.silenceDurationMs must be between 100 and 5000');
+  }
+  if (!VAD_EAGERNESS_LEVELS.includes(vad?.eagerness)) {
+    issues.push(`vad.eagerness must be one of: ${VAD_EAGERNESS_LEVELS.join(', ')}`);
+  }
+  if (!NOISE_REDUCTION_MODES.includes(noiseReduction)) {
+    issues.push(`noiseReduction must be one of: ${NOISE_REDUCTION_MODES.join(', ')}`);
+  }
+
+  if (issues.length > 0) {
+    throw new TranscriptionConfigError(issues);
+  }
+  return config;
+}
+
+/**
+ * The request body for POST /v1/realtime/transcription_sessions
+ */
+export function toTranscriptionSessionBody(config: TranscriptionConfig) {
+  const { vad } = config;
+
+  let turnDetection: Record<string, unknown> | null = null;
+  if (vad.type === 'server_vad') {
+    turnDetection = {
+      type: 'server_vad',
+      threshold: vad.threshold,
+      prefix_padding_ms: vad.prefixPaddingMs,
+      silence_duration_ms: vad.silenceDurationMs,
+    };
+  } else if (vad.type === 'semantic_vad') {
+    turnDetection = { type: 'semantic_vad', eagerness: vad.eagerness };
+  }
+
+  return {
+    input_audio_format: 'pcm16',
+    input_audio_transcription: {
+      model: config.model,
+      prompt: config.prompt,
+      ...(config.language && { language: config.language }),
+    },
+    turn_detection: turnDetection,
+    input_audio_noise_reduction: config.noiseReduction === 'off' ? null : { type: config.noiseReduction },
+  };
+}
+
+function isNumberInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && !Number.isNaN(value) && value >= min && value <= max;
+}
@@ -0,0 +1,81 @@
+import type { StoredMessage } from '@/app/lib/sessions/types';
+
+/**
+ * A transcript the user corrected by editing their message
+ */
+export interface TranscriptCorrection {
+  sessionId: string;
+  messageId: string;
+  original: string;
+  corrected: string;
+  /** ISO 8601 */
+  correctedAt: string;
+}
+
+export interface VocabularyTerm {
+  term: string;
+  /** How many corrections introduced it */
+  count: number;
+}
+
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}'’.-]*[\p{L}\p{N}]|[\p{L}\p{N}]/gu;
+// Misheard numbers are worth correcting, but no prompt teaches the model a number
+const NUMBER = /^[\d.,'’-]+$/;
+// Corrections to these are grammar, not vocabulary the model is missing
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'i', 'in', 'is', 'it', 'its',
+  'me', 'my', 'no', 'not', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'we', 'with', 'you',
+]);
+
+function words(text: string): string[] {
+  return text.match(WORD) ?? [];
+}
+
+/**
+ * Voice messages the user edited, in conversation order
+ */
+export function collectCorrections(sessionId: string, messages: StoredMessage[]): TranscriptCorrection[] {
+  return messages
+    .filter((message) => message.sender === 'user' && message.originalContent !== undefined && message.originalContent !== message.content)
+    .map((message) => ({
+      sessionId,
+      messageId: message.id,
+      original: message.originalContent!,
+      corrected: message.content,
+      correctedAt: message.editedAt ?? message.timestamp,
+    }));
+}
+
+/**
+ * Words a correction added that the transcript did not have, e.g. names the model misheard,
+ * most frequent first
+ */
+export function getCorrectedTerms(corrections: TranscriptCorrection[]): VocabularyTerm[] {
+  const counts = new Map<string, VocabularyTerm>();
+  for (const { original, corrected } of corrections) {
+    const heard = new Set(words(original).map((word) => word.toLowerCase()));
+    const added = new Set(words(corrected).filter((word) =>
+      !heard.has(word.toLowerCase()) && !STOP_WORDS.has(word.toLowerCase()) && !NUMBER.test(word)
+    ));
+    for (const term of added) {
+      const key = term.toLowerCase();
+      const existing = counts.get(key);
+      counts.set(key, { term: existing?.term ?? term, count: (existing?.count ?? 0) + 1 });
+    }
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.term.localeCompare(b.term));
+}
+
+/**
+ * A vocabulary prompt for the transcription model listing corrected terms, within a length budget
+ */
+export function toVocabularyPrompt(terms: VocabularyTerm[], maxLength = 500): string {
+  const prefix = 'Vocabulary: ';
+  let prompt = '';
+  for (const { term } of terms) {
+    const next = prompt ? `${prompt}, ${term}` : term;
+    if (prefix.length + next.length > maxLength) break;
+    prompt = next;
+  }
+  return prompt ? `${prefix}${prompt}.` : '';
+}
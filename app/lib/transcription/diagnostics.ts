@@ -0,0 +1,149 @@
+import type { TranscriptUtterance } from './types';
+
+/**
+ * Connection diagnostics from RTCPeerConnection.getStats() samples and utterance timing.
+ * Pure functions, so they work on recorded reports as well as live ones.
+ */
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+export type HealthVerdict = 'good' | 'degraded' | 'poor' | 'unknown';
+
+export interface ConnectionSample {
+  timestamp: number;
+  /** How the selected candidate pair reaches the server; relay means traffic goes through TURN */
+  candidateType: CandidateType | null;
+  protocol: string | null;
+  roundTripTimeMs: number | null;
+  jitterMs: number | null;
+  packetsSent: number;
+  packetsLost: number;
+  /** Share of packets lost since the previous sample, or overall for the first one */
+  packetLoss: number | null;
+  bytesSent: number;
+  dataChannelMessagesSent: number;
+  dataChannelMessagesReceived: number;
+}
+
+export interface TranscriptionLatency {
+  /** Time from the end of speech to the final transcript, for the most recent utterance */
+  lastMs: number | null;
+  averageMs: number | null;
+  samples: number;
+}
+
+export interface ConnectionHealth {
+  verdict: HealthVerdict;
+  /** Why the verdict is not good */
+  reasons: string[];
+}
+
+// Stats fields we read; the DOM typings don't cover all of them
+interface StatsEntry {
+  id: string;
+  type: string;
+  [field: string]: unknown;
+}
+
+const HEALTH_THRESHOLDS = {
+  packetLoss: { degraded: 0.01, poor: 0.05 },
+  roundTripTimeMs: { degraded: 200, poor: 400 },
+  jitterMs: { degraded: 30, poor: 60 },
+  latencyMs: { degraded: 1500, poor: 3000 },
+};
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function secondsToMs(value: unknown): number | null {
+  const seconds = numberOrNull(value);
+  return seconds === null ? null : Math.round(seconds * 1000);
+}
+
+/**
+ * Reduces a stats report to the numbers the diagnostics view shows
+ */
+export function summarizeStats(report: RTCStatsReport, previous?: ConnectionSample | null): ConnectionSample {
+  const entries = new Map<string, StatsEntry>();
+  report.forEach((entry: StatsEntry) => entries.set(entry.id, entry));
+  const ofType = (type: string) => [...entries.values()].filter((entry) => entry.type === type);
+
+  // The transport knows the selected pair; older browsers only mark it as nominated
+  const transport = ofType('transport')[0];
+  const selectedPair = (transport && entries.get(String(transport.selectedCandidatePairId)))
+    ?? ofType('candidate-pair').find((pair) => pair.nominated && pair.state === 'succeeded');
+  const localCandidate = selectedPair ? entries.get(String(selectedPair.localCandidateId)) : undefined;
+
+  const outbound = ofType('outbound-rtp').find((entry) => entry.kind === 'audio');
+  const remoteInbound = ofType('remote-inbound-rtp').find((entry) => entry.kind === 'audio');
+  const dataChannels = ofType('data-channel');
+
+  const packetsSent = numberOrNull(outbound?.packetsSent) ?? 0;
+  const packetsLost = Math.max(0, numberOrNull(remoteInbound?.packetsLost) ?? 0);
+  const sentSince = packetsSent - (previous?.packetsSent ?? 0);
+  const lostSince = packetsLost - (previous?.packetsLost ?? 0);
+
+  return {
+    timestamp: Date.now(),
+    candidateType: (localCandidate?.candidateType as CandidateType | undefined) ?? null,
+    protocol: (localCandidate?.protocol as string | undefined) ?? null,
+    roundTripTimeMs: secondsToMs(selectedPair?.currentRoundTripTime) ?? secondsToMs(remoteInbound?.roundTripTime),
+    jitterMs: secondsToMs(remoteInbound?.jitter),
+    packetsSent,
+    packetsLost,
+    packetLoss: sentSince > 0 ? Math.max(0, lostSince) / (sentSince + Math.max(0, lostSince)) : null,
+    bytesSent: numberOrNull(outbound?.bytesSent) ?? 0,
+    dataChannelMessagesSent: dataChannels.reduce((sum, channel) => sum + (numberOrNull(channel.messagesSent) ?? 0), 0),
+    dataChannelMessagesReceived: dataChannels.reduce((sum, channel) => sum + (numberOrNull(channel.messagesReceived) ?? 0), 0),
+  };
+}
+
+/**
+ * Latency from speech_stopped (or the push-to-talk commit) to the completed transcript
+ */
+export function measureTranscriptionLatency(utterances: TranscriptUtterance[]): TranscriptionLatency {
+  const latencies = utterances
+    .filter((utterance) => utterance.endedAt && utterance.finalizedAt)
+    .sort((a, b) => a.finalizedAt!.getTime() - b.finalizedAt!.getTime())
+    .map((utterance) => Math.max(0, utterance.finalizedAt!.getTime() - utterance.endedAt!.getTime()));
+
+  if (latencies.length === 0) {
+    return { lastMs: null, averageMs: null, samples: 0 };
+  }
+  return {
+    lastMs: latencies[latencies.length - 1],
+    averageMs: Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length),
+    samples: latencies.length,
+  };
+}
+
+/**
+ * A simple verdict from the latest sample and transcription latency
+ */
+export function assessConnectionHealth(sample: ConnectionSample | null, latency: TranscriptionLatency): ConnectionHealth {
+  if (!sample) {
+    return { verdict: 'unknown', reasons: [] };
+  }
+
+  const checks: { metric: keyof typeof HEALTH_THRESHOLDS; value: number | null; describe: (value: number) => string }[] = [
+    { metric: 'packetLoss', value: sample.packetLoss, describe: (value) => `${(value * 100).toFixed(1)}% packet loss` },
+    { metric: 'roundTripTimeMs', value: sample.roundTripTimeMs, describe: (value) => `${value} ms round trip` },
+    { metric: 'jitterMs', value: sample.jitterMs, describe: (value) => `${value} ms jitter` },
+    { metric: 'latencyMs', value: latency.lastMs, describe: (value) => `${value} ms transcription latency` },
+  ];
+
+  let verdict: HealthVerdict = 'good';
+  const reasons: string[] = [];
+  for (const { metric, value, describe } of checks) {
+    if (value === null) continue;
+    const { poor, degraded } = HEALTH_THRESHOLDS[metric];
+    if (value >= poor) {
+      verdict = 'poor';
+      reasons.push(describe(value));
+    } else if (value >= degraded) {
+      verdict = verdict === 'poor' ? 'poor' : 'degraded';
+      reasons.push(describe(value));
+    }
+  }
+  return { verdict, reasons };
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildIceConfiguration, createTurnCredentials } from './ice-servers';
+
+const now = new Date('2026-01-01T09:50:00.000Z');
+
+describe('createTurnCredentials', () => {
+  it('signs a username that carries the expiry and the user', () => {
+    expect(createTurnCredentials('s3cret', 'ada', 600, now)).toEqual({
+      username: '1767261600:ada',
+      credential: 'KNkdx84qizeFyNxLqhz0Q79BA9A=',
+    });
+  });
+
+  it('signs different users differently', () => {
+    expect(createTurnCredentials('s3cret', 'bob', 600, now).credential)
+      .not.toBe(createTurnCredentials('s3cret', 'ada', 600, now).credential);
+  });
+});
+
+describe('buildIceConfiguration', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the public STUN server and no TURN by default', () => {
+    vi.stubEnv('ICE_STUN_URLS', undefined);
+    vi.stubEnv('ICE_TURN_URLS', undefined);
+    vi.stubEnv('ICE_TRANSPORT_POLICY', undefined);
+    expect(buildIceConfiguration('ada', now)).toEqual({
+      iceServers: [{ urls: ['stun:stun.l.google.com:19302'] }],
+      iceTransportPolicy: 'all',
+      expiresAt: undefined,
+    });
+  });
+
+  it('adds TURN servers with credentials that expire', () => {
+    vi.stubEnv('ICE_STUN_URLS', '');
+    vi.stubEnv('ICE_TURN_URLS', 'turn:a.example.com:3478, turns:b.example.com:5349');
+    vi.stubEnv('ICE_TURN_SECRET', 's3cret');
+    vi.stubEnv('ICE_TURN_CREDENTIAL_TTL_SECONDS', '600');
+    vi.stubEnv('ICE_TRANSPORT_POLICY', 'relay');
+    expect(buildIceConfiguration('ada', now)).toEqual({
+      iceServers: [{
+        urls: ['turn:a.example.com:3478', 'turns:b.example.com:5349'],
+        username: '1767261600:ada',
+        credential: 'KNkdx84qizeFyNxLqhz0Q79BA9A=',
+      }],
+      iceTransportPolicy: 'relay',
+      expiresAt: '2026-01-01T10:00:00.000Z',
+    });
+  });
+
+  it('refuses TURN servers without a secret', () => {
+    vi.stubEnv('ICE_TURN_URLS', 'turn:a.example.com:3478');
+    vi.stubEnv('ICE_TURN_SECRET', undefined);
+    expect(() => buildIceConfiguration('ada', now)).toThrow('ICE_TURN_SECRET is missing');
+  });
+});
@@ -0,0 +1,67 @@
+import { createHmac } from 'crypto';
+import type { IceConfiguration, IceServer } from './types';
+
+const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302'];
+const DEFAULT_TURN_TTL_SECONDS = 600;
+
+/**
+ * Builds the ICE configuration for a signed-in user from the environment. Server only: it reads the TURN secret.
+ * TURN usernames carry the user ID, so the relay's logs show whose traffic it carried.
+ *
+ * - ICE_STUN_URLS: comma-separated STUN urls (default: a public Google STUN server)
+ * - ICE_TURN_URLS: comma-separated TURN urls; TURN is skipped when unset
+ * - ICE_TURN_SECRET: shared secret of the TURN server (coturn's static-auth-secret)
+ * - ICE_TURN_CREDENTIAL_TTL_SECONDS: lifetime of issued credentials (default 600)
+ * - ICE_TRANSPORT_POLICY: 'all' (default) or 'relay' to force traffic through TURN
+ */
+export function buildIceConfiguration(userId: string, now: Date = new Date()): IceConfiguration {
+  const stunUrls = parseUrlList(process.env.ICE_STUN_URLS) ?? DEFAULT_STUN_URLS;
+  const turnUrls = parseUrlList(process.env.ICE_TURN_URLS) ?? [];
+  const turnSecret = process.env.ICE_TURN_SECRET;
+  const ttlSeconds = Number(process.env.ICE_TURN_CREDENTIAL_TTL_SECONDS) || DEFAULT_TURN_TTL_SECONDS;
+
+  const iceServers: IceServer[] = [];
+  if (stunUrls.length > 0) {
+    iceServers.push({ urls: stunUrls });
+  }
+
+  let expiresAt: string | undefined;
+  if (turnUrls.length > 0) {
+    if (!turnSecret) {
+      throw new Error('ICE_TURN_URLS is set but ICE_TURN_SECRET is missing');
+    }
+    const credentials = createTurnCredentials(turnSecret, userId, ttlSeconds, now);
+    iceServers.push({ urls: turnUrls, ...credentials });
+    expiresAt = new Date(now.getTime() + ttlSeconds * 1000).toISOString();
+  }
+
+  return {
+    iceServers,
+    iceTransportPolicy: process.env.ICE_TRANSPORT_POLICY === 'relay' ? 'relay' : 'all',
+    expiresAt,
+  };
+}
+
+/**
+ * Time-limited TURN credentials in the TURN REST API format: the username carries the expiry
+ * timestamp, and the credential is base64(HMAC-SHA1(secret, username)), which the TURN server
+ * can verify without a shared user database
+ */
+export function createTurnCredentials(
+  secret: string,
+  userId: string,
+  ttlSeconds: number,
+  now: Date = new Date()
+): { username: string; credential: string } {
+  const expiry = Math.floor(now.getTime() / 1000) + ttlSeconds;
+  const username = `${expiry}:${userId}`;
+  const credential = createHmac('sha1', secret).update(username).digest('base64');
+  return { username, credential };
+}
+
+function parseUrlList(value: string | undefined): string[] | null {
+  if (value === undefined) {
+    return null;
+  }
+  return value.split(',').map((url) => url.trim()).filter(Boolean);
+}
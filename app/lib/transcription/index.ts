@@ -0,0 +1,48 @@
+import { sampleSessionRecording } from './recordings/sample-session';
+import { ReplayTranscriptionTransport, type RecordedTranscriptionEvent } from './transports/replay-transport';
+import { WebRTCTranscriptionTransport } from './transports/webrtc-transport';
+import { WebSocketTranscriptionTransport } from './transports/websocket-transport';
+import type { TranscriptionTransport, TransportKind } from './types';
+
+export { ReplayTranscriptionTransport, WebRTCTranscriptionTransport, WebSocketTranscriptionTransport };
+export { applyTranscriptionEvent, getUtteranceText } from './utterances';
+export { computeBackoffDelay } from './backoff';
+export { collectCorrections, getCorrectedTerms, toVocabularyPrompt } from './corrections';
+export type { TranscriptCorrection, VocabularyTerm } from './corrections';
+export { assessConnectionHealth, measureTranscriptionLatency, summarizeStats } from './diagnostics';
+export type { CandidateType, ConnectionHealth, ConnectionSample, HealthVerdict, TranscriptionLatency } from './diagnostics';
+export type { RecordedTranscriptionEvent };
+export type * from './types';
+
+const TRANSPORT_KINDS: TransportKind[] = ['webrtc', 'websocket', 'replay'];
+
+export function isTransportKind(value: unknown): value is TransportKind {
+  return TRANSPORT_KINDS.includes(value as TransportKind);
+}
+
+/**
+ * The transport configured for this build through NEXT_PUBLIC_TRANSCRIPTION_TRANSPORT, defaulting to WebRTC
+ */
+export function getDefaultTransportKind(): TransportKind {
+  const configured = process.env.NEXT_PUBLIC_TRANSCRIPTION_TRANSPORT;
+  return isTransportKind(configured) ? configured : 'webrtc';
+}
+
+export interface CreateTransportOptions {
+  /** Events the replay transport plays back; defaults to a short sample session */
+  recording?: RecordedTranscriptionEvent[];
+}
+
+export function createTranscriptionTransport(
+  kind: TransportKind,
+  { recording = sampleSessionRecording }: CreateTransportOptions = {}
+): TranscriptionTransport {
+  switch (kind) {
+    case 'webrtc':
+      return new WebRTCTranscriptionTransport();
+    case 'websocket':
+      return new WebSocketTranscriptionTransport();
+    case 'replay':
+      return new ReplayTranscriptionTransport({ events: recording });
+  }
+}
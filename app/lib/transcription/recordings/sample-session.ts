@@ -0,0 +1,34 @@
+import type { RecordedTranscriptionEvent } from '../transports/replay-transport';
+
+/**
+ * A short recorded exchange, replayed by default when the replay transport is selected
+ */
+export const sampleSessionRecording: RecordedTranscriptionEvent[] = [
+  { delayMs: 800, event: { type: 'input_audio_buffer.speech_started', item_id: 'item_sample_1' } },
+  { delayMs: 900, event: { type: 'input_audio_buffer.speech_stopped', item_id: 'item_sample_1' } },
+  { delayMs: 50, event: { type: 'input_audio_buffer.committed', item_id: 'item_sample_1' } },
+  { delayMs: 200, event: { type: 'conversation.item.input_audio_transcription.delta', item_id: 'item_sample_1', delta: 'Hello, ' } },
+  { delayMs: 150, event: { type: 'conversation.item.input_audio_transcription.delta', item_id: 'item_sample_1', delta: 'what is the ' } },
+  { delayMs: 150, event: { type: 'conversation.item.input_audio_transcription.delta', item_id: 'item_sample_1', delta: 'current time?' } },
+  {
+    delayMs: 100,
+    event: {
+      type: 'conversation.item.input_audio_transcription.completed',
+      item_id: 'item_sample_1',
+      transcript: 'Hello, what is the current time?',
+    },
+  },
+  { delayMs: 2500, event: { type: 'input_audio_buffer.speech_started', item_id: 'item_sample_2' } },
+  { delayMs: 1200, event: { type: 'input_audio_buffer.speech_stopped', item_id: 'item_sample_2' } },
+  { delayMs: 50, event: { type: 'input_audio_buffer.committed', item_id: 'item_sample_2' } },
+  { delayMs: 200, event: { type: 'conversation.item.input_audio_transcription.delta', item_id: 'item_sample_2', delta: 'Please show the ' } },
+  { delayMs: 150, event: { type: 'conversation.item.input_audio_transcription.delta', item_id: 'item_sample_2', delta: 'transcript panel.' } },
+  {
+    delayMs: 100,
+    event: {
+      type: 'conversation.item.input_audio_transcription.completed',
+      item_id: 'item_sample_2',
+      transcript: 'Please show the transcript panel.',
+    },
+  },
+];
@@ -0,0 +1,57 @@
+import type {
+  ClientTranscriptionEvent,
+  TranscriptionTransport,
+  TransportConnectOptions,
+  TransportEvent,
+  TransportKind,
+  TransportListener,
+} from '../types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('BaseTranscriptionTransport');
+
+/**
+ * Listener bookkeeping shared by every transport
+ */
+export abstract class BaseTranscriptionTransport implements TranscriptionTransport {
+  abstract readonly kind: TransportKind;
+  abstract readonly requiresEphemeralKey: boolean;
+  readonly requiresIceConfiguration: boolean = false;
+  private readonly listeners = new Set<TransportListener>();
+
+  abstract connect(options: TransportConnectOptions): Promise<void>;
+  abstract disconnect(): void;
+
+  get inputStream(): MediaStream | null {
+    return null;
+  }
+
+  /**
+   * Transports without a microphone have nothing to switch
+   */
+  async switchInputDevice(deviceId: string): Promise<void> {
+    log.debug('The', this.kind, 'transport has no microphone, ignoring device:', deviceId);
+  }
+
+  async getConnectionStats(): Promise<RTCStatsReport | null> {
+    return null;
+  }
+
+  /**
+   * Transports without a live session have nowhere to send client events
+   */
+  send(event: ClientTranscriptionEvent): void {
+    log.debug('The', this.kind, 'transport has no session, ignoring event:', event.type);
+  }
+
+  subscribe(listener: TransportListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected emit(event: TransportEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
@@ -0,0 +1,23 @@
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('Microphone');
+
+/**
+ * Opens a microphone, or the browser's default one when no device is given.
+ * A device that is gone, e.g. unplugged or with an ID the browser has since rotated, falls back to the default.
+ */
+export async function openMicrophone(deviceId?: string): Promise<MediaStream> {
+  if (!deviceId) {
+    return navigator.mediaDevices.getUserMedia({ audio: true });
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: { deviceId: { exact: deviceId } } });
+  } catch (error) {
+    const name = error instanceof DOMException ? error.name : '';
+    if (name !== 'OverconstrainedError' && name !== 'NotFoundError') {
+      throw error;
+    }
+    log.warn('Microphone', deviceId, 'is not available, using the default one');
+    return navigator.mediaDevices.getUserMedia({ audio: true });
+  }
+}
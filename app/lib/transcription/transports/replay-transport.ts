@@ -0,0 +1,66 @@
+import type { TranscriptionEvent } from '../types';
+import { BaseTranscriptionTransport } from './base-transport';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('ReplayTransport');
+
+/**
+ * A transcription event and how long to wait after the previous one before emitting it
+ */
+export interface RecordedTranscriptionEvent {
+  delayMs: number;
+  event: TranscriptionEvent;
+}
+
+export interface ReplayTransportOptions {
+  events: RecordedTranscriptionEvent[];
+  /** Playback speed multiplier; 2 plays twice as fast */
+  speed?: number;
+}
+
+/**
+ * Plays back a recorded sequence of transcription events, without a microphone or a network
+ */
+export class ReplayTranscriptionTransport extends BaseTranscriptionTransport {
+  readonly kind = 'replay';
+  readonly requiresEphemeralKey = false;
+
+  private readonly events: RecordedTranscriptionEvent[];
+  private readonly speed: number;
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  constructor({ events, speed = 1 }: ReplayTransportOptions) {
+    super();
+    this.events = events;
+    this.speed = speed;
+  }
+
+  async connect(): Promise<void> {
+    log.debug('Replaying', this.events.length, 'events');
+    this.emit({ type: 'state', state: 'connecting' });
+    this.emit({ type: 'state', state: 'connected' });
+    this.scheduleNext(0);
+  }
+
+  disconnect(): void {
+    log.debug('Stopping replay');
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+    this.emit({ type: 'state', state: 'closed' });
+  }
+
+  private scheduleNext(index: number): void {
+    const recorded = this.events[index];
+    if (!recorded) {
+      log.debug('Replay finished');
+      this.timeoutId = null;
+      return;
+    }
+    this.timeoutId = setTimeout(() => {
+      this.emit({ type: 'transcription', event: recorded.event });
+      this.scheduleNext(index + 1);
+    }, recorded.delayMs / this.speed);
+  }
+}
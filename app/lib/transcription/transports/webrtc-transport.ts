@@ -0,0 +1,273 @@
+import type { ClientTranscriptionEvent, TransportConnectOptions } from '../types';
+import { BaseTranscriptionTransport } from './base-transport';
+import { openMicrophone } from './microphone';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('WebRTCTransport');
+
+const REALTIME_TRANSCRIPTION_URL = 'https://api.openai.com/v1/realtime?intent=transcription';
+const ICE_GATHERING_TIMEOUT_MS = 5000;
+
+/**
+ * Streams microphone audio to OpenAI over a WebRTC peer connection and receives
+ * transcription events on the `oai-events` data channel
+ */
+export class WebRTCTranscriptionTransport extends BaseTranscriptionTransport {
+  readonly kind = 'webrtc';
+  readonly requiresEphemeralKey = true;
+  readonly requiresIceConfiguration = true;
+
+  private peerConnection: RTCPeerConnection | null = null;
+  private dataChannel: RTCDataChannel | null = null;
+  private mediaStream: MediaStream | null = null;
+
+  get inputStream(): MediaStream | null {
+    return this.mediaStream;
+  }
+
+  async connect({ ephemeralKey, iceConfiguration, deviceId }: TransportConnectOptions): Promise<void> {
+    if (!ephemeralKey) {
+      throw new Error('The WebRTC transport needs an ephemeral key');
+    }
+    if (!iceConfiguration) {
+      throw new Error('The WebRTC transport needs an ICE configuration');
+    }
+
+    this.emit({ type: 'state', state: 'connecting' });
+
+    try {
+      // Request access to microphone
+      log.debug('Requesting microphone access, device:', deviceId ?? 'default');
+      const mediaStream = await openMicrophone(deviceId);
+      this.mediaStream = mediaStream;
+      log.debug('Microphone access granted');
+
+      // Create a peer connection with the STUN and TURN servers issued for this connect
+      log.debug('Creating RTCPeerConnection with', iceConfiguration.iceServers.length,
+        'ICE server entries, policy:', iceConfiguration.iceTransportPolicy);
+      const peerConnection = new RTCPeerConnection({
+        iceServers: iceConfiguration.iceServers,
+        iceTransportPolicy: iceConfiguration.iceTransportPolicy,
+        iceCandidatePoolSize: 10 // Increase candidate pool size
+      });
+      this.peerConnection = peerConnection;
+
+      // Add the audio track from the microphone to the peer connection
+      log.debug('Adding audio tracks');
+      mediaStream.getAudioTracks().forEach((track) => {
+        log.debug('Adding track:', track.label);
+        peerConnection.addTrack(track, mediaStream);
+      });
+
+      // Create a data channel for sending and receiving events
+      log.debug('Creating data channel');
+      const dataChannel = peerConnection.createDataChannel('oai-events');
+      this.dataChannel = dataChannel;
+
+      // Set up data channel event handlers
+      dataChannel.onopen = () => {
+        log.debug('Data channel opened');
+        this.emit({ type: 'state', state: 'connected' });
+      };
+
+      dataChannel.onmessage = (event) => {
+        try {
+          log.debug('Received message');
+          this.emit({ type: 'transcription', event: JSON.parse(event.data) });
+        } catch (e) {
+          log.error('Error parsing data channel message:', e);
+        }
+      };
+
+      dataChannel.onclose = () => {
+        log.debug('Data channel closed');
+        this.emit({ type: 'state', state: 'disconnected' });
+      };
+
+      dataChannel.onerror = (e) => {
+        log.error('Data channel error:', e);
+        this.emit({ type: 'error', error: new Error('Data channel error') });
+        this.emit({ type: 'state', state: 'failed' });
+      };
+
+      // Log ICE candidate gathering
+      const gatheredCandidates: RTCIceCandidate[] = [];
+      peerConnection.onicecandidate = (event) => {
+        if (event.candidate) {
+          gatheredCandidates.push(event.candidate);
+          // Only the type; the candidate itself carries addresses
+          log.debug('ICE candidate gathered, type:', event.candidate.type);
+        } else {
+          log.debug('ICE candidate gathering complete, total candidates:', gatheredCandidates.length);
+        }
+      };
+
+      // Enhanced ICE connection state logging
+      peerConnection.oniceconnectionstatechange = () => {
+        const iceState = peerConnection.iceConnectionState;
+        log.debug('ICE connection state changed:', iceState);
+        if (iceState === 'disconnected' || iceState === 'closed') {
+          log.info('Connection ended');
+          this.emit({ type: 'state', state: 'disconnected' });
+        } else if (iceState === 'failed') {
+          log.warn('Connection failed');
+          this.emit({ type: 'state', state: 'failed' });
+        } else if (iceState === 'connected' || iceState === 'completed') {
+          log.info('Connection established');
+          this.emit({ type: 'state', state: 'connected' });
+        }
+      };
+
+      peerConnection.onicecandidateerror = (e) => {
+        log.error('ICE candidate error:', e);
+      };
+
+      // Add log for ice gathering state changes
+      peerConnection.onicegatheringstatechange = () => {
+        log.debug('ICE gathering state changed:', peerConnection.iceGatheringState);
+      };
+
+      // Create an offer for the WebRTC connection
+      log.debug('Creating offer');
+      const offer = await peerConnection.createOffer();
+      await peerConnection.setLocalDescription(offer);
+      log.debug('Local description set');
+
+      await this.waitForIceGathering(peerConnection);
+      log.debug('ICE gathering complete, gathered candidates:', gatheredCandidates.length);
+
+      // Get the complete SDP with all gathered candidates
+      const completeSdp = peerConnection.localDescription?.sdp;
+      if (!completeSdp) {
+        throw new Error('No local description available after ICE gathering');
+      }
+      log.debug('SDP offer ready, length:', completeSdp.length, 'contains candidates:', completeSdp.includes('a=candidate:'));
+
+      // Connect to the OpenAI Realtime API with the ephemeral key
+      log.debug('Connecting to OpenAI Realtime API with intent=transcription');
+      const response = await fetch(REALTIME_TRANSCRIPTION_URL, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${ephemeralKey}`,
+          'Content-Type': 'application/sdp',
+          'OpenAI-Beta': 'realtime=v1'
+        },
+        body: completeSdp, // Using the complete SDP with all ICE candidates
+      });
+
+      log.debug('API response status:', response.status);
+      
+      if (!response.ok) {
+        const errorText = await response.text();
+        log.error('API Error Response:', errorText);
+        throw new Error(`Failed to connect to OpenAI Realtime API: ${response.status} - ${errorText}`);
+      }
+
+      const answerSdp = await response.text();
+      log.debug('Received SDP answer, length:', answerSdp.length, 'contains candidates:', answerSdp.includes('a=candidate:'));
+
+      const answer = { type: 'answer', sdp: answerSdp } as RTCSessionDescriptionInit;
+      await peerConnection.setRemoteDescription(answer);
+      log.debug('Remote description set, waiting for connection to establish');
+    } catch (err) {
+      log.error('Error during setup:', err);
+      this.releaseResources();
+      throw err;
+    }
+  }
+
+  disconnect(): void {
+    log.debug('Disconnecting');
+    this.releaseResources();
+    this.emit({ type: 'state', state: 'closed' });
+  }
+
+  async getConnectionStats(): Promise<RTCStatsReport | null> {
+    return this.peerConnection ? this.peerConnection.getStats() : null;
+  }
+
+  send(event: ClientTranscriptionEvent): void {
+    if (this.dataChannel?.readyState !== 'open') {
+      throw new Error('The WebRTC data channel is not open');
+    }
+    log.debug('Sending event:', event.type);
+    this.dataChannel.send(JSON.stringify(event));
+  }
+
+  /**
+   * Swaps the outgoing audio track in place; replaceTrack needs no renegotiation
+   */
+  async switchInputDevice(deviceId: string): Promise<void> {
+    const sender = this.peerConnection?.getSenders().find((candidate) => candidate.track?.kind === 'audio');
+    if (!sender) {
+      throw new Error('The WebRTC transport is not sending audio');
+    }
+
+    log.debug('Switching to device:', deviceId);
+    const mediaStream = await openMicrophone(deviceId);
+    const [track] = mediaStream.getAudioTracks();
+    await sender.replaceTrack(track);
+
+    this.mediaStream?.getTracks().forEach((oldTrack) => oldTrack.stop());
+    this.mediaStream = mediaStream;
+    log.debug('Now sending track:', track.label);
+  }
+
+  /**
+   * Waits for ICE gathering to complete before sending the offer, or gives up after a timeout
+   */
+  private waitForIceGathering(peerConnection: RTCPeerConnection): Promise<void> {
+    log.debug('Waiting for ICE gathering to complete...');
+    return new Promise<void>((resolve) => {
+      if (peerConnection.iceGatheringState === 'complete') {
+        log.debug('ICE gathering already complete');
+        resolve();
+        return;
+      }
+
+      log.debug('ICE gathering in progress:', peerConnection.iceGatheringState);
+      
+      // Set a timeout to prevent indefinite waiting
+      const timeoutId = setTimeout(() => {
+        log.debug('ICE gathering timeout, proceeding anyway');
+        resolve();
+      }, ICE_GATHERING_TIMEOUT_MS);
+      
+      peerConnection.addEventListener('icegatheringstatechange', () => {
+        if (peerConnection.iceGatheringState === 'complete') {
+          log.debug('ICE gathering complete event received');
+          clearTimeout(timeoutId);
+          resolve();
+        }
+      });
+    });
+  }
+
+  private releaseResources(): void {
+    // Stop all tracks in the media stream
+    if (this.mediaStream) {
+      log.debug('Stopping media tracks');
+      this.mediaStream.getTracks().forEach((track) => {
+        log.debug('Stopping track:', track.label);
+        track.stop();
+      });
+      this.mediaStream = null;
+    }
+
+    // Close the data channel, without reporting the close we asked for
+    if (this.dataChannel) {
+      log.debug('Closing data channel');
+      this.dataChannel.onclose = null;
+      this.dataChannel.close();
+      this.dataChannel = null;
+    }
+
+    // Close the peer connection
+    if (this.peerConnection) {
+      log.debug('Closing peer connection');
+      this.peerConnection.oniceconnectionstatechange = null;
+      this.peerConnection.close();
+      this.peerConnection = null;
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import type { ClientTranscriptionEvent, TransportConnectOptions } from '../types';
+import { BaseTranscriptionTransport } from './base-transport';
+import { openMicrophone } from './microphone';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('WebSocketTransport');
+
+const REALTIME_WEBSOCKET_URL = 'wss://api.openai.com/v1/realtime?intent=transcription';
+// The realtime API expects pcm16 audio, mono, at 24 kHz
+const SAMPLE_RATE = 24000;
+const BUFFER_SIZE = 4096;
+
+/**
+ * Streams microphone audio to OpenAI over a WebSocket as base64 pcm16 chunks.
+ * Useful where WebRTC is blocked; it costs more bandwidth and has no built-in echo handling.
+ */
+export class WebSocketTranscriptionTransport extends BaseTranscriptionTransport {
+  readonly kind = 'websocket';
+  readonly requiresEphemeralKey = true;
+
+  private socket: WebSocket | null = null;
+  private mediaStream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+
+  get inputStream(): MediaStream | null {
+    return this.mediaStream;
+  }
+
+  async connect({ ephemeralKey, deviceId }: TransportConnectOptions): Promise<void> {
+    if (!ephemeralKey) {
+      throw new Error('The WebSocket transport needs an ephemeral key');
+    }
+
+    this.emit({ type: 'state', state: 'connecting' });
+
+    try {
+      log.debug('Requesting microphone access, device:', deviceId ?? 'default');
+      this.mediaStream = await openMicrophone(deviceId);
+
+      log.debug('Opening socket');
+      // Browsers cannot set headers on a WebSocket, so the key travels as a subprotocol
+      const socket = new WebSocket(REALTIME_WEBSOCKET_URL, [
+        'realtime',
+        `openai-insecure-api-key.${ephemeralKey}`,
+        'openai-beta.realtime-v1',
+      ]);
+      this.socket = socket;
+
+      await new Promise<void>((resolve, reject) => {
+        socket.onopen = () => resolve();
+        socket.onerror = () => reject(new Error('Could not open the transcription WebSocket'));
+      });
+      log.debug('Socket opened');
+
+      socket.onmessage = (event) => {
+        try {
+          this.emit({ type: 'transcription', event: JSON.parse(event.data) });
+        } catch (e) {
+          log.error('Error parsing socket message:', e);
+        }
+      };
+
+      socket.onerror = () => {
+        log.error('Socket error');
+        this.emit({ type: 'error', error: new Error('WebSocket error') });
+        this.emit({ type: 'state', state: 'failed' });
+      };
+
+      socket.onclose = (event) => {
+        log.debug('Socket closed, code:', event.code);
+        this.emit({ type: 'state', state: 'disconnected' });
+      };
+
+      this.startStreamingAudio(this.mediaStream);
+      this.emit({ type: 'state', state: 'connected' });
+    } catch (err) {
+      log.error('Error during setup:', err);
+      this.releaseResources();
+      throw err;
+    }
+  }
+
+  disconnect(): void {
+    log.debug('Disconnecting');
+    this.releaseResources();
+    this.emit({ type: 'state', state: 'closed' });
+  }
+
+  send(event: ClientTranscriptionEvent): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      throw new Error('The transcription WebSocket is not open');
+    }
+    log.debug('Sending event:', event.type);
+    this.socket.send(JSON.stringify(event));
+  }
+
+  /**
+   * Reconnects the audio graph to another microphone; the socket stays open
+   */
+  async switchInputDevice(deviceId: string): Promise<void> {
+    if (!this.audioContext || !this.processor) {
+      throw new Error('The WebSocket transport is not streaming audio');
+    }
+
+    log.debug('Switching to device:', deviceId);
+    const mediaStream = await openMicrophone(deviceId);
+    const source = this.audioContext.createMediaStreamSource(mediaStream);
+
+    this.source?.disconnect();
+    source.connect(this.processor);
+    this.source = source;
+
+    this.mediaStream?.getTracks().forEach((track) => track.stop());
+    this.mediaStream = mediaStream;
+  }
+
+  private startStreamingAudio(mediaStream: MediaStream): void {
+    const audioContext = new AudioContext({ sampleRate: SAMPLE_RATE });
+    const source = audioContext.createMediaStreamSource(mediaStream);
+    const processor = audioContext.createScriptProcessor(BUFFER_SIZE, 1, 1);
+
+    processor.onaudioprocess = (event) => {
+      if (this.socket?.readyState !== WebSocket.OPEN) {
+        return;
+      }
+      const audio = encodePcm16(event.inputBuffer.getChannelData(0));
+      this.socket.send(JSON.stringify({ type: 'input_audio_buffer.append', audio }));
+    };
+
+    source.connect(processor);
+    // A ScriptProcessorNode only runs while connected to a destination
+    processor.connect(audioContext.destination);
+
+    this.audioContext = audioContext;
+    this.processor = processor;
+    this.source = source;
+  }
+
+  private releaseResources(): void {
+    if (this.processor) {
+      this.processor.onaudioprocess = null;
+      this.processor.disconnect();
+      this.processor = null;
+    }
+
+    if (this.source) {
+      this.source.disconnect();
+      this.source = null;
+    }
+
+    if (this.audioContext) {
+      this.audioContext.close().catch(() => undefined);
+      this.audioContext = null;
+    }
+
+    if (this.mediaStream) {
+      log.debug('Stopping media tracks');
+      this.mediaStream.getTracks().forEach((track) => track.stop());
+      this.mediaStream = null;
+    }
+
+    if (this.socket) {
+      log.debug('Closing socket');
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+}
+
+/**
+ * Converts float samples in [-1, 1] to base64 little-endian pcm16
+ */
+function encodePcm16(samples: Float32Array): string {
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,127 @@
+/**
+ * Types shared by the transcription transports and the useTranscription hook
+ */
+
+/**
+ * A server event from the OpenAI realtime transcription API
+ */
+export type TranscriptionEvent = {
+  type: string;
+  event_id?: string;
+  item_id?: string;
+  content_index?: number;
+  previous_item_id?: string | null;
+  delta?: string;
+  transcript?: string;
+  audio_start_ms?: number;
+  audio_end_ms?: number;
+};
+
+export type UtteranceStatus = 'speaking' | 'transcribing' | 'final';
+
+/**
+ * One stretch of user speech, keyed by the realtime API's item_id
+ */
+export interface TranscriptUtterance {
+  id: string;
+  status: UtteranceStatus;
+  /** Text streamed so far, before the transcript completes */
+  partialText: string;
+  finalText: string | null;
+  startedAt: Date;
+  /** When the user stopped speaking */
+  endedAt: Date | null;
+  finalizedAt: Date | null;
+  /** Offsets into the session's input audio buffer, as reported by server VAD */
+  audioStartMs?: number;
+  audioEndMs?: number;
+}
+
+export type TransportKind = 'webrtc' | 'websocket' | 'replay';
+
+/**
+ * Continuous lets the server detect turns; push-to-talk turns detection off and the user marks each turn
+ */
+export type TranscriptionMode = 'continuous' | 'push-to-talk';
+
+/**
+ * Events the client sends to the realtime session
+ */
+export type ClientTranscriptionEvent =
+  | { type: 'input_audio_buffer.commit' }
+  | { type: 'input_audio_buffer.clear' };
+
+export type TransportState = 'connecting' | 'connected' | 'disconnected' | 'failed' | 'closed';
+
+export type TransportEvent =
+  | { type: 'transcription'; event: TranscriptionEvent }
+  | { type: 'state'; state: TransportState }
+  | { type: 'error'; error: Error };
+
+export type TransportListener = (event: TransportEvent) => void;
+
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+/**
+ * ICE servers issued by the server for one connect; TURN credentials in it expire
+ */
+export interface IceConfiguration {
+  iceServers: IceServer[];
+  iceTransportPolicy: 'all' | 'relay';
+  expiresAt?: string;
+}
+
+export type KeyDenialReason = 'unauthenticated' | 'rate_limited' | 'concurrency_limited';
+
+/**
+ * Why the server refused to issue an ephemeral key; retrying straight away will not help
+ */
+export interface KeyDenial {
+  reason: KeyDenialReason;
+  message: string;
+  retryAfterMs?: number;
+}
+
+export type EphemeralKeyResult =
+  | { ok: true; ephemeralKey: string; leaseId: string }
+  | { ok: false; denial: KeyDenial };
+
+export type IceConfigurationResult =
+  | { ok: true; configuration: IceConfiguration }
+  | { ok: false; denial: KeyDenial };
+
+export interface TransportConnectOptions {
+  /** Ephemeral client secret, required by transports that talk to OpenAI */
+  ephemeralKey?: string;
+  /** STUN/TURN servers, required by peer-to-peer transports */
+  iceConfiguration?: IceConfiguration;
+  /** Microphone to capture; the browser default when omitted */
+  deviceId?: string;
+}
+
+/**
+ * Moves microphone audio to a transcription service and streams its events back
+ */
+export interface TranscriptionTransport {
+  readonly kind: TransportKind;
+  /** Whether connect() needs an ephemeral key from getEphemeralKey */
+  readonly requiresEphemeralKey: boolean;
+  /** Whether connect() needs ICE servers from getIceConfiguration */
+  readonly requiresIceConfiguration: boolean;
+  /** The microphone stream being sent, or null when not connected or not using a microphone */
+  readonly inputStream: MediaStream | null;
+  connect(options: TransportConnectOptions): Promise<void>;
+  disconnect(): void;
+  /** Moves capture to another microphone without dropping the connection */
+  switchInputDevice(deviceId: string): Promise<void>;
+  /** Sends a client event to the session; throws when the event channel is not open */
+  send(event: ClientTranscriptionEvent): void;
+  /** Peer connection statistics, or null for transports without a peer connection */
+  getConnectionStats(): Promise<RTCStatsReport | null>;
+  /** Subscribes to the event stream; returns an unsubscribe function */
+  subscribe(listener: TransportListener): () => void;
+}
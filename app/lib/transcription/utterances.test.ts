@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { TranscriptionEvent, TranscriptUtterance } from './types';
+import { applyTranscriptionEvent, getUtteranceText } from './utterances';
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 10, 0, seconds));
+
+function applyAll(events: [TranscriptionEvent, number][], utterances: TranscriptUtterance[] = []): TranscriptUtterance[] {
+  return events.reduce((current, [event, seconds]) => applyTranscriptionEvent(current, event, at(seconds)).utterances, utterances);
+}
+
+describe('applyTranscriptionEvent', () => {
+  it('follows an utterance from speech to final transcript', () => {
+    let utterances = applyAll([
+      [{ type: 'input_audio_buffer.speech_started', item_id: 'a', audio_start_ms: 120 }, 0],
+      [{ type: 'conversation.item.input_audio_transcription.delta', item_id: 'a', delta: 'Hello ' }, 1],
+      [{ type: 'input_audio_buffer.speech_stopped', item_id: 'a', audio_end_ms: 2400 }, 2],
+    ]);
+    expect(utterances).toEqual([expect.objectContaining({
+      id: 'a',
+      status: 'transcribing',
+      partialText: 'Hello ',
+      startedAt: at(0),
+      endedAt: at(2),
+      audioStartMs: 120,
+      audioEndMs: 2400,
+    })]);
+    expect(getUtteranceText(utterances[0])).toBe('Hello ');
+
+    const update = applyTranscriptionEvent(
+      utterances,
+      { type: 'conversation.item.input_audio_transcription.completed', item_id: 'a', transcript: ' Hello there ' },
+      at(3)
+    );
+    utterances = update.utterances;
+    expect(update.finalized).toEqual(utterances[0]);
+    expect(utterances[0]).toMatchObject({ status: 'final', finalText: 'Hello there', endedAt: at(2), finalizedAt: at(3) });
+    expect(getUtteranceText(utterances[0])).toBe('Hello there');
+  });
+
+  it('reports when speech starts', () => {
+    expect(applyTranscriptionEvent([], { type: 'input_audio_buffer.speech_started', item_id: 'a' }).speechStarted).toBe(true);
+  });
+
+  it('keeps overlapping utterances apart', () => {
+    const utterances = applyAll([
+      [{ type: 'input_audio_buffer.speech_started', item_id: 'a' }, 0],
+      [{ type: 'input_audio_buffer.speech_started', item_id: 'b' }, 1],
+      [{ type: 'conversation.item.input_audio_transcription.delta', item_id: 'b', delta: 'second' }, 2],
+      [{ type: 'conversation.item.input_audio_transcription.delta', item_id: 'a', delta: 'first' }, 2],
+    ]);
+    expect(utterances.map(getUtteranceText)).toEqual(['first', 'second']);
+  });
+
+  it('creates utterances for items it has not seen start', () => {
+    const utterances = applyAll([
+      [{ type: 'conversation.item.input_audio_transcription.completed', item_id: 'a', transcript: 'Hi' }, 5],
+    ]);
+    expect(utterances).toEqual([expect.objectContaining({ id: 'a', status: 'final', finalText: 'Hi', startedAt: at(5) })]);
+  });
+
+  it('orders committed utterances after the item the server says came before', () => {
+    const utterances = applyAll([
+      [{ type: 'input_audio_buffer.speech_started', item_id: 'b' }, 0],
+      [{ type: 'input_audio_buffer.speech_started', item_id: 'a' }, 1],
+      [{ type: 'input_audio_buffer.committed', item_id: 'b', previous_item_id: 'a' }, 2],
+    ]);
+    expect(utterances.map((utterance) => utterance.id)).toEqual(['a', 'b']);
+  });
+
+  it('keeps a final utterance final when late speech events arrive', () => {
+    const utterances = applyAll([
+      [{ type: 'conversation.item.input_audio_transcription.completed', item_id: 'a', transcript: 'Done' }, 0],
+      [{ type: 'input_audio_buffer.committed', item_id: 'a' }, 1],
+    ]);
+    expect(utterances[0].status).toBe('final');
+  });
+
+  it('drops utterances whose transcription failed', () => {
+    const utterances = applyAll([
+      [{ type: 'input_audio_buffer.speech_started', item_id: 'a' }, 0],
+      [{ type: 'conversation.item.input_audio_transcription.failed', item_id: 'a' }, 1],
+    ]);
+    expect(utterances).toEqual([]);
+  });
+
+  it('ignores events without an item and events it does not know', () => {
+    const utterances = applyAll([[{ type: 'input_audio_buffer.speech_started', item_id: 'a' }, 0]]);
+    expect(applyTranscriptionEvent(utterances, { type: 'input_audio_buffer.speech_started' }).utterances).toBe(utterances);
+    expect(applyTranscriptionEvent(utterances, { type: 'session.updated', item_id: 'a' }).utterances).toBe(utterances);
+  });
+});
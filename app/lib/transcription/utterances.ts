@@ -0,0 +1,130 @@
+import type { TranscriptionEvent, TranscriptUtterance } from './types';
+
+export interface UtteranceUpdate {
+  utterances: TranscriptUtterance[];
+  /** The utterance this event changed, if any */
+  changed?: TranscriptUtterance;
+  /** Set when the event completed an utterance's transcript */
+  finalized?: TranscriptUtterance;
+  speechStarted?: boolean;
+}
+
+/**
+ * Applies one realtime transcription event to the ordered list of utterances.
+ * Each item_id gets its own utterance, so overlapping or out-of-order transcripts never mix.
+ */
+export function applyTranscriptionEvent(
+  utterances: TranscriptUtterance[],
+  event: TranscriptionEvent,
+  now: Date = new Date()
+): UtteranceUpdate {
+  const itemId = event.item_id;
+  if (!itemId) {
+    return { utterances };
+  }
+
+  switch (event.type) {
+    case 'input_audio_buffer.speech_started': {
+      const update = upsert(utterances, itemId, now, (utterance) => ({
+        ...utterance,
+        startedAt: now,
+        audioStartMs: event.audio_start_ms ?? utterance.audioStartMs,
+      }));
+      return { ...update, speechStarted: true };
+    }
+    case 'input_audio_buffer.speech_stopped':
+      return upsert(utterances, itemId, now, (utterance) => ({
+        ...utterance,
+        status: utterance.status === 'final' ? 'final' : 'transcribing',
+        endedAt: now,
+        audioEndMs: event.audio_end_ms ?? utterance.audioEndMs,
+      }));
+    case 'input_audio_buffer.committed': {
+      const update = upsert(utterances, itemId, now, (utterance) => ({
+        ...utterance,
+        status: utterance.status === 'final' ? 'final' : 'transcribing',
+        endedAt: utterance.endedAt ?? now,
+      }));
+      return { ...update, utterances: placeAfter(update.utterances, itemId, event.previous_item_id) };
+    }
+    case 'conversation.item.input_audio_transcription.delta':
+      if (!event.delta) {
+        return { utterances };
+      }
+      return upsert(utterances, itemId, now, (utterance) => ({
+        ...utterance,
+        partialText: utterance.partialText + event.delta,
+      }));
+    case 'conversation.item.input_audio_transcription.completed': {
+      const update = upsert(utterances, itemId, now, (utterance) => ({
+        ...utterance,
+        status: 'final',
+        finalText: (event.transcript ?? utterance.partialText).trim(),
+        endedAt: utterance.endedAt ?? now,
+        finalizedAt: now,
+      }));
+      return { ...update, finalized: update.changed };
+    }
+    case 'conversation.item.input_audio_transcription.failed':
+      // Nothing usable was transcribed, so drop the bubble rather than leave it pending
+      return { utterances: utterances.filter((utterance) => utterance.id !== itemId) };
+    default:
+      return { utterances };
+  }
+}
+
+export function getUtteranceText(utterance: TranscriptUtterance): string {
+  return utterance.finalText ?? utterance.partialText;
+}
+
+function upsert(
+  utterances: TranscriptUtterance[],
+  id: string,
+  now: Date,
+  update: (utterance: TranscriptUtterance) => TranscriptUtterance
+): { utterances: TranscriptUtterance[]; changed: TranscriptUtterance } {
+  const index = utterances.findIndex((utterance) => utterance.id === id);
+  // Events can arrive for items we have not seen start, e.g. with turn detection disabled
+  const existing = index === -1 ? createUtterance(id, now) : utterances[index];
+  const changed = update(existing);
+
+  const next = [...utterances];
+  if (index === -1) {
+    next.push(changed);
+  } else {
+    next[index] = changed;
+  }
+  return { utterances: next, changed };
+}
+
+function createUtterance(id: string, now: Date): TranscriptUtterance {
+  return {
+    id,
+    status: 'speaking',
+    partialText: '',
+    finalText: null,
+    startedAt: now,
+    endedAt: null,
+    finalizedAt: null,
+  };
+}
+
+/**
+ * Moves an utterance directly after the item the server says precedes it
+ */
+function placeAfter(
+  utterances: TranscriptUtterance[],
+  id: string,
+  previousId: string | null | undefined
+): TranscriptUtterance[] {
+  const utterance = utterances.find((candidate) => candidate.id === id);
+  if (!utterance || !previousId) {
+    return utterances;
+  }
+  const rest = utterances.filter((candidate) => candidate.id !== id);
+  const previousIndex = rest.findIndex((candidate) => candidate.id === previousId);
+  if (previousIndex === -1) {
+    return utterances;
+  }
+  return [...rest.slice(0, previousIndex + 1), utterance, ...rest.slice(previousIndex + 1)];
+}
@@ -0,0 +1,29 @@
+import { OpenAITTSProvider } from './openai-provider';
+import { ToneTTSProvider } from './tone-provider';
+import type { TTSProvider } from './types';
+
+export type { SpeechAudio, TTSProvider } from './types';
+export { MAX_SPEECH_CHARACTERS } from './types';
+
+/**
+ * Picks the TTS provider from the environment.
+ * TTS_PROVIDER may be 'openai' or 'tone'; without it, OpenAI is used when an API key is configured.
+ */
+export function getTTSProvider(): TTSProvider {
+  const configured = process.env.TTS_PROVIDER;
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  if (configured === 'tone' || (!configured && !apiKey)) {
+    return new ToneTTSProvider();
+  }
+
+  if (!apiKey) {
+    throw new Error('TTS_PROVIDER is set to openai but OPENAI_API_KEY is missing');
+  }
+
+  return new OpenAITTSProvider({
+    apiKey,
+    model: process.env.OPENAI_TTS_MODEL,
+    voice: process.env.OPENAI_TTS_VOICE,
+  });
+}
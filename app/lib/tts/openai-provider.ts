@@ -0,0 +1,55 @@
+import type { SpeechAudio, TTSProvider } from './types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('OpenAITTSProvider');
+
+export interface OpenAITTSProviderOptions {
+  apiKey: string;
+  model?: string;
+  voice?: string;
+}
+
+/**
+ * TTS provider backed by the OpenAI speech endpoint
+ */
+export class OpenAITTSProvider implements TTSProvider {
+  readonly name = 'openai';
+  private readonly apiKey: string;
+  private readonly model: string;
+  private readonly voice: string;
+
+  constructor({ apiKey, model = 'gpt-4o-mini-tts', voice = 'alloy' }: OpenAITTSProviderOptions) {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.voice = voice;
+  }
+
+  async synthesize(text: string): Promise<SpeechAudio> {
+    log.debug('Requesting speech, text length:', text.length, 'voice:', this.voice);
+
+    const response = await fetch('https://api.openai.com/v1/audio/speech', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        voice: this.voice,
+        input: text,
+        response_format: 'mp3',
+      }),
+    });
+
+    log.debug('Response status:', response.status);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      log.error('Error response:', errorText);
+      throw new Error(`OpenAI speech request failed: ${response.status} - ${errorText}`);
+    }
+
+    const audio = Buffer.from(await response.arrayBuffer());
+    return { audioBase64: audio.toString('base64'), mimeType: 'audio/mpeg' };
+  }
+}
@@ -0,0 +1,66 @@
+import type { SpeechAudio, TTSProvider } from './types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('ToneTTSProvider');
+
+const SAMPLE_RATE = 16000;
+const FREQUENCY_HZ = 440;
+const MS_PER_WORD = 120;
+const MIN_DURATION_MS = 300;
+const MAX_DURATION_MS = 3000;
+
+/**
+ * Offline stand-in for a real TTS service.
+ * Returns a sine tone as a WAV file whose length grows with the number of words, so playback
+ * timing behaves roughly like speech without a network.
+ */
+export class ToneTTSProvider implements TTSProvider {
+  readonly name = 'tone';
+
+  async synthesize(text: string): Promise<SpeechAudio> {
+    const words = text.trim().split(/\s+/).filter(Boolean).length;
+    const durationMs = Math.min(MAX_DURATION_MS, Math.max(MIN_DURATION_MS, words * MS_PER_WORD));
+    log.debug('Generating tone, words:', words, 'duration ms:', durationMs);
+
+    const wav = createToneWav(durationMs);
+    return { audioBase64: Buffer.from(wav).toString('base64'), mimeType: 'audio/wav' };
+  }
+}
+
+/**
+ * Builds a 16-bit mono PCM WAV file containing a sine tone that fades out at the end
+ */
+export function createToneWav(durationMs: number): Uint8Array {
+  const sampleCount = Math.round((SAMPLE_RATE * durationMs) / 1000);
+  const dataSize = sampleCount * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < sampleCount; i++) {
+    const fade = Math.min(1, (sampleCount - i) / (SAMPLE_RATE * 0.05));
+    const sample = Math.sin((2 * Math.PI * FREQUENCY_HZ * i) / SAMPLE_RATE) * 0.3 * fade;
+    view.setInt16(44 + i * 2, Math.round(sample * 0x7fff), true);
+  }
+
+  return new Uint8Array(buffer);
+}
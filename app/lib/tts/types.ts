@@ -0,0 +1,17 @@
+/**
+ * Types for text-to-speech (steps 6-7 of the process flow).
+ * Audio is returned base64 encoded so it can cross the server action boundary.
+ */
+
+/** The most text one synthesis request may carry, OpenAI's limit for speech input */
+export const MAX_SPEECH_CHARACTERS = 4096;
+
+export interface SpeechAudio {
+  audioBase64: string;
+  mimeType: string;
+}
+
+export interface TTSProvider {
+  readonly name: string;
+  synthesize(text: string): Promise<SpeechAudio>;
+}
@@ -0,0 +1,24 @@
+export {
+  FONT_SIZES,
+  initialUIHistory,
+  initialUIState,
+  LAYOUT_MODES,
+  replayUIChanges,
+  SIDE_PANELS,
+  THEMES,
+  uiHistoryReducer,
+  uiStateReducer,
+} from './state';
+export type {
+  FontSize,
+  LayoutMode,
+  SidePanel,
+  Theme,
+  UIAction,
+  UIActions,
+  UIChange,
+  UIChangeSource,
+  UIHistory,
+  UIHistoryAction,
+  UIState,
+} from './state';
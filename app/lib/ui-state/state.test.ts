@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { initialUIHistory, initialUIState, replayUIChanges, uiHistoryReducer, type UIAction, type UIHistory } from './state';
+
+function apply(history: UIHistory, ...actions: UIAction[]): UIHistory {
+  return actions.reduce((next, action) => uiHistoryReducer(next, { type: 'apply', action, source: 'function' }), history);
+}
+
+describe('uiHistoryReducer', () => {
+  it('records each change with the state it replaced', () => {
+    const history = apply(initialUIHistory, { type: 'showPanel', panel: 'logs' }, { type: 'setTheme', theme: 'dark' });
+    expect(history.present).toEqual({ ...initialUIState, visiblePanels: ['logs'], theme: 'dark' });
+    expect(history.past.map((change) => change.id)).toEqual([1, 2]);
+    expect(history.past[1].previous).toEqual({ ...initialUIState, visiblePanels: ['logs'] });
+    expect(history.nextId).toBe(3);
+  });
+
+  it('does not record changes that change nothing', () => {
+    const history = apply(initialUIHistory, { type: 'showPanel', panel: 'logs' });
+    expect(apply(history, { type: 'showPanel', panel: 'logs' })).toBe(history);
+  });
+
+  it('undoes and redoes changes in order', () => {
+    const history = apply(initialUIHistory, { type: 'setFontSize', size: 'large' }, { type: 'setLayoutMode', mode: 'focus' });
+    const undone = uiHistoryReducer(uiHistoryReducer(history, { type: 'undo' }), { type: 'undo' });
+    expect(undone.present).toEqual(initialUIState);
+    expect(undone.future).toHaveLength(2);
+
+    const redone = uiHistoryReducer(undone, { type: 'redo' });
+    expect(redone.present).toEqual({ ...initialUIState, fontSize: 'large' });
+    expect(uiHistoryReducer(redone, { type: 'redo' }).present).toEqual(history.present);
+  });
+
+  it('ignores undo and redo with nothing to undo or redo', () => {
+    expect(uiHistoryReducer(initialUIHistory, { type: 'undo' })).toBe(initialUIHistory);
+    expect(uiHistoryReducer(initialUIHistory, { type: 'redo' })).toBe(initialUIHistory);
+  });
+
+  it('drops undone changes once a new change is made', () => {
+    const undone = uiHistoryReducer(apply(initialUIHistory, { type: 'setTheme', theme: 'dark' }), { type: 'undo' });
+    expect(apply(undone, { type: 'setTheme', theme: 'light' }).future).toEqual([]);
+  });
+
+  it('replays changes from the initial state', () => {
+    const history = apply(initialUIHistory, { type: 'setTheme', theme: 'dark' });
+    const replayed = uiHistoryReducer(history, {
+      type: 'replay',
+      changes: [
+        { action: { type: 'togglePanel', panel: 'transcript' }, source: 'user' },
+        { action: { type: 'setHighlight', text: '  pottery  ' }, source: 'function' },
+      ],
+    });
+    expect(replayed.present).toEqual({ ...initialUIState, visiblePanels: ['transcript'], highlight: 'pottery' });
+    expect(replayed.past.map((change) => change.source)).toEqual(['user', 'function']);
+    expect(replayUIChanges(replayed.past)).toEqual(replayed.present);
+  });
+});
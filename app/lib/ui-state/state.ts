@@ -0,0 +1,175 @@
+/**
+ * Session-scoped UI state that modifier functions can change (step 11 of the process flow).
+ * Every change is recorded with the state it replaced, so it can be undone and replayed.
+ */
+
+export const SIDE_PANELS = ['transcript', 'activity', 'diagnostics', 'logs', 'privacy'] as const;
+export const LAYOUT_MODES = ['standard', 'focus', 'split'] as const;
+export const FONT_SIZES = ['small', 'medium', 'large'] as const;
+export const THEMES = ['system', 'light', 'dark'] as const;
+
+export type SidePanel = (typeof SIDE_PANELS)[number];
+export type LayoutMode = (typeof LAYOUT_MODES)[number];
+export type FontSize = (typeof FONT_SIZES)[number];
+export type Theme = (typeof THEMES)[number];
+
+export interface UIState {
+  visiblePanels: SidePanel[];
+  /** Text to highlight in the chat, e.g. a term the assistant is pointing at */
+  highlight: string | null;
+  layoutMode: LayoutMode;
+  fontSize: FontSize;
+  theme: Theme;
+}
+
+export type UIAction =
+  | { type: 'showPanel'; panel: SidePanel }
+  | { type: 'hidePanel'; panel: SidePanel }
+  | { type: 'togglePanel'; panel: SidePanel }
+  | { type: 'setHighlight'; text: string }
+  | { type: 'clearHighlight' }
+  | { type: 'setLayoutMode'; mode: LayoutMode }
+  | { type: 'setFontSize'; size: FontSize }
+  | { type: 'setTheme'; theme: Theme }
+  | { type: 'reset' };
+
+export type UIChangeSource = 'user' | 'function';
+
+export interface UIChange {
+  id: number;
+  action: UIAction;
+  source: UIChangeSource;
+  timestamp: Date;
+  /** The state before this change, which undo restores */
+  previous: UIState;
+}
+
+export interface UIHistory {
+  present: UIState;
+  past: UIChange[];
+  future: UIChange[];
+  nextId: number;
+}
+
+export type UIHistoryAction =
+  | { type: 'apply'; action: UIAction; source: UIChangeSource }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'replay'; changes: Pick<UIChange, 'action' | 'source'>[] };
+
+/**
+ * Typed actions that modifier functions and UI controls invoke to change the UI state
+ */
+export interface UIActions {
+  showPanel: (panel: SidePanel) => void;
+  hidePanel: (panel: SidePanel) => void;
+  togglePanel: (panel: SidePanel) => void;
+  setHighlight: (text: string) => void;
+  clearHighlight: () => void;
+  setLayoutMode: (mode: LayoutMode) => void;
+  setFontSize: (size: FontSize) => void;
+  setTheme: (theme: Theme) => void;
+  reset: () => void;
+  undo: () => void;
+  redo: () => void;
+  replay: (changes: Pick<UIChange, 'action' | 'source'>[]) => void;
+}
+
+export const initialUIState: UIState = {
+  visiblePanels: [],
+  highlight: null,
+  layoutMode: 'standard',
+  fontSize: 'medium',
+  theme: 'system',
+};
+
+export const initialUIHistory: UIHistory = {
+  present: initialUIState,
+  past: [],
+  future: [],
+  nextId: 1,
+};
+
+export function uiStateReducer(state: UIState, action: UIAction): UIState {
+  switch (action.type) {
+    case 'showPanel':
+      return state.visiblePanels.includes(action.panel)
+        ? state
+        : { ...state, visiblePanels: [...state.visiblePanels, action.panel] };
+    case 'hidePanel':
+      return { ...state, visiblePanels: state.visiblePanels.filter((panel) => panel !== action.panel) };
+    case 'togglePanel':
+      return uiStateReducer(state, {
+        type: state.visiblePanels.includes(action.panel) ? 'hidePanel' : 'showPanel',
+        panel: action.panel,
+      });
+    case 'setHighlight':
+      return { ...state, highlight: action.text.trim() || null };
+    case 'clearHighlight':
+      return { ...state, highlight: null };
+    case 'setLayoutMode':
+      return { ...state, layoutMode: action.mode };
+    case 'setFontSize':
+      return { ...state, fontSize: action.size };
+    case 'setTheme':
+      return { ...state, theme: action.theme };
+    case 'reset':
+      return initialUIState;
+  }
+}
+
+export function uiHistoryReducer(history: UIHistory, action: UIHistoryAction): UIHistory {
+  switch (action.type) {
+    case 'apply': {
+      const next = uiStateReducer(history.present, action.action);
+      if (next === history.present) {
+        return history;
+      }
+      const change: UIChange = {
+        id: history.nextId,
+        action: action.action,
+        source: action.source,
+        timestamp: new Date(),
+        previous: history.present,
+      };
+      // A new change invalidates anything that was undone
+      return { present: next, past: [...history.past, change], future: [], nextId: history.nextId + 1 };
+    }
+    case 'undo': {
+      const change = history.past[history.past.length - 1];
+      if (!change) {
+        return history;
+      }
+      return {
+        ...history,
+        present: change.previous,
+        past: history.past.slice(0, -1),
+        future: [change, ...history.future],
+      };
+    }
+    case 'redo': {
+      const [change, ...future] = history.future;
+      if (!change) {
+        return history;
+      }
+      return {
+        ...history,
+        present: uiStateReducer(history.present, change.action),
+        past: [...history.past, change],
+        future,
+      };
+    }
+    case 'replay':
+      return action.changes.reduce(
+        (replayed, change) => uiHistoryReducer(replayed, { type: 'apply', action: change.action, source: change.source }),
+        initialUIHistory
+      );
+  }
+}
+
+/**
+ * Rebuilds the state a recorded list of changes leads to, starting from the initial state
+ */
+export function replayUIChanges(changes: Pick<UIChange, 'action'>[]): UIState {
+  return changes.reduce((state, change) => uiStateReducer(state, change.action), initialUIState);
+}
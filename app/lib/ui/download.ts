@@ -0,0 +1,11 @@
+/**
+ * Saves text generated in the browser as a file download
+ */
+export function downloadTextFile(filename: string, mimeType: string, content: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,88 +1,426 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { FaCog, FaExclamationTriangle, FaKeyboard, FaPen, FaPlay, FaRedo, FaVolumeUp } from 'react-icons/fa';
+import type {
+  AssistantMessage,
+  ChatMessage,
+  FunctionCallMessage,
+  FunctionResultMessage,
+  UserMessage,
+} from '@/app/lib/messages';
+import MarkdownText from './MarkdownText';
+import { createLogger } from '@/app/lib/logging';
 
-interface Message {
+const log = createLogger('ChatComponent');
+
+interface PendingUtterance {
   id: string;
-  content: string;
-  sender: 'user' | 'ai';
-  timestamp: Date;
+  text: string;
+  status: 'speaking' | 'transcribing' | 'final';
 }
 
 interface ChatComponentProps {
-  messages: Message[];
-  currentUserMessage: string;
+  messages: ChatMessage[];
+  /** Utterances that are still being spoken or transcribed, one bubble each */
+  pendingUtterances?: PendingUtterance[];
+  /** Messages containing this text are highlighted */
+  highlight?: string | null;
+  /** The AI message currently being read aloud */
+  speakingMessageId?: string | null;
+  /** Asks for a failed AI reply again */
+  onRetry?: (messageId: string) => void;
+  /** Corrects a user message; with rerun, what followed it is asked for again */
+  onEdit?: (messageId: string, content: string, options: { rerun: boolean }) => void;
+  /** Whether edits can re-run what followed, e.g. not while a script is answering */
+  canRerunEdits?: boolean;
+  /** User messages that cannot be edited because part of them is masked on screen */
+  lockedMessageIds?: ReadonlySet<string>;
+  /** User messages whose recorded audio can be played */
+  playableMessageIds?: ReadonlySet<string>;
+  /** The user message whose recorded audio is playing */
+  playingMessageId?: string | null;
+  /** Plays the recorded audio of a user message */
+  onPlaySegment?: (messageId: string) => void;
+  /** Scrolled to and briefly outlined on first render instead of scrolling to the bottom, e.g. a search hit */
+  focusMessageId?: string;
   className?: string;
 }
 
+const FOCUS_OUTLINE_MS = 4000;
+
+function formatTime(timestamp: Date): string {
+  return timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function TypingDots() {
+  return (
+    <span className="flex">
+      <span className="animate-pulse">.</span>
+      <span className="animate-pulse delay-150">.</span>
+      <span className="animate-pulse delay-300">.</span>
+    </span>
+  );
+}
+
+interface UserBubbleProps {
+  message: UserMessage;
+  isHighlighted: boolean;
+  /** Editing is off while a reply is on its way, and for messages with masked text */
+  canEdit: boolean;
+  canRerun: boolean;
+  onEdit?: ChatComponentProps['onEdit'];
+  /** Set when the message's audio was recorded */
+  onPlaySegment?: () => void;
+  /** Whether the recording is playing this message */
+  isPlaying: boolean;
+}
+
+function UserBubble({ message, isHighlighted, canEdit, canRerun, onEdit, onPlaySegment, isPlaying }: UserBubbleProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const isEdited = message.originalContent !== undefined;
+
+  const save = (rerun: boolean) => {
+    if (draft !== null && draft.trim()) {
+      onEdit?.(message.id, draft.trim(), { rerun });
+    }
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <div className="flex justify-end">
+        <div className="w-[80%] rounded-lg p-2 bg-blue-500 text-white">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                setDraft(null);
+              } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                save(canRerun);
+              }
+            }}
+            autoFocus
+            rows={Math.min(6, Math.max(2, draft.split('\n').length))}
+            className="w-full p-2 rounded text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-800"
+            aria-label="Edit message"
+          />
+          <div className="flex justify-end gap-2 mt-1 text-xs">
+            <button onClick={() => setDraft(null)} className="px-2 py-0.5 rounded border border-blue-200">
+              Cancel
+            </button>
+            <button onClick={() => save(false)} className="px-2 py-0.5 rounded border border-blue-200">
+              Save
+            </button>
+            {canRerun && (
+              <button onClick={() => save(true)} className="px-2 py-0.5 rounded bg-white text-blue-600" title="Ctrl+Enter">
+                Save &amp; re-run
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group flex justify-end">
+      <div className={`max-w-[80%] rounded-lg p-3 bg-blue-500 text-white ${isPlaying ? 'ring-4 ring-green-400' : isHighlighted ? 'ring-4 ring-yellow-400' : ''}`}>
+        <p className="whitespace-pre-wrap break-words">{message.content}</p>
+        <div className="flex items-center gap-2 text-xs mt-1 text-blue-200">
+          {onPlaySegment && (
+            <button
+              onClick={onPlaySegment}
+              aria-label="Play recorded audio"
+              title="Play recorded audio"
+            >
+              <FaPlay className={`w-3 h-3 ${isPlaying ? 'animate-pulse' : ''}`} />
+            </button>
+          )}
+          {formatTime(message.timestamp)}
+          {message.source === 'text' && (
+            <FaKeyboard className="w-3 h-3" aria-label="Typed" title="Typed" />
+          )}
+          {isEdited && (
+            <span title={`Originally: ${message.originalContent}`}>edited</span>
+          )}
+          {onEdit && canEdit && (
+            <button
+              onClick={() => setDraft(message.content)}
+              className="ml-auto opacity-0 group-hover:opacity-100 focus:opacity-100"
+              aria-label="Edit message"
+              title="Edit message"
+            >
+              <FaPen className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface AssistantBubbleProps {
+  message: AssistantMessage;
+  isHighlighted: boolean;
+  isSpeaking: boolean;
+  onRetry?: (messageId: string) => void;
+}
+
+function AssistantBubble({ message, isHighlighted, isSpeaking, onRetry }: AssistantBubbleProps) {
+  const failed = message.status === 'error';
+  return (
+    <div className="flex justify-start">
+      <div
+        className={`max-w-[80%] rounded-lg p-3 bg-gray-200 dark:bg-gray-700 dark:text-gray-100 ${
+          failed ? 'border border-red-400' : ''
+        } ${isHighlighted ? 'ring-4 ring-yellow-400' : ''}`}
+        aria-busy={message.status === 'pending' || message.status === 'streaming'}
+      >
+        {message.status === 'pending' && (
+          <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+            <span className="mr-2">Thinking</span>
+            <TypingDots />
+          </div>
+        )}
+        {message.content && (
+          <MarkdownText text={message.content} />
+        )}
+        {message.status === 'streaming' && (
+          <span className="inline-block w-2 h-4 align-text-bottom bg-gray-500 animate-pulse" aria-hidden="true" />
+        )}
+        {failed && (
+          <div className="flex items-center gap-2 mt-1 text-sm text-red-600 dark:text-red-400">
+            <FaExclamationTriangle className="w-3 h-3 shrink-0" />
+            <span className="break-words">{message.error ?? 'The reply failed'}</span>
+            {onRetry && (
+              <button
+                onClick={() => onRetry(message.id)}
+                className="ml-auto flex items-center gap-1 px-2 py-0.5 text-xs rounded border border-red-400"
+              >
+                <FaRedo className="w-3 h-3" />
+                Retry
+              </button>
+            )}
+          </div>
+        )}
+        <div className="flex items-center gap-2 text-xs mt-1 text-gray-500 dark:text-gray-400">
+          {formatTime(message.timestamp)}
+          {isSpeaking && (
+            <span className="flex items-center gap-1" aria-live="polite">
+              <FaVolumeUp className="w-3 h-3 animate-pulse" />
+              Speaking
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const CALL_STATUS_LABELS: Record<FunctionCallMessage['status'], string> = {
+  pending: 'Running',
+  done: 'Done',
+  error: 'Failed',
+};
+
+/**
+ * A function call with its result, collapsed to one line until opened
+ */
+function FunctionCallCard({ call, result }: { call: FunctionCallMessage; result?: FunctionResultMessage }) {
+  const hasArguments = Object.keys(call.arguments).length > 0;
+  return (
+    <div className="flex justify-center">
+      <details className="w-full max-w-[80%] rounded border border-gray-300 dark:border-gray-600 text-xs text-gray-600 dark:text-gray-300">
+        <summary className="flex items-center gap-2 px-3 py-1 cursor-pointer select-none">
+          <FaCog className={`w-3 h-3 ${call.status === 'pending' ? 'animate-spin' : ''}`} />
+          <span className="font-mono font-semibold">{call.name}</span>
+          <span className={`ml-auto ${call.status === 'error' ? 'text-red-600 dark:text-red-400' : ''}`}>
+            {CALL_STATUS_LABELS[call.status]}
+          </span>
+        </summary>
+        <div className="px-3 pb-2 space-y-1">
+          <div>
+            <div className="font-semibold">Arguments</div>
+            <pre className="font-mono whitespace-pre-wrap break-words">
+              {hasArguments ? JSON.stringify(call.arguments, null, 2) : 'none'}
+            </pre>
+          </div>
+          {result && (
+            <div>
+              <div className="font-semibold">{result.ok ? 'Result' : 'Error'}</div>
+              <pre className={`font-mono whitespace-pre-wrap break-words ${result.ok ? '' : 'text-red-600 dark:text-red-400'}`}>
+                {result.content}
+              </pre>
+            </div>
+          )}
+        </div>
+      </details>
+    </div>
+  );
+}
+
+/**
+ * A result whose call was not recorded, as in sessions saved before calls were
+ */
+function FunctionResultLine({ result }: { result: FunctionResultMessage }) {
+  return (
+    <div className="flex justify-center">
+      <div className="max-w-[80%] rounded border border-gray-300 dark:border-gray-600 px-3 py-1 text-xs text-gray-600 dark:text-gray-300">
+        <span className="font-mono font-semibold">{result.name}</span>
+        <span className="mx-1">→</span>
+        <span className={`font-mono break-words ${result.ok ? '' : 'text-red-600 dark:text-red-400'}`}>{result.content}</span>
+      </div>
+    </div>
+  );
+}
+
 export default function ChatComponent({
   messages,
-  currentUserMessage,
+  pendingUtterances = [],
+  highlight = null,
+  speakingMessageId = null,
+  onRetry,
+  onEdit,
+  canRerunEdits = true,
+  lockedMessageIds,
+  playableMessageIds,
+  playingMessageId = null,
+  onPlaySegment,
+  focusMessageId,
   className = '',
 }: ChatComponentProps) {
-  console.log('[ChatComponent] Rendering with', messages.length, 'messages, currentUserMessage length:', currentUserMessage?.length || 0);
-  
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const pendingFocusRef = useRef(focusMessageId ?? null);
+  const [outlinedMessageId, setOutlinedMessageId] = useState(focusMessageId ?? null);
 
-  // Scroll to bottom when messages change
+  // Scroll to bottom when messages change, or to the focused message the first time
   useEffect(() => {
-    console.log('[ChatComponent:useEffect] Scrolling to bottom, messages:', messages.length, 'currentUserMessage length:', currentUserMessage?.length || 0);
+    const focusId = pendingFocusRef.current;
+    if (focusId) {
+      pendingFocusRef.current = null;
+      const element = listRef.current?.querySelector(`[data-message-id="${CSS.escape(focusId)}"]`);
+      if (element) {
+        log.debug('Scrolling to focused message:', focusId);
+        element.scrollIntoView({ block: 'center' });
+        return;
+      }
+      log.warn('Focused message not found:', focusId);
+    }
+    log.debug('Scrolling to bottom, messages:', messages.length, 'pending utterances:', pendingUtterances.length);
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, currentUserMessage]);
+  }, [messages, pendingUtterances]);
+
+  useEffect(() => {
+    if (!outlinedMessageId) {
+      return;
+    }
+    const timer = setTimeout(() => setOutlinedMessageId(null), FOCUS_OUTLINE_MS);
+    return () => clearTimeout(timer);
+  }, [outlinedMessageId]);
+
+  // Keep the message being played back in view
+  useEffect(() => {
+    if (playingMessageId) {
+      listRef.current
+        ?.querySelector(`[data-message-id="${CSS.escape(playingMessageId)}"]`)
+        ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [playingMessageId]);
+
+  // Results are shown inside the card of the call they answer
+  const { resultsByCallId, callIds } = useMemo(() => {
+    const results = new Map<string, FunctionResultMessage>();
+    const calls = new Set<string>();
+    for (const message of messages) {
+      if (message.kind === 'function-result' && message.callId) {
+        results.set(message.callId, message);
+      } else if (message.kind === 'function-call') {
+        calls.add(message.callId);
+      }
+    }
+    return { resultsByCallId: results, callIds: calls };
+  }, [messages]);
+
+  const isReplying = messages.some((message) => message.kind === 'assistant' && (message.status === 'pending' || message.status === 'streaming'));
+  const isHighlighted = (content: string) => !!highlight && content.toLowerCase().includes(highlight.toLowerCase());
+
+  const renderMessage = (message: ChatMessage) => {
+    switch (message.kind) {
+      case 'user':
+        return (
+          <UserBubble
+            message={message}
+            isHighlighted={isHighlighted(message.content)}
+            canEdit={!isReplying && !lockedMessageIds?.has(message.id)}
+            canRerun={canRerunEdits}
+            onEdit={onEdit}
+            onPlaySegment={onPlaySegment && playableMessageIds?.has(message.id) ? () => onPlaySegment(message.id) : undefined}
+            isPlaying={message.id === playingMessageId}
+          />
+        );
+      case 'assistant':
+        return (
+          <AssistantBubble
+            message={message}
+            isHighlighted={isHighlighted(message.content)}
+            isSpeaking={message.id === speakingMessageId}
+            onRetry={onRetry}
+          />
+        );
+      case 'function-call':
+        return <FunctionCallCard call={message} result={resultsByCallId.get(message.callId)} />;
+      case 'function-result':
+        return message.callId && callIds.has(message.callId)
+          ? null
+          : <FunctionResultLine result={message} />;
+      case 'notice':
+        return (
+          <p className="text-center text-xs italic text-gray-500 dark:text-gray-400">
+            {message.content}
+          </p>
+        );
+      case 'error':
+        return (
+          <p role="alert" className="flex items-center justify-center gap-1 text-xs text-red-600 dark:text-red-400">
+            <FaExclamationTriangle className="w-3 h-3" />
+            {message.content}
+          </p>
+        );
+    }
+  };
 
   return (
     <div className={`flex flex-col h-full overflow-hidden ${className}`}>
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.map((message) => {
-          console.log('[ChatComponent] Rendering message:', message.id, 'from:', message.sender);
-          return (
+          const content = renderMessage(message);
+          return content && (
             <div
               key={message.id}
-              className={`flex ${
-                message.sender === 'user' ? 'justify-end' : 'justify-start'
-              }`}
+              data-message-id={message.id}
+              className={message.id === outlinedMessageId ? 'rounded-lg ring-2 ring-yellow-400 ring-offset-2 dark:ring-offset-gray-900' : undefined}
             >
-              <div
-                className={`max-w-[80%] rounded-lg p-3 ${
-                  message.sender === 'user'
-                    ? 'bg-blue-500 text-white'
-                    : 'bg-gray-200 dark:bg-gray-700 dark:text-gray-100'
-                }`}
-              >
-                <p className="whitespace-pre-wrap break-words">{message.content}</p>
-                <div
-                  className={`text-xs mt-1 ${
-                    message.sender === 'user'
-                      ? 'text-blue-200'
-                      : 'text-gray-500 dark:text-gray-400'
-                  }`}
-                >
-                  {message.timestamp.toLocaleTimeString([], {
-                    hour: '2-digit',
-                    minute: '2-digit',
-                  })}
-                </div>
-              </div>
+              {content}
             </div>
           );
         })}
         
-        {/* Current user message being transcribed */}
-        {currentUserMessage && (
-          <div className="flex justify-end">
+        {/* Utterances still being spoken or transcribed */}
+        {pendingUtterances.map((utterance) => (
+          <div key={utterance.id} className="flex justify-end">
             <div className="max-w-[80%] rounded-lg p-3 bg-blue-500 text-white">
-              <p className="whitespace-pre-wrap break-words">{currentUserMessage}</p>
+              {utterance.text && <p className="whitespace-pre-wrap break-words">{utterance.text}</p>}
               <div className="flex items-center mt-1 text-blue-200 text-xs">
-                <span className="mr-2">Transcribing</span>
-                <span className="flex">
-                  <span className="animate-pulse">.</span>
-                  <span className="animate-pulse delay-150">.</span>
-                  <span className="animate-pulse delay-300">.</span>
-                </span>
+                <span className="mr-2">{utterance.status === 'speaking' ? 'Listening' : 'Transcribing'}</span>
+                <TypingDots />
               </div>
             </div>
           </div>
-        )}
+        ))}
         
         <div ref={messagesEndRef} />
       </div>
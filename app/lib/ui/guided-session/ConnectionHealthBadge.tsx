@@ -0,0 +1,26 @@
+'use client';
+
+import type { ConnectionHealth, HealthVerdict } from '@/app/lib/transcription';
+
+const VERDICT_CLASSES: Record<HealthVerdict, string> = {
+  good: 'bg-green-500',
+  degraded: 'bg-amber-500',
+  poor: 'bg-red-500',
+  unknown: 'bg-gray-400',
+};
+
+interface ConnectionHealthBadgeProps {
+  health: ConnectionHealth;
+  className?: string;
+}
+
+export default function ConnectionHealthBadge({ health, className = '' }: ConnectionHealthBadgeProps) {
+  const description = health.reasons.length > 0 ? health.reasons.join(', ') : `Connection ${health.verdict}`;
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs ${className}`} title={description}>
+      <span className={`w-2 h-2 rounded-full ${VERDICT_CLASSES[health.verdict]}`} aria-hidden />
+      Connection {health.verdict}
+    </span>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useMemo, useState, useSyncExternalStore } from 'react';
+import { logBuffer, LOG_LEVEL_RANK, LOG_LEVELS, type LogEntry, type LogLevel } from '@/app/lib/logging';
+import { downloadTextFile } from '@/app/lib/ui/download';
+
+const LEVEL_CLASSES: Record<LogEntry['level'], string> = {
+  debug: 'text-gray-500 dark:text-gray-400',
+  info: 'text-blue-600 dark:text-blue-400',
+  warn: 'text-amber-600 dark:text-amber-400',
+  error: 'text-red-600 dark:text-red-400',
+};
+
+const subscribe = (listener: () => void) => logBuffer.subscribe(listener);
+const getSnapshot = () => logBuffer.getEntries();
+const NO_ENTRIES: LogEntry[] = [];
+const getServerSnapshot = () => NO_ENTRIES;
+
+/**
+ * Recent client-side log entries, already redacted, newest first
+ */
+export default function DebugLogPanel() {
+  const entries = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  const [minLevel, setMinLevel] = useState<LogLevel>('info');
+  const [filter, setFilter] = useState('');
+
+  const visibleEntries = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return entries
+      .filter((entry) => LOG_LEVEL_RANK[entry.level] >= LOG_LEVEL_RANK[minLevel])
+      .filter((entry) => !query || entry.namespace.toLowerCase().includes(query) || entry.message.toLowerCase().includes(query))
+      .reverse();
+  }, [entries, minLevel, filter]);
+
+  const handleDownload = () => {
+    const content = entries
+      .map((entry) => `${entry.timestamp} ${entry.level.toUpperCase().padEnd(5)} [${entry.namespace}] ${entry.message}`)
+      .join('\n');
+    downloadTextFile(`guided-session-${new Date().toISOString().replace(/[:.]/g, '-')}.log`, 'text/plain; charset=utf-8', content);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={minLevel}
+          onChange={(e) => setMinLevel(e.target.value as LogLevel)}
+          className="px-1 py-1 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+          aria-label="Minimum level"
+        >
+          {LOG_LEVELS.filter((level) => level !== 'silent').map((level) => <option key={level} value={level}>{level}</option>)}
+        </select>
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter"
+          className="flex-1 min-w-0 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+          aria-label="Filter log entries"
+        />
+        <button
+          onClick={handleDownload}
+          disabled={entries.length === 0}
+          className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 disabled:opacity-40"
+        >
+          Download
+        </button>
+        <button
+          onClick={() => logBuffer.clear()}
+          disabled={entries.length === 0}
+          className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 disabled:opacity-40"
+        >
+          Clear
+        </button>
+      </div>
+      {visibleEntries.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No log entries.</p>
+      ) : (
+        <ol className="space-y-1 font-mono text-xs">
+          {visibleEntries.map((entry) => (
+            <li key={entry.id} className="break-words">
+              <span className="text-gray-500 dark:text-gray-400">{entry.timestamp.slice(11, 23)}</span>{' '}
+              <span className={LEVEL_CLASSES[entry.level]}>{entry.level}</span>{' '}
+              <span className="font-semibold">{entry.namespace}</span> {entry.message}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
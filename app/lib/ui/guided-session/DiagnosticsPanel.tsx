@@ -0,0 +1,69 @@
+'use client';
+
+import ConnectionHealthBadge from './ConnectionHealthBadge';
+import type { ConnectionDiagnostics } from './useConnectionDiagnostics';
+
+const CANDIDATE_DESCRIPTIONS: Record<string, string> = {
+  host: 'host (direct)',
+  srflx: 'srflx (through NAT)',
+  prflx: 'prflx (through NAT)',
+  relay: 'relay (through TURN)',
+};
+
+function formatMs(value: number | null): string {
+  return value === null ? '–' : `${value} ms`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Connection statistics sampled from the peer connection, with transcription latency
+ */
+export default function DiagnosticsPanel({ sample, latency, health }: ConnectionDiagnostics) {
+  const rows: [string, string][] = sample
+    ? [
+        ['Candidate pair', sample.candidateType ? CANDIDATE_DESCRIPTIONS[sample.candidateType] ?? sample.candidateType : '–'],
+        ['Protocol', sample.protocol ?? '–'],
+        ['Round trip', formatMs(sample.roundTripTimeMs)],
+        ['Jitter', formatMs(sample.jitterMs)],
+        ['Packet loss', sample.packetLoss === null ? '–' : `${(sample.packetLoss * 100).toFixed(1)}% (${sample.packetsLost} lost)`],
+        ['Bytes sent', formatBytes(sample.bytesSent)],
+        ['Data channel messages', `${sample.dataChannelMessagesSent} sent, ${sample.dataChannelMessagesReceived} received`],
+      ]
+    : [];
+
+  return (
+    <div className="flex flex-col gap-3">
+      <ConnectionHealthBadge health={health} />
+      {health.reasons.length > 0 && (
+        <ul className="list-disc pl-5 text-xs text-gray-600 dark:text-gray-300">
+          {health.reasons.map((reason) => <li key={reason}>{reason}</li>)}
+        </ul>
+      )}
+      {sample ? (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+              <dd>{value}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-gray-500 dark:text-gray-400">No connection statistics; they are sampled while a WebRTC session is connected.</p>
+      )}
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+        <dt className="text-gray-500 dark:text-gray-400">Transcription latency</dt>
+        <dd>
+          {latency.samples === 0
+            ? '–'
+            : `${formatMs(latency.lastMs)} last, ${formatMs(latency.averageMs)} average over ${latency.samples}`}
+        </dd>
+      </dl>
+    </div>
+  );
+}
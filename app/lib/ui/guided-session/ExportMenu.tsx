@@ -0,0 +1,68 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { FaDownload } from 'react-icons/fa';
+import { EXPORT_FORMATS, exportMessages, getExportFormatLabel, type ExportFormat } from '@/app/lib/export';
+import type { StoredMessage } from '@/app/lib/sessions/types';
+import { downloadTextFile } from '@/app/lib/ui/download';
+
+interface ExportMenuProps {
+  sessionId: string;
+  title?: string;
+  /** Read when a format is picked, so the menu doesn't re-render on every message */
+  getMessages: () => StoredMessage[];
+}
+
+/**
+ * Download menu for the current session's transcript
+ */
+export default function ExportMenu({ sessionId, title, getMessages }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const download = (format: ExportFormat) => {
+    const file = exportMessages(getMessages(), format, { sessionId, title });
+    downloadTextFile(file.filename, file.mimeType, file.content);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center gap-1 px-2 py-1 rounded border border-gray-300 dark:border-gray-600"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <FaDownload className="w-3 h-3" />
+        Export
+      </button>
+      {isOpen && (
+        <ul role="menu" className="absolute right-0 z-10 mt-1 w-40 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 shadow">
+          {EXPORT_FORMATS.map((format) => (
+            <li key={format} role="none">
+              <button
+                role="menuitem"
+                onClick={() => download(format)}
+                className="w-full px-3 py-1 text-left hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                {getExportFormatLabel(format)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,123 +1,831 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
+import { usePathname } from 'next/navigation';
+import { saveSessionMessages } from '@/app/lib/actions/sessions/session-actions';
+import type { ModifierContext } from '@/app/lib/functions';
+import type { FunctionCall } from '@/app/lib/llm';
+import {
+  fromStoredMessage,
+  isSettledMessage,
+  toConversationTurns,
+  toStoredMessage,
+  type AssistantMessage,
+  type ChatMessage,
+  type FunctionCallMessage,
+  type UserMessage,
+} from '@/app/lib/messages';
+import { getScriptReply, type GuidedScript, type ScriptRunState } from '@/app/lib/scripts';
+import type { StoredMessage } from '@/app/lib/sessions';
+import type { RecordingInfo, RecordingSegment } from '@/app/lib/recordings/types';
+import { redactForRetention, redactStoredMessage, redactText, type RedactionPolicy } from '@/app/lib/redaction';
+import type { StoredSummary } from '@/app/lib/summaries';
+import type { TranscriptionMode, TranscriptUtterance, TransportKind } from '@/app/lib/transcription';
+import type { TranscriptionConfigInput, TranscriptionPresetName } from '@/app/lib/transcription/config';
+import { useFunctionDispatcher } from './useFunctionDispatcher';
+import { useSpeechPlayback } from './useSpeechPlayback';
 import { useTranscription } from './useTranscription';
+import { useAudioInputDevices } from './useAudioInputDevices';
+import { useConnectionDiagnostics } from './useConnectionDiagnostics';
+import { useScriptRunner } from './useScriptRunner';
+import { useSessionSummary } from './useSessionSummary';
+import { useSessionRecorder } from './useSessionRecorder';
+import { useRecordingPlayback } from './useRecordingPlayback';
+import { useRedactionPolicy } from './useRedactionPolicy';
+import { streamDecision } from './decision-stream';
+import { UIStateProvider, useUIState } from './UIStateContext';
+import type { FontSize, LayoutMode, SidePanel as SidePanelId, Theme } from '@/app/lib/ui-state';
 import ChatComponent from './ChatComponent';
 import MicrophoneButton from './MicrophoneButton';
+import MicrophonePicker from './MicrophonePicker';
+import InputLevelMeter from './InputLevelMeter';
+import SessionToolbar from './SessionToolbar';
+import ScriptProgress from './ScriptProgress';
+import SummaryPanel from './SummaryPanel';
+import RecordingPlayer from './RecordingPlayer';
+import RedactionPanel from './RedactionPanel';
+import ExportMenu from './ExportMenu';
+import UsageReadout from './UsageReadout';
+import SidePanel from './SidePanel';
+import SpeechControls from './SpeechControls';
+import TextComposer from './TextComposer';
+import UIActivityPanel from './UIActivityPanel';
+import DebugLogPanel from './DebugLogPanel';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import ConnectionHealthBadge from './ConnectionHealthBadge';
+import { createLogger } from '@/app/lib/logging';
 
-interface Message {
-  id: string;
-  content: string;
-  sender: 'user' | 'ai';
-  timestamp: Date;
-}
+const log = createLogger('GuidedSession');
 
 export interface GuidedSessionProps {
-  sessionId?: string;
+  sessionId: string;
+  /** Used to name exported transcripts */
+  title?: string;
+  /** Messages of a stored session to resume */
+  initialMessages?: StoredMessage[];
+  /** Read AI replies aloud as they arrive */
+  speakReplies?: boolean;
+  /** Transcription transport; defaults to NEXT_PUBLIC_TRANSCRIPTION_TRANSPORT, then WebRTC */
+  transport?: TransportKind;
+  /** Named transcription settings, e.g. 'far-field-conference' */
+  transcriptionPreset?: TranscriptionPresetName;
+  /** Transcription settings that override the defaults and the preset */
+  transcriptionConfig?: TranscriptionConfigInput;
+  /** Initial transcription mode; the user can switch between sessions */
+  transcriptionMode?: TranscriptionMode;
+  /** A guided script to walk the user through; answers go to the script instead of the LLM until it completes */
+  script?: GuidedScript;
+  /** The stored progress of `script`, to resume where the user left off */
+  initialScriptRun?: ScriptRunState;
+  /** A stored message to scroll to when the session opens, e.g. a search hit */
+  focusMessageId?: string;
+  /** The end-of-session summary saved with a stored session */
+  initialSummary?: StoredSummary;
+  /** Record the microphone while transcribing, so utterances can be played back; the user can switch it */
+  recordAudio?: boolean;
+  /** Recordings saved with a stored session */
+  initialRecordings?: RecordingInfo[];
+  /** Where PII found in the session's transcripts is masked; defaults to DEFAULT_REDACTION_POLICY */
+  initialRedactionPolicy?: RedactionPolicy;
   className?: string;
 }
 
-export default function GuidedSession({ 
-  sessionId = 'default-session', 
+const SAVE_DEBOUNCE_MS = 500;
+
+const FONT_SIZE_CLASSES: Record<FontSize, string> = {
+  small: 'text-sm',
+  medium: 'text-base',
+  large: 'text-lg',
+};
+
+const THEME_CLASSES: Record<Theme, string> = {
+  system: '',
+  light: 'light',
+  dark: 'dark',
+};
+
+const PANEL_WIDTH_CLASSES: Record<LayoutMode, string> = {
+  standard: 'w-72',
+  split: 'flex-1',
+  focus: '',
+};
+
+const PANEL_TITLES: Record<SidePanelId, string> = {
+  transcript: 'Transcript',
+  activity: 'UI activity',
+  diagnostics: 'Connection diagnostics',
+  logs: 'Debug log',
+  privacy: 'Privacy',
+};
+
+/**
+ * Each guided session gets its own UI state, which modifier functions change through the context
+ */
+export default function GuidedSession(props: GuidedSessionProps) {
+  return (
+    <UIStateProvider>
+      <GuidedSessionContent {...props} />
+    </UIStateProvider>
+  );
+}
+
+function GuidedSessionContent({ 
+  sessionId, 
+  title,
+  initialMessages,
+  speakReplies = true,
+  transport,
+  transcriptionPreset,
+  transcriptionConfig,
+  transcriptionMode = 'continuous',
+  script,
+  initialScriptRun,
+  focusMessageId,
+  initialSummary,
+  recordAudio: initialRecordAudio = false,
+  initialRecordings,
+  initialRedactionPolicy,
   className = '' 
 }: GuidedSessionProps) {
-  console.log('[GuidedSession] Initializing with sessionId:', sessionId);
-  
-  const [messages, setMessages] = useState<Message[]>([]);
+  const { state: uiState, actions: uiActions, functionActions } = useUIState();
+  const [messages, setMessages] = useState<ChatMessage[]>(() => (initialMessages ?? []).map(fromStoredMessage));
+  const [saveError, setSaveError] = useState<Error | null>(null);
+  // Mirrors `messages` synchronously so the LLM sees a message as soon as it is added
+  const messagesRef = useRef<ChatMessage[]>(messages);
+  const lastSavedMessagesRef = useRef<ChatMessage[]>(messages);
+  const redaction = useRedactionPolicy(sessionId, initialRedactionPolicy);
+  const { policy: redactionPolicy, policyRef: redactionPolicyRef } = redaction;
   
   useEffect(() => {
-    console.log('[GuidedSession] Messages updated:', messages.length);
+    log.debug('Messages updated:', messages.length);
   }, [messages]);
-  
-  const handleTranscriptionUpdate = useCallback((text: string, isFinal: boolean) => {
-    console.log('[GuidedSession:handleTranscriptionUpdate] Text received, isFinal:', isFinal, 'text length:', text.length);
-    
-    if (isFinal && text.trim()) {
-      console.log('[GuidedSession:handleTranscriptionUpdate] Adding final message');
-      // Add the final transcription as a user message
-      setMessages((prevMessages) => {
-        const newMessage: Message = {
-          id: uuidv4(),
-          content: text.trim(),
-          sender: 'user',
-          timestamp: new Date(),
-        };
-        console.log('[GuidedSession:handleTranscriptionUpdate] New message:', newMessage);
-        return [...prevMessages, newMessage];
-      });
+
+  // Persist the conversation shortly after it changes
+  useEffect(() => {
+    if (messages === lastSavedMessagesRef.current) {
+      return;
     }
+    const timeoutId = setTimeout(() => {
+      log.debug('Saving', messages.length, 'messages to session:', sessionId);
+      lastSavedMessagesRef.current = messages;
+      saveSessionMessages(sessionId, messages.filter(isSettledMessage).map(toStoredMessage))
+        .then(() => setSaveError(null))
+        .catch((err) => {
+          log.error('Could not save session:', err);
+          setSaveError(err instanceof Error ? err : new Error(String(err)));
+        });
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [messages, sessionId]);
+
+  /**
+   * Adds a message at the end, or in front of another one when a reply is re-run mid-conversation
+   */
+  const appendMessage = useCallback((message: ChatMessage, beforeId?: string) => {
+    const index = beforeId ? messagesRef.current.findIndex((existing) => existing.id === beforeId) : -1;
+    messagesRef.current = index === -1
+      ? [...messagesRef.current, message]
+      : [...messagesRef.current.slice(0, index), message, ...messagesRef.current.slice(index)];
+    setMessages(messagesRef.current);
+  }, []);
+
+  /**
+   * Replaces one message in place, e.g. as an AI reply streams in; the update sees the latest version
+   */
+  const updateMessage = useCallback(<T extends ChatMessage>(id: string, update: (message: T) => T) => {
+    messagesRef.current = messagesRef.current.map((message) => (message.id === id ? update(message as T) : message));
+    setMessages(messagesRef.current);
   }, []);
 
+  const removeMessage = useCallback((id: string) => {
+    messagesRef.current = messagesRef.current.filter((message) => message.id !== id);
+    setMessages(messagesRef.current);
+  }, []);
+
+  const modifierContext = useMemo<ModifierContext>(() => ({
+    clearMessages: () => {
+      log.debug('Clearing messages');
+      messagesRef.current = [];
+      setMessages([]);
+    },
+    ui: functionActions,
+  }), [functionActions]);
+
+  const { dispatch } = useFunctionDispatcher({ modifierContext });
+  const speech = useSpeechPlayback(sessionId);
+  const { enqueue: enqueueSpeech, stop: stopSpeech } = speech;
+
+  /**
+   * Shows each call as a card that settles when its result arrives, then reports the results into the conversation
+   */
+  const runFunctionCalls = useCallback(async (calls: FunctionCall[], beforeId?: string) => {
+    const callMessages: FunctionCallMessage[] = calls.map((call) => ({
+      kind: 'function-call',
+      id: uuidv4(),
+      callId: call.id,
+      name: call.name,
+      arguments: call.arguments,
+      status: 'pending',
+      timestamp: new Date(),
+    }));
+    callMessages.forEach((message) => appendMessage(message, beforeId));
+
+    const results = await dispatch(calls);
+    results.forEach((result, index) => {
+      log.debug('Function result:', result.name, 'ok:', result.ok);
+      updateMessage<FunctionCallMessage>(callMessages[index].id, (message) => ({
+        ...message,
+        status: result.ok ? 'done' : 'error',
+      }));
+      appendMessage({
+        kind: 'function-result',
+        id: uuidv4(),
+        callId: result.callId,
+        name: result.name,
+        content: result.ok
+          ? typeof result.result === 'string' ? result.result : JSON.stringify(result.result)
+          : `Error: ${result.error}`,
+        ok: result.ok,
+        timestamp: new Date(),
+      }, beforeId);
+    });
+  }, [appendMessage, updateMessage, dispatch]);
+
+  /**
+   * Streams the LLM's decision into an AI message, which starts out pending. Retrying a failed
+   * reply streams into the same message, from the conversation as it was before it; re-running
+   * an edited message places the new reply and calls in front of `beforeId`.
+   */
+  const requestAIResponse = useCallback(async (
+    history: ChatMessage[],
+    { retryMessageId, beforeId }: { retryMessageId?: string; beforeId?: string } = {}
+  ) => {
+    log.debug('Requesting LLM decision for', history.length, 'messages');
+    const turns = toConversationTurns(history);
+
+    const replyId = retryMessageId ?? uuidv4();
+    if (retryMessageId) {
+      updateMessage<AssistantMessage>(replyId, (message) => ({
+        ...message,
+        content: '',
+        status: 'pending',
+        error: undefined,
+        timestamp: new Date(),
+      }));
+    } else {
+      appendMessage({ kind: 'assistant', id: replyId, content: '', status: 'pending', timestamp: new Date() }, beforeId);
+    }
+
+    try {
+      const decision = await streamDecision(turns, sessionId, (delta) => {
+        updateMessage<AssistantMessage>(replyId, (message) => ({
+          ...message,
+          content: message.content + delta,
+          status: 'streaming',
+        }));
+      });
+
+      if (decision.reply) {
+        log.debug('AI reply complete');
+        updateMessage<AssistantMessage>(replyId, (message) => ({ ...message, content: decision.reply!, status: 'done' }));
+        if (speakReplies) {
+          enqueueSpeech(replyId, decision.reply);
+        }
+      } else {
+        removeMessage(replyId);
+      }
+      // The reply and the function calls are independent paths; both run when present
+      if (decision.functionCalls.length > 0) {
+        log.debug('Dispatching', decision.functionCalls.length, 'function calls');
+        // Calls follow their reply, which a retry leaves where it was
+        const callsBeforeId = retryMessageId
+          ? messagesRef.current[messagesRef.current.findIndex((message) => message.id === replyId) + 1]?.id
+          : beforeId;
+        await runFunctionCalls(decision.functionCalls, callsBeforeId);
+      }
+    } catch (err) {
+      log.error('LLM decision failed:', err);
+      updateMessage<AssistantMessage>(replyId, (message) => ({
+        ...message,
+        status: 'error',
+        error: err instanceof Error ? err.message : String(err),
+      }));
+    }
+  }, [sessionId, appendMessage, updateMessage, removeMessage, runFunctionCalls, speakReplies, enqueueSpeech]);
+
+  const handleRetry = useCallback((messageId: string) => {
+    const index = messagesRef.current.findIndex((message) => message.id === messageId);
+    if (index === -1) {
+      return;
+    }
+    requestAIResponse(messagesRef.current.slice(0, index), { retryMessageId: messageId });
+  }, [requestAIResponse]);
+  
+  const scriptRunner = useScriptRunner({ sessionId, script, initialState: initialScriptRun });
+  const { answer: answerScriptStep, restart: restartScriptRun } = scriptRunner;
+
+  /**
+   * Script prompts are added to the chat and read aloud like AI replies
+   */
+  const sayScriptLine = useCallback((content: string) => {
+    const scriptMessage: AssistantMessage = { kind: 'assistant', id: uuidv4(), content, status: 'done', timestamp: new Date() };
+    appendMessage(scriptMessage);
+    if (speakReplies) {
+      enqueueSpeech(scriptMessage.id, content);
+    }
+  }, [appendMessage, speakReplies, enqueueSpeech]);
+
+  // A fresh run starts by asking its first question; a resumed one already has it in the chat
+  const scriptAnnouncedRef = useRef(false);
+  useEffect(() => {
+    if (scriptAnnouncedRef.current || !scriptRunner.isNewRun || !scriptRunner.progress?.currentStep) {
+      return;
+    }
+    scriptAnnouncedRef.current = true;
+    sayScriptLine(scriptRunner.progress.currentStep.prompt);
+  }, [scriptRunner.isNewRun, scriptRunner.progress, sayScriptLine]);
+
+  const handleScriptRestart = useCallback(() => {
+    const state = restartScriptRun();
+    const firstStep = script?.steps.find((step) => step.id === state?.currentStepId);
+    if (script && firstStep) {
+      appendMessage({ kind: 'notice', id: uuidv4(), content: `Restarted ${script.title}`, timestamp: new Date() });
+      sayScriptLine(firstStep.prompt);
+    }
+  }, [script, restartScriptRun, appendMessage, sayScriptLine]);
+
+  /**
+   * Final transcripts and typed messages both go through here: into the chat, then to the
+   * running script's current step, or to the LLM when no script is running
+   */
+  const submitUserMessage = useCallback((message: UserMessage) => {
+    log.debug('New message:', message.id, 'source:', message.source);
+    appendMessage(message);
+
+    const scriptUpdate = answerScriptStep(message.content);
+    if (scriptUpdate && script) {
+      const reply = getScriptReply(script, scriptUpdate);
+      if (reply) {
+        sayScriptLine(reply);
+      }
+      return;
+    }
+    requestAIResponse(messagesRef.current);
+  }, [script, appendMessage, answerScriptStep, sayScriptLine, requestAIResponse]);
+
+  /**
+   * Corrects a user message, keeping what was first transcribed. With rerun, what the message led to,
+   * up to the next user message, is dropped and asked for again from the corrected conversation.
+   */
+  const handleEdit = useCallback((messageId: string, content: string, { rerun }: { rerun: boolean }) => {
+    const index = messagesRef.current.findIndex((message) => message.id === messageId);
+    const edited = messagesRef.current[index];
+    content = redactForRetention(content, redactionPolicyRef.current);
+    if (edited?.kind !== 'user' || content === edited.content) {
+      return;
+    }
+    // The editor only ever showed the masked text, so saving it would replace what was said with masks
+    if (redactText(edited.content, redactionPolicyRef.current, 'ui') !== edited.content) {
+      log.warn('Not editing a message with masked text:', messageId);
+      return;
+    }
+
+    log.debug('Editing message:', messageId, 'rerun:', rerun);
+    updateMessage<UserMessage>(messageId, (message) => {
+      const original = message.originalContent ?? message.content;
+      // Editing back to the transcript undoes the correction
+      return content === original
+        ? { ...message, content, originalContent: undefined, editedAt: undefined }
+        : { ...message, content, originalContent: original, editedAt: new Date() };
+    });
+    if (!rerun) {
+      return;
+    }
+
+    stopSpeech();
+    const nextUser = messagesRef.current.slice(index + 1).find((message) => message.kind === 'user');
+    const end = nextUser ? messagesRef.current.indexOf(nextUser) : messagesRef.current.length;
+    const followers = new Set(messagesRef.current.slice(index + 1, end).map((message) => message.id));
+    messagesRef.current = messagesRef.current.filter((message) => !followers.has(message.id));
+    setMessages(messagesRef.current);
+
+    requestAIResponse(messagesRef.current.slice(0, index + 1), { beforeId: nextUser?.id });
+  }, [updateMessage, stopSpeech, requestAIResponse, redactionPolicyRef]);
+
+  // Set once the recorder exists, which needs the stream transcription opens
+  const getRecordingSegmentRef = useRef<(startedAt: Date, endedAt: Date | null) => RecordingSegment | null>(() => null);
+
+  const handleUtteranceFinal = useCallback((utterance: TranscriptUtterance) => {
+    const text = utterance.finalText?.trim();
+    log.debug('Utterance final:', utterance.id, 'text length:', text?.length ?? 0);
+    if (!text) {
+      return;
+    }
+
+    // Add the final transcription as a user message; PII masked everywhere is never kept
+    submitUserMessage({
+      kind: 'user',
+      id: uuidv4(),
+      content: redactForRetention(text, redactionPolicyRef.current),
+      timestamp: new Date(),
+      source: 'voice',
+      utterance: {
+        id: utterance.id,
+        startedAt: utterance.startedAt,
+        endedAt: utterance.endedAt,
+        audioStartMs: utterance.audioStartMs,
+        audioEndMs: utterance.audioEndMs,
+        recording: getRecordingSegmentRef.current(utterance.startedAt, utterance.endedAt) ?? undefined,
+      },
+    });
+  }, [submitUserMessage, redactionPolicyRef]);
+
+  const handleTextSubmit = useCallback((text: string) => {
+    submitUserMessage({
+      kind: 'user',
+      id: uuidv4(),
+      content: redactForRetention(text, redactionPolicyRef.current),
+      timestamp: new Date(),
+      source: 'text',
+    });
+  }, [submitUserMessage, redactionPolicyRef]);
+
+  // What the chat shows, with PII the policy keeps off the screen masked. Messages with masked text are not
+  // editable, since the editor would start from the masked text and saving it would lose what was said.
+  const { visibleMessages, maskedMessageIds } = useMemo(() => {
+    const masked = new Set<string>();
+    const visible = messages.map((message) => {
+      if (message.kind !== 'user' && message.kind !== 'assistant') {
+        return message;
+      }
+      const content = redactText(message.content, redactionPolicy, 'ui');
+      if (message.kind === 'assistant') {
+        return content === message.content ? message : { ...message, content };
+      }
+      const originalContent = message.originalContent === undefined
+        ? undefined
+        : redactText(message.originalContent, redactionPolicy, 'ui');
+      if (content === message.content && originalContent === message.originalContent) {
+        return message;
+      }
+      if (content !== message.content) {
+        masked.add(message.id);
+      }
+      return { ...message, content, originalContent };
+    });
+    return { visibleMessages: visible, maskedMessageIds: masked };
+  }, [messages, redactionPolicy]);
+
+  const sentHistory = useMemo(
+    () => visibleMessages.filter((message) => message.kind === 'user').map((message) => message.content),
+    [visibleMessages]
+  );
+
+  const pathname = usePathname();
+  const [mode, setMode] = useState<TranscriptionMode>(transcriptionMode);
+  const microphones = useAudioInputDevices();
+  const { refresh: refreshMicrophones } = microphones;
+
   const {
     status,
+    utterances,
     transcript,
-    partialTranscript,
     isConnected,
+    reconnectAttempt,
+    inputStream,
+    isTurnActive,
+    beginTurn,
+    endTurn,
+    getConnectionStats,
     startTranscription,
     stopTranscription,
     error,
+    denial,
   } = useTranscription({
-    onTranscriptionUpdate: handleTranscriptionUpdate,
+    onUtteranceFinal: handleUtteranceFinal,
+    // Barge-in: the user talking over a reply stops playback
+    onSpeechStarted: speech.stop,
+    transport,
+    preset: transcriptionPreset,
+    transcriptionConfig,
+    deviceId: microphones.selectedDeviceId,
+    mode,
+    sessionId,
   });
 
+  const diagnostics = useConnectionDiagnostics({ getConnectionStats, utterances, isConnected });
+
+  const [recordAudio, setRecordAudio] = useState(initialRecordAudio);
+  const recorder = useSessionRecorder({ sessionId, stream: inputStream, enabled: recordAudio, initialRecordings });
+  const { getSegment: getRecordingSegment } = recorder;
+  useEffect(() => {
+    getRecordingSegmentRef.current = getRecordingSegment;
+  }, [getRecordingSegment]);
+  const playback = useRecordingPlayback({ sessionId, recordings: recorder.recordings, messages });
+
+  // Device labels only become available once microphone access has been granted
+  useEffect(() => {
+    if (isConnected) {
+      refreshMicrophones();
+    }
+  }, [isConnected, refreshMicrophones]);
+
   // Log transcription state changes
   useEffect(() => {
-    console.log('[GuidedSession] Transcription status:', status);
+    log.debug('Transcription status:', status);
   }, [status]);
 
   useEffect(() => {
-    console.log('[GuidedSession] Transcription error:', error?.message);
+    log.debug('Transcription error:', error?.message);
   }, [error]);
 
+  // A session that ended in failure says so in the chat, where the conversation stopped
+  const lastStatusRef = useRef(status);
   useEffect(() => {
-    console.log('[GuidedSession] Partial transcript updated, length:', partialTranscript.length);
-  }, [partialTranscript]);
+    const previous = lastStatusRef.current;
+    lastStatusRef.current = status;
+    if (status === previous || !error || (status !== 'error' && status !== 'disconnected')) {
+      return;
+    }
+    appendMessage({ kind: 'error', id: uuidv4(), content: `Transcription stopped: ${error.message}`, timestamp: new Date() });
+  }, [status, error, appendMessage]);
+
+  useEffect(() => {
+    log.debug('Utterances updated:', utterances.length);
+  }, [utterances]);
 
   useEffect(() => {
-    console.log('[GuidedSession] Full transcript updated, length:', transcript.length);
+    log.debug('Full transcript updated, length:', transcript.length);
   }, [transcript]);
 
+  // A session that is reconnecting is still live, so the button stops it
+  const isSessionLive = isConnected || status === 'reconnecting';
+
+  const { stop: stopPlayback } = playback;
+  const sessionSummary = useSessionSummary({ sessionId, initialSummary });
+  const { update: updateSummary } = sessionSummary;
+
+  const summarizeSession = useCallback((regenerate = false) => {
+    updateSummary(messagesRef.current.filter(isSettledMessage).map(toStoredMessage), { regenerate });
+  }, [updateSummary]);
+
+  // Stopping ends the session, so it is summarized, adding only what was said since the last summary
+  const endSession = useCallback(() => {
+    stopTranscription();
+    if (messagesRef.current.some((message) => message.kind === 'user')) {
+      summarizeSession();
+    }
+  }, [stopTranscription, summarizeSession]);
+
   const handleToggleMicrophone = useCallback(() => {
-    console.log('[GuidedSession:handleToggleMicrophone] Toggle microphone, current state:', isConnected);
+    log.debug('Toggle microphone, current state:', status);
     
-    if (isConnected) {
-      console.log('[GuidedSession:handleToggleMicrophone] Stopping transcription');
-      stopTranscription();
+    if (isSessionLive) {
+      log.debug('Stopping transcription');
+      endSession();
     } else {
-      console.log('[GuidedSession:handleToggleMicrophone] Starting transcription');
+      log.debug('Starting transcription');
+      // Playback would be picked up by the microphone
+      stopPlayback();
       startTranscription();
     }
-  }, [isConnected, startTranscription, stopTranscription]);
+  }, [status, isSessionLive, startTranscription, endSession, stopPlayback]);
+
+  const handleTurnStart = useCallback(() => {
+    // Barge-in for push-to-talk, where there is no speech_started event
+    stopSpeech();
+    beginTurn();
+  }, [stopSpeech, beginTurn]);
+
+  // Hold Space to talk, Escape to discard the turn; ignored while typing
+  useEffect(() => {
+    if (mode !== 'push-to-talk' || !isConnected) {
+      return;
+    }
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTyping(event.target)) return;
+      if (event.code === 'Space') {
+        event.preventDefault();
+        if (!event.repeat) handleTurnStart();
+      } else if (event.key === 'Escape') {
+        endTurn({ cancel: true });
+      }
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === 'Space' && !isTyping(event.target)) {
+        event.preventDefault();
+        endTurn();
+      }
+    };
+    // Releasing the key in another window would otherwise leave the turn open
+    const handleBlur = () => endTurn({ cancel: true });
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [mode, isConnected, handleTurnStart, endTurn]);
+
+  // Utterances still being spoken or transcribed get their own bubbles until they become messages
+  const pendingUtterances = useMemo(
+    () => utterances
+      .filter((utterance) => utterance.status !== 'final')
+      .map((utterance) => ({ id: utterance.id, text: redactText(utterance.partialText, redactionPolicy, 'ui'), status: utterance.status })),
+    [utterances, redactionPolicy]
+  );
+
+  // Focus mode hides the side panels so the chat gets the whole session
+  const visiblePanels = uiState.layoutMode === 'focus' ? [] : uiState.visiblePanels;
 
   return (
-    <div className={`flex flex-col h-full ${className}`}>
-      <div className="flex-1 relative">
-        <ChatComponent
-          messages={messages}
-          currentUserMessage={partialTranscript}
-          className="h-full"
+    <div
+      className={`flex flex-col h-full bg-white dark:bg-gray-800 dark:text-gray-100 rounded-lg shadow-lg ${
+        THEME_CLASSES[uiState.theme]
+      } ${FONT_SIZE_CLASSES[uiState.fontSize]} ${className}`}
+    >
+      <SessionToolbar>
+        <UsageReadout sessionId={sessionId} isConnected={isConnected} revision={messages.length} />
+        <ExportMenu
+          sessionId={sessionId}
+          title={title}
+          getMessages={() => messagesRef.current
+            .filter(isSettledMessage)
+            .map((message) => redactStoredMessage(toStoredMessage(message), redactionPolicyRef.current, 'persisted'))}
         />
+      </SessionToolbar>
+
+      <div className="flex-1 flex gap-4 min-h-0 p-2">
+        <div className={`relative min-h-0 flex flex-col ${uiState.layoutMode === 'focus' ? 'w-full max-w-3xl mx-auto' : 'flex-1'}`}>
+          {script && scriptRunner.progress && (
+            <ScriptProgress title={script.title} progress={scriptRunner.progress} onRestart={handleScriptRestart} />
+          )}
+          {playback.recording && (
+            <RecordingPlayer
+              recordings={recorder.recordings}
+              recording={playback.recording}
+              isPlaying={playback.isPlaying}
+              positionMs={playback.positionMs}
+              onSelect={playback.selectRecording}
+              onToggle={playback.togglePlayback}
+              onSeek={playback.seek}
+            />
+          )}
+          <ChatComponent
+            messages={visibleMessages}
+            pendingUtterances={pendingUtterances}
+            highlight={uiState.highlight}
+            speakingMessageId={speech.speakingMessageId}
+            onRetry={handleRetry}
+            onEdit={handleEdit}
+            canRerunEdits={!scriptRunner.isActive}
+            lockedMessageIds={maskedMessageIds}
+            playableMessageIds={playback.playableMessageIds}
+            playingMessageId={playback.playingMessageId}
+            onPlaySegment={playback.playSegment}
+            focusMessageId={focusMessageId}
+            className="flex-1 min-h-0"
+          />
+          <SummaryPanel
+            summary={sessionSummary.summary}
+            isSummarizing={sessionSummary.isSummarizing}
+            error={sessionSummary.error}
+            canSummarize={messages.some((message) => message.kind === 'user')}
+            onUpdate={() => summarizeSession()}
+            onRegenerate={() => summarizeSession(true)}
+            onSave={sessionSummary.save}
+          />
+        </div>
+
+        {visiblePanels.map((panel) => (
+          <SidePanel
+            key={panel}
+            title={PANEL_TITLES[panel]}
+            onClose={() => uiActions.hidePanel(panel)}
+            className={PANEL_WIDTH_CLASSES[uiState.layoutMode]}
+          >
+            {panel === 'transcript' && (
+              <p className="whitespace-pre-wrap break-words">
+                {redactText(transcript, redactionPolicy, 'ui') || <span className="text-gray-500 dark:text-gray-400">Nothing transcribed yet.</span>}
+              </p>
+            )}
+            {panel === 'activity' && <UIActivityPanel />}
+            {panel === 'diagnostics' && <DiagnosticsPanel {...diagnostics} />}
+            {panel === 'logs' && <DebugLogPanel />}
+            {panel === 'privacy' && (
+              <RedactionPanel policy={redactionPolicy} error={redaction.error} onChange={redaction.update} />
+            )}
+          </SidePanel>
+        ))}
       </div>
       
-      <div className="flex items-center justify-center p-4 border-t border-gray-200 dark:border-gray-700">
-        {error && (
-          <div className="text-red-500 text-sm mr-4">
-            Error: {error.message}
-          </div>
-        )}
+      <div className="border-t border-gray-200 dark:border-gray-700">
+        <TextComposer onSubmit={handleTextSubmit} history={sentHistory} className="px-4 pt-4" />
+
+        <div className="flex items-center justify-center p-4">
+          {error && (
+            <div className="text-red-500 text-sm mr-4">
+              Error: {error.message}
+            </div>
+          )}
+          {saveError && (
+            <div className="text-red-500 text-sm mr-4">
+              Not saved: {saveError.message}
+            </div>
+          )}
+          {recorder.error && (
+            <div className="text-red-500 text-sm mr-4">
+              Recording not saved: {recorder.error.message}
+            </div>
+          )}
         
-        <MicrophoneButton
-          isConnected={isConnected}
-          isConnecting={status === 'connecting'}
-          onToggle={handleToggleMicrophone}
-        />
+          <InputLevelMeter stream={inputStream}>
+            <MicrophoneButton
+              isConnected={isSessionLive}
+              isConnecting={status === 'connecting'}
+              onToggle={handleToggleMicrophone}
+              mode={mode}
+              isTurnActive={isTurnActive}
+              onTurnStart={handleTurnStart}
+              onTurnEnd={endTurn}
+            />
+          </InputLevelMeter>
+
+          {mode === 'push-to-talk' && isSessionLive && (
+            <button
+              onClick={endSession}
+              className="ml-2 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600"
+            >
+              End
+            </button>
+          )}
+
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as TranscriptionMode)}
+            disabled={isSessionLive || status === 'connecting'}
+            className="ml-2 px-1 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-transparent disabled:opacity-50"
+            aria-label="Transcription mode"
+          >
+            <option value="continuous">Continuous</option>
+            <option value="push-to-talk">Push to talk</option>
+          </select>
+
+          <label className="ml-2 flex items-center gap-1 text-xs" title="Keep the audio with the session, to play back what was said">
+            <input type="checkbox" checked={recordAudio} onChange={(e) => setRecordAudio(e.target.checked)} />
+            Record
+            {recorder.isRecording && <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" aria-label="Recording" />}
+          </label>
+
+          <MicrophonePicker
+            devices={microphones.devices}
+            selectedDeviceId={microphones.selectedDeviceId}
+            onSelect={microphones.selectDevice}
+            className="ml-2"
+          />
         
-        <div className="ml-4 text-sm text-gray-500 dark:text-gray-400">
-          {status === 'idle' && 'Click the microphone to start speaking'}
-          {status === 'connecting' && 'Connecting...'}
-          {status === 'transcribing' && 'Listening...'}
-          {status === 'disconnected' && 'Disconnected'}
+          <SpeechControls
+            isSpeaking={!!speech.speakingMessageId}
+            isPaused={speech.isPaused}
+            queuedCount={speech.queuedCount}
+            onPause={speech.pause}
+            onResume={speech.resume}
+            onSkip={speech.skip}
+            onStop={speech.stop}
+            className="ml-4"
+          />
+
+          <div className="ml-4 text-sm text-gray-500 dark:text-gray-400">
+            {status === 'idle' && 'Type a message or click the microphone to start speaking'}
+            {status === 'connecting' && 'Connecting...'}
+            {status === 'transcribing' && (mode === 'push-to-talk' && !isTurnActive ? 'Hold the microphone or Space to talk' : 'Listening...')}
+            {status === 'reconnecting' && `Connection lost, reconnecting (attempt ${reconnectAttempt})...`}
+            {status === 'disconnected' && 'Disconnected'}
+            {status === 'unauthenticated' && (
+              <a href={`/sign-in?next=${encodeURIComponent(pathname)}`} className="text-blue-600 dark:text-blue-400 underline">
+                {denial?.message ?? 'Sign in to start transcribing'}
+              </a>
+            )}
+            {status === 'rate-limited' && (
+              <span className="text-amber-600 dark:text-amber-400">
+                {denial?.message}
+                {denial?.retryAfterMs !== undefined && ` (about ${Math.ceil(denial.retryAfterMs / 1000)} s)`}
+              </span>
+            )}
+          </div>
+
+          {isConnected && diagnostics.health.verdict !== 'unknown' && (
+            <button onClick={() => uiActions.showPanel('diagnostics')} className="ml-4" title="Show connection diagnostics">
+              <ConnectionHealthBadge health={diagnostics.health} />
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,28 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { useInputLevel } from './useInputLevel';
+
+interface InputLevelMeterProps {
+  /** The microphone stream to measure; the meter rests while null */
+  stream: MediaStream | null;
+  children: ReactNode;
+}
+
+/**
+ * A ring around its children that grows with the microphone level, so users can see audio is arriving
+ */
+export default function InputLevelMeter({ stream, children }: InputLevelMeterProps) {
+  const level = useInputLevel(stream);
+
+  return (
+    <div className="relative inline-flex" role="meter" aria-label="Microphone level" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(level * 100)}>
+      <span
+        className="absolute inset-0 rounded-full bg-green-400/60 pointer-events-none"
+        style={{ transform: `scale(${1 + level * 0.5})`, opacity: stream ? 0.3 + level * 0.7 : 0 }}
+        aria-hidden
+      />
+      <div className="relative">{children}</div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { Fragment, useMemo, type ReactNode } from 'react';
+import { parseMarkdown, type InlineNode, type MarkdownBlock } from '@/app/lib/ui/markdown';
+
+interface MarkdownTextProps {
+  text: string;
+  className?: string;
+}
+
+function renderInline(nodes: InlineNode[]): ReactNode {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case 'code':
+        return (
+          <code key={index} className="px-1 rounded bg-black/10 dark:bg-white/10 font-mono text-[0.9em]">
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="underline">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlock(block: MarkdownBlock, index: number): ReactNode {
+  switch (block.type) {
+    case 'code':
+      return (
+        <div key={index} className="rounded bg-gray-900 text-gray-100 text-sm overflow-hidden">
+          {block.language && (
+            <div className="px-3 py-1 text-xs text-gray-400 border-b border-gray-700">{block.language}</div>
+          )}
+          <pre className="p-3 overflow-x-auto"><code className="font-mono">{block.code}</code></pre>
+        </div>
+      );
+    case 'heading': {
+      const Heading = (['h3', 'h4', 'h5'] as const)[block.level - 1];
+      return <Heading key={index} className="font-semibold">{renderInline(block.children)}</Heading>;
+    }
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index} className={`pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+          {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+        </List>
+      );
+    }
+    case 'quote':
+      return (
+        <blockquote key={index} className="pl-3 border-l-2 border-gray-400 whitespace-pre-wrap">
+          {renderInline(block.children)}
+        </blockquote>
+      );
+    case 'paragraph':
+      return <p key={index} className="whitespace-pre-wrap break-words">{renderInline(block.children)}</p>;
+  }
+}
+
+/**
+ * Renders an AI reply's Markdown as React elements; raw HTML in the text stays text
+ */
+export default function MarkdownText({ text, className = '' }: MarkdownTextProps) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={`space-y-2 ${className}`}>{blocks.map(renderBlock)}</div>;
+}
@@ -3,11 +3,20 @@
 import { useState, useEffect } from 'react';
 import { FaMicrophone, FaMicrophoneSlash } from 'react-icons/fa';
 import { ImSpinner8 } from 'react-icons/im';
+import type { TranscriptionMode } from '@/app/lib/transcription';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('MicrophoneButton');
 
 interface MicrophoneButtonProps {
   isConnected: boolean;
   isConnecting: boolean;
   onToggle: () => void;
+  /** In push-to-talk, a connected button is held to talk instead of clicked to stop */
+  mode?: TranscriptionMode;
+  isTurnActive?: boolean;
+  onTurnStart?: () => void;
+  onTurnEnd?: (options: { cancel: boolean }) => void;
   className?: string;
 }
 
@@ -15,19 +24,46 @@ export default function MicrophoneButton({
   isConnected,
   isConnecting,
   onToggle,
+  mode = 'continuous',
+  isTurnActive = false,
+  onTurnStart,
+  onTurnEnd,
   className = '',
 }: MicrophoneButtonProps) {
-  console.log('[MicrophoneButton] Rendering with state:', { isConnected, isConnecting });
-  
   useEffect(() => {
-    console.log('[MicrophoneButton:useEffect] Connection status changed:', { isConnected, isConnecting });
+    log.debug('Connection status changed:', { isConnected, isConnecting });
   }, [isConnected, isConnecting]);
   
   const handleClick = () => {
-    console.log('[MicrophoneButton:handleClick] Button clicked, current state:', { isConnected, isConnecting });
+    log.debug('Button clicked, current state:', { isConnected, isConnecting });
     onToggle();
   };
   
+  if (mode === 'push-to-talk' && isConnected) {
+    return (
+      <button
+        onPointerDown={(e) => {
+          // Keep receiving pointer events when the pointer drifts off the button mid-turn
+          e.currentTarget.setPointerCapture(e.pointerId);
+          onTurnStart?.();
+        }}
+        onPointerUp={() => onTurnEnd?.({ cancel: false })}
+        onPointerCancel={() => onTurnEnd?.({ cancel: true })}
+        onContextMenu={(e) => e.preventDefault()}
+        className={`flex items-center justify-center w-12 h-12 rounded-full transition-colors select-none touch-none ${
+          isTurnActive
+            ? 'bg-green-500 ring-4 ring-green-300'
+            : 'bg-blue-500 hover:bg-blue-600'
+        } text-white ${className}`}
+        aria-pressed={isTurnActive}
+        aria-label={isTurnActive ? 'Release to send' : 'Hold to talk'}
+        title={isTurnActive ? 'Release to send' : 'Hold to talk (or hold Space)'}
+      >
+        <FaMicrophone className={`w-5 h-5 ${isTurnActive ? 'animate-pulse' : ''}`} />
+      </button>
+    );
+  }
+
   return (
     <button
       onClick={handleClick}
@@ -0,0 +1,29 @@
+'use client';
+
+import type { AudioInputDevice } from './useAudioInputDevices';
+
+interface MicrophonePickerProps {
+  devices: AudioInputDevice[];
+  selectedDeviceId: string | undefined;
+  onSelect: (deviceId: string | undefined) => void;
+  className?: string;
+}
+
+export default function MicrophonePicker({ devices, selectedDeviceId, onSelect, className = '' }: MicrophonePickerProps) {
+  // A remembered device that is unplugged falls back to the default
+  const value = devices.some((device) => device.deviceId === selectedDeviceId) ? selectedDeviceId : '';
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onSelect(e.target.value || undefined)}
+      className={`max-w-48 px-1 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-transparent ${className}`}
+      aria-label="Microphone"
+    >
+      <option value="">Default microphone</option>
+      {devices
+        .filter((device) => device.deviceId !== 'default' && device.deviceId !== '')
+        .map((device) => <option key={device.deviceId} value={device.deviceId}>{device.label}</option>)}
+    </select>
+  );
+}
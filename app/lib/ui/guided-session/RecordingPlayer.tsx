@@ -0,0 +1,75 @@
+'use client';
+
+import { FaPause, FaPlay } from 'react-icons/fa';
+import type { RecordingInfo } from '@/app/lib/recordings/types';
+
+interface RecordingPlayerProps {
+  recordings: RecordingInfo[];
+  recording: RecordingInfo;
+  isPlaying: boolean;
+  positionMs: number;
+  onSelect: (recordingId: string) => void;
+  onToggle: () => void;
+  onSeek: (positionMs: number) => void;
+}
+
+function formatPosition(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Plays the session's recordings; the chat highlights the message being heard
+ */
+export default function RecordingPlayer({
+  recordings,
+  recording,
+  isPlaying,
+  positionMs,
+  onSelect,
+  onToggle,
+  onSeek,
+}: RecordingPlayerProps) {
+  // Browsers often cannot tell how long a MediaRecorder file is, so the recorded duration is used
+  const durationMs = recording.durationMs;
+
+  return (
+    <div className="mb-2 flex items-center gap-2 px-3 py-2 rounded border border-gray-200 dark:border-gray-700 text-xs">
+      <button
+        onClick={onToggle}
+        className="p-1.5 rounded-full border border-gray-300 dark:border-gray-600"
+        aria-label={isPlaying ? 'Pause recording' : 'Play recording'}
+        title={isPlaying ? 'Pause recording' : 'Play recording'}
+      >
+        {isPlaying ? <FaPause className="w-3 h-3" /> : <FaPlay className="w-3 h-3" />}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={durationMs}
+        step={100}
+        value={Math.min(positionMs, durationMs)}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="flex-1"
+        aria-label="Recording position"
+      />
+      <span className="tabular-nums text-gray-500 dark:text-gray-400">
+        {formatPosition(positionMs)} / {formatPosition(durationMs)}
+      </span>
+      {recordings.length > 1 && (
+        <select
+          value={recording.id}
+          onChange={(e) => onSelect(e.target.value)}
+          className="px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+          aria-label="Recording"
+        >
+          {recordings.map((candidate, i) => (
+            <option key={candidate.id} value={candidate.id}>
+              Part {i + 1}, {new Date(candidate.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
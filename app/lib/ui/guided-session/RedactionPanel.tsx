@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import {
+  BUILT_IN_DETECTOR_DEFINITIONS,
+  BUILT_IN_DETECTORS,
+  REDACTION_TARGETS,
+  type RedactionPolicy,
+  type RedactionTarget,
+} from '@/app/lib/redaction';
+
+interface RedactionPanelProps {
+  policy: RedactionPolicy;
+  error: Error | null;
+  onChange: (policy: RedactionPolicy) => void;
+}
+
+const TARGET_LABELS: Record<RedactionTarget, string> = {
+  ui: 'Screen',
+  persisted: 'Saved',
+  prompts: 'AI',
+};
+
+const inputClass = 'px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-transparent';
+
+function toDetectorId(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+}
+
+/**
+ * Where each PII detector masks what it finds, and custom detectors defined by regular expressions.
+ * Changes apply to transcripts from then on.
+ */
+export default function RedactionPanel({ policy, error, onChange }: RedactionPanelProps) {
+  const [label, setLabel] = useState('');
+  const [pattern, setPattern] = useState('');
+
+  const detectors = [
+    ...BUILT_IN_DETECTORS.map((id) => ({ id, label: BUILT_IN_DETECTOR_DEFINITIONS[id].label, isCustom: false })),
+    ...policy.customDetectors.map((detector) => ({ id: detector.id, label: detector.label, isCustom: true })),
+  ];
+
+  const toggleTarget = (id: string, target: RedactionTarget) => {
+    const targets = policy.detectors[id] ?? [];
+    onChange({
+      ...policy,
+      detectors: {
+        ...policy.detectors,
+        [id]: targets.includes(target) ? targets.filter((existing) => existing !== target) : [...targets, target],
+      },
+    });
+  };
+
+  const removeCustom = (id: string) => {
+    const detectors = { ...policy.detectors };
+    delete detectors[id];
+    onChange({ detectors, customDetectors: policy.customDetectors.filter((detector) => detector.id !== id) });
+  };
+
+  const addCustom = () => {
+    const id = toDetectorId(label);
+    onChange({
+      detectors: { ...policy.detectors, [id]: [...REDACTION_TARGETS] },
+      customDetectors: [...policy.customDetectors, { id, label: label.trim(), pattern }],
+    });
+    setLabel('');
+    setPattern('');
+  };
+
+  return (
+    <div className="space-y-3 text-xs">
+      <p className="text-gray-500 dark:text-gray-400">
+        Choose where each kind of personal data is masked. Text masked everywhere is not kept at all.
+      </p>
+      <table className="w-full">
+        <thead>
+          <tr>
+            <th className="text-left font-semibold">Detector</th>
+            {REDACTION_TARGETS.map((target) => (
+              <th key={target} className="font-semibold">{TARGET_LABELS[target]}</th>
+            ))}
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {detectors.map((detector) => (
+            <tr key={detector.id}>
+              <td>{detector.label}</td>
+              {REDACTION_TARGETS.map((target) => (
+                <td key={target} className="text-center">
+                  <input
+                    type="checkbox"
+                    checked={policy.detectors[detector.id]?.includes(target) ?? false}
+                    onChange={() => toggleTarget(detector.id, target)}
+                    aria-label={`Mask ${detector.label} in ${TARGET_LABELS[target]}`}
+                  />
+                </td>
+              ))}
+              <td>
+                {detector.isCustom && (
+                  <button onClick={() => removeCustom(detector.id)} aria-label={`Remove ${detector.label}`} className="text-gray-500">
+                    <FaTimes className="w-3 h-3" />
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          addCustom();
+        }}
+        className="space-y-1"
+      >
+        <p className="font-semibold">Custom detector</p>
+        <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Label, e.g. Order number" aria-label="Detector label" className={`${inputClass} w-full`} />
+        <input value={pattern} onChange={(e) => setPattern(e.target.value)} placeholder="Regular expression, e.g. ORD-\d+" aria-label="Detector pattern" className={`${inputClass} w-full font-mono`} />
+        <button type="submit" disabled={!label.trim() || !pattern} className="px-2 py-0.5 rounded border border-gray-300 dark:border-gray-600 disabled:opacity-50">
+          Add
+        </button>
+      </form>
+
+      {error && <p role="alert" className="text-red-600 dark:text-red-400">{error.message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import type { ScriptProgress as ScriptProgressState } from '@/app/lib/scripts/types';
+
+interface ScriptProgressProps {
+  title: string;
+  progress: ScriptProgressState;
+  onRestart: () => void;
+}
+
+/**
+ * Where the user is in a guided script, with the question being asked
+ */
+export default function ScriptProgress({ title, progress, onRestart }: ScriptProgressProps) {
+  const { currentStep, answeredSteps, estimatedTotalSteps, isComplete } = progress;
+  const percent = isComplete ? 100 : Math.round((answeredSteps / Math.max(estimatedTotalSteps, 1)) * 100);
+
+  return (
+    <div className="mb-2 px-3 py-2 rounded border border-gray-200 dark:border-gray-700 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold">{title}</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {isComplete ? 'Complete' : `Step ${answeredSteps + 1} of ${estimatedTotalSteps}`}
+        </span>
+        <button
+          onClick={onRestart}
+          className="ml-auto px-2 py-0.5 text-xs rounded border border-gray-300 dark:border-gray-600"
+        >
+          Restart
+        </button>
+      </div>
+      <div
+        className="mt-2 h-1.5 rounded bg-gray-200 dark:bg-gray-700 overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        aria-label={`${title} progress`}
+      >
+        <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      {currentStep && <p className="mt-2" aria-live="polite">{currentStep.prompt}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { FaRedo, FaUndo } from 'react-icons/fa';
+import { useUIState } from './UIStateContext';
+import { FONT_SIZES, LAYOUT_MODES, SIDE_PANELS, THEMES, type FontSize, type LayoutMode, type Theme } from '@/app/lib/ui-state';
+
+interface SessionToolbarProps {
+  /** Session-level controls rendered before undo/redo */
+  children?: ReactNode;
+}
+
+/**
+ * Manual controls for the UI state, so users can do everything modifier functions can
+ */
+export default function SessionToolbar({ children }: SessionToolbarProps) {
+  const { state, canUndo, canRedo, actions } = useUIState();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 py-2 text-xs border-b border-gray-200 dark:border-gray-700">
+      {SIDE_PANELS.map((panel) => (
+        <button
+          key={panel}
+          onClick={() => actions.togglePanel(panel)}
+          className={`px-2 py-1 rounded capitalize border border-gray-300 dark:border-gray-600 ${
+            state.visiblePanels.includes(panel) ? 'bg-gray-200 dark:bg-gray-700' : ''
+          }`}
+          aria-pressed={state.visiblePanels.includes(panel)}
+        >
+          {panel}
+        </button>
+      ))}
+      <select
+        value={state.layoutMode}
+        onChange={(e) => actions.setLayoutMode(e.target.value as LayoutMode)}
+        className="px-1 py-1 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+        aria-label="Layout"
+      >
+        {LAYOUT_MODES.map((mode) => <option key={mode} value={mode}>{mode}</option>)}
+      </select>
+      <select
+        value={state.fontSize}
+        onChange={(e) => actions.setFontSize(e.target.value as FontSize)}
+        className="px-1 py-1 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+        aria-label="Font size"
+      >
+        {FONT_SIZES.map((size) => <option key={size} value={size}>{size}</option>)}
+      </select>
+      <select
+        value={state.theme}
+        onChange={(e) => actions.setTheme(e.target.value as Theme)}
+        className="px-1 py-1 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+        aria-label="Theme"
+      >
+        {THEMES.map((theme) => <option key={theme} value={theme}>{theme}</option>)}
+      </select>
+      <div className="ml-auto flex items-center gap-1">
+        {children}
+        <button onClick={actions.undo} disabled={!canUndo} className="p-1 disabled:opacity-40" aria-label="Undo UI change" title="Undo UI change">
+          <FaUndo className="w-3 h-3" />
+        </button>
+        <button onClick={actions.redo} disabled={!canRedo} className="p-1 disabled:opacity-40" aria-label="Redo UI change" title="Redo UI change">
+          <FaRedo className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { FaTimes } from 'react-icons/fa';
+
+interface SidePanelProps {
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+  className?: string;
+}
+
+export default function SidePanel({ title, onClose, children, className = '' }: SidePanelProps) {
+  return (
+    <section className={`flex flex-col min-h-0 border border-gray-200 dark:border-gray-700 rounded-lg ${className}`}>
+      <header className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-sm font-semibold">{title}</h2>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          aria-label={`Close ${title}`}
+          title={`Close ${title}`}
+        >
+          <FaTimes className="w-3 h-3" />
+        </button>
+      </header>
+      <div className="flex-1 overflow-y-auto p-3 text-sm">{children}</div>
+    </section>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { FaPause, FaPlay, FaStepForward, FaStop } from 'react-icons/fa';
+
+interface SpeechControlsProps {
+  isSpeaking: boolean;
+  isPaused: boolean;
+  queuedCount: number;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+  className?: string;
+}
+
+export default function SpeechControls({
+  isSpeaking,
+  isPaused,
+  queuedCount,
+  onPause,
+  onResume,
+  onSkip,
+  onStop,
+  className = '',
+}: SpeechControlsProps) {
+  if (!isSpeaking) {
+    return null;
+  }
+
+  const buttonClass = 'p-2 rounded-full text-gray-600 hover:bg-gray-200 dark:text-gray-300 dark:hover:bg-gray-700';
+
+  return (
+    <div className={`flex items-center gap-1 ${className}`}>
+      {isPaused ? (
+        <button onClick={onResume} className={buttonClass} aria-label="Resume speech" title="Resume speech">
+          <FaPlay className="w-3 h-3" />
+        </button>
+      ) : (
+        <button onClick={onPause} className={buttonClass} aria-label="Pause speech" title="Pause speech">
+          <FaPause className="w-3 h-3" />
+        </button>
+      )}
+      <button onClick={onSkip} className={buttonClass} aria-label="Skip reply" title="Skip reply">
+        <FaStepForward className="w-3 h-3" />
+      </button>
+      <button onClick={onStop} className={buttonClass} aria-label="Stop speech" title="Stop speech">
+        <FaStop className="w-3 h-3" />
+      </button>
+      {queuedCount > 0 && (
+        <span className="text-xs text-gray-500 dark:text-gray-400">+{queuedCount} queued</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import { FaPen, FaPlus, FaRedo, FaSync, FaTimes } from 'react-icons/fa';
+import type { ActionItem, ConversationSummary, StoredSummary } from '@/app/lib/summaries';
+
+interface SummaryPanelProps {
+  summary: StoredSummary | null;
+  isSummarizing: boolean;
+  error: Error | null;
+  /** Whether there is anything to summarize yet */
+  canSummarize: boolean;
+  onUpdate: () => void;
+  onRegenerate: () => void;
+  onSave: (edited: ConversationSummary) => Promise<void>;
+  className?: string;
+}
+
+type ListSection = 'keyPoints' | 'decisions' | 'openQuestions';
+
+const LIST_SECTIONS: { key: ListSection; title: string }[] = [
+  { key: 'keyPoints', title: 'Key points' },
+  { key: 'decisions', title: 'Decisions' },
+  { key: 'openQuestions', title: 'Open questions' },
+];
+
+const buttonClass = 'flex items-center gap-1 px-2 py-0.5 text-xs rounded border border-gray-300 dark:border-gray-600 disabled:opacity-50';
+const inputClass = 'w-full px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-transparent';
+
+function toLines(items: string[]): string {
+  return items.join('\n');
+}
+
+function fromLines(text: string): string[] {
+  return text.split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+interface SummaryDraft {
+  lists: Record<ListSection, string>;
+  actionItems: ActionItem[];
+}
+
+function toDraft(summary: ConversationSummary | null): SummaryDraft {
+  return {
+    lists: {
+      keyPoints: toLines(summary?.keyPoints ?? []),
+      decisions: toLines(summary?.decisions ?? []),
+      openQuestions: toLines(summary?.openQuestions ?? []),
+    },
+    actionItems: summary?.actionItems.map((item) => ({ ...item })) ?? [],
+  };
+}
+
+function fromDraft({ lists, actionItems }: SummaryDraft): ConversationSummary {
+  return {
+    keyPoints: fromLines(lists.keyPoints),
+    decisions: fromLines(lists.decisions),
+    openQuestions: fromLines(lists.openQuestions),
+    actionItems: actionItems
+      .map((item) => ({ text: item.text.trim(), owner: item.owner?.trim() || null }))
+      .filter((item) => item.text),
+  };
+}
+
+function SummaryEditor({ summary, onSave, onCancel }: {
+  summary: ConversationSummary | null;
+  onSave: (edited: ConversationSummary) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(() => toDraft(summary));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const setActionItem = (index: number, change: Partial<ActionItem>) => {
+    setDraft((current) => ({
+      ...current,
+      actionItems: current.actionItems.map((item, i) => (i === index ? { ...item, ...change } : item)),
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(fromDraft(draft));
+      onCancel();
+    } catch {
+      // The panel shows the error; keep the draft so nothing typed is lost
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {LIST_SECTIONS.map(({ key, title }) => (
+        <label key={key} className="block">
+          <span className="text-xs font-semibold">{title}</span>
+          <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">(one per line)</span>
+          <textarea
+            value={draft.lists[key]}
+            onChange={(e) => setDraft((current) => ({ ...current, lists: { ...current.lists, [key]: e.target.value } }))}
+            rows={3}
+            className={inputClass}
+          />
+        </label>
+      ))}
+      <fieldset>
+        <legend className="text-xs font-semibold">Action items</legend>
+        {draft.actionItems.map((item, index) => (
+          <div key={index} className="flex gap-1 mt-1">
+            <input
+              value={item.text}
+              onChange={(e) => setActionItem(index, { text: e.target.value })}
+              placeholder="What needs doing"
+              aria-label={`Action item ${index + 1}`}
+              className={inputClass}
+            />
+            <input
+              value={item.owner ?? ''}
+              onChange={(e) => setActionItem(index, { owner: e.target.value })}
+              placeholder="Owner"
+              aria-label={`Owner of action item ${index + 1}`}
+              className={`${inputClass} max-w-32`}
+            />
+            <button
+              type="button"
+              onClick={() => setDraft((current) => ({ ...current, actionItems: current.actionItems.filter((_, i) => i !== index) }))}
+              aria-label={`Remove action item ${index + 1}`}
+              className="px-1 text-gray-500"
+            >
+              <FaTimes className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setDraft((current) => ({ ...current, actionItems: [...current.actionItems, { text: '', owner: null }] }))}
+          className={`${buttonClass} mt-1`}
+        >
+          <FaPlus className="w-2.5 h-2.5" /> Add action item
+        </button>
+      </fieldset>
+      <div className="flex gap-2">
+        <button onClick={handleSave} disabled={isSaving} className="px-2 py-0.5 text-xs rounded bg-blue-500 text-white disabled:opacity-50">
+          Save
+        </button>
+        <button onClick={onCancel} disabled={isSaving} className={buttonClass}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function SummaryList({ title, items }: { title: string; items: string[] }) {
+  return (
+    <section>
+      <h3 className="text-xs font-semibold">{title}</h3>
+      {items.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">None</p>
+      ) : (
+        <ul className="list-disc pl-5">
+          {items.map((item, i) => <li key={i}>{item}</li>)}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+/**
+ * The end-of-session summary: key points, decisions, action items and open questions.
+ * It can be brought up to date with what was said since, built again from scratch, or edited by hand.
+ */
+export default function SummaryPanel({
+  summary,
+  isSummarizing,
+  error,
+  canSummarize,
+  onUpdate,
+  onRegenerate,
+  onSave,
+  className = '',
+}: SummaryPanelProps) {
+  const [isEditing, setIsEditing] = useState(false);
+
+  return (
+    <div className={`mt-2 px-3 py-2 rounded border border-gray-200 dark:border-gray-700 text-sm ${className}`}>
+      <div className="flex items-center gap-2">
+        <span className="font-semibold">Session summary</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400" aria-live="polite">
+          {isSummarizing
+            ? 'Summarizing…'
+            : summary
+              ? `${summary.editedAt ? 'Edited' : 'Updated'} ${new Date(summary.editedAt ?? summary.generatedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+              : 'Summarized when you stop transcribing'}
+        </span>
+        {!isEditing && (
+          <span className="ml-auto flex gap-1">
+            <button onClick={onUpdate} disabled={!canSummarize || isSummarizing} className={buttonClass} title="Summarize what was said since the last update">
+              <FaSync className="w-2.5 h-2.5" /> {summary ? 'Update' : 'Summarize'}
+            </button>
+            {summary && (
+              <button onClick={onRegenerate} disabled={isSummarizing} className={buttonClass} title="Summarize the whole session again, replacing edits">
+                <FaRedo className="w-2.5 h-2.5" /> Regenerate
+              </button>
+            )}
+            <button onClick={() => setIsEditing(true)} disabled={isSummarizing} className={buttonClass}>
+              <FaPen className="w-2.5 h-2.5" /> Edit
+            </button>
+          </span>
+        )}
+      </div>
+
+      <div className="mt-2 max-h-64 overflow-y-auto">
+        {error && <p role="alert" className="mb-2 text-xs text-red-600 dark:text-red-400">{error.message}</p>}
+        {isEditing ? (
+          <SummaryEditor summary={summary} onSave={onSave} onCancel={() => setIsEditing(false)} />
+        ) : summary ? (
+          <div className="space-y-2">
+            <SummaryList title="Key points" items={summary.keyPoints} />
+            <SummaryList title="Decisions" items={summary.decisions} />
+            <section>
+              <h3 className="text-xs font-semibold">Action items</h3>
+              {summary.actionItems.length === 0 ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400">None</p>
+              ) : (
+                <ul className="list-disc pl-5">
+                  {summary.actionItems.map((item, i) => (
+                    <li key={i}>
+                      {item.text}
+                      {item.owner && <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">— {item.owner}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+            <SummaryList title="Open questions" items={summary.openQuestions} />
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500 dark:text-gray-400">No summary yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState, useRef, useCallback } from 'react';
+import { FaPaperPlane } from 'react-icons/fa';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('TextComposer');
+
+interface TextComposerProps {
+  onSubmit: (text: string) => void;
+  /** Previously sent messages, oldest first, recalled with the arrow keys */
+  history?: string[];
+  disabled?: boolean;
+  className?: string;
+}
+
+const MAX_ROWS = 6;
+
+/**
+ * Typed input alongside voice. Enter sends, Shift+Enter adds a line, and ArrowUp/ArrowDown
+ * at the start/end of the text walk through earlier messages.
+ */
+export default function TextComposer({
+  onSubmit,
+  history = [],
+  disabled = false,
+  className = '',
+}: TextComposerProps) {
+  const [text, setText] = useState('');
+  // Position in `history` while recalling, or null when editing a fresh draft
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const draftRef = useRef('');
+
+  const submit = useCallback(() => {
+    const trimmed = text.trim();
+    if (!trimmed || disabled) {
+      return;
+    }
+    log.debug('Submitting typed message, length:', trimmed.length);
+    onSubmit(trimmed);
+    setText('');
+    setHistoryIndex(null);
+    draftRef.current = '';
+  }, [text, disabled, onSubmit]);
+
+  const recall = useCallback((direction: -1 | 1) => {
+    if (history.length === 0) {
+      return false;
+    }
+    if (historyIndex === null) {
+      if (direction === 1) {
+        return false;
+      }
+      draftRef.current = text;
+      setHistoryIndex(history.length - 1);
+      setText(history[history.length - 1]);
+      return true;
+    }
+
+    const next = historyIndex + direction;
+    if (next < 0) {
+      return true;
+    }
+    if (next >= history.length) {
+      // Walked past the newest entry: back to the draft
+      setHistoryIndex(null);
+      setText(draftRef.current);
+      return true;
+    }
+    setHistoryIndex(next);
+    setText(history[next]);
+    return true;
+  }, [history, historyIndex, text]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      submit();
+      return;
+    }
+
+    const { selectionStart, selectionEnd, value } = e.currentTarget;
+    const hasSelection = selectionStart !== selectionEnd;
+    if (e.key === 'ArrowUp' && !hasSelection && selectionStart === 0 && recall(-1)) {
+      e.preventDefault();
+    } else if (e.key === 'ArrowDown' && !hasSelection && selectionEnd === value.length && recall(1)) {
+      e.preventDefault();
+    }
+  };
+
+  const rows = Math.min(MAX_ROWS, Math.max(1, text.split('\n').length));
+
+  return (
+    <form
+      className={`flex items-end gap-2 ${className}`}
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setHistoryIndex(null);
+        }}
+        onKeyDown={handleKeyDown}
+        rows={rows}
+        disabled={disabled}
+        placeholder="Type a message… (Enter to send, Shift+Enter for a new line, ↑ for history)"
+        aria-label="Message"
+        className="flex-1 resize-none rounded-lg border border-gray-300 dark:border-gray-600 bg-transparent px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        className="flex items-center justify-center w-10 h-10 rounded-full bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-40"
+        aria-label="Send message"
+        title="Send message"
+      >
+        <FaPaperPlane className="w-4 h-4" />
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useUIState } from './UIStateContext';
+import type { UIAction } from '@/app/lib/ui-state';
+
+function describeAction(action: UIAction): string {
+  switch (action.type) {
+    case 'showPanel':
+      return `Opened ${action.panel} panel`;
+    case 'hidePanel':
+      return `Closed ${action.panel} panel`;
+    case 'togglePanel':
+      return `Toggled ${action.panel} panel`;
+    case 'setHighlight':
+      return `Highlighted "${action.text}"`;
+    case 'clearHighlight':
+      return 'Cleared highlight';
+    case 'setLayoutMode':
+      return `Layout: ${action.mode}`;
+    case 'setFontSize':
+      return `Font size: ${action.size}`;
+    case 'setTheme':
+      return `Theme: ${action.theme}`;
+    case 'reset':
+      return 'Reset UI';
+  }
+}
+
+/**
+ * Lists recorded UI changes, newest first, with undo, redo and replay controls
+ */
+export default function UIActivityPanel() {
+  const { changes, canUndo, canRedo, actions } = useUIState();
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex gap-2">
+        <button
+          onClick={actions.undo}
+          disabled={!canUndo}
+          className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 disabled:opacity-40"
+        >
+          Undo
+        </button>
+        <button
+          onClick={actions.redo}
+          disabled={!canRedo}
+          className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 disabled:opacity-40"
+        >
+          Redo
+        </button>
+        <button
+          onClick={() => actions.replay(changes)}
+          disabled={changes.length === 0}
+          className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 disabled:opacity-40"
+          title="Rebuild the current UI from the recorded changes"
+        >
+          Replay
+        </button>
+      </div>
+      {changes.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No UI changes yet.</p>
+      ) : (
+        <ol className="space-y-1">
+          {[...changes].reverse().map((change) => (
+            <li key={change.id} className="flex justify-between gap-2">
+              <span>{describeAction(change.action)}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                {change.source === 'function' ? 'AI' : 'You'} ·{' '}
+                {change.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { createContext, useCallback, useContext, useMemo, useReducer } from 'react';
+import {
+  initialUIHistory,
+  uiHistoryReducer,
+  type UIAction,
+  type UIActions,
+  type UIChange,
+  type UIChangeSource,
+  type UIState,
+} from '@/app/lib/ui-state';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('UIStateProvider');
+
+interface UIStateContextValue {
+  state: UIState;
+  changes: UIChange[];
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Actions recorded as user changes */
+  actions: UIActions;
+  /** The same actions, recorded as changes made by a modifier function */
+  functionActions: UIActions;
+}
+
+const UIStateContext = createContext<UIStateContextValue | null>(null);
+
+export function UIStateProvider({ children }: { children: React.ReactNode }) {
+  const [history, dispatch] = useReducer(uiHistoryReducer, initialUIHistory);
+
+  const createActions = useCallback((source: UIChangeSource): UIActions => {
+    const apply = (action: UIAction) => {
+      log.debug('Applying UI change:', action.type, 'source:', source);
+      dispatch({ type: 'apply', action, source });
+    };
+    return {
+      showPanel: (panel) => apply({ type: 'showPanel', panel }),
+      hidePanel: (panel) => apply({ type: 'hidePanel', panel }),
+      togglePanel: (panel) => apply({ type: 'togglePanel', panel }),
+      setHighlight: (text) => apply({ type: 'setHighlight', text }),
+      clearHighlight: () => apply({ type: 'clearHighlight' }),
+      setLayoutMode: (mode) => apply({ type: 'setLayoutMode', mode }),
+      setFontSize: (size) => apply({ type: 'setFontSize', size }),
+      setTheme: (theme) => apply({ type: 'setTheme', theme }),
+      reset: () => apply({ type: 'reset' }),
+      undo: () => dispatch({ type: 'undo' }),
+      redo: () => dispatch({ type: 'redo' }),
+      replay: (changes) => dispatch({ type: 'replay', changes }),
+    };
+  }, []);
+
+  const actions = useMemo(() => createActions('user'), [createActions]);
+  const functionActions = useMemo(() => createActions('function'), [createActions]);
+
+  const value = useMemo<UIStateContextValue>(() => ({
+    state: history.present,
+    changes: history.past,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    actions,
+    functionActions,
+  }), [history, actions, functionActions]);
+
+  return <UIStateContext.Provider value={value}>{children}</UIStateContext.Provider>;
+}
+
+export function useUIState(): UIStateContextValue {
+  const context = useContext(UIStateContext);
+  if (!context) {
+    throw new Error('useUIState must be used inside a UIStateProvider');
+  }
+  return context;
+}
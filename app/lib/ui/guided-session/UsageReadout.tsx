@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { UsageSummary } from '@/app/lib/usage/types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('UsageReadout');
+
+// Audio time accrues while connected, so refresh now and then even without new messages
+const LIVE_REFRESH_MS = 30000;
+
+interface UsageReadoutProps {
+  sessionId: string;
+  isConnected: boolean;
+  /** Changes whenever new usage is likely, e.g. the message count; triggers a refresh */
+  revision: number;
+}
+
+function formatCost(amount: number): string {
+  if (amount > 0 && amount < 0.01) {
+    return '<$0.01';
+  }
+  return `$${amount.toFixed(2)}`;
+}
+
+function formatMinutes(ms: number): string {
+  return `${(ms / 60000).toFixed(1)} min`;
+}
+
+/**
+ * What this session has used so far and its estimated cost, for the signed-in user
+ */
+export default function UsageReadout({ sessionId, isConnected, revision }: UsageReadoutProps) {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/usage`, { cache: 'no-store' });
+        if (!response.ok) {
+          // Signed out users have no usage to show
+          if (!cancelled) setSummary(null);
+          return;
+        }
+        const data: { summary: UsageSummary } = await response.json();
+        if (!cancelled) setSummary(data.summary);
+      } catch (err) {
+        log.warn('Could not load usage:', err);
+      }
+    };
+
+    load();
+    const interval = isConnected ? setInterval(load, LIVE_REFRESH_MS) : null;
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+    };
+  }, [sessionId, isConnected, revision]);
+
+  if (!summary) {
+    return null;
+  }
+
+  const { estimatedCost } = summary;
+  const details = [
+    `${summary.ephemeralKeys} transcription keys`,
+    `${formatMinutes(summary.audioMs)} of audio`,
+    `${summary.transcripts} transcripts (${summary.transcriptCharacters} characters)`,
+    `${summary.promptTokens + summary.completionTokens} LLM tokens`,
+    `${summary.ttsCharacters} characters read aloud`,
+    `Transcription ${formatCost(estimatedCost.transcription)}, LLM ${formatCost(estimatedCost.llm)}, speech ${formatCost(estimatedCost.tts)} (estimated)`,
+  ].join('\n');
+
+  return (
+    <span className="px-2 text-gray-500 dark:text-gray-400 tabular-nums" title={details} aria-label={`Session usage: ${details}`}>
+      {formatMinutes(summary.audioMs)} · {summary.transcripts} transcripts · ~{formatCost(estimatedCost.total)}
+    </span>
+  );
+}
@@ -0,0 +1,47 @@
+import { fitDecisionHistory } from '@/app/lib/llm/history';
+import type { ConversationTurn, DecisionStreamLine, LLMDecision } from '@/app/lib/llm/types';
+
+/**
+ * Asks the LLM for a decision over the streaming route, reporting reply text as it arrives.
+ * Long conversations are cut to their most recent turns, which is all the route accepts.
+ */
+export async function streamDecision(
+  history: ConversationTurn[],
+  sessionId: string | undefined,
+  onTextDelta: (delta: string) => void
+): Promise<LLMDecision> {
+  const response = await fetch('/api/llm/decide', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ history: fitDecisionHistory(history), sessionId }),
+  });
+  if (!response.ok || !response.body) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error ?? `Decision request failed: ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event: DecisionStreamLine = JSON.parse(line);
+      if (event.type === 'text-delta') {
+        onTextDelta(event.delta);
+      } else if (event.type === 'decision') {
+        return event.decision;
+      } else {
+        throw new Error(event.message);
+      }
+    }
+    if (done) {
+      throw new Error('The decision stream ended without a decision');
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import type { RecordingInfo } from '@/app/lib/recordings/types';
+
+/**
+ * Uploads a finished recording so it is kept with the session
+ */
+export async function uploadRecording(
+  sessionId: string,
+  recordingId: string,
+  startedAt: Date,
+  durationMs: number,
+  audio: Blob
+): Promise<RecordingInfo> {
+  const query = new URLSearchParams({
+    recordingId,
+    startedAt: startedAt.toISOString(),
+    durationMs: String(Math.round(durationMs)),
+  });
+  const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/recordings?${query}`, {
+    method: 'POST',
+    // Without its codecs parameter, which the server does not need
+    headers: { 'Content-Type': audio.type.split(';')[0] },
+    body: audio,
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error ?? `Recording upload failed: ${response.status}`);
+  }
+  const { recording } = await response.json();
+  return recording;
+}
+
+export function recordingUrl(sessionId: string, recordingId: string): string {
+  return `/api/sessions/${encodeURIComponent(sessionId)}/recordings/${encodeURIComponent(recordingId)}`;
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('useAudioInputDevices');
+
+const STORAGE_KEY = 'guided-session:microphone';
+
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface UseAudioInputDevicesReturn {
+  devices: AudioInputDevice[];
+  /** The remembered microphone, or undefined for the browser default */
+  selectedDeviceId: string | undefined;
+  selectDevice: (deviceId: string | undefined) => void;
+  /** Lists devices again, e.g. once microphone permission has been granted and labels are available */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Lists microphones and remembers the user's pick in localStorage
+ */
+export function useAudioInputDevices(): UseAudioInputDevicesReturn {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | undefined>(undefined);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      return;
+    }
+    const inputs = (await navigator.mediaDevices.enumerateDevices()).filter((device) => device.kind === 'audioinput');
+    // Labels stay empty until the page has been granted microphone access
+    setDevices(inputs.map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Microphone ${index + 1}`,
+    })));
+
+    // Forget a remembered microphone that is gone, e.g. unplugged or with an ID rotated after permissions were
+    // cleared; IDs are only listed once access has been granted, so an unlisted one proves nothing before that
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const hasIds = inputs.some((device) => device.deviceId);
+    if (stored && hasIds && !inputs.some((device) => device.deviceId === stored)) {
+      log.info('Remembered microphone is gone, using the default');
+      localStorage.removeItem(STORAGE_KEY);
+      setSelectedDeviceId(undefined);
+    }
+  }, []);
+
+  useEffect(() => {
+    // Read after mount; localStorage does not exist during server rendering
+    setSelectedDeviceId(localStorage.getItem(STORAGE_KEY) ?? undefined);
+    refresh();
+
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  const selectDevice = useCallback((deviceId: string | undefined) => {
+    log.debug('Selected device:', deviceId ?? 'default');
+    setSelectedDeviceId(deviceId);
+    if (deviceId) {
+      localStorage.setItem(STORAGE_KEY, deviceId);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }, []);
+
+  return { devices, selectedDeviceId, selectDevice, refresh };
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { createLogger } from '@/app/lib/logging';
+import {
+  assessConnectionHealth,
+  measureTranscriptionLatency,
+  summarizeStats,
+  type ConnectionHealth,
+  type ConnectionSample,
+  type TranscriptionLatency,
+  type TranscriptUtterance,
+} from '@/app/lib/transcription';
+
+const log = createLogger('useConnectionDiagnostics');
+
+const SAMPLE_INTERVAL_MS = 2000;
+
+interface UseConnectionDiagnosticsProps {
+  getConnectionStats: () => Promise<RTCStatsReport | null>;
+  utterances: TranscriptUtterance[];
+  /** Sampling only runs while connected */
+  isConnected: boolean;
+}
+
+export interface ConnectionDiagnostics {
+  sample: ConnectionSample | null;
+  latency: TranscriptionLatency;
+  health: ConnectionHealth;
+}
+
+/**
+ * Samples getStats() every couple of seconds while connected and turns it into a health verdict
+ */
+export function useConnectionDiagnostics({
+  getConnectionStats,
+  utterances,
+  isConnected,
+}: UseConnectionDiagnosticsProps): ConnectionDiagnostics {
+  const [sample, setSample] = useState<ConnectionSample | null>(null);
+
+  useEffect(() => {
+    if (!isConnected) {
+      setSample(null);
+      return;
+    }
+
+    let cancelled = false;
+    const takeSample = async () => {
+      try {
+        const report = await getConnectionStats();
+        if (!cancelled && report) {
+          setSample((previous) => summarizeStats(report, previous));
+        }
+      } catch (err) {
+        log.warn('Could not sample connection stats:', err);
+      }
+    };
+
+    takeSample();
+    const intervalId = setInterval(takeSample, SAMPLE_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [isConnected, getConnectionStats]);
+
+  const latency = useMemo(() => measureTranscriptionLatency(utterances), [utterances]);
+  const health = useMemo(() => assessConnectionHealth(sample, latency), [sample, latency]);
+
+  useEffect(() => {
+    if (health.verdict === 'poor') {
+      log.warn('Connection is poor:', health.reasons.join(', '));
+    }
+  }, [health]);
+
+  return { sample, latency, health };
+}
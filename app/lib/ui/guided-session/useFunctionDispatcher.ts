@@ -0,0 +1,62 @@
+'use client';
+
+import { useCallback } from 'react';
+import { executeStandardFunction } from '@/app/lib/actions/functions/function-actions';
+import { functionRegistry } from '@/app/lib/functions';
+import type { FunctionResult, ModifierContext } from '@/app/lib/functions';
+import type { FunctionCall } from '@/app/lib/llm';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('useFunctionDispatcher');
+
+export interface UseFunctionDispatcherProps {
+  modifierContext: ModifierContext;
+}
+
+/**
+ * Routes LLM function calls: standard functions go to the server, modifier functions are applied here.
+ * Each call resolves to a FunctionResult, even when it fails, so it can be reported into the conversation.
+ */
+export function useFunctionDispatcher({ modifierContext }: UseFunctionDispatcherProps) {
+  const dispatchCall = useCallback(async (call: FunctionCall): Promise<FunctionResult> => {
+    log.debug('Dispatching:', call.name);
+    const fn = functionRegistry.get(call.name);
+
+    if (!fn) {
+      log.error('Unknown function:', call.name);
+      return { callId: call.id, name: call.name, kind: 'unknown', ok: false, error: `Unknown function "${call.name}"` };
+    }
+
+    if (fn.kind === 'standard') {
+      return executeStandardFunction(call);
+    }
+
+    const validation = functionRegistry.validate(call);
+    if (!validation.ok) {
+      log.error('Invalid arguments:', validation.errors);
+      return { callId: call.id, name: call.name, kind: 'modifier', ok: false, error: validation.errors.join('; ') };
+    }
+
+    try {
+      const summary = fn.apply(validation.args, modifierContext);
+      log.debug('Modifier applied:', call.name);
+      return { callId: call.id, name: call.name, kind: 'modifier', ok: true, result: summary ?? 'Done' };
+    } catch (error) {
+      log.error('Modifier failed:', error);
+      return {
+        callId: call.id,
+        name: call.name,
+        kind: 'modifier',
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }, [modifierContext]);
+
+  const dispatch = useCallback(
+    (calls: FunctionCall[]) => Promise.all(calls.map(dispatchCall)),
+    [dispatchCall]
+  );
+
+  return { dispatch };
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+// Speech RMS rarely goes above ~0.3, so scale it up to use the whole meter
+const LEVEL_GAIN = 3;
+
+/**
+ * Measures the loudness of a microphone stream with an AnalyserNode, from 0 (silent) to 1.
+ * Updates once per animation frame while a stream is given.
+ */
+export function useInputLevel(stream: MediaStream | null): number {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!stream) {
+      setLevel(0);
+      return;
+    }
+
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(stream);
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 512;
+    source.connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    let frameId = 0;
+    const measure = () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sumOfSquares = 0;
+      for (const sample of samples) {
+        sumOfSquares += sample * sample;
+      }
+      setLevel(Math.min(1, Math.sqrt(sumOfSquares / samples.length) * LEVEL_GAIN));
+      frameId = requestAnimationFrame(measure);
+    };
+    frameId = requestAnimationFrame(measure);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      source.disconnect();
+      audioContext.close().catch(() => undefined);
+    };
+  }, [stream]);
+
+  return level;
+}
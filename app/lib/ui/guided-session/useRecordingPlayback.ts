@@ -0,0 +1,180 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ChatMessage } from '@/app/lib/messages';
+import { findSegmentAt } from '@/app/lib/recordings/segments';
+import type { RecordingInfo, RecordingSegment } from '@/app/lib/recordings/types';
+import { recordingUrl } from './recording-upload';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('useRecordingPlayback');
+
+export interface UseRecordingPlaybackProps {
+  sessionId: string;
+  recordings: RecordingInfo[];
+  messages: ChatMessage[];
+}
+
+export interface UseRecordingPlaybackReturn {
+  /** The recording the player is on */
+  recording: RecordingInfo | null;
+  isPlaying: boolean;
+  positionMs: number;
+  /** The user message whose audio is playing */
+  playingMessageId: string | null;
+  /** User messages with a segment in a saved recording */
+  playableMessageIds: ReadonlySet<string>;
+  selectRecording: (recordingId: string) => void;
+  togglePlayback: () => void;
+  seek: (positionMs: number) => void;
+  /** Plays the audio of one user message, then stops */
+  playSegment: (messageId: string) => void;
+  stop: () => void;
+}
+
+/**
+ * Plays a session's recordings, either whole or one utterance at a time,
+ * and tracks which message the audio belongs to
+ */
+export function useRecordingPlayback({ sessionId, recordings, messages }: UseRecordingPlaybackProps): UseRecordingPlaybackReturn {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const [segmentMessageId, setSegmentMessageId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Where to stop when playing a single segment
+  const stopAtMsRef = useRef<number | null>(null);
+
+  const recording = recordings.find((candidate) => candidate.id === selectedId) ?? recordings[0] ?? null;
+
+  const segments = useMemo(() => {
+    const saved = new Set(recordings.map((candidate) => candidate.id));
+    return messages.flatMap((message): { id: string; segment: RecordingSegment }[] =>
+      message.kind === 'user' && message.utterance?.recording && saved.has(message.utterance.recording.recordingId)
+        ? [{ id: message.id, segment: message.utterance.recording }]
+        : []
+    );
+  }, [messages, recordings]);
+
+  const playableMessageIds = useMemo(() => new Set(segments.map((segment) => segment.id)), [segments]);
+
+  const endSegment = useCallback(() => {
+    stopAtMsRef.current = null;
+    setSegmentMessageId(null);
+  }, []);
+
+  const getAudio = useCallback(() => {
+    if (!audioRef.current) {
+      const audio = new Audio();
+      audio.preload = 'metadata';
+      audio.ontimeupdate = () => {
+        const position = audio.currentTime * 1000;
+        setPositionMs(position);
+        if (stopAtMsRef.current !== null && position >= stopAtMsRef.current) {
+          endSegment();
+          audio.pause();
+        }
+      };
+      audio.onplay = () => setIsPlaying(true);
+      // Pause events arrive after the call that caused them, so segment state is cleared by the callers instead
+      audio.onpause = () => setIsPlaying(false);
+      audio.onended = () => {
+        endSegment();
+        setIsPlaying(false);
+      };
+      audio.onerror = () => log.error('Recording playback error:', audio.error?.message);
+      audioRef.current = audio;
+    }
+    return audioRef.current;
+  }, [endSegment]);
+
+  // Loads a recording and starts it at a position, waiting for its metadata when it is not loaded yet
+  const playFrom = useCallback((target: RecordingInfo, startMs: number) => {
+    const audio = getAudio();
+    const url = recordingUrl(sessionId, target.id);
+    const start = () => {
+      audio.currentTime = startMs / 1000;
+      audio.play().catch((e) => log.error('Could not play recording:', e));
+    };
+    if (audio.getAttribute('src') !== url) {
+      audio.src = url;
+      audio.addEventListener('loadedmetadata', start, { once: true });
+      audio.load();
+    } else {
+      start();
+    }
+    setSelectedId(target.id);
+  }, [sessionId, getAudio]);
+
+  const playSegment = useCallback((messageId: string) => {
+    const found = segments.find((candidate) => candidate.id === messageId);
+    const target = found && recordings.find((candidate) => candidate.id === found.segment.recordingId);
+    if (!found || !target) {
+      log.warn('No recorded audio for message:', messageId);
+      return;
+    }
+    log.debug('Playing segment of message:', messageId);
+    audioRef.current?.pause();
+    stopAtMsRef.current = found.segment.endMs;
+    setSegmentMessageId(messageId);
+    playFrom(target, found.segment.startMs);
+  }, [segments, recordings, playFrom]);
+
+  const togglePlayback = useCallback(() => {
+    if (!recording) {
+      return;
+    }
+    const audio = getAudio();
+    endSegment();
+    if (isPlaying) {
+      audio.pause();
+    } else {
+      playFrom(recording, audio.getAttribute('src') === recordingUrl(sessionId, recording.id) ? audio.currentTime * 1000 : 0);
+    }
+  }, [recording, isPlaying, sessionId, getAudio, playFrom, endSegment]);
+
+  const seek = useCallback((position: number) => {
+    const audio = audioRef.current;
+    endSegment();
+    setPositionMs(position);
+    if (audio && recording && audio.getAttribute('src') === recordingUrl(sessionId, recording.id)) {
+      audio.currentTime = position / 1000;
+    }
+  }, [recording, sessionId, endSegment]);
+
+  const selectRecording = useCallback((recordingId: string) => {
+    endSegment();
+    audioRef.current?.pause();
+    audioRef.current?.removeAttribute('src');
+    setSelectedId(recordingId);
+    setPositionMs(0);
+  }, [endSegment]);
+
+  const stop = useCallback(() => {
+    endSegment();
+    audioRef.current?.pause();
+  }, [endSegment]);
+
+  // Release the element when the session closes
+  useEffect(() => () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+  }, []);
+
+  const playingMessageId = !isPlaying || !recording
+    ? null
+    : segmentMessageId ?? findSegmentAt(segments, recording.id, positionMs);
+
+  return {
+    recording,
+    isPlaying,
+    positionMs,
+    playingMessageId,
+    playableMessageIds,
+    selectRecording,
+    togglePlayback,
+    seek,
+    playSegment,
+    stop,
+  };
+}
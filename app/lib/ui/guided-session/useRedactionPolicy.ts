@@ -0,0 +1,45 @@
+'use client';
+
+import { useCallback, useRef, useState, type RefObject } from 'react';
+import { saveRedactionPolicy } from '@/app/lib/actions/sessions/session-actions';
+import { DEFAULT_REDACTION_POLICY, validateRedactionPolicy, type RedactionPolicy } from '@/app/lib/redaction';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('useRedactionPolicy');
+
+export interface UseRedactionPolicyReturn {
+  policy: RedactionPolicy;
+  /** Mirrors `policy`, for callbacks that redact as transcripts arrive */
+  policyRef: RefObject<RedactionPolicy>;
+  error: Error | null;
+  /** Applies a new policy right away and saves it with the session; invalid policies are rejected */
+  update: (next: RedactionPolicy) => void;
+}
+
+/**
+ * The session's redaction policy, editable in the privacy panel
+ */
+export function useRedactionPolicy(sessionId: string, initialPolicy: RedactionPolicy = DEFAULT_REDACTION_POLICY): UseRedactionPolicyReturn {
+  const [policy, setPolicy] = useState(initialPolicy);
+  const [error, setError] = useState<Error | null>(null);
+  const policyRef = useRef(policy);
+
+  const update = useCallback((next: RedactionPolicy) => {
+    let validated: RedactionPolicy;
+    try {
+      validated = validateRedactionPolicy(next);
+    } catch (e) {
+      setError(e instanceof Error ? e : new Error(String(e)));
+      return;
+    }
+    policyRef.current = validated;
+    setPolicy(validated);
+    setError(null);
+    saveRedactionPolicy(sessionId, validated).catch((e) => {
+      log.error('Could not save redaction policy:', e);
+      setError(e instanceof Error ? e : new Error(String(e)));
+    });
+  }, [sessionId]);
+
+  return { policy, policyRef, error, update };
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { saveSessionMetadata } from '@/app/lib/actions/sessions/session-actions';
+import {
+  getScriptProgress,
+  isScriptRunState,
+  startScript,
+  submitAnswer,
+  type GuidedScript,
+  type ScriptProgress,
+  type ScriptRunState,
+  type ScriptUpdate,
+} from '@/app/lib/scripts';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('useScriptRunner');
+
+export interface UseScriptRunnerProps {
+  sessionId: string;
+  script?: GuidedScript;
+  /** A stored run of the same script to resume */
+  initialState?: ScriptRunState;
+}
+
+export interface UseScriptRunnerReturn {
+  state: ScriptRunState | null;
+  progress: ScriptProgress | null;
+  /** False once the script is complete, or when there is none */
+  isActive: boolean;
+  /** True when the run started fresh rather than resuming, so its first prompt has not been asked yet */
+  isNewRun: boolean;
+  /** Applies an answer to the current step, or returns null when no script is running */
+  answer: (transcript: string) => ScriptUpdate | null;
+  /** Starts the script over from its first step */
+  restart: () => ScriptRunState | null;
+}
+
+/**
+ * Runs a guided script alongside the conversation and saves its state with the session
+ */
+export function useScriptRunner({ sessionId, script, initialState }: UseScriptRunnerProps): UseScriptRunnerReturn {
+  // Decided once, on mount; restarts are announced by the caller that asked for them
+  const [isNewRun] = useState(() => !!script && !isScriptRunState(initialState, script.id));
+  const [state, setState] = useState<ScriptRunState | null>(() => {
+    if (!script) return null;
+    return isNewRun ? startScript(script) : initialState!;
+  });
+  // Mirrors `state` so answers that arrive back to back each see the previous one applied
+  const stateRef = useRef(state);
+  const lastSavedStateRef = useRef(isNewRun ? null : state);
+
+  const applyState = useCallback((next: ScriptRunState) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  const answer = useCallback((transcript: string) => {
+    const current = stateRef.current;
+    if (!script || !current || current.currentStepId === null) {
+      return null;
+    }
+    const update = submitAnswer(script, current, transcript);
+    log.debug('Step', current.currentStepId, 'answer', update.kind);
+    applyState(update.state);
+    return update;
+  }, [script, applyState]);
+
+  const restart = useCallback(() => {
+    if (!script) {
+      return null;
+    }
+    log.debug('Restarting script:', script.id);
+    const next = startScript(script);
+    applyState(next);
+    return next;
+  }, [script, applyState]);
+
+  // Save the run with the session, so reopening it picks up at the same step
+  useEffect(() => {
+    if (!state || state === lastSavedStateRef.current) {
+      return;
+    }
+    lastSavedStateRef.current = state;
+    saveSessionMetadata(sessionId, { scriptRun: state })
+      .catch((err) => log.error('Could not save script progress:', err));
+  }, [state, sessionId]);
+
+  const progress = useMemo(() => (script && state ? getScriptProgress(script, state) : null), [script, state]);
+
+  return {
+    state,
+    progress,
+    isActive: !!progress && !progress.isComplete,
+    isNewRun,
+    answer,
+    restart,
+  };
+}
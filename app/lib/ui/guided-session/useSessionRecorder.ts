@@ -0,0 +1,127 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { toRecordingSegment } from '@/app/lib/recordings/segments';
+import type { RecordingInfo, RecordingSegment } from '@/app/lib/recordings/types';
+import { uploadRecording } from './recording-upload';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('useSessionRecorder');
+
+// Preferred first; Safari only records MP4
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus'];
+// Recorded data is collected in slices, so a recorder that fails late keeps what it had
+const TIMESLICE_MS = 1000;
+
+interface ActiveRecording {
+  id: string;
+  startedAt: Date;
+  recorder: MediaRecorder;
+  chunks: Blob[];
+}
+
+export interface UseSessionRecorderProps {
+  sessionId: string;
+  /** The microphone stream sent for transcription; recording follows it as it changes */
+  stream: MediaStream | null;
+  enabled: boolean;
+  /** Recordings already saved with the session */
+  initialRecordings?: RecordingInfo[];
+}
+
+export interface UseSessionRecorderReturn {
+  isRecording: boolean;
+  /** Saved recordings, oldest first */
+  recordings: RecordingInfo[];
+  error: Error | null;
+  /** Where an utterance falls in the recording being made, or null when nothing is recording */
+  getSegment: (startedAt: Date, endedAt: Date | null) => RecordingSegment | null;
+}
+
+function pickMimeType(): string | undefined {
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+/**
+ * Records the transcription microphone stream with MediaRecorder and uploads each recording
+ * when it stops: when transcription stops, reconnects or switches microphones.
+ */
+export function useSessionRecorder({
+  sessionId,
+  stream,
+  enabled,
+  initialRecordings = [],
+}: UseSessionRecorderProps): UseSessionRecorderReturn {
+  const [recordings, setRecordings] = useState<RecordingInfo[]>(initialRecordings);
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const activeRef = useRef<ActiveRecording | null>(null);
+
+  const save = useCallback(async (recording: ActiveRecording) => {
+    const audio = new Blob(recording.chunks, { type: recording.recorder.mimeType || recording.chunks[0]?.type });
+    if (audio.size === 0) {
+      log.debug('Nothing recorded in:', recording.id);
+      return;
+    }
+    const durationMs = Date.now() - recording.startedAt.getTime();
+    log.debug('Uploading recording:', recording.id, 'bytes:', audio.size, 'duration ms:', durationMs);
+    try {
+      const info = await uploadRecording(sessionId, recording.id, recording.startedAt, durationMs, audio);
+      setRecordings((current) => [...current, info]);
+    } catch (e) {
+      log.error('Could not save recording:', e);
+      setError(e instanceof Error ? e : new Error(String(e)));
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!enabled || !stream || typeof MediaRecorder === 'undefined') {
+      return;
+    }
+
+    let recorder: MediaRecorder;
+    try {
+      const mimeType = pickMimeType();
+      recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    } catch (e) {
+      log.error('Could not create a recorder:', e);
+      setError(e instanceof Error ? e : new Error(String(e)));
+      return;
+    }
+
+    const recording: ActiveRecording = { id: uuidv4(), startedAt: new Date(), recorder, chunks: [] };
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        recording.chunks.push(event.data);
+      }
+    };
+    // Also fires when the stream's tracks end on their own
+    recorder.onstop = () => {
+      if (activeRef.current === recording) {
+        activeRef.current = null;
+        setIsRecording(false);
+      }
+      save(recording);
+    };
+
+    recorder.start(TIMESLICE_MS);
+    activeRef.current = recording;
+    setIsRecording(true);
+    setError(null);
+    log.debug('Recording started:', recording.id, 'type:', recorder.mimeType);
+
+    return () => {
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+    };
+  }, [enabled, stream, save]);
+
+  const getSegment = useCallback((startedAt: Date, endedAt: Date | null) => {
+    const recording = activeRef.current;
+    return recording ? toRecordingSegment(recording.id, recording.startedAt, startedAt, endedAt) : null;
+  }, []);
+
+  return { isRecording, recordings, error, getSegment };
+}
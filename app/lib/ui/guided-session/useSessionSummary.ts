@@ -0,0 +1,68 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import { saveEditedSummary, updateSessionSummary } from '@/app/lib/actions/summaries/summary-actions';
+import type { StoredMessage } from '@/app/lib/sessions';
+import type { ConversationSummary, StoredSummary } from '@/app/lib/summaries';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('useSessionSummary');
+
+export interface UseSessionSummaryProps {
+  sessionId: string;
+  /** The summary saved with a stored session */
+  initialSummary?: StoredSummary;
+}
+
+export interface UseSessionSummaryReturn {
+  summary: StoredSummary | null;
+  isSummarizing: boolean;
+  error: Error | null;
+  /** Summarizes what was said since the last update, or everything again with regenerate */
+  update: (messages: StoredMessage[], options?: { regenerate?: boolean }) => Promise<void>;
+  /** Saves the user's edits to the summary */
+  save: (edited: ConversationSummary) => Promise<void>;
+}
+
+/**
+ * The end-of-session summary, kept up to date on the server and saved with the session
+ */
+export function useSessionSummary({ sessionId, initialSummary }: UseSessionSummaryProps): UseSessionSummaryReturn {
+  const [summary, setSummary] = useState<StoredSummary | null>(initialSummary ?? null);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  // One request at a time; an update asked for meanwhile would only repeat it
+  const inFlightRef = useRef(false);
+
+  const update = useCallback(async (messages: StoredMessage[], { regenerate = false } = {}) => {
+    if (inFlightRef.current) {
+      log.debug('Summary update already running');
+      return;
+    }
+    inFlightRef.current = true;
+    setIsSummarizing(true);
+    setError(null);
+    try {
+      setSummary(await updateSessionSummary(sessionId, messages, { regenerate }));
+    } catch (e) {
+      log.error('Could not update summary:', e);
+      setError(e instanceof Error ? e : new Error(String(e)));
+    } finally {
+      inFlightRef.current = false;
+      setIsSummarizing(false);
+    }
+  }, [sessionId]);
+
+  const save = useCallback(async (edited: ConversationSummary) => {
+    setError(null);
+    try {
+      setSummary(await saveEditedSummary(sessionId, edited));
+    } catch (e) {
+      log.error('Could not save summary:', e);
+      setError(e instanceof Error ? e : new Error(String(e)));
+      throw e;
+    }
+  }, [sessionId]);
+
+  return { summary, isSummarizing, error, update, save };
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { synthesizeSpeech } from '@/app/lib/actions/tts/tts-actions';
+import { MAX_SPEECH_CHARACTERS, type SpeechAudio } from '@/app/lib/tts/types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('useSpeechPlayback');
+
+interface SpeechItem {
+  messageId: string;
+  text: string;
+}
+
+export interface UseSpeechPlaybackReturn {
+  /** The message currently being synthesized or played */
+  speakingMessageId: string | null;
+  isPaused: boolean;
+  queuedCount: number;
+  enqueue: (messageId: string, text: string) => void;
+  pause: () => void;
+  resume: () => void;
+  skip: () => void;
+  /** Stops playback and drops everything queued, e.g. when the user barges in */
+  stop: () => void;
+}
+
+/**
+ * Plays AI replies one after another through the TTS server action, metered against sessionId.
+ * Replies longer than the action accepts are read up to MAX_SPEECH_CHARACTERS.
+ */
+export function useSpeechPlayback(sessionId?: string): UseSpeechPlaybackReturn {
+  const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [queuedCount, setQueuedCount] = useState(0);
+
+  const queueRef = useRef<SpeechItem[]>([]);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const finishCurrentRef = useRef<(() => void) | null>(null);
+  const isPausedRef = useRef(false);
+  // Bumped by stop() so an in-flight drain loop knows it has been cancelled
+  const generationRef = useRef(0);
+  const drainingGenerationRef = useRef<number | null>(null);
+
+  const playAudio = useCallback((speech: SpeechAudio) => new Promise<void>((resolve) => {
+    const audio = new Audio(`data:${speech.mimeType};base64,${speech.audioBase64}`);
+    audioRef.current = audio;
+
+    const finish = () => {
+      audio.pause();
+      audioRef.current = null;
+      finishCurrentRef.current = null;
+      resolve();
+    };
+    finishCurrentRef.current = finish;
+    audio.onended = finish;
+    audio.onerror = () => {
+      log.error('Audio playback error');
+      finish();
+    };
+
+    // If paused while the reply was being synthesized, resume() starts it instead
+    if (!isPausedRef.current) {
+      audio.play().catch((e) => {
+        log.error('Could not start playback:', e);
+        finish();
+      });
+    }
+  }), []);
+
+  const drainQueue = useCallback(async () => {
+    const generation = generationRef.current;
+    if (drainingGenerationRef.current === generation) {
+      return;
+    }
+    drainingGenerationRef.current = generation;
+    log.debug('Starting playback, queued:', queueRef.current.length);
+
+    try {
+      while (generation === generationRef.current && queueRef.current.length > 0) {
+        const item = queueRef.current.shift()!;
+        setQueuedCount(queueRef.current.length);
+        setSpeakingMessageId(item.messageId);
+
+        try {
+          const speech = await synthesizeSpeech(item.text.slice(0, MAX_SPEECH_CHARACTERS), sessionId);
+          if (generation !== generationRef.current) {
+            break;
+          }
+          log.debug('Playing message:', item.messageId);
+          await playAudio(speech);
+        } catch (e) {
+          log.error('Could not speak message:', item.messageId, e);
+        }
+      }
+    } finally {
+      if (generation === generationRef.current) {
+        drainingGenerationRef.current = null;
+        setSpeakingMessageId(null);
+      }
+    }
+  }, [playAudio, sessionId]);
+
+  const enqueue = useCallback((messageId: string, text: string) => {
+    log.debug('Queueing message:', messageId);
+    queueRef.current.push({ messageId, text });
+    setQueuedCount(queueRef.current.length);
+    drainQueue();
+  }, [drainQueue]);
+
+  const pause = useCallback(() => {
+    log.debug('Pausing playback');
+    isPausedRef.current = true;
+    setIsPaused(true);
+    audioRef.current?.pause();
+  }, []);
+
+  const resume = useCallback(() => {
+    log.debug('Resuming playback');
+    isPausedRef.current = false;
+    setIsPaused(false);
+    audioRef.current?.play().catch((e) => {
+      log.error('Could not resume playback:', e);
+      finishCurrentRef.current?.();
+    });
+  }, []);
+
+  const skip = useCallback(() => {
+    log.debug('Skipping current message');
+    finishCurrentRef.current?.();
+  }, []);
+
+  const stop = useCallback(() => {
+    if (!audioRef.current && queueRef.current.length === 0 && drainingGenerationRef.current === null) {
+      return;
+    }
+    log.debug('Stopping playback and clearing queue');
+    generationRef.current += 1;
+    drainingGenerationRef.current = null;
+    queueRef.current = [];
+    isPausedRef.current = false;
+    setQueuedCount(0);
+    setIsPaused(false);
+    setSpeakingMessageId(null);
+    finishCurrentRef.current?.();
+  }, []);
+
+  // Silence playback when the session unmounts
+  useEffect(() => stop, [stop]);
+
+  return {
+    speakingMessageId,
+    isPaused,
+    queuedCount,
+    enqueue,
+    pause,
+    resume,
+    skip,
+    stop,
+  };
+}
@@ -1,402 +1,610 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { getEphemeralKey } from '@/app/lib/actions/transcription/transcription-actions';
-
-type TranscriptionStatus = 'idle' | 'connecting' | 'transcribing' | 'error' | 'disconnected';
-
-type TranscriptionEvent = {
-  type: string;
-  event_id?: string;
-  item_id?: string;
-  content_index?: number;
-  delta?: string;
-  transcript?: string;
-};
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import {
+  getEphemeralKey,
+  getIceConfiguration,
+  releaseTranscriptionSession,
+} from '@/app/lib/actions/transcription/transcription-actions';
+import { recordUsage } from '@/app/lib/actions/usage/usage-actions';
+import {
+  applyTranscriptionEvent,
+  computeBackoffDelay,
+  createTranscriptionTransport,
+  getDefaultTransportKind,
+  getUtteranceText,
+  type ClientTranscriptionEvent,
+  type IceConfiguration,
+  type KeyDenial,
+  type RecordedTranscriptionEvent,
+  type TranscriptionEvent,
+  type TranscriptionMode,
+  type TranscriptionTransport,
+  type TranscriptUtterance,
+  type TransportEvent,
+  type TransportKind,
+} from '@/app/lib/transcription';
+import type { TranscriptionConfigInput, TranscriptionPresetName } from '@/app/lib/transcription/config';
+import type { ClientUsageEvent } from '@/app/lib/usage/types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('useTranscription');
+
+export type TranscriptionStatus =
+  | 'idle'
+  | 'connecting'
+  | 'transcribing'
+  | 'reconnecting'
+  | 'error'
+  | 'disconnected'
+  /** The server refused a key because the user is not signed in */
+  | 'unauthenticated'
+  /** The server refused a key because a quota is used up */
+  | 'rate-limited';
+
+type SetupResult = { ok: true } | { ok: false; denial?: KeyDenial };
+
+const MAX_RECONNECT_ATTEMPTS = 6;
+// The API rejects commits of less than 100 ms of audio, so shorter turns are discarded
+const MIN_TURN_MS = 150;
+// Audio still in flight when the button is released; committing straight away would clip the last word
+const TURN_TAIL_MS = 250;
 
 export interface UseTranscriptionProps {
+  /** Called with the text of one utterance as it streams in, and once more when it is final */
   onTranscriptionUpdate?: (text: string, isFinal: boolean) => void;
+  /** Called once per utterance when its transcript completes */
+  onUtteranceFinal?: (utterance: TranscriptUtterance) => void;
+  /** Called when the server detects that the user has started speaking */
+  onSpeechStarted?: () => void;
   autoConnect?: boolean;
+  /** Which transport to connect with, or a ready-made transport instance */
+  transport?: TransportKind | TranscriptionTransport;
+  /** Events for the replay transport to play back */
+  replayRecording?: RecordedTranscriptionEvent[];
+  /** Named transcription settings, e.g. 'noisy-room' */
+  preset?: TranscriptionPresetName;
+  /** Transcription settings that override the defaults and the preset */
+  transcriptionConfig?: TranscriptionConfigInput;
+  /** Microphone to capture; switched in place when it changes mid-session */
+  deviceId?: string;
+  /** Push-to-talk disables server turn detection; applies from the next connect */
+  mode?: TranscriptionMode;
+  /** The guided session that keys, audio time and transcripts are metered against */
+  sessionId?: string;
 }
 
 export interface UseTranscriptionReturn {
   status: TranscriptionStatus;
+  /** Every utterance of the session, in spoken order */
+  utterances: TranscriptUtterance[];
+  /** Final text of all utterances, in spoken order */
   transcript: string;
+  /** Streaming text of the utterances that are not final yet */
   partialTranscript: string;
   isConnected: boolean;
+  /** The current mid-session reconnect attempt, or 0 when not reconnecting */
+  reconnectAttempt: number;
+  /** The microphone stream being transcribed, for level meters */
+  inputStream: MediaStream | null;
+  mode: TranscriptionMode;
+  /** Push-to-talk: whether the user is holding to talk */
+  isTurnActive: boolean;
+  /** Push-to-talk: starts capturing a turn */
+  beginTurn: () => void;
+  /** Push-to-talk: sends the turn for transcription, or discards it when cancelled */
+  endTurn: (options?: { cancel?: boolean }) => void;
+  /** Samples the current connection's statistics, for diagnostics */
+  getConnectionStats: () => Promise<RTCStatsReport | null>;
   startTranscription: () => Promise<void>;
   stopTranscription: () => void;
   error: Error | null;
+  /** Why the server last refused a key, while status is 'unauthenticated' or 'rate-limited' */
+  denial: KeyDenial | null;
 }
 
 export function useTranscription({
   onTranscriptionUpdate,
+  onUtteranceFinal,
+  onSpeechStarted,
   autoConnect = false,
+  transport: transportOption = getDefaultTransportKind(),
+  replayRecording,
+  preset,
+  transcriptionConfig,
+  deviceId,
+  mode = 'continuous',
+  sessionId,
 }: UseTranscriptionProps = {}): UseTranscriptionReturn {
-  console.log('[useTranscription] Initializing hook with autoConnect:', autoConnect);
-  
   const [status, setStatus] = useState<TranscriptionStatus>('idle');
-  const [transcript, setTranscript] = useState<string>('');
-  const [partialTranscript, setPartialTranscript] = useState<string>('');
+  const [utterances, setUtterances] = useState<TranscriptUtterance[]>([]);
   const [error, setError] = useState<Error | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [inputStream, setInputStream] = useState<MediaStream | null>(null);
+  const [isTurnActive, setIsTurnActive] = useState(false);
+  const [denial, setDenial] = useState<KeyDenial | null>(null);
   
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
-  const dataChannelRef = useRef<RTCDataChannel | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
+  const transportRef = useRef<TranscriptionTransport | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  // Updated synchronously so callbacks run once per event, outside of state updaters
+  const utterancesRef = useRef<TranscriptUtterance[]>([]);
+  // True from startTranscription until stopTranscription, so lost connections can be told from stops
+  const sessionActiveRef = useRef(false);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const handleConnectionLostRef = useRef<() => void>(() => undefined);
+  // Read at connect time, so picking a device doesn't recreate the connect callbacks
+  const deviceIdRef = useRef(deviceId);
+  // The mode of the connected session, which may differ from the prop until the next connect
+  const connectedModeRef = useRef<TranscriptionMode>(mode);
+  const turnStartedAtRef = useRef<number | null>(null);
+  // The server's handle on this session's concurrency slot, kept across reconnects
+  const leaseIdRef = useRef<string | null>(null);
+  // A released turn waiting out its tail before it is committed
+  const turnTailRef = useRef<{ timer: ReturnType<typeof setTimeout>; durationMs: number } | null>(null);
+
+  /**
+   * Meters usage of the paid API; callers skip transports that need no key, like replay, since they cost nothing
+   */
+  const reportUsage = useCallback((event: ClientUsageEvent) => {
+    if (!sessionId) {
+      return;
+    }
+    recordUsage(sessionId, event).catch((err) => log.warn('Could not record usage:', err));
+  }, [sessionId]);
 
   const handleTranscriptionEvent = useCallback(
     (event: TranscriptionEvent) => {
-      console.log('[useTranscription:handleTranscriptionEvent] Received event:', event.type);
-      
-      if (event.type === 'conversation.item.input_audio_transcription.delta' && event.delta) {
-        console.log('[useTranscription:handleTranscriptionEvent] Received delta:', event.delta);
-        setPartialTranscript((prev) => {
-          const updatedTranscript = prev + event.delta!;
-          onTranscriptionUpdate?.(updatedTranscript, false);
-          return updatedTranscript;
-        });
-      } else if (event.type === 'conversation.item.input_audio_transcription.completed' && event.transcript) {
-        console.log('[useTranscription:handleTranscriptionEvent] Received completed transcript:', event.transcript);
-        // Save the full transcript and reset the partial transcript
-        setTranscript((prev) => {
-          const newTranscript = prev ? `${prev} ${event.transcript}` : event.transcript || '';
-          onTranscriptionUpdate?.(newTranscript, true);
-          return newTranscript;
-        });
-        setPartialTranscript('');
+      log.debug('Received event:', event.type, 'item:', event.item_id);
+
+      const update = applyTranscriptionEvent(utterancesRef.current, event);
+      if (update.utterances === utterancesRef.current) {
+        log.debug('Unhandled event type:', event.type);
+        return;
+      }
+      utterancesRef.current = update.utterances;
+      setUtterances(update.utterances);
+
+      if (update.speechStarted) {
+        log.debug('Speech started');
+        onSpeechStarted?.();
+      }
+
+      if (update.finalized) {
+        log.debug('Utterance completed:', update.finalized.id);
+        if (transportRef.current?.requiresEphemeralKey) {
+          reportUsage({ type: 'transcript_completed', characters: getUtteranceText(update.finalized).length });
+        }
+        onTranscriptionUpdate?.(getUtteranceText(update.finalized), true);
+        onUtteranceFinal?.(update.finalized);
+      } else if (update.changed && event.type === 'conversation.item.input_audio_transcription.delta') {
+        onTranscriptionUpdate?.(update.changed.partialText, false);
+      }
+    },
+    [onTranscriptionUpdate, onUtteranceFinal, onSpeechStarted, reportUsage]
+  );
+
+  const handleTransportEvent = useCallback(
+    (event: TransportEvent) => {
+      if (event.type === 'transcription') {
+        handleTranscriptionEvent(event.event);
+      } else if (event.type === 'error') {
+        log.error('Transport error:', event.error);
+        setError(event.error);
       } else {
-        console.log('[useTranscription:handleTranscriptionEvent] Unhandled event type:', event);
+        log.debug('Transport state:', event.state);
+        if (event.state === 'connected') {
+          // Recovered, either on its own or through a reconnect
+          if (reconnectTimerRef.current) {
+            clearTimeout(reconnectTimerRef.current);
+            reconnectTimerRef.current = null;
+          }
+          reconnectAttemptRef.current = 0;
+          setReconnectAttempt(0);
+          setError(null);
+          setStatus('transcribing');
+        } else if (event.state === 'disconnected' || event.state === 'failed') {
+          handleConnectionLostRef.current();
+        }
       }
     },
-    [onTranscriptionUpdate]
+    [handleTranscriptionEvent]
   );
 
-  const setupTranscription = useCallback(async () => {
-    console.log('[useTranscription:setupTranscription] Setting up transcription');
+  /**
+   * In push-to-talk the microphone only sends audio during a turn
+   */
+  const syncMicrophoneEnabled = useCallback(() => {
+    const enabled = connectedModeRef.current !== 'push-to-talk' || turnStartedAtRef.current !== null;
+    transportRef.current?.inputStream?.getAudioTracks().forEach((track) => {
+      track.enabled = enabled;
+    });
+  }, []);
+
+  const sendClientEvent = useCallback((event: ClientTranscriptionEvent) => {
     try {
-      setStatus('connecting');
-      console.log('[useTranscription:setupTranscription] Status set to connecting');
-      setError(null);
+      transportRef.current?.send(event);
+    } catch (err) {
+      log.error('Could not send', event.type, err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    }
+  }, []);
 
-      // Get ephemeral key from server
-      console.log('[useTranscription:setupTranscription] Requesting ephemeral key');
-      const ephemeralKey = await getEphemeralKey();
-      if (!ephemeralKey) {
-        console.error('[useTranscription:setupTranscription] Failed to get ephemeral key - key is empty');
-        throw new Error('Failed to get ephemeral key');
-      }
-      console.log('[useTranscription:setupTranscription] Successfully received ephemeral key');
-
-      // Request access to microphone
-      console.log('[useTranscription:setupTranscription] Requesting microphone access');
-      const mediaStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaStreamRef.current = mediaStream;
-      console.log('[useTranscription:setupTranscription] Microphone access granted');
-
-      // Create a peer connection with STUN and TURN servers for better NAT traversal
-      console.log('[useTranscription:setupTranscription] Creating RTCPeerConnection with TURN servers');
-      const peerConnection = new RTCPeerConnection({
-        iceServers: [
-          // STUN servers - help discover public IP address
-          { urls: 'stun:stun.l.google.com:19302' },
-          { urls: 'stun:stun1.l.google.com:19302' },
-          { urls: 'stun:stun2.l.google.com:19302' },
-          { urls: 'stun:stun3.l.google.com:19302' },
-          { urls: 'stun:stun4.l.google.com:19302' },
-          
-          // TURN servers - relay traffic when direct connection fails
-          // Note: In production, replace these with your actual TURN servers
-          // Free TURN server examples (limited capacity, not for production use)
-          {
-            urls: 'turn:openrelay.metered.ca:80',
-            username: 'openrelayproject',
-            credential: 'openrelayproject'
-          },
-          {
-            urls: 'turn:openrelay.metered.ca:443',
-            username: 'openrelayproject',
-            credential: 'openrelayproject'
-          },
-          {
-            urls: 'turn:openrelay.metered.ca:443?transport=tcp',
-            username: 'openrelayproject',
-            credential: 'openrelayproject'
-          }
-          
-          // For production, use a dedicated TURN service like Twilio, Xirsys, or your own:
-          // { 
-          //   urls: "turn:your-turn-server.com:3478",
-          //   username: "your-username", 
-          //   credential: "your-password"
-          // }
-        ],
-        iceCandidatePoolSize: 10 // Increase candidate pool size
-      });
-      peerConnectionRef.current = peerConnection;
+  const resetTurn = useCallback(() => {
+    if (turnTailRef.current) {
+      clearTimeout(turnTailRef.current.timer);
+      turnTailRef.current = null;
+    }
+    turnStartedAtRef.current = null;
+    setIsTurnActive(false);
+  }, []);
 
-      // Add the audio track from the microphone to the peer connection
-      console.log('[useTranscription:setupTranscription] Adding audio tracks');
-      mediaStream.getAudioTracks().forEach((track) => {
-        console.log('[useTranscription:setupTranscription] Adding track:', track.label);
-        peerConnection.addTrack(track, mediaStream);
-      });
+  /**
+   * Disconnects and forgets the current transport without touching the status
+   */
+  const teardownTransport = useCallback(() => {
+    // Stop listening first so the transport's own close is not reported as a disconnect
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+
+    if (transportRef.current) {
+      log.debug('Disconnecting transport:', transportRef.current.kind);
+      transportRef.current.disconnect();
+      transportRef.current = null;
+    }
+    setInputStream(null);
+    resetTurn();
+  }, [resetTurn]);
+
+  const releaseLease = useCallback(() => {
+    const leaseId = leaseIdRef.current;
+    leaseIdRef.current = null;
+    if (leaseId) {
+      releaseTranscriptionSession(leaseId).catch((err) => log.warn('Could not release session lease:', err));
+    }
+  }, []);
 
-      // Create a data channel for sending and receiving events
-      console.log('[useTranscription:setupTranscription] Creating data channel');
-      const dataChannel = peerConnection.createDataChannel('oai-events');
-      dataChannelRef.current = dataChannel;
-
-      // Set up data channel event handlers
-      dataChannel.onopen = () => {
-        console.log('[useTranscription:dataChannel] Data channel opened');
-        setStatus('transcribing');
-      };
-
-      dataChannel.onmessage = (event) => {
-        try {
-          console.log('[useTranscription:dataChannel] Received message');
-          const data = JSON.parse(event.data);
-          handleTranscriptionEvent(data);
-        } catch (e) {
-          console.error('[useTranscription:dataChannel] Error parsing data channel message:', e);
-        }
-      };
-
-      dataChannel.onclose = () => {
-        console.log('[useTranscription:dataChannel] Data channel closed');
-        setStatus('disconnected');
-      };
-
-      dataChannel.onerror = (e) => {
-        console.error('[useTranscription:dataChannel] Data channel error:', e);
-        setError(new Error('Data channel error'));
-        setStatus('error');
-      };
-
-      // Log ICE candidate gathering
-      const gatheredCandidates = [];
-      peerConnection.onicecandidate = (event) => {
-        if (event.candidate) {
-          gatheredCandidates.push(event.candidate);
-          console.log('[useTranscription:peerConnection] ICE candidate gathered:', JSON.stringify(event.candidate));
-        } else {
-          console.log('[useTranscription:peerConnection] ICE candidate gathering complete, total candidates:', gatheredCandidates.length);
-        }
-      };
-
-      // Enhanced ICE connection state logging
-      peerConnection.oniceconnectionstatechange = () => {
-        console.log('[useTranscription:peerConnection] ICE connection state changed:', peerConnection.iceConnectionState);
-        if (peerConnection.iceConnectionState === 'disconnected' || 
-            peerConnection.iceConnectionState === 'failed' || 
-            peerConnection.iceConnectionState === 'closed') {
-          console.log('[useTranscription:peerConnection] Connection ended, setting status to disconnected');
-          setStatus('disconnected');
-        } else if (peerConnection.iceConnectionState === 'connected' || 
-                  peerConnection.iceConnectionState === 'completed') {
-          console.log('[useTranscription:peerConnection] Connection established');
-          setStatus('transcribing');
-        }
-      };
-
-      peerConnection.onicecandidateerror = (e) => {
-        console.error('[useTranscription:peerConnection] ICE candidate error:', e);
-      };
-
-      // Add log for ice gathering state changes
-      peerConnection.onicegatheringstatechange = () => {
-        console.log('[useTranscription:peerConnection] ICE gathering state changed:', peerConnection.iceGatheringState);
-      };
-
-      // Create an offer for the WebRTC connection
-      console.log('[useTranscription:setupTranscription] Creating offer');
-      const offer = await peerConnection.createOffer();
-      await peerConnection.setLocalDescription(offer);
-      console.log('[useTranscription:setupTranscription] Local description set');
-      
-      // Wait for ICE gathering to complete before sending the offer
-      console.log('[useTranscription:setupTranscription] Waiting for ICE gathering to complete...');
-      await new Promise<void>((resolve) => {
-        if (peerConnection.iceGatheringState === 'complete') {
-          console.log('[useTranscription:setupTranscription] ICE gathering already complete');
-          resolve();
-        } else {
-          console.log('[useTranscription:setupTranscription] ICE gathering in progress:', peerConnection.iceGatheringState);
-          
-          // Set a timeout to prevent indefinite waiting
-          const timeoutId = setTimeout(() => {
-            console.log('[useTranscription:setupTranscription] ICE gathering timeout after 5 seconds, proceeding anyway');
-            resolve();
-          }, 5000);
-          
-          peerConnection.addEventListener('icegatheringstatechange', () => {
-            if (peerConnection.iceGatheringState === 'complete') {
-              console.log('[useTranscription:setupTranscription] ICE gathering complete event received');
-              clearTimeout(timeoutId);
-              resolve();
-            }
-          });
-        }
-      });
-      
-      console.log('[useTranscription:setupTranscription] ICE gathering complete, gathered candidates:', gatheredCandidates.length);
+  /**
+   * Ends the session after the server refused a key; retrying would only be refused again
+   */
+  const applyDenial = useCallback((keyDenial: KeyDenial) => {
+    log.warn('Ephemeral key denied:', keyDenial.reason);
+    sessionActiveRef.current = false;
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(0);
+    releaseLease();
+    setDenial(keyDenial);
+    setStatus(keyDenial.reason === 'unauthenticated' ? 'unauthenticated' : 'rate-limited');
+  }, [releaseLease]);
+
+  const setupTranscription = useCallback(async (): Promise<SetupResult> => {
+    log.debug('Setting up transcription');
+    try {
+      setError(null);
 
-      // Get the complete SDP with all gathered candidates
-      const completeSdp = peerConnection.localDescription?.sdp;
-      if (!completeSdp) {
-        throw new Error('No local description available after ICE gathering');
-      }
-      
-      // Log the first 300 and last 300 characters of the SDP for debugging
-      console.log('[useTranscription:setupTranscription] Complete SDP Offer (beginning):', 
-        completeSdp.substring(0, 300) + '...');
-      console.log('[useTranscription:setupTranscription] Complete SDP Offer (end):', 
-        '...' + completeSdp.substring(completeSdp.length - 300));
-      console.log('[useTranscription:setupTranscription] SDP Offer contains candidates:', completeSdp.includes('a=candidate:'));
-
-      // Connect to the OpenAI Realtime API with the ephemeral key
-      console.log('[useTranscription:setupTranscription] Connecting to OpenAI Realtime API with intent=transcription');
-      const response = await fetch(
-        'https://api.openai.com/v1/realtime?intent=transcription',
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${ephemeralKey}`,
-            'Content-Type': 'application/sdp',
-            'OpenAI-Beta': 'realtime=v1'
-          },
-          body: completeSdp, // Using the complete SDP with all ICE candidates
+      const transport = typeof transportOption === 'string'
+        ? createTranscriptionTransport(transportOption, { recording: replayRecording })
+        : transportOption;
+      transportRef.current = transport;
+      unsubscribeRef.current = transport.subscribe(handleTransportEvent);
+      log.debug('Using transport:', transport.kind);
+
+      let ephemeralKey: string | undefined;
+      if (transport.requiresEphemeralKey) {
+        // Get ephemeral key from server; a new one for every connect, since they are short-lived
+        log.debug('Requesting ephemeral key');
+        const config = mode === 'push-to-talk'
+          ? { ...transcriptionConfig, vad: { ...transcriptionConfig?.vad, type: 'none' as const } }
+          : transcriptionConfig;
+        const result = await getEphemeralKey({ preset, config }, leaseIdRef.current ?? undefined, sessionId);
+        if (!result.ok) {
+          teardownTransport();
+          return { ok: false, denial: result.denial };
         }
-      );
-
-      console.log('[useTranscription:setupTranscription] API response status:', response.status);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('[useTranscription:setupTranscription] API Error Response:', errorText);
-        throw new Error(`Failed to connect to OpenAI Realtime API: ${response.status} - ${errorText}`);
+        ephemeralKey = result.ephemeralKey;
+        leaseIdRef.current = result.leaseId;
+        log.debug('Successfully received ephemeral key');
       }
 
-      const answerSdp = await response.text();
-      console.log('[useTranscription:setupTranscription] Received SDP answer');
-      console.log('[useTranscription:setupTranscription] SDP Answer (beginning):', 
-        answerSdp.substring(0, 300) + '...');
-      console.log('[useTranscription:setupTranscription] SDP Answer (end):', 
-        '...' + answerSdp.substring(answerSdp.length - 300));
-      console.log('[useTranscription:setupTranscription] SDP Answer contains candidates:', answerSdp.includes('a=candidate:'));
-      
-      const answer = { type: 'answer', sdp: answerSdp } as RTCSessionDescriptionInit;
-      await peerConnection.setRemoteDescription(answer);
-      console.log('[useTranscription:setupTranscription] Remote description set');
+      let iceConfiguration: IceConfiguration | undefined;
+      if (transport.requiresIceConfiguration) {
+        // Fresh TURN credentials for every connect and reconnect
+        log.debug('Requesting ICE configuration');
+        const result = await getIceConfiguration();
+        if (!result.ok) {
+          teardownTransport();
+          return { ok: false, denial: result.denial };
+        }
+        iceConfiguration = result.configuration;
+      }
 
-      console.log('[useTranscription:setupTranscription] Setup complete, waiting for connection to establish');
+      await transport.connect({ ephemeralKey, iceConfiguration, deviceId: deviceIdRef.current });
+      connectedModeRef.current = mode;
+      syncMicrophoneEnabled();
+      setInputStream(transport.inputStream);
+      log.debug('Setup complete, waiting for connection to establish');
       
-      // Return success to indicate setup was completed
-      return true;
+      return { ok: true };
     } catch (err) {
-      console.error('[useTranscription:setupTranscription] Error during setup:', err);
+      log.error('Error during setup:', err);
       setError(err instanceof Error ? err : new Error(String(err)));
-      setStatus('error');
-      // Clean up any resources
-      stopTranscription();
-      // Return false to indicate setup failed
-      return false;
+      // Clean up the failed transport; the caller decides what status to show
+      teardownTransport();
+      return { ok: false };
+    }
+  }, [transportOption, replayRecording, preset, transcriptionConfig, mode, sessionId, handleTransportEvent, teardownTransport, syncMicrophoneEnabled]);
+
+  /**
+   * Recovers a session whose connection dropped: a new ephemeral key and a new transport,
+   * after an exponential backoff with jitter. Utterances are kept across attempts.
+   */
+  const handleConnectionLost = useCallback(() => {
+    if (!sessionActiveRef.current) {
+      setStatus('disconnected');
+      return;
+    }
+    if (reconnectTimerRef.current) {
+      // A reconnect is already scheduled
+      return;
+    }
+
+    const attempt = reconnectAttemptRef.current + 1;
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      log.error('Giving up after', MAX_RECONNECT_ATTEMPTS, 'reconnect attempts');
+      sessionActiveRef.current = false;
+      reconnectAttemptRef.current = 0;
+      setReconnectAttempt(0);
+      teardownTransport();
+      releaseLease();
+      setError(new Error('Connection lost and could not be restored'));
+      setStatus('disconnected');
+      return;
     }
-  }, [handleTranscriptionEvent]);
+
+    const delay = computeBackoffDelay(attempt);
+    log.debug('Reconnect attempt', attempt, 'in', Math.round(delay), 'ms');
+    reconnectAttemptRef.current = attempt;
+    setReconnectAttempt(attempt);
+    setStatus('reconnecting');
+
+    reconnectTimerRef.current = setTimeout(async () => {
+      reconnectTimerRef.current = null;
+      if (!sessionActiveRef.current) {
+        return;
+      }
+
+      // Utterances that were mid-flight on the old connection will never complete
+      const pending = utterancesRef.current.filter((utterance) => utterance.status !== 'final');
+      if (pending.length > 0) {
+        log.debug('Dropping', pending.length, 'unfinished utterances');
+        utterancesRef.current = utterancesRef.current.filter((utterance) => utterance.status === 'final');
+        setUtterances(utterancesRef.current);
+      }
+
+      teardownTransport();
+      const result = await setupTranscription();
+      if (!result.ok && sessionActiveRef.current) {
+        if (result.denial) {
+          applyDenial(result.denial);
+        } else {
+          handleConnectionLostRef.current();
+        }
+      }
+    }, delay);
+  }, [setupTranscription, teardownTransport, releaseLease, applyDenial]);
+
+  useEffect(() => {
+    handleConnectionLostRef.current = handleConnectionLost;
+  }, [handleConnectionLost]);
 
   const startTranscription = useCallback(async () => {
-    console.log('[useTranscription:startTranscription] Starting transcription with retry logic');
+    log.debug('Starting transcription with retry logic');
+    sessionActiveRef.current = true;
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(0);
+    setDenial(null);
+    setStatus('connecting');
     
     let retries = 3;
     while (retries > 0) {
       try {
-        const success = await setupTranscription();
-        if (success) {
-          console.log('[useTranscription:startTranscription] Setup successful');
+        const result = await setupTranscription();
+        if (!sessionActiveRef.current) {
+          // Stopped while connecting
+          teardownTransport();
+          releaseLease();
+          return;
+        }
+        if (result.ok) {
+          log.debug('Setup successful');
           break; // Exit retry loop if successful
+        } else if (result.denial) {
+          applyDenial(result.denial);
+          return;
         } else {
           throw new Error('Setup failed');
         }
-      } catch (err) {
+      } catch {
+        // setupTranscription has already recorded the error
         retries--;
-        console.error(`[useTranscription:startTranscription] Setup failed. Retries left: ${retries}`);
+        log.error(`Setup failed. Retries left: ${retries}`);
         
         if (retries === 0) {
-          console.error('[useTranscription:startTranscription] All retry attempts failed');
-          setError(err instanceof Error ? err : new Error(String(err)));
+          log.error('All retry attempts failed');
+          sessionActiveRef.current = false;
+          releaseLease();
           setStatus('error');
-          stopTranscription();
           return;
         }
         
         // Wait before retrying
-        console.log('[useTranscription:startTranscription] Waiting 2 seconds before retry');
+        log.debug('Waiting 2 seconds before retry');
         await new Promise((resolve) => setTimeout(resolve, 2000));
       }
     }
-  }, [setupTranscription]);
+  }, [setupTranscription, teardownTransport, releaseLease, applyDenial]);
 
   const stopTranscription = useCallback(() => {
-    console.log('[useTranscription:stopTranscription] Stopping transcription');
-    
-    // Stop all tracks in the media stream
-    if (mediaStreamRef.current) {
-      console.log('[useTranscription:stopTranscription] Stopping media tracks');
-      mediaStreamRef.current.getTracks().forEach((track) => {
-        console.log('[useTranscription:stopTranscription] Stopping track:', track.label);
-        track.stop();
+    log.debug('Stopping transcription');
+    sessionActiveRef.current = false;
+
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(0);
+
+    teardownTransport();
+    releaseLease();
+
+    // Update state
+    log.debug('Setting status to idle');
+    setStatus('idle');
+  }, [teardownTransport, releaseLease]);
+
+  // Move a live session to the newly picked microphone instead of reconnecting
+  useEffect(() => {
+    deviceIdRef.current = deviceId;
+    const transport = transportRef.current;
+    if (!deviceId || !transport?.inputStream) {
+      return;
+    }
+    if (transport.inputStream.getAudioTracks()[0]?.getSettings().deviceId === deviceId) {
+      return;
+    }
+
+    log.debug('Switching input device');
+    transport.switchInputDevice(deviceId)
+      .then(() => {
+        if (transportRef.current === transport) {
+          syncMicrophoneEnabled();
+          setInputStream(transport.inputStream);
+        }
+      })
+      .catch((err) => {
+        log.error('Could not switch input device:', err);
+        setError(err instanceof Error ? err : new Error(String(err)));
       });
-      mediaStreamRef.current = null;
+  }, [deviceId, syncMicrophoneEnabled]);
+
+  const finishTurn = useCallback((durationMs: number, cancel: boolean) => {
+    turnTailRef.current = null;
+    syncMicrophoneEnabled();
+
+    if (cancel || durationMs < MIN_TURN_MS) {
+      log.debug('Discarding turn, cancelled:', cancel, 'duration:', durationMs);
+      sendClientEvent({ type: 'input_audio_buffer.clear' });
+    } else {
+      log.debug('Committing turn of', durationMs, 'ms');
+      sendClientEvent({ type: 'input_audio_buffer.commit' });
     }
+  }, [sendClientEvent, syncMicrophoneEnabled]);
 
-    // Close the data channel
-    if (dataChannelRef.current) {
-      console.log('[useTranscription:stopTranscription] Closing data channel');
-      dataChannelRef.current.close();
-      dataChannelRef.current = null;
+  const beginTurn = useCallback(() => {
+    if (connectedModeRef.current !== 'push-to-talk' || status !== 'transcribing' || turnStartedAtRef.current !== null) {
+      return;
+    }
+    if (turnTailRef.current) {
+      // The previous turn is still in its tail; finish it before starting the next one
+      clearTimeout(turnTailRef.current.timer);
+      finishTurn(turnTailRef.current.durationMs, false);
+    } else {
+      // Drop anything left in the buffer from between turns
+      sendClientEvent({ type: 'input_audio_buffer.clear' });
     }
 
-    // Close the peer connection
-    if (peerConnectionRef.current) {
-      console.log('[useTranscription:stopTranscription] Closing peer connection');
-      peerConnectionRef.current.close();
-      peerConnectionRef.current = null;
+    log.debug('Turn started');
+    turnStartedAtRef.current = Date.now();
+    setIsTurnActive(true);
+    syncMicrophoneEnabled();
+  }, [status, finishTurn, sendClientEvent, syncMicrophoneEnabled]);
+
+  const endTurn = useCallback(({ cancel = false }: { cancel?: boolean } = {}) => {
+    const startedAt = turnStartedAtRef.current;
+    if (startedAt === null) {
+      return;
     }
+    turnStartedAtRef.current = null;
+    setIsTurnActive(false);
+
+    const durationMs = Date.now() - startedAt;
+    if (cancel) {
+      finishTurn(durationMs, true);
+    } else {
+      turnTailRef.current = { timer: setTimeout(() => finishTurn(durationMs, false), TURN_TAIL_MS), durationMs };
+    }
+  }, [finishTurn]);
 
-    // Update state
-    console.log('[useTranscription:stopTranscription] Setting status to idle');
-    setStatus('idle');
-  }, []);
+  const getConnectionStats = useCallback(
+    async () => transportRef.current?.getConnectionStats() ?? null,
+    []
+  );
 
   // Auto-connect if specified
   useEffect(() => {
-    console.log('[useTranscription:useEffect] Status:', status, 'AutoConnect:', autoConnect);
+    log.debug('Status:', status, 'AutoConnect:', autoConnect);
     if (autoConnect && status === 'idle') {
-      console.log('[useTranscription:useEffect] Auto-connecting');
+      log.debug('Auto-connecting');
       startTranscription();
     }
+  }, [autoConnect, status, startTranscription]);
 
-    // Clean up when component unmounts
+  // Clean up when component unmounts
+  useEffect(() => {
     return () => {
-      console.log('[useTranscription:useEffect] Cleanup on unmount');
+      log.debug('Cleanup on unmount');
       stopTranscription();
     };
-  }, [autoConnect, status, startTranscription, stopTranscription]);
+  }, [stopTranscription]);
 
   // Log status changes
   useEffect(() => {
-    console.log('[useTranscription:statusChange] Status changed to:', status);
+    log.debug('Status changed to:', status);
   }, [status]);
 
+  // Meter connected audio time: one record per stretch spent transcribing, ended by any other status or unmount
+  useEffect(() => {
+    // Read now: the transport is already gone by the time a stop ends the stretch
+    if (status !== 'transcribing' || !transportRef.current?.requiresEphemeralKey) {
+      return;
+    }
+    const connectedAt = Date.now();
+    return () => {
+      const durationMs = Date.now() - connectedAt;
+      if (durationMs > 0) {
+        reportUsage({ type: 'audio_connected', durationMs });
+      }
+    };
+  }, [status, reportUsage]);
+
   const isConnected = status === 'transcribing';
 
+  const transcript = useMemo(
+    () => utterances.filter((utterance) => utterance.status === 'final').map(getUtteranceText).filter(Boolean).join(' '),
+    [utterances]
+  );
+  const partialTranscript = useMemo(
+    () => utterances.filter((utterance) => utterance.status !== 'final').map(getUtteranceText).filter(Boolean).join(' '),
+    [utterances]
+  );
+
   return {
     status,
+    utterances,
     transcript,
     partialTranscript,
     isConnected,
+    reconnectAttempt,
+    inputStream,
+    mode,
+    isTurnActive,
+    beginTurn,
+    endTurn,
+    getConnectionStats,
     startTranscription,
     stopTranscription,
     error,
+    denial,
   };
 } 
\ No newline at end of file
@@ -0,0 +1,158 @@
+/**
+ * A small Markdown subset for AI replies: fenced code, headings, lists, quotes, paragraphs,
+ * and inline code, bold, italics and links. Parsed to plain nodes so rendering never injects HTML.
+ * Unclosed fences and emphasis are tolerated, since replies are rendered while they stream in.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type MarkdownBlock =
+  | { type: 'code'; language: string | null; code: string }
+  | { type: 'heading'; level: 1 | 2 | 3; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'quote'; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] };
+
+const FENCE = /^```\s*([\w+-]*)\s*$/;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !FENCE.test(lines[index])) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      index += 1;
+      blocks.push({ type: 'code', language: fence[1] || null, code: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+      index += 1;
+      continue;
+    }
+
+    const listPattern = UNORDERED_ITEM.test(line) ? UNORDERED_ITEM : ORDERED_ITEM.test(line) ? ORDERED_ITEM : null;
+    if (listPattern) {
+      const items: InlineNode[][] = [];
+      while (index < lines.length) {
+        const item = lines[index].match(listPattern);
+        if (!item) break;
+        items.push(parseInline(item[1]));
+        index += 1;
+      }
+      blocks.push({ type: 'list', ordered: listPattern === ORDERED_ITEM, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(lines[index].match(QUOTE)![1]);
+        index += 1;
+      }
+      blocks.push({ type: 'quote', children: parseInline(quoted.join('\n')) });
+      continue;
+    }
+
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !FENCE.test(lines[index]) &&
+      !HEADING.test(lines[index]) &&
+      !UNORDERED_ITEM.test(lines[index]) &&
+      !ORDERED_ITEM.test(lines[index]) &&
+      !QUOTE.test(lines[index])
+    ) {
+      paragraph.push(lines[index]);
+      index += 1;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) {
+      nodes.push({ type: 'text', text: plain });
+      plain = '';
+    }
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const rest = text.slice(index);
+
+    if (rest.startsWith('`')) {
+      const end = text.indexOf('`', index + 1);
+      if (end > index + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(index + 1, end) });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    const strong = rest.match(/^(\*\*|__)([\s\S]+?)\1/);
+    if (strong) {
+      flush();
+      nodes.push({ type: 'strong', children: parseInline(strong[2]) });
+      index += strong[0].length;
+      continue;
+    }
+
+    // Emphasis may not start or end with a space, so "2 * 3 * 4" stays text
+    const emphasis = rest.match(/^(\*|_)(\S(?:[\s\S]*?\S)?)\1/);
+    if (emphasis && !(emphasis[1] === '_' && /\w/.test(text[index - 1] ?? ''))) {
+      flush();
+      nodes.push({ type: 'emphasis', children: parseInline(emphasis[2]) });
+      index += emphasis[0].length;
+      continue;
+    }
+
+    const link = rest.match(/^\[([^\]]+)\]\(([^)\s]+)\)/);
+    if (link && SAFE_LINK.test(link[2])) {
+      flush();
+      nodes.push({ type: 'link', href: link[2], children: parseInline(link[1]) });
+      index += link[0].length;
+      continue;
+    }
+
+    plain += text[index];
+    index += 1;
+  }
+
+  flush();
+  return nodes;
+}
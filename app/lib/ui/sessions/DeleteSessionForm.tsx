@@ -0,0 +1,23 @@
+import { deleteSession } from '@/app/lib/actions/sessions/session-actions';
+
+interface DeleteSessionFormProps {
+  sessionId: string;
+  title: string;
+}
+
+/**
+ * Deletes a session with its recordings
+ */
+export default function DeleteSessionForm({ sessionId, title }: DeleteSessionFormProps) {
+  return (
+    <form action={deleteSession.bind(null, sessionId)}>
+      <button
+        type="submit"
+        aria-label={`Delete ${title}`}
+        className="px-2 py-0.5 text-xs rounded border border-red-300 text-red-600 dark:border-red-700 dark:text-red-400"
+      >
+        Delete
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,22 @@
+import type { ReactNode } from 'react';
+import type { Snippet } from '@/app/lib/sessions/search';
+
+/**
+ * Snippet text with the parts that matched the search marked
+ */
+export default function HighlightedSnippet({ snippet }: { snippet: Snippet }) {
+  const parts: ReactNode[] = [];
+  let offset = 0;
+  snippet.highlights.forEach(({ start, end }, i) => {
+    parts.push(snippet.text.slice(offset, start));
+    parts.push(
+      <mark key={i} className="rounded px-0.5 bg-yellow-200 dark:bg-yellow-700 dark:text-white">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    offset = end;
+  });
+  parts.push(snippet.text.slice(offset));
+
+  return <span className="break-words">{parts}</span>;
+}
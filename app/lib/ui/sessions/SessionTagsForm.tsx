@@ -0,0 +1,26 @@
+import { saveSessionTags } from '@/app/lib/actions/sessions/session-actions';
+
+interface SessionTagsFormProps {
+  sessionId: string;
+  tags: string[];
+}
+
+/**
+ * Edits a session's tags as one comma-separated field
+ */
+export default function SessionTagsForm({ sessionId, tags }: SessionTagsFormProps) {
+  return (
+    <form action={saveSessionTags.bind(null, sessionId)} className="flex items-center gap-1">
+      <input
+        name="tags"
+        defaultValue={tags.join(', ')}
+        placeholder="Add tags, comma separated"
+        aria-label="Tags"
+        className="w-48 px-2 py-0.5 text-xs rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+      />
+      <button type="submit" className="px-2 py-0.5 text-xs rounded border border-gray-300 dark:border-gray-600">
+        Save
+      </button>
+    </form>
+  );
+}
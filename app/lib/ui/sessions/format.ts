@@ -0,0 +1,23 @@
+export function formatSessionDate(iso: string): string {
+  return new Date(iso).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function formatSessionDuration(durationMs: number): string {
+  const totalSeconds = Math.round(durationMs / 1000);
+  if (totalSeconds < 60) {
+    return `${totalSeconds}s`;
+  }
+  const minutes = Math.floor(totalSeconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${totalSeconds % 60}s`;
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Opens a session scrolled to one of its messages
+ */
+export function sessionMessageHref(sessionId: string, messageId?: string): string {
+  const path = `/guided-session/${encodeURIComponent(sessionId)}`;
+  return messageId ? `${path}?message=${encodeURIComponent(messageId)}` : path;
+}
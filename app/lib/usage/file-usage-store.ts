@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { isValidSessionId } from '@/app/lib/sessions';
+import type { UsageQuery, UsageRecord, UsageStore } from './types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('FileUsageStore');
+
+/**
+ * Appends each session's usage records to a JSON Lines file in a directory, for local development
+ */
+export class FileUsageStore implements UsageStore {
+  constructor(private readonly directory: string) {}
+
+  async record(input: Omit<UsageRecord, 'id' | 'recordedAt'>): Promise<UsageRecord> {
+    if (!isValidSessionId(input.sessionId)) {
+      throw new Error(`Invalid session id "${input.sessionId}"`);
+    }
+    const record: UsageRecord = { id: uuidv4(), recordedAt: new Date().toISOString(), ...input };
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.appendFile(this.filePath(input.sessionId), `${JSON.stringify(record)}\n`, 'utf8');
+    log.debug('Recorded', record.event.type, 'for session:', record.sessionId);
+    return record;
+  }
+
+  async list({ userId, sessionId }: UsageQuery = {}): Promise<UsageRecord[]> {
+    let sessionIds: string[];
+    if (sessionId !== undefined) {
+      sessionIds = isValidSessionId(sessionId) ? [sessionId] : [];
+    } else {
+      try {
+        const files = await fs.readdir(this.directory);
+        sessionIds = files.filter((file) => file.endsWith('.jsonl')).map((file) => path.basename(file, '.jsonl'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return [];
+        }
+        throw error;
+      }
+    }
+
+    const records = (await Promise.all(sessionIds.map((id) => this.readSession(id)))).flat();
+    return records
+      .filter((record) => userId === undefined || record.userId === userId)
+      .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  }
+
+  private async readSession(sessionId: string): Promise<UsageRecord[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath(sessionId), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as UsageRecord);
+      } catch {
+        // A write cut short by a crash leaves a partial last line
+        log.warn('Skipping unreadable usage record in session:', sessionId);
+      }
+    }
+    return records;
+  }
+
+  private filePath(sessionId: string): string {
+    return path.join(this.directory, `${sessionId}.jsonl`);
+  }
+}
@@ -0,0 +1,40 @@
+import path from 'path';
+import { FileUsageStore } from './file-usage-store';
+import type { UsageEvent, UsageStore } from './types';
+import { createLogger } from '@/app/lib/logging';
+
+const log = createLogger('Usage');
+
+export { getUsagePricing } from './pricing';
+export { estimateCost, summarizeUsage, summarizeUsageBySession } from './summary';
+export { ANONYMOUS_USER_ID } from './types';
+export type * from './types';
+
+let store: UsageStore | null = null;
+
+/**
+ * The usage store for this server process.
+ * USAGE_STORE_DIR overrides where the file store keeps its data (default: .data/usage).
+ */
+export function getUsageStore(): UsageStore {
+  if (!store) {
+    const directory = process.env.USAGE_STORE_DIR ?? path.join(process.cwd(), '.data', 'usage');
+    store = new FileUsageStore(directory);
+  }
+  return store;
+}
+
+/**
+ * Records one usage event without failing the caller; metering must never break a session
+ */
+export async function recordUsageEvent(userId: string, sessionId: string | undefined, event: UsageEvent): Promise<void> {
+  if (!sessionId) {
+    log.debug('No session to record', event.type, 'against');
+    return;
+  }
+  try {
+    await getUsageStore().record({ userId, sessionId, event });
+  } catch (error) {
+    log.error('Could not record', event.type, error);
+  }
+}
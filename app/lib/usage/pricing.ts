@@ -0,0 +1,28 @@
+import type { UsagePricing } from './types';
+
+// gpt-4o-transcribe, gpt-4o-mini and tts-1 list prices; deployments on other models should override them
+const DEFAULT_PRICING: UsagePricing = {
+  transcriptionPerMinute: 0.006,
+  llmInputPerMillionTokens: 0.15,
+  llmOutputPerMillionTokens: 0.6,
+  ttsPerMillionCharacters: 15,
+};
+
+function readPrice(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw !== undefined && raw !== '' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Prices used for cost estimates, overridable with USAGE_PRICE_TRANSCRIPTION_PER_MINUTE,
+ * USAGE_PRICE_LLM_INPUT_PER_MTOK, USAGE_PRICE_LLM_OUTPUT_PER_MTOK and USAGE_PRICE_TTS_PER_MCHAR (USD)
+ */
+export function getUsagePricing(): UsagePricing {
+  return {
+    transcriptionPerMinute: readPrice('USAGE_PRICE_TRANSCRIPTION_PER_MINUTE', DEFAULT_PRICING.transcriptionPerMinute),
+    llmInputPerMillionTokens: readPrice('USAGE_PRICE_LLM_INPUT_PER_MTOK', DEFAULT_PRICING.llmInputPerMillionTokens),
+    llmOutputPerMillionTokens: readPrice('USAGE_PRICE_LLM_OUTPUT_PER_MTOK', DEFAULT_PRICING.llmOutputPerMillionTokens),
+    ttsPerMillionCharacters: readPrice('USAGE_PRICE_TTS_PER_MCHAR', DEFAULT_PRICING.ttsPerMillionCharacters),
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { estimateCost, summarizeUsage, summarizeUsageBySession } from './summary';
+import type { UsageEvent, UsagePricing, UsageRecord } from './types';
+
+const pricing: UsagePricing = {
+  transcriptionPerMinute: 0.006,
+  llmInputPerMillionTokens: 2.5,
+  llmOutputPerMillionTokens: 10,
+  ttsPerMillionCharacters: 15,
+};
+
+let nextId = 0;
+function record(sessionId: string, recordedAt: string, event: UsageEvent): UsageRecord {
+  return { id: `r${++nextId}`, userId: 'u1', sessionId, recordedAt, event };
+}
+
+describe('estimateCost', () => {
+  it('prices audio, tokens and speech', () => {
+    expect(estimateCost({ audioMs: 90000, promptTokens: 1000, completionTokens: 200, ttsCharacters: 2000 }, pricing))
+      .toEqual({ currency: 'USD', transcription: 0.009, llm: 0.0045, tts: 0.03, total: 0.0435 });
+  });
+
+  it('rounds to a hundredth of a cent', () => {
+    expect(estimateCost({ audioMs: 1000, promptTokens: 0, completionTokens: 0, ttsCharacters: 0 }, pricing).transcription)
+      .toBe(0.0001);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('adds up records in any order', () => {
+    const summary = summarizeUsage([
+      record('s1', '2026-03-01T10:05:00.000Z', { type: 'llm_tokens', promptTokens: 1000, completionTokens: 200 }),
+      record('s1', '2026-03-01T10:00:00.000Z', { type: 'ephemeral_key_issued' }),
+      record('s1', '2026-03-01T10:01:00.000Z', { type: 'audio_connected', durationMs: 60000 }),
+      record('s1', '2026-03-01T10:02:00.000Z', { type: 'audio_connected', durationMs: 30000 }),
+      record('s1', '2026-03-01T10:03:00.000Z', { type: 'transcript_completed', characters: 42 }),
+      record('s1', '2026-03-01T10:04:00.000Z', { type: 'tts_characters', characters: 2000 }),
+    ], pricing);
+
+    expect(summary).toEqual({
+      ephemeralKeys: 1,
+      audioMs: 90000,
+      transcripts: 1,
+      transcriptCharacters: 42,
+      promptTokens: 1000,
+      completionTokens: 200,
+      ttsCharacters: 2000,
+      estimatedCost: { currency: 'USD', transcription: 0.009, llm: 0.0045, tts: 0.03, total: 0.0435 },
+      firstRecordedAt: '2026-03-01T10:00:00.000Z',
+      lastRecordedAt: '2026-03-01T10:05:00.000Z',
+    });
+  });
+
+  it('is all zeros without records', () => {
+    const summary = summarizeUsage([], pricing);
+    expect(summary.estimatedCost.total).toBe(0);
+    expect(summary.firstRecordedAt).toBeUndefined();
+  });
+});
+
+describe('summarizeUsageBySession', () => {
+  it('lists the most recently active session first', () => {
+    const summaries = summarizeUsageBySession([
+      record('old', '2026-03-01T09:00:00.000Z', { type: 'ephemeral_key_issued' }),
+      record('new', '2026-03-02T09:00:00.000Z', { type: 'ephemeral_key_issued' }),
+      record('old', '2026-03-01T09:30:00.000Z', { type: 'ephemeral_key_issued' }),
+    ], pricing);
+    expect(summaries.map(({ sessionId, summary }) => [sessionId, summary.ephemeralKeys])).toEqual([['new', 1], ['old', 2]]);
+  });
+});
@@ -0,0 +1,79 @@
+import type { CostEstimate, SessionUsageSummary, UsagePricing, UsageRecord, UsageSummary } from './types';
+
+// Costs are estimates; rounding to a hundredth of a cent keeps small sessions visible
+function roundCost(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+export function estimateCost(
+  { audioMs, promptTokens, completionTokens, ttsCharacters }: Pick<UsageSummary, 'audioMs' | 'promptTokens' | 'completionTokens' | 'ttsCharacters'>,
+  pricing: UsagePricing
+): CostEstimate {
+  const transcription = (audioMs / 60000) * pricing.transcriptionPerMinute;
+  const llm = (promptTokens * pricing.llmInputPerMillionTokens + completionTokens * pricing.llmOutputPerMillionTokens) / 1_000_000;
+  const tts = (ttsCharacters * pricing.ttsPerMillionCharacters) / 1_000_000;
+  return {
+    currency: 'USD',
+    transcription: roundCost(transcription),
+    llm: roundCost(llm),
+    tts: roundCost(tts),
+    total: roundCost(transcription + llm + tts),
+  };
+}
+
+/**
+ * Adds up usage records, in any order, into totals and an estimated cost
+ */
+export function summarizeUsage(records: UsageRecord[], pricing: UsagePricing): UsageSummary {
+  const totals = {
+    ephemeralKeys: 0,
+    audioMs: 0,
+    transcripts: 0,
+    transcriptCharacters: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    ttsCharacters: 0,
+  };
+  let firstRecordedAt: string | undefined;
+  let lastRecordedAt: string | undefined;
+
+  for (const { event, recordedAt } of records) {
+    switch (event.type) {
+      case 'ephemeral_key_issued':
+        totals.ephemeralKeys += 1;
+        break;
+      case 'audio_connected':
+        totals.audioMs += event.durationMs;
+        break;
+      case 'transcript_completed':
+        totals.transcripts += 1;
+        totals.transcriptCharacters += event.characters;
+        break;
+      case 'llm_tokens':
+        totals.promptTokens += event.promptTokens;
+        totals.completionTokens += event.completionTokens;
+        break;
+      case 'tts_characters':
+        totals.ttsCharacters += event.characters;
+        break;
+    }
+    if (!firstRecordedAt || recordedAt < firstRecordedAt) firstRecordedAt = recordedAt;
+    if (!lastRecordedAt || recordedAt > lastRecordedAt) lastRecordedAt = recordedAt;
+  }
+
+  return { ...totals, estimatedCost: estimateCost(totals, pricing), firstRecordedAt, lastRecordedAt };
+}
+
+/**
+ * One summary per session, most recently active first
+ */
+export function summarizeUsageBySession(records: UsageRecord[], pricing: UsagePricing): SessionUsageSummary[] {
+  const bySession = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    bySession.set(record.sessionId, [...(bySession.get(record.sessionId) ?? []), record]);
+  }
+  return Array.from(bySession, ([sessionId, sessionRecords]) => ({
+    sessionId,
+    summary: summarizeUsage(sessionRecords, pricing),
+  })).sort((a, b) => (b.summary.lastRecordedAt ?? '').localeCompare(a.summary.lastRecordedAt ?? ''));
+}
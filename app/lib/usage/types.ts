@@ -0,0 +1,77 @@
+/**
+ * Usage metering: what a session consumed, recorded per user and per session.
+ * These are plain data so they can cross the server action boundary.
+ */
+
+/** Recorded for a user who is not signed in, e.g. LLM calls from an open page */
+export const ANONYMOUS_USER_ID = 'anonymous';
+
+export type UsageEvent =
+  /** An ephemeral transcription key was issued */
+  | { type: 'ephemeral_key_issued' }
+  /** A stretch of time the transcription connection was up and streaming audio */
+  | { type: 'audio_connected'; durationMs: number }
+  /** An utterance's transcript completed */
+  | { type: 'transcript_completed'; characters: number }
+  /** Tokens spent on one LLM decision */
+  | { type: 'llm_tokens'; promptTokens: number; completionTokens: number }
+  /** Characters of a reply read aloud by a paid TTS provider */
+  | { type: 'tts_characters'; characters: number };
+
+export type UsageEventType = UsageEvent['type'];
+
+/** The events the client reports; keys, tokens and speech are only ever recorded by the server */
+export type ClientUsageEvent = Extract<UsageEvent, { type: 'audio_connected' | 'transcript_completed' }>;
+
+export interface UsageRecord {
+  id: string;
+  userId: string;
+  sessionId: string;
+  /** ISO 8601 */
+  recordedAt: string;
+  event: UsageEvent;
+}
+
+export interface UsageQuery {
+  userId?: string;
+  sessionId?: string;
+}
+
+export interface UsageStore {
+  record(record: Omit<UsageRecord, 'id' | 'recordedAt'>): Promise<UsageRecord>;
+  list(query?: UsageQuery): Promise<UsageRecord[]>;
+}
+
+/** Prices in USD, used to estimate what usage cost */
+export interface UsagePricing {
+  transcriptionPerMinute: number;
+  llmInputPerMillionTokens: number;
+  llmOutputPerMillionTokens: number;
+  ttsPerMillionCharacters: number;
+}
+
+export interface CostEstimate {
+  currency: 'USD';
+  transcription: number;
+  llm: number;
+  tts: number;
+  total: number;
+}
+
+export interface UsageSummary {
+  ephemeralKeys: number;
+  audioMs: number;
+  transcripts: number;
+  transcriptCharacters: number;
+  promptTokens: number;
+  completionTokens: number;
+  ttsCharacters: number;
+  estimatedCost: CostEstimate;
+  firstRecordedAt?: string;
+  lastRecordedAt?: string;
+}
+
+export interface SessionUsageSummary {
+  sessionId: string;
+  summary: UsageSummary;
+}
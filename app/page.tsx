@@ -1,10 +1,8 @@
-import Image from "next/image";
-import GuidedSession from "./guided-session/page";
+import { redirect } from "next/navigation";
 
+export const dynamic = "force-dynamic";
+
+// Each visit gets a guided session of its own
 export default function Home() {
-  return (
-    <div className="grid grid-rows-[20px_1fr_20px] items-center justify-items-center min-h-screen p-8 pb-20 gap-16 sm:p-20 font-[family-name:var(--font-geist-sans)]">
-      <GuidedSession />
-    </div>
-  );
+  redirect("/guided-session");
 }
@@ -0,0 +1,165 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { getAuthAdapter } from '../lib/auth';
+import { getSessionSearchIndex } from '../lib/sessions/search';
+import type { SessionFilters, SessionSummary } from '../lib/sessions/search';
+import DeleteSessionForm from '../lib/ui/sessions/DeleteSessionForm';
+import HighlightedSnippet from '../lib/ui/sessions/HighlightedSnippet';
+import SessionTagsForm from '../lib/ui/sessions/SessionTagsForm';
+import { formatSessionDate, formatSessionDuration, sessionMessageHref } from '../lib/ui/sessions/format';
+import { createLogger } from '../lib/logging';
+
+const log = createLogger('SessionsPage');
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+
+// Sessions change between requests, so never prerender this page
+export const dynamic = 'force-dynamic';
+
+interface SessionsPageProps {
+  searchParams?: Promise<{ q?: string; from?: string; to?: string; tag?: string }>;
+}
+
+function SessionMeta({ session }: { session: SessionSummary }) {
+  return (
+    <p className="text-xs text-gray-500 dark:text-gray-400">
+      {formatSessionDate(session.createdAt)} · {formatSessionDuration(session.durationMs)} ·{' '}
+      {session.messageCount} {session.messageCount === 1 ? 'message' : 'messages'}
+      {session.tags.map((tag) => (
+        <Link
+          key={tag}
+          href={`/sessions?tag=${encodeURIComponent(tag)}`}
+          className="ml-2 px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800"
+        >
+          #{tag}
+        </Link>
+      ))}
+    </p>
+  );
+}
+
+/**
+ * The signed-in user's stored sessions, newest first. ?q= searches their transcripts; ?from=, ?to= (YYYY-MM-DD)
+ * and ?tag= filter them. Visitors who are not signed in are sent to sign in first.
+ */
+export default async function SessionsPage({ searchParams }: SessionsPageProps) {
+  const user = await getAuthAdapter().getCurrentUser();
+  if (!user) {
+    redirect('/sign-in?next=%2Fsessions');
+  }
+  const { q = '', from, to, tag } = (await searchParams) ?? {};
+  const query = q.trim();
+  const filters: SessionFilters = {
+    from: from && DATE_PARAM.test(from) ? from : undefined,
+    to: to && DATE_PARAM.test(to) ? to : undefined,
+    tag: tag || undefined,
+  };
+  log.debug('Rendering sessions, query length:', query.length, 'filters:', JSON.stringify(filters));
+
+  const index = await getSessionSearchIndex(user.id);
+  const allTags = Array.from(new Set(index.list().flatMap((session) => session.tags))).sort();
+  const results = query ? index.search(query, filters) : null;
+  const sessions = results ? [] : index.list(filters);
+
+  return (
+    <div className="p-4 max-w-4xl mx-auto">
+      <div className="flex items-center gap-4 mb-6">
+        <h1 className="text-2xl font-bold">Sessions</h1>
+        <Link href="/guided-session" prefetch={false} className="ml-auto text-sm underline">
+          New session
+        </Link>
+      </div>
+
+      <form role="search" className="flex flex-wrap items-end gap-2 mb-6 text-sm">
+        <label className="flex flex-col flex-1 min-w-48">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Search transcripts</span>
+          <input
+            type="search"
+            name="q"
+            defaultValue={query}
+            placeholder='Words or "an exact phrase"'
+            className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+          />
+        </label>
+        <label className="flex flex-col">
+          <span className="text-xs text-gray-500 dark:text-gray-400">From</span>
+          <input type="date" name="from" defaultValue={filters.from} className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-transparent" />
+        </label>
+        <label className="flex flex-col">
+          <span className="text-xs text-gray-500 dark:text-gray-400">To</span>
+          <input type="date" name="to" defaultValue={filters.to} className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-transparent" />
+        </label>
+        <label className="flex flex-col">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Tag</span>
+          <select name="tag" defaultValue={filters.tag ?? ''} className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-transparent">
+            <option value="">Any</option>
+            {allTags.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </label>
+        <button type="submit" className="px-3 py-1 rounded bg-blue-500 text-white">
+          Search
+        </button>
+        <Link href="/sessions" className="px-3 py-1 rounded border border-gray-300 dark:border-gray-600">
+          Clear
+        </Link>
+      </form>
+
+      {results ? (
+        <section aria-label="Search results">
+          <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+            {results.length === 0
+              ? 'No messages match your search.'
+              : `Matches in ${results.length} ${results.length === 1 ? 'session' : 'sessions'}`}
+          </p>
+          <ul className="space-y-4">
+            {results.map(({ session, hits }) => (
+              <li key={session.id} className="p-3 rounded border border-gray-200 dark:border-gray-700">
+                <Link href={sessionMessageHref(session.id)} className="font-semibold hover:underline">
+                  {session.title}
+                </Link>
+                <SessionMeta session={session} />
+                <ul className="mt-2 space-y-1 text-sm">
+                  {hits.map((hit) => (
+                    <li key={hit.messageId}>
+                      <Link
+                        href={sessionMessageHref(session.id, hit.messageId)}
+                        className="block px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+                      >
+                        <span className="mr-2 text-xs uppercase text-gray-500 dark:text-gray-400">
+                          {hit.sender === 'user' ? 'You' : 'AI'}
+                        </span>
+                        <HighlightedSnippet snippet={hit.snippet} />
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ) : (
+        <section aria-label="Sessions">
+          {sessions.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No stored sessions match these filters.</p>
+          )}
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex flex-wrap items-center gap-2 py-3">
+                <div className="flex-1 min-w-0">
+                  <Link href={sessionMessageHref(session.id)} className="font-semibold hover:underline">
+                    {session.title}
+                  </Link>
+                  <SessionMeta session={session} />
+                </div>
+                <SessionTagsForm sessionId={session.id} tags={session.tags} />
+                <DeleteSessionForm sessionId={session.id} title={session.title} />
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
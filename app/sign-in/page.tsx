@@ -0,0 +1,34 @@
+import { signIn } from '../lib/actions/auth/auth-actions';
+
+interface SignInPageProps {
+  searchParams?: Promise<{ next?: string }>;
+}
+
+/**
+ * Local sign-in for the signed-cookie auth adapter
+ */
+export default async function SignInPage({ searchParams }: SignInPageProps) {
+  const { next } = (await searchParams) ?? {};
+
+  return (
+    <div className="flex items-center justify-center p-4 min-h-[60vh]">
+      <form action={signIn} className="flex flex-col gap-3 w-full max-w-xs">
+        <h1 className="text-2xl font-bold text-center">Sign in</h1>
+        <label className="flex flex-col gap-1 text-sm">
+          Name
+          <input
+            name="name"
+            required
+            maxLength={40}
+            autoComplete="username"
+            className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+          />
+        </label>
+        <input type="hidden" name="next" value={next ?? ''} />
+        <button type="submit" className="px-3 py-1 rounded bg-blue-500 hover:bg-blue-600 text-white">
+          Continue
+        </button>
+      </form>
+    </div>
+  );
+}